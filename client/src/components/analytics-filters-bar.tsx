@@ -0,0 +1,136 @@
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DTE_BUCKETS, WEEKDAYS, type AnalyticsFilters } from '@shared/analytics';
+import type { PlaybookStrategy } from '@shared/schema';
+
+export type AnalyticsFilterValues = Partial<AnalyticsFilters>;
+
+interface AnalyticsFiltersBarProps {
+  filters: AnalyticsFilterValues;
+  onChange: (filters: AnalyticsFilterValues) => void;
+}
+
+const TIME_CLASSIFICATIONS = ['Cash Open', 'Euro Close', 'Power Hour', 'Other'];
+const ALL = 'all';
+
+// Filters for the performance report; every control narrows the trades the metrics are computed from
+export default function AnalyticsFiltersBar({ filters, onChange }: AnalyticsFiltersBarProps) {
+  const { data: strategies = [] } = useQuery<PlaybookStrategy[]>({
+    queryKey: ['/api/playbook-strategies'],
+  });
+
+  const set = <K extends keyof AnalyticsFilterValues>(key: K, value: AnalyticsFilterValues[K] | undefined) => {
+    onChange({ ...filters, [key]: value === '' ? undefined : value });
+  };
+
+  const selectValue = (value: string | number | undefined) => (value === undefined ? ALL : value.toString());
+  const fromSelect = (value: string) => (value === ALL ? undefined : value);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button size="sm" variant={filters.groupBy !== 'chain' ? 'default' : 'outline'} onClick={() => set('groupBy', 'trade')}>
+          By Trade
+        </Button>
+        <Button size="sm" variant={filters.groupBy === 'chain' ? 'default' : 'outline'} onClick={() => set('groupBy', 'chain')}>
+          By Roll Chain
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">From</Label>
+          <Input type="date" value={filters.from ?? ''} onChange={(e) => set('from', e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">To</Label>
+          <Input type="date" value={filters.to ?? ''} onChange={(e) => set('to', e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Ticker</Label>
+          <Input
+            placeholder="Any"
+            value={filters.ticker ?? ''}
+            onChange={(e) => set('ticker', e.target.value.toUpperCase())}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select value={selectValue(filters.type)} onValueChange={(value) => set('type', fromSelect(value) as AnalyticsFilters['type'])}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              <SelectItem value="calls">Calls</SelectItem>
+              <SelectItem value="puts">Puts</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Strategy</Label>
+          <Select
+            value={selectValue(filters.playbookId)}
+            onValueChange={(value) => set('playbookId', value === ALL ? undefined : parseInt(value))}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All strategies</SelectItem>
+              {strategies.map(strategy => (
+                <SelectItem key={strategy.id} value={strategy.id.toString()}>{strategy.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Time of Day</Label>
+          <Select value={selectValue(filters.timeClassification)} onValueChange={(value) => set('timeClassification', fromSelect(value))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any time</SelectItem>
+              {TIME_CLASSIFICATIONS.map(classification => (
+                <SelectItem key={classification} value={classification}>{classification}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Tag</Label>
+          <Input placeholder="Any" value={filters.tag ?? ''} onChange={(e) => set('tag', e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Weekday</Label>
+          <Select
+            value={selectValue(filters.weekday)}
+            onValueChange={(value) => set('weekday', value === ALL ? undefined : parseInt(value))}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any day</SelectItem>
+              {WEEKDAYS.map((weekday, index) => (
+                <SelectItem key={weekday} value={index.toString()}>{weekday}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Days to Expiration</Label>
+          <Select value={selectValue(filters.dteBucket)} onValueChange={(value) => set('dteBucket', fromSelect(value) as AnalyticsFilters['dteBucket'])}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any DTE</SelectItem>
+              {DTE_BUCKETS.map(bucket => (
+                <SelectItem key={bucket} value={bucket}>{bucket}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end">
+          <Button variant="outline" className="w-full" onClick={() => onChange({ groupBy: filters.groupBy })}>
+            Clear Filters
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,282 +2,327 @@ import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Upload, FileText, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, Undo2, Columns3 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { format } from 'date-fns';
+import ColumnMappingWizard from '@/components/column-mapping-wizard';
+import {
+  BROKER_ADAPTERS,
+  MATCHING_METHODS,
+  MATCHING_METHOD_LABELS,
+  fileHeaders,
+  headerSignature,
+  type MatchingMethod,
+  type ImportCommitResult,
+  type ImportPreview,
+  type ImportRow,
+  type ImportRowStatus,
+} from '@shared/broker-imports';
+import type { ColumnMapping, ImportBatch, ImportProfile } from '@shared/schema';
 
-interface ParsedTrade {
-  ticker: string;
-  type: 'calls' | 'puts';
-  quantity: number;
-  strikePrice: number;
-  entryPrice: number;
-  exitPrice: number;
-  expirationDate: string;
-  tradeDate: string;
-  pnl: number;
-  symbol: string; // Original E*TRADE symbol
+interface ImportFile {
+  content: string;
+  fileName: string;
 }
 
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  new: 'bg-green-600 text-white',
+  duplicate: 'bg-gray-500 text-white',
+  invalid: 'bg-red-600 text-white',
+};
+
+const RECENT_IMPORTS = 3;
+
+// The server's JSON body from an "<status>: <json>" request error
+const errorBody = (error: Error): { message?: string; headers?: string[] | null } | null => {
+  const body = error.message.match(/^\d{3}: ([\s\S]*)$/)?.[1];
+  try {
+    return body ? JSON.parse(body) : null;
+  } catch {
+    return null;
+  }
+};
+
+const errorMessage = (error: Error) => errorBody(error)?.message || error.message;
+
+// New rows in upload order: by expiration, so a trade can only be rolled from one uploaded before it
+const uploadOrder = (rows: ImportRow[]) =>
+  rows
+    .filter(row => row.status === 'new')
+    .map(row => row.row)
+    .sort((a, b) => rows[a].trade!.expirationDate.localeCompare(rows[b].trade!.expirationDate) || a - b);
+
+// Rows that `index` could have been rolled from: the same contract side, expiring earlier
+const rollCandidates = (rows: ImportRow[], rolledFrom: (number | null)[], index: number) => {
+  const order = uploadOrder(rows);
+  const trade = rows[index].trade!;
+  return order
+    .slice(0, order.indexOf(index))
+    .filter(candidate =>
+      rows[candidate].trade!.ticker === trade.ticker &&
+      rows[candidate].trade!.type === trade.type &&
+      rows[candidate].trade!.direction === trade.direction &&
+      !rolledFrom.some((from, other) => other !== index && from === candidate)
+    );
+};
+
+// Suggest each trade was rolled from the nearest earlier expiration on the same contract side
+const suggestRolls = (rows: ImportRow[]) => {
+  const rolledFrom: (number | null)[] = rows.map(() => null);
+  uploadOrder(rows).forEach(index => {
+    const candidates = rollCandidates(rows, rolledFrom, index)
+      .filter(candidate => rows[candidate].trade!.expirationDate < rows[index].trade!.expirationDate);
+    rolledFrom[index] = candidates.length > 0 ? candidates[candidates.length - 1] : null;
+  });
+  return rolledFrom;
+};
+
 interface BulkTradeUploadProps {
   onClose: () => void;
   onSuccess: () => void;
 }
 
 export default function BulkTradeUpload({ onClose, onSuccess }: BulkTradeUploadProps) {
-  const [parsedTrades, setParsedTrades] = useState<ParsedTrade[]>([]);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [rolledFrom, setRolledFrom] = useState<(number | null)[]>([]);
   const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  // The columns chosen by hand for this file, when not applied from a saved profile
+  const [mapping, setMapping] = useState<ColumnMapping | undefined>();
+  const [mappingFile, setMappingFile] = useState<ImportFile | null>(null);
+  const [matching, setMatching] = useState<MatchingMethod>('fifo');
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  // Parse E*TRADE symbol format: -SPY250703C618
-  const parseSymbol = (symbol: string) => {
-    // Remove leading dash if present
-    const cleanSymbol = symbol.startsWith('-') ? symbol.substring(1) : symbol;
-    
-    // Match pattern: TICKER + YYMMDD + C/P + STRIKE
-    const match = cleanSymbol.match(/^([A-Z]+)(\d{6})([CP])(\d+)$/);
-    
-    if (!match) {
-      throw new Error(`Invalid symbol format: ${symbol}`);
-    }
-    
-    const [, ticker, dateStr, optionType, strikeStr] = match;
-    
-    // Parse date: YYMMDD
-    const year = 2000 + parseInt(dateStr.substring(0, 2));
-    const month = parseInt(dateStr.substring(2, 4)) - 1; // Month is 0-indexed
-    const day = parseInt(dateStr.substring(4, 6));
-    const expirationDate = new Date(year, month, day);
-    
-    // Parse strike price (divide by 1000 for standard format)
-    const strikePrice = parseInt(strikeStr) / 1000;
-    
-    return {
-      ticker,
-      type: optionType === 'C' ? 'calls' as const : 'puts' as const,
-      strikePrice,
-      expirationDate: expirationDate.toISOString().split('T')[0]
-    };
+  const { data: batches = [] } = useQuery<ImportBatch[]>({ queryKey: ['/api/imports'] });
+  const { data: profiles = [] } = useQuery<ImportProfile[]>({ queryKey: ['/api/import-profiles'] });
+
+  const invalidateTrades = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/imports'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
   };
 
-  // Parse CSV content
-  const parseCSV = (content: string): ParsedTrade[] => {
-    const lines = content.split('\n').filter(line => line.trim());
-    const trades: ParsedTrade[] = [];
-    
-    // Find the header row and data rows
-    let dataStartIndex = -1;
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].includes('Symbol') && lines[i].includes('Basis/Share') && lines[i].includes('Proceeds/Share')) {
-        dataStartIndex = i + 1;
-        break;
-      }
-    }
-    
-    if (dataStartIndex === -1) {
-      throw new Error('Could not find data header row. Please ensure the CSV includes Symbol, Basis/Share, Proceeds/Share columns.');
-    }
-    
-    for (let i = dataStartIndex; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line || line.startsWith('TOTALS')) continue;
-      
-      // Split by tabs or commas, handling quoted values
-      const columns = line.split(/\t|,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
-        .map(col => col.replace(/"/g, '').trim());
-      
-      if (columns.length < 8) continue; // Need at least symbol, basis, proceeds, quantity
-      
-      try {
-        const symbol = columns[0];
-        const basisStr = columns[1];
-        const proceedsStr = columns[2];
-        const quantityStr = columns[7]; // Quantity column
-        
-        // Skip if not a valid options symbol
-        if (!symbol.match(/^-?[A-Z]+\d{6}[CP]\d+$/)) continue;
-        
-        const symbolData = parseSymbol(symbol);
-        const entryPrice = parseFloat(basisStr);
-        const exitPrice = parseFloat(proceedsStr);
-        const quantity = parseInt(quantityStr);
-        const pnl = (exitPrice - entryPrice) * quantity * 100; // Options multiplier
-        
-        // Use today's date as trade date (can be edited later)
-        const today = new Date();
-        const tradeDate = today.toISOString().split('T')[0];
-        
-        trades.push({
-          ...symbolData,
-          entryPrice,
-          exitPrice,
-          quantity,
-          pnl,
-          tradeDate,
-          symbol
-        });
-      } catch (error) {
-        console.warn(`Skipping invalid row: ${line}`, error);
-      }
+  // The server reads the file and marks each trade new, duplicate or invalid
+  const previewMutation = useMutation({
+    mutationFn: async ({ file, tradeDate, mapping, matching }: {
+      file: ImportFile;
+      tradeDate: string;
+      mapping?: ColumnMapping;
+      matching: MatchingMethod;
+    }) => {
+      const response = await apiRequest('/api/imports', 'POST', { ...file, tradeDate, mapping, matching });
+      return response.json() as Promise<ImportPreview>;
+    },
+    onSuccess: (result, { file, mapping }) => {
+      // Reading the same file again on another date keeps the rolls chosen in the preview
+      const keepRolls = preview !== null && importFile === file && preview.rows.length === result.rows.length;
+      setImportFile(file);
+      setPreview(result);
+      setMapping(mapping);
+      setMappingFile(null);
+      setRolledFrom(keepRolls ? rolledFrom : suggestRolls(result.rows));
+      if (keepRolls) return;
+
+      const newTrades = result.rows.filter(row => row.status === 'new').length;
+      const duplicates = result.rows.filter(row => row.status === 'duplicate').length;
+      toast({
+        title: newTrades > 0 ? "File Parsed Successfully" : "No New Trades",
+        description: `${result.profile?.name ?? result.broker.label}: ${newTrades} new trades${duplicates > 0 ? `, ${duplicates} already recorded` : ''}.`,
+        variant: newTrades > 0 ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error, { file }) => {
+      setImportFile(null);
+      setPreview(null);
+      // A file no adapter or profile reads comes back with its header row, to map by hand
+      const unrecognized = errorBody(error)?.headers;
+      setMappingFile(unrecognized ? file : null);
+      toast({
+        title: "Parse Error",
+        description: unrecognized ? `${errorMessage(error)}. Map its columns to import it.` : errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Saving a profile for the file's header row lets the server apply it to this and later files
+  const profileMutation = useMutation({
+    mutationFn: async ({ file, name, mapping, profileId }: { file: ImportFile; name: string; mapping: ColumnMapping; profileId?: number }) => {
+      const profile = { name, headerSignature: headerSignature(fileHeaders(file.content) ?? []), mapping };
+      const response = profileId
+        ? await apiRequest(`/api/import-profiles/${profileId}`, 'PUT', profile)
+        : await apiRequest('/api/import-profiles', 'POST', profile);
+      return response.json() as Promise<ImportProfile>;
+    },
+    onSuccess: (profile, { file }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/import-profiles'] });
+      previewMutation.mutate({ file, tradeDate: selectedDate, matching });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to save the column mapping: ${errorMessage(error)}`, variant: "destructive" });
+    },
+  });
+
+  const mappedFile = mappingFile ?? importFile;
+  const editedProfile = profiles.find(profile => profile.id === preview?.profile?.id);
+
+  const applyMapping = (next: ColumnMapping, saveAs: string | null) => {
+    if (!mappedFile) return;
+    if (saveAs) {
+      profileMutation.mutate({ file: mappedFile, name: saveAs, mapping: next, profileId: editedProfile?.id });
+    } else {
+      previewMutation.mutate({ file: mappedFile, tradeDate: selectedDate, mapping: next, matching });
     }
-    
-    return trades;
   };
 
   // File drop handler
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
     if (!file) return;
-    
+
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        const trades = parseCSV(content);
-        
-        if (trades.length === 0) {
-          toast({
-            title: "No Trades Found",
-            description: "No valid options trades found in the uploaded file.",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        setParsedTrades(trades);
-        toast({
-          title: "File Parsed Successfully",
-          description: `Found ${trades.length} trades ready for upload.`,
-        });
-      } catch (error) {
-        toast({
-          title: "Parse Error",
-          description: error instanceof Error ? error.message : "Failed to parse file.",
-          variant: "destructive",
-        });
-      }
+      setMappingFile(null);
+      previewMutation.mutate({
+        file: { content: e.target?.result as string, fileName: file.name },
+        tradeDate: selectedDate,
+        matching,
+      });
     };
-    
+
     reader.readAsText(file);
-  }, [toast]);
+  }, [previewMutation, selectedDate, matching]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
       'text/plain': ['.txt'],
+      'text/xml': ['.xml'],
     },
     multiple: false,
   });
 
-  // Upload trades mutation
-  const uploadTradesMutation = useMutation({
-    mutationFn: async (trades: ParsedTrade[]) => {
-      const results = [];
-      setIsUploading(true);
-      setUploadProgress(0);
-      
-      for (let i = 0; i < trades.length; i++) {
-        const trade = trades[i];
-        try {
-          // Parse selected date properly to avoid timezone shifts
-          const [year, month, day] = selectedDate.split('-').map(Number);
-          const tradeDate = new Date(year, month - 1, day); // month is 0-indexed
-          const entryTime = new Date(year, month - 1, day, 9, 30, 0); // 9:30 AM CST
-          const exitTime = new Date(year, month - 1, day, 10, 0, 0); // 10:00 AM CST
-          
-          const result = await apiRequest('/api/trades', 'POST', {
-            ticker: trade.ticker,
-            type: trade.type,
-            quantity: trade.quantity,
-            strikePrice: trade.strikePrice,
-            entryPrice: trade.entryPrice,
-            exitPrice: trade.exitPrice,
-            entryTime: entryTime,
-            exitTime: exitTime,
-            expirationDate: new Date(trade.expirationDate),
-            tradeDate: tradeDate,
-            pnl: trade.pnl,
-            entryReason: `Imported from E*TRADE (${trade.symbol})`,
-            exitReason: "Imported trade",
-            playbookId: 1, // Default to first strategy, user can edit later
-          });
-          results.push({ success: true, trade, result });
-        } catch (error) {
-          results.push({ success: false, trade, error });
-        }
-        
-        setUploadProgress(((i + 1) / trades.length) * 100);
-      }
-      
-      return results;
+  // The fills are matched into trades again by the new method
+  const changeMatching = (method: MatchingMethod) => {
+    setMatching(method);
+    if (importFile) {
+      previewMutation.mutate({ file: importFile, tradeDate: selectedDate, mapping, matching: method });
+    }
+  };
+
+  // Files without dates are read again on the new date
+  const changeTradeDate = (tradeDate: string) => {
+    setSelectedDate(tradeDate);
+    if (importFile && preview && !preview.broker.datedFills) {
+      previewMutation.mutate({ file: importFile, tradeDate, mapping, matching });
+    }
+  };
+
+  // The new trades are committed as one batch, or not at all
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('/api/imports/commit', 'POST', {
+        ...importFile,
+        tradeDate: selectedDate,
+        mapping,
+        matching,
+        rolledFrom,
+      });
+      return response.json() as Promise<ImportCommitResult>;
     },
-    onSuccess: (results) => {
-      const successful = results.filter(r => r.success).length;
-      const failed = results.filter(r => !r.success).length;
-      
-      queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
-      
+    onSuccess: ({ imported, duplicates, invalid }) => {
+      invalidateTrades();
+      const skipped = [
+        duplicates > 0 ? `${duplicates} already recorded` : '',
+        invalid > 0 ? `${invalid} unreadable` : '',
+      ].filter(Boolean);
       toast({
         title: "Upload Complete",
-        description: `${successful} trades uploaded successfully${failed > 0 ? `, ${failed} failed` : ''}.`,
+        description: `${imported} trades imported${skipped.length > 0 ? `; skipped ${skipped.join(', ')}` : ''}.`,
       });
-      
-      if (successful > 0) {
-        onSuccess();
-      }
-      
-      setIsUploading(false);
-      setUploadProgress(0);
+      onSuccess();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Upload Failed",
-        description: "Failed to upload trades. Please try again.",
+        description: `${errorMessage(error)}. No trades were imported.`,
         variant: "destructive",
       });
-      setIsUploading(false);
-      setUploadProgress(0);
     },
   });
 
-  const handleUpload = () => {
-    if (parsedTrades.length === 0) return;
-    uploadTradesMutation.mutate(parsedTrades);
+  const undoMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/imports/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateTrades();
+      toast({ title: "Import Undone", description: "The trades it created were deleted." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to undo the import.", variant: "destructive" });
+    },
+  });
+
+  const setRowRolledFrom = (index: number, from: number | null) => {
+    setRolledFrom(current => current.map((value, i) => i === index ? from : value));
   };
 
+  const newTrades = preview?.rows.filter(row => row.status === 'new').length ?? 0;
+
   return (
     <Card className="w-full max-w-4xl mx-auto">
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Upload className="w-5 h-5" />
-          Bulk Trade Upload - E*TRADE Format
+          Bulk Trade Upload
+          {preview && <Badge variant="outline">{preview.profile?.name ?? preview.broker.label}</Badge>}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Date Selection */}
+        {/* Date Selection, for exports without trade dates */}
+        {!preview?.broker.datedFills && (
+          <div className="space-y-2">
+            <Label htmlFor="trade-date">Trade Date</Label>
+            <Input
+              id="trade-date"
+              type="date"
+              value={selectedDate}
+              onChange={(e) => changeTradeDate(e.target.value)}
+              className="w-full"
+            />
+            <p className="text-sm text-gray-600">
+              Files without trade dates (E*TRADE gains & losses) are assigned to this date
+            </p>
+          </div>
+        )}
+
+        {/* How fills are paired into trades */}
         <div className="space-y-2">
-          <Label htmlFor="trade-date">Trade Date</Label>
-          <Input
-            id="trade-date"
-            type="date"
-            value={selectedDate}
-            onChange={(e) => setSelectedDate(e.target.value)}
-            className="w-full"
-          />
+          <Label htmlFor="matching">Match Fills</Label>
+          <select
+            id="matching"
+            className="w-full bg-background border rounded px-2 py-1.5 text-sm"
+            value={matching}
+            onChange={(e) => changeMatching(e.target.value as MatchingMethod)}
+          >
+            {MATCHING_METHODS.map(method => (
+              <option key={method} value={method}>{MATCHING_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
           <p className="text-sm text-gray-600">
-            All imported trades will be assigned to this date
+            FIFO and LIFO make a trade of each opening fill; average cost makes one trade of each position from open until flat
           </p>
         </div>
 
@@ -293,10 +338,10 @@ export default function BulkTradeUpload({ onClose, onSuccess }: BulkTradeUploadP
           <input {...getInputProps()} />
           <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
           <p className="text-lg font-medium mb-2">
-            {isDragActive ? 'Drop the file here' : 'Drag & drop your E*TRADE CSV file here'}
+            {isDragActive ? 'Drop the file here' : 'Drag & drop your broker export here'}
           </p>
           <p className="text-sm text-muted-foreground">
-            Supports CSV exports from E*TRADE with options trades
+            The broker is detected from the file's header row
           </p>
         </div>
 
@@ -304,53 +349,110 @@ export default function BulkTradeUpload({ onClose, onSuccess }: BulkTradeUploadP
         <div className="bg-blue-50 dark:bg-blue-950/20 p-4 rounded-lg">
           <h4 className="font-semibold mb-2 flex items-center gap-2">
             <AlertCircle className="w-4 h-4" />
-            Expected Format
+            Supported Formats
           </h4>
-          <p className="text-sm mb-2">
-            E*TRADE CSV with columns: Symbol, Basis/Share, Proceeds/Share, Quantity
-          </p>
-          <div className="text-xs text-muted-foreground">
-            <p>Symbol format: -SPY250703C618 (Ticker + Date + Call/Put + Strike)</p>
-            <p>Basis/Share: Entry price per share</p>
-            <p>Proceeds/Share: Exit price per share</p>
+          <div className="text-xs text-muted-foreground space-y-1">
+            {BROKER_ADAPTERS.map(adapter => (
+              <p key={adapter.id}><span className="font-medium">{adapter.label}:</span> {adapter.formatHint}</p>
+            ))}
+            <p>Fills are matched into trades per contract, with their own times. Expirations and assignments are settled from the Expired Positions panel.</p>
+            <p>Trades already recorded are skipped, so the same file can be uploaded again safely.</p>
+            <p>Rolled From: Suggested from the same ticker and side expiring earlier; change it in the preview</p>
+            <p>Any other CSV can be read by mapping its columns; a saved mapping is applied to later files with the same header row.</p>
           </div>
         </div>
 
-        {/* Parsed Trades Preview */}
-        {parsedTrades.length > 0 && (
+        {/* Column mapping, for files no adapter reads or to correct how one was read */}
+        {mappingFile ? (
+          <ColumnMappingWizard
+            key={mappingFile.fileName}
+            headers={fileHeaders(mappingFile.content) ?? []}
+            initial={mapping ?? editedProfile?.mapping}
+            profileName={editedProfile?.name ?? mappingFile.fileName.replace(/\.\w+$/, '')}
+            isPending={profileMutation.isPending || previewMutation.isPending}
+            onApply={applyMapping}
+            onCancel={() => setMappingFile(null)}
+          />
+        ) : importFile && (
+          <Button variant="outline" size="sm" onClick={() => setMappingFile(importFile)}>
+            <Columns3 className="w-4 h-4 mr-1" />
+            Map Columns
+          </Button>
+        )}
+
+        {/* Preview */}
+        {preview && (
           <div>
-            <h4 className="font-semibold mb-4">
-              Parsed Trades ({parsedTrades.length})
+            <h4 className="font-semibold mb-2">
+              Preview ({newTrades} new of {preview.rows.length})
             </h4>
+            {preview.previousImport && (
+              <p className="text-sm text-amber-600 mb-2">
+                This file was already imported on {format(new Date(preview.previousImport.createdAt), 'MMM d, yyyy')}.
+              </p>
+            )}
             <div className="max-h-64 overflow-y-auto border rounded-lg">
               <table className="w-full text-sm">
                 <thead className="bg-muted sticky top-0">
                   <tr>
+                    <th className="p-2 text-left">Status</th>
                     <th className="p-2 text-left">Symbol</th>
+                    <th className="p-2 text-left">Date</th>
                     <th className="p-2 text-left">Type</th>
+                    <th className="p-2 text-left">Side</th>
                     <th className="p-2 text-left">Strike</th>
                     <th className="p-2 text-left">Qty</th>
                     <th className="p-2 text-left">Entry</th>
                     <th className="p-2 text-left">Exit</th>
                     <th className="p-2 text-left">P&L</th>
+                    <th className="p-2 text-left">Rolled From</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {parsedTrades.map((trade, index) => (
-                    <tr key={index} className="border-t">
-                      <td className="p-2">{trade.ticker}</td>
+                  {preview.rows.map(({ row, status, trade, message }) => (
+                    <tr key={row} className="border-t">
                       <td className="p-2">
-                        <Badge variant={trade.type === 'calls' ? 'default' : 'secondary'}>
-                          {trade.type}
-                        </Badge>
-                      </td>
-                      <td className="p-2">${trade.strikePrice}</td>
-                      <td className="p-2">{trade.quantity}</td>
-                      <td className="p-2">${trade.entryPrice.toFixed(2)}</td>
-                      <td className="p-2">${trade.exitPrice.toFixed(2)}</td>
-                      <td className={`p-2 ${trade.pnl > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                        ${trade.pnl.toFixed(0)}
+                        <Badge className={STATUS_CLASSES[status]} title={message ?? undefined}>{status}</Badge>
                       </td>
+                      {trade ? (
+                        <>
+                          <td className="p-2">{trade.ticker}</td>
+                          <td className="p-2">{trade.tradeDate}</td>
+                          <td className="p-2">
+                            <Badge variant={trade.type === 'calls' ? 'default' : 'secondary'}>
+                              {trade.type}
+                            </Badge>
+                          </td>
+                          <td className="p-2">{trade.direction === 'short' ? 'Short' : 'Long'}</td>
+                          <td className="p-2">${trade.strikePrice}</td>
+                          <td className="p-2">{trade.quantity}</td>
+                          <td className="p-2">${trade.entryPrice.toFixed(2)}</td>
+                          <td className="p-2">{trade.exitPrice !== null ? `$${trade.exitPrice.toFixed(2)}` : 'Open'}</td>
+                          <td className={`p-2 ${trade.pnl === null ? '' : trade.pnl > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {trade.pnl !== null ? `$${trade.pnl.toFixed(0)}` : '—'}
+                          </td>
+                          <td className="p-2">
+                            {status === 'new' ? (
+                              <select
+                                className="bg-background border rounded px-1 py-0.5"
+                                value={rolledFrom[row] ?? ''}
+                                onChange={(e) => setRowRolledFrom(row, e.target.value === '' ? null : parseInt(e.target.value))}
+                              >
+                                <option value="">—</option>
+                                {rollCandidates(preview.rows, rolledFrom, row).map(candidate => (
+                                  <option key={candidate} value={candidate}>
+                                    {preview.rows[candidate].trade!.symbol}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="text-muted-foreground">{message}</span>
+                            )}
+                          </td>
+                        </>
+                      ) : (
+                        <td className="p-2 text-muted-foreground" colSpan={10}>{message}</td>
+                      )}
                     </tr>
                   ))}
                 </tbody>
@@ -359,14 +461,26 @@ export default function BulkTradeUpload({ onClose, onSuccess }: BulkTradeUploadP
           </div>
         )}
 
-        {/* Upload Progress */}
-        {isUploading && (
-          <div>
-            <div className="flex items-center justify-between mb-2">
-              <span className="text-sm font-medium">Uploading trades...</span>
-              <span className="text-sm text-muted-foreground">{uploadProgress.toFixed(0)}%</span>
-            </div>
-            <Progress value={uploadProgress} className="w-full" />
+        {/* Recent imports, newest first */}
+        {batches.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">Recent Imports</h4>
+            {batches.slice(0, RECENT_IMPORTS).map(batch => (
+              <div key={batch.id} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+                <span>
+                  {batch.fileName ?? batch.broker} · {batch.tradeCount} trades · {format(new Date(batch.createdAt), 'MMM d, h:mm a')}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={undoMutation.isPending}
+                  onClick={() => undoMutation.mutate(batch.id)}
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Undo
+                </Button>
+              </div>
+            ))}
           </div>
         )}
 
@@ -375,13 +489,13 @@ export default function BulkTradeUpload({ onClose, onSuccess }: BulkTradeUploadP
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          {parsedTrades.length > 0 && (
-            <Button onClick={handleUpload} disabled={isUploading}>
-              {isUploading ? 'Uploading...' : `Upload ${parsedTrades.length} Trades`}
+          {newTrades > 0 && (
+            <Button onClick={() => commitMutation.mutate()} disabled={commitMutation.isPending || previewMutation.isPending}>
+              {commitMutation.isPending ? 'Uploading...' : `Upload ${newTrades} Trades`}
             </Button>
           )}
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
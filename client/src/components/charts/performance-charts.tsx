@@ -14,6 +14,9 @@ import {
   Filler,
 } from 'chart.js';
 import { Line, Bar, Pie, Scatter } from 'react-chartjs-2';
+import { CLOSE_REASON_LABELS, type CloseReason } from '@shared/settlement';
+import { KEY_LEVEL_TYPE_LABELS, type KeyLevelDay } from '@shared/key-levels';
+import { KEY_LEVEL_TYPES, type KeyLevelType } from '@shared/schema';
 
 ChartJS.register(
   CategoryScale,
@@ -210,6 +213,81 @@ export function TimeClassificationChart({ data }: TimeClassificationChartProps)
   return <Bar data={chartData} options={chartOptions} />;
 }
 
+interface DirectionPerformanceChartProps {
+  data: Record<string, number>;
+}
+
+export function DirectionPerformanceChart({ data }: DirectionPerformanceChartProps) {
+  const chartData = {
+    labels: Object.keys(data).map(direction => direction === 'short' ? 'Short' : 'Long'),
+    datasets: [
+      {
+        label: 'P&L by Direction',
+        data: Object.values(data),
+        backgroundColor: Object.values(data).map(value => 
+          value >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderColor: Object.values(data).map(value => 
+          value >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  return <Bar data={chartData} options={chartOptions} />;
+}
+
+interface CloseReasonPerformanceChartProps {
+  data: Record<string, number>;
+}
+
+export function CloseReasonPerformanceChart({ data }: CloseReasonPerformanceChartProps) {
+  const chartData = {
+    labels: Object.keys(data).map(reason => CLOSE_REASON_LABELS[reason as CloseReason] ?? reason),
+    datasets: [
+      {
+        label: 'P&L by Outcome',
+        data: Object.values(data),
+        backgroundColor: Object.values(data).map(value => 
+          value >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderColor: Object.values(data).map(value => 
+          value >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  return <Bar data={chartData} options={chartOptions} />;
+}
+
+interface MoneynessPerformanceChartProps {
+  data: Record<string, number>;
+}
+
+export function MoneynessPerformanceChart({ data }: MoneynessPerformanceChartProps) {
+  const chartData = {
+    labels: Object.keys(data),
+    datasets: [
+      {
+        label: 'P&L by Moneyness at Entry',
+        data: Object.values(data),
+        backgroundColor: Object.values(data).map(value => 
+          value >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderColor: Object.values(data).map(value => 
+          value >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  return <Bar data={chartData} options={chartOptions} />;
+}
+
 interface RiskRewardScatterChartProps {
   data: Array<{ x: number; y: number; id: number }>;
 }
@@ -253,6 +331,144 @@ export function RiskRewardScatterChart({ data }: RiskRewardScatterChartProps) {
   return <Scatter data={chartData} options={options} />;
 }
 
+interface PayoffChartProps {
+  expiration: Array<{ x: number; y: number }>; // underlying price → P&L at expiration
+  theoretical: Array<{ x: number; y: number }>; // underlying price → P&L on the simulated date
+  breakevens: number[];
+  maxProfit: number | null;
+  maxLoss: number | null;
+  selected: { x: number; y: number }; // the simulated price and its projected P&L
+}
+
+export function PayoffChart({ expiration, theoretical, breakevens, maxProfit, maxLoss, selected }: PayoffChartProps) {
+  const lowPrice = expiration[0]?.x ?? 0;
+  const highPrice = expiration[expiration.length - 1]?.x ?? 0;
+  const level = (label: string, value: number, color: string) => ({
+    label,
+    data: [{ x: lowPrice, y: value }, { x: highPrice, y: value }],
+    borderColor: color,
+    borderDash: [4, 4],
+    borderWidth: 1,
+    pointRadius: 0,
+  });
+
+  const chartData = {
+    datasets: [
+      {
+        label: 'At Expiration',
+        data: expiration,
+        borderColor: 'hsl(217, 91%, 60%)',
+        backgroundColor: 'hsla(217, 91%, 60%, 0.1)',
+        pointRadius: 0,
+        borderWidth: 2,
+      },
+      {
+        label: 'Simulated Date',
+        data: theoretical,
+        borderColor: 'hsl(38, 92%, 50%)',
+        pointRadius: 0,
+        borderWidth: 2,
+      },
+      {
+        label: 'Breakevens',
+        data: breakevens.map(price => ({ x: price, y: 0 })),
+        borderColor: 'hsl(210, 40%, 98%)',
+        backgroundColor: 'hsl(210, 40%, 98%)',
+        pointRadius: 4,
+        showLine: false,
+      },
+      {
+        label: 'Projected',
+        data: [selected],
+        borderColor: 'hsl(38, 92%, 50%)',
+        backgroundColor: 'hsl(38, 92%, 50%)',
+        pointRadius: 6,
+        showLine: false,
+      },
+      ...(maxProfit !== null ? [level('Max Profit', maxProfit, 'hsl(142, 76%, 36%)')] : []),
+      ...(maxLoss !== null ? [level('Max Loss', maxLoss, 'hsl(0, 84%, 60%)')] : []),
+    ],
+  };
+
+  const options = {
+    ...chartOptions,
+    interaction: { mode: 'nearest' as const, intersect: false },
+    scales: {
+      x: {
+        ...chartOptions.scales.x,
+        type: 'linear' as const,
+        min: lowPrice,
+        max: highPrice,
+        title: {
+          display: true,
+          text: 'Underlying Price ($)',
+          color: 'hsl(215, 20%, 65%)',
+        }
+      },
+      y: {
+        ...chartOptions.scales.y,
+        title: {
+          display: true,
+          text: 'P&L ($)',
+          color: 'hsl(215, 20%, 65%)',
+        }
+      }
+    }
+  };
+
+  return <Line data={chartData} options={options} />;
+}
+
+const KEY_LEVEL_COLORS: Record<KeyLevelType, string> = {
+  call_resistance: 'hsl(346, 87%, 43%)',
+  put_support: 'hsl(142, 76%, 36%)',
+  hvl: 'hsl(38, 92%, 50%)',
+  vault: 'hsl(271, 81%, 56%)',
+  vwap: 'hsl(189, 94%, 43%)',
+};
+
+interface KeyLevelHistoryChartProps {
+  days: KeyLevelDay[];
+}
+
+// One line per level type across sessions. A day with several prices of a type plots the one nearest
+// that day's reference price.
+export function KeyLevelHistoryChart({ days }: KeyLevelHistoryChartProps) {
+  const priceOf = (day: KeyLevelDay, levelType: KeyLevelType) => {
+    const prices = day.levels.filter(level => level.levelType === levelType).map(level => level.price);
+    if (prices.length === 0) return null;
+    const reference = day.referencePrice;
+    return reference === null
+      ? prices[0]
+      : prices.reduce((best, price) => (Math.abs(price - reference) < Math.abs(best - reference) ? price : best));
+  };
+
+  const chartData = {
+    labels: days.map(day => day.date),
+    datasets: [
+      ...KEY_LEVEL_TYPES.map(levelType => ({
+        label: KEY_LEVEL_TYPE_LABELS[levelType],
+        data: days.map(day => priceOf(day, levelType)),
+        borderColor: KEY_LEVEL_COLORS[levelType],
+        backgroundColor: KEY_LEVEL_COLORS[levelType],
+        spanGaps: true,
+        tension: 0.1,
+      })),
+      {
+        label: 'Reference Price',
+        data: days.map(day => day.referencePrice),
+        borderColor: 'hsl(210, 40%, 98%)',
+        borderDash: [4, 4],
+        borderWidth: 1,
+        pointRadius: 0,
+        spanGaps: true,
+      },
+    ],
+  };
+
+  return <Line data={chartData} options={chartOptions} />;
+}
+
 interface PnLDistributionChartProps {
   data: Record<string, number>;
 }
@@ -274,6 +490,31 @@ export function PnLDistributionChart({ data }: PnLDistributionChartProps) {
   return <Bar data={chartData} options={chartOptions} />;
 }
 
+interface RDistributionChartProps {
+  data: Record<string, number>;
+}
+
+export function RDistributionChart({ data }: RDistributionChartProps) {
+  const chartData = {
+    labels: Object.keys(data),
+    datasets: [
+      {
+        label: 'Trade Count',
+        data: Object.values(data),
+        backgroundColor: Object.keys(data).map(bucket => 
+          parseInt(bucket) >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderColor: Object.keys(data).map(bucket => 
+          parseInt(bucket) >= 0 ? 'hsl(142, 76%, 36%)' : 'hsl(346, 87%, 43%)'
+        ),
+        borderWidth: 1,
+      },
+    ],
+  };
+
+  return <Bar data={chartData} options={chartOptions} />;
+}
+
 interface StreakChartProps {
   streaks: Array<{ type: 'win' | 'loss'; length: number; start: number }>;
 }
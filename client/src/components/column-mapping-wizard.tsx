@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Columns3 } from 'lucide-react';
+import {
+  columnMappingSchema,
+  IMPORT_DATE_FORMATS,
+  IMPORT_NUMBER_FORMATS,
+  type ColumnMapping,
+} from '@shared/schema';
+
+type MappedField = Exclude<keyof ColumnMapping, 'symbolFormat' | 'dateFormat' | 'numberFormat'>;
+
+interface FieldOption {
+  field: MappedField;
+  label: string;
+  guess: RegExp; // header names the field is usually found under
+  required?: boolean;
+  symbolFormat?: ColumnMapping['symbolFormat']; // only shown for this contract format
+}
+
+const FIELDS: FieldOption[] = [
+  { field: 'symbol', label: 'Option Symbol', guess: /^(option )?symbol$|^contract$|description/i, required: true, symbolFormat: 'occ' },
+  { field: 'underlying', label: 'Underlying', guess: /underlying|^(root|ticker|symbol)$/i, required: true, symbolFormat: 'columns' },
+  { field: 'expiration', label: 'Expiration', guess: /^exp/i, required: true, symbolFormat: 'columns' },
+  { field: 'strike', label: 'Strike', guess: /strike/i, required: true, symbolFormat: 'columns' },
+  { field: 'callPut', label: 'Call/Put', guess: /call|put|right|^type$/i, required: true, symbolFormat: 'columns' },
+  { field: 'side', label: 'Side', guess: /side|action|buy|b\/s/i },
+  { field: 'quantity', label: 'Quantity', guess: /^(qty|quantity|contracts|size)/i, required: true },
+  { field: 'price', label: 'Price', guess: /price/i, required: true },
+  { field: 'date', label: 'Date', guess: /date|^time|timestamp/i, required: true },
+  { field: 'time', label: 'Time', guess: /^(exec(ution)? )?time$/i },
+  { field: 'commission', label: 'Commission', guess: /comm/i },
+  { field: 'fees', label: 'Fees', guess: /fee/i },
+];
+
+const SELECT_CLASS = 'w-full bg-background border rounded px-2 py-1 text-sm';
+
+// A first mapping from the header names, for the user to correct
+function guessMapping(headers: string[]): ColumnMapping {
+  const taken = new Set<string>();
+  const mapping: ColumnMapping = {
+    symbolFormat: 'occ',
+    quantity: '',
+    price: '',
+    date: '',
+    dateFormat: 'MM/DD/YYYY',
+    numberFormat: '1,234.56',
+  };
+  FIELDS.forEach(({ field, guess, symbolFormat }) => {
+    if (symbolFormat === 'columns') return;
+    const header = headers.find(header => guess.test(header) && !taken.has(header));
+    if (header) {
+      mapping[field] = header;
+      taken.add(header);
+    }
+  });
+  return mapping;
+}
+
+interface ColumnMappingWizardProps {
+  headers: string[]; // the file's header row
+  initial?: ColumnMapping;
+  profileName?: string; // name of the saved profile being edited, or a suggested name
+  isPending: boolean;
+  onApply: (mapping: ColumnMapping, saveAs: string | null) => void;
+  onCancel: () => void;
+}
+
+export default function ColumnMappingWizard({ headers, initial, profileName = '', isPending, onApply, onCancel }: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => initial ?? guessMapping(headers));
+  const [save, setSave] = useState(true);
+  const [name, setName] = useState(profileName);
+
+  const fields = FIELDS.filter(option => !option.symbolFormat || option.symbolFormat === mapping.symbolFormat);
+  const valid = columnMappingSchema.safeParse(mapping).success && (!save || name.trim() !== '');
+
+  const setField = (field: MappedField, header: string) => {
+    setMapping(current => ({ ...current, [field]: header || undefined }));
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2">
+          <Columns3 className="w-4 h-4" />
+          Map Columns
+        </h4>
+        <p className="text-sm text-muted-foreground">
+          Choose the column each trade field is read from. Without a side column, negative quantities are read as sells.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="symbol-format">Contract</Label>
+          <select
+            id="symbol-format"
+            className={SELECT_CLASS}
+            value={mapping.symbolFormat}
+            onChange={(e) => setMapping(current => ({ ...current, symbolFormat: e.target.value as ColumnMapping['symbolFormat'] }))}
+          >
+            <option value="occ">One option symbol (OCC)</option>
+            <option value="columns">Separate columns</option>
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="date-format">Date Format</Label>
+          <select
+            id="date-format"
+            className={SELECT_CLASS}
+            value={mapping.dateFormat}
+            onChange={(e) => setMapping(current => ({ ...current, dateFormat: e.target.value as ColumnMapping['dateFormat'] }))}
+          >
+            {IMPORT_DATE_FORMATS.map(dateFormat => <option key={dateFormat} value={dateFormat}>{dateFormat}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="number-format">Number Format</Label>
+          <select
+            id="number-format"
+            className={SELECT_CLASS}
+            value={mapping.numberFormat}
+            onChange={(e) => setMapping(current => ({ ...current, numberFormat: e.target.value as ColumnMapping['numberFormat'] }))}
+          >
+            {IMPORT_NUMBER_FORMATS.map(numberFormat => <option key={numberFormat} value={numberFormat}>{numberFormat}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {fields.map(({ field, label, required }) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`column-${field}`}>{label}{required ? ' *' : ''}</Label>
+            <select
+              id={`column-${field}`}
+              className={SELECT_CLASS}
+              value={mapping[field] ?? ''}
+              onChange={(e) => setField(field, e.target.value)}
+            >
+              <option value="">{required ? 'Choose a column' : 'Not in file'}</option>
+              {headers.filter(Boolean).map(header => <option key={header} value={header}>{header}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Checkbox id="save-profile" checked={save} onCheckedChange={(checked) => setSave(checked === true)} />
+          <Label htmlFor="save-profile">Save for files with these columns as</Label>
+        </div>
+        <Input
+          className="sm:max-w-xs"
+          value={name}
+          disabled={!save}
+          placeholder="Profile name"
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button disabled={!valid || isPending} onClick={() => onApply(mapping, save ? name.trim() : null)}>
+          {isPending ? 'Reading...' : 'Apply Mapping'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ClipboardCheck } from 'lucide-react';
+import type { DailyScorecard, MarketDirection } from '@shared/scorecard';
+
+interface DailyScorecardCardProps {
+  scorecard: DailyScorecard;
+}
+
+const DIRECTION_LABELS: Record<MarketDirection, string> = {
+  bullish: 'Bullish',
+  bearish: 'Bearish',
+  neutral: 'Neutral',
+};
+
+const formatMoney = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+function CheckBadge({ passed, pending }: { passed: boolean | null; pending: string }) {
+  if (passed === null) return <Badge variant="outline">{pending}</Badge>;
+  return <Badge variant={passed ? 'default' : 'destructive'}>{passed ? 'Yes' : 'No'}</Badge>;
+}
+
+// The day's premarket plan against the market's close and the trades taken
+export default function DailyScorecardCard({ scorecard }: DailyScorecardCardProps) {
+  const tradeCount = scorecard.trades.length;
+  const levelChecked = scorecard.trades.filter(trade => trade.atLevel !== null).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" />
+            Plan vs Execution
+          </span>
+          {scorecard.score !== null && (
+            <Badge variant={scorecard.score >= 50 ? 'default' : 'destructive'}>{scorecard.score}/100</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+          <div className="space-y-1">
+            <h4 className="font-medium">Planned</h4>
+            <p className="text-muted-foreground">
+              {scorecard.plannedDirection ? DIRECTION_LABELS[scorecard.plannedDirection] : 'No direction'}
+              {scorecard.gammaEnvironment && ` · ${scorecard.gammaEnvironment} gamma`}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <h4 className="font-medium">Day Result</h4>
+            <p className="text-muted-foreground">
+              {scorecard.dayResult
+                ? `${DIRECTION_LABELS[scorecard.dayResult]} (${scorecard.dayMove! >= 0 ? '+' : ''}${scorecard.dayMove!.toFixed(2)})`
+                : 'Enter the close in Premarket Analysis'}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <h4 className="font-medium">Bias Matched</h4>
+            <CheckBadge passed={scorecard.biasMatched} pending={scorecard.bias ? 'Awaiting close' : 'No bias'} />
+          </div>
+          <div className="space-y-1">
+            <h4 className="font-medium">Trades With Plan</h4>
+            <p className="text-muted-foreground">
+              {scorecard.plannedDirection ? `${scorecard.tradesWithPlan}/${tradeCount}` : 'N/A'}
+              {levelChecked > 0 && ` · ${scorecard.tradesAtLevel}/${levelChecked} at a level`}
+            </p>
+          </div>
+        </div>
+
+        {scorecard.tradesAgainstPlan > 0 && (
+          <div className="p-3 rounded border border-red-300 bg-red-50 dark:bg-red-950/30 dark:border-red-800 text-sm">
+            {scorecard.tradesAgainstPlan} trade{scorecard.tradesAgainstPlan === 1 ? '' : 's'} taken against the planned
+            direction, for {formatMoney(scorecard.againstPlanPnL)}.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,163 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { DEFAULT_EVENT_TIME_ZONE, EVENT_TIME_ZONES } from '@shared/economic-calendar';
+import type { EconomicEvent, EconomicImpact } from '@shared/schema';
+
+const UPCOMING_DAYS = 14;
+
+const TIME_ZONE_LABELS: Record<typeof EVENT_TIME_ZONES[number], string> = {
+  'America/New_York': 'Eastern',
+  'America/Chicago': 'Central',
+  'UTC': 'UTC',
+};
+
+const IMPACT_CLASSES: Record<EconomicImpact, string> = {
+  high: 'bg-red-600 text-white',
+  medium: 'bg-yellow-600 text-white',
+  low: 'bg-gray-600 text-white',
+};
+
+const localDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const invalidateEvents = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/economic-events'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+};
+
+// Economic releases imported from an ICS or CSV calendar. Today's events fill in the premarket
+// checklist, and trades entered around one are tagged with it.
+export default function EconomicCalendarCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [timeZone, setTimeZone] = useState<typeof EVENT_TIME_ZONES[number]>(DEFAULT_EVENT_TIME_ZONE);
+
+  const from = localDate(new Date());
+  const to = localDate(new Date(Date.now() + UPCOMING_DAYS * 24 * 60 * 60 * 1000));
+  const { data: events = [] } = useQuery<EconomicEvent[]>({
+    queryKey: ['/api/economic-events', from, to],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/economic-events?from=${from}&to=${to}`, 'GET');
+      return response.json();
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async ({ content, fileName }: { content: string; fileName: string }) => {
+      const response = await apiRequest('/api/economic-events/import', 'POST', { content, fileName, timeZone });
+      return response.json() as Promise<{ imported: number; skipped: number; errors: string[] }>;
+    },
+    onSuccess: ({ imported, skipped, errors }) => {
+      invalidateEvents(queryClient);
+      const notes = [
+        skipped > 0 ? `${skipped} already imported` : '',
+        errors.length > 0 ? `${errors.length} could not be read` : '',
+      ].filter(Boolean);
+      toast({
+        title: 'Calendar imported',
+        description: `Imported ${imported} event(s)${notes.length > 0 ? `; ${notes.join(', ')}` : ''}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'No events found. Use an ICS calendar, or a CSV with Date, Time, Event and optional Impact columns.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/economic-events/${id}`, 'DELETE'),
+    onSuccess: () => invalidateEvents(queryClient),
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete the event.', variant: 'destructive' });
+    },
+  });
+
+  const handleImportFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => importMutation.mutate({ content: e.target?.result as string, fileName: file.name });
+    reader.readAsText(file);
+  };
+
+  const days = events.reduce<Array<{ date: string; events: EconomicEvent[] }>>((grouped, event) => {
+    const date = localDate(new Date(event.eventTime));
+    const last = grouped[grouped.length - 1];
+    if (last?.date === date) last.events.push(event);
+    else grouped.push({ date, events: [event] });
+    return grouped;
+  }, []);
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-4 flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-lg text-white">Economic Calendar</CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={timeZone} onValueChange={(value) => setTimeZone(value as typeof EVENT_TIME_ZONES[number])}>
+            <SelectTrigger className="w-32 h-9 bg-gray-900 border-gray-600 text-white" aria-label="Calendar time zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EVENT_TIME_ZONES.map(zone => (
+                <SelectItem key={zone} value={zone}>{TIME_ZONE_LABELS[zone]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input ref={fileInputRef} type="file" accept=".ics,.csv,.txt" className="hidden" onChange={handleImportFile} />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={importMutation.isPending}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import Calendar (ICS/CSV)
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {days.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No events in the next {UPCOMING_DAYS} days. Times without a zone in the file are read as the zone selected.
+          </p>
+        ) : (
+          days.map(day => (
+            <div key={day.date} className="rounded border border-gray-700 p-3 space-y-2">
+              <p className="text-sm text-white font-medium">{format(new Date(day.events[0].eventTime), 'EEE, MMM d')}</p>
+              {day.events.map(event => (
+                <div key={event.id} className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-400 w-20">
+                    {event.allDay ? 'All day' : format(new Date(event.eventTime), 'h:mm a')}
+                  </span>
+                  <span className="text-gray-200 flex-1">{event.name}</span>
+                  <Badge className={IMPACT_CLASSES[event.impact as EconomicImpact]}>{event.impact}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-400 hover:text-red-400"
+                    onClick={() => deleteMutation.mutate(event.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useEventDayReport } from '@/hooks/use-performance-report';
+import type { AnalyticsFilters } from '@shared/analytics';
+import type { EventDayStats } from '@shared/economic-calendar';
+
+interface EventDayReportCardProps {
+  filters: Partial<AnalyticsFilters>;
+}
+
+const formatMoney = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+function StatsRow({ stats, indent = false }: { stats: EventDayStats; indent?: boolean }) {
+  return (
+    <tr className="border-t">
+      <td className={`py-1 ${indent ? 'pl-4 text-muted-foreground' : ''}`}>{stats.label}</td>
+      <td className="py-1 text-right">{stats.days}</td>
+      <td className="py-1 text-right">{stats.trades}</td>
+      <td className="py-1 text-right">{stats.trades > 0 ? `${stats.winRate.toFixed(1)}%` : '—'}</td>
+      <td className="py-1 text-right">{stats.trades > 0 ? formatMoney(stats.avgPnL) : '—'}</td>
+      <td className={`py-1 text-right ${stats.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {stats.trades > 0 ? formatMoney(stats.totalPnL) : '—'}
+      </td>
+    </tr>
+  );
+}
+
+// Trades on days with economic releases (CPI, FOMC, ...) against quiet days, and trades entered
+// around a release against the rest
+export default function EventDayReportCard({ filters }: EventDayReportCardProps) {
+  const { data: report } = useEventDayReport(filters);
+  const hasEventTrades = !!report && (report.eventDays.trades > 0 || report.categories.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Economic Events</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!report || !hasEventTrades ? (
+          <p className="text-sm text-muted-foreground">
+            Import an economic calendar in Premarket Analysis to compare event days with quiet days.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="font-normal py-1">Days</th>
+                  <th className="font-normal py-1 text-right">Days Traded</th>
+                  <th className="font-normal py-1 text-right">Trades</th>
+                  <th className="font-normal py-1 text-right">Win Rate</th>
+                  <th className="font-normal py-1 text-right">Avg P&L</th>
+                  <th className="font-normal py-1 text-right">Total P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                <StatsRow stats={report.eventDays} />
+                <StatsRow stats={report.quietDays} />
+                {report.categories.map(stats => (
+                  <StatsRow key={stats.label} stats={stats} indent />
+                ))}
+                <StatsRow stats={report.inWindow} />
+                <StatsRow stats={report.outsideWindow} />
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { analysisExpectedMove, reviewRealizedMove, type RealizedRangeImport } from '@shared/expected-move';
+import type { PremarketAnalysis } from '@shared/schema';
+
+const REVIEW_DAYS = 10;
+
+interface RealizedRangeInput {
+  high: string;
+  low: string;
+  close: string;
+}
+
+// Date, high, low and optional close columns of a price history export; the header row and rows that
+// do not parse are skipped
+function parseRangeFile(content: string): RealizedRangeImport['ranges'] {
+  return content.split('\n').flatMap(line => {
+    const [dateText, highText, lowText, closeText] = line.split(',').map(column => column.replace(/"/g, '').trim());
+    const usDate = dateText?.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const date = usDate ? `${usDate[3]}-${usDate[1].padStart(2, '0')}-${usDate[2].padStart(2, '0')}` : dateText;
+    const high = parseFloat(highText);
+    const low = parseFloat(lowText);
+    const close = parseFloat(closeText ?? '');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || !(high > 0) || !(low > 0) || low > high) return [];
+    return [close >= low && close <= high ? { date, high, low, close } : { date, high, low }];
+  });
+}
+
+// Realized ranges against the expected move of recent premarket analyses, to check the volatility calls
+export default function ExpectedMoveReview() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [inputs, setInputs] = useState<Record<number, RealizedRangeInput>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: analyses = [] } = useQuery<PremarketAnalysis[]>({
+    queryKey: ['/api/premarket-analysis'],
+  });
+
+  const saveRangeMutation = useMutation({
+    mutationFn: async ({ id, ...range }: { id: number; realizedHigh: number; realizedLow: number; realizedClose: number | null }) => {
+      return apiRequest(`/api/premarket-analysis/${id}`, 'PATCH', range);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/premarket-analysis'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      toast({
+        title: 'Range saved',
+        description: 'The realized range was compared with the expected move.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save the realized range.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const importRangesMutation = useMutation({
+    mutationFn: async (ranges: RealizedRangeImport['ranges']) => {
+      const response = await apiRequest('/api/premarket-analysis/realized-ranges', 'POST', { ranges });
+      return response.json() as Promise<{ updated: number[]; unmatched: string[] }>;
+    },
+    onSuccess: ({ updated, unmatched }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/premarket-analysis'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      toast({
+        title: 'Ranges imported',
+        description: `Updated ${updated.length} day(s)${unmatched.length > 0 ? `; no premarket analysis for ${unmatched.length}` : ''}.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to import realized ranges.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleImportFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const ranges = parseRangeFile(e.target?.result as string);
+      if (ranges.length === 0) {
+        toast({
+          title: 'No Ranges Found',
+          description: 'Expected Date, High and Low columns, optionally followed by Close.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      importRangesMutation.mutate(ranges);
+    };
+    reader.readAsText(file);
+  };
+
+  const days = analyses
+    .map(analysis => ({ analysis, move: analysisExpectedMove(analysis) }))
+    .filter(day => day.move !== null)
+    .slice(0, REVIEW_DAYS);
+  const reviews = days.flatMap(({ analysis, move }) =>
+    analysis.realizedHigh !== null && analysis.realizedLow !== null
+      ? [reviewRealizedMove(move!, analysis.realizedHigh, analysis.realizedLow)]
+      : []);
+  const insideCount = reviews.filter(review => review.withinOneSigma).length;
+  const avgRatio = reviews.length > 0 ? reviews.reduce((sum, review) => sum + review.rangeRatio, 0) / reviews.length : null;
+
+  const updateInput = (id: number, key: keyof RealizedRangeInput, value: string) => {
+    setInputs(prev => ({ ...prev, [id]: { ...(prev[id] ?? { high: '', low: '', close: '' }), [key]: value } }));
+  };
+
+  const saveRange = (id: number) => {
+    const realizedHigh = parseFloat(inputs[id]?.high ?? '');
+    const realizedLow = parseFloat(inputs[id]?.low ?? '');
+    const close = parseFloat(inputs[id]?.close ?? '');
+    const realizedClose = Number.isNaN(close) ? null : close;
+    if (!(realizedHigh > 0) || !(realizedLow > 0) || realizedLow > realizedHigh ||
+      (realizedClose !== null && (realizedClose < realizedLow || realizedClose > realizedHigh))) {
+      toast({
+        title: 'Invalid range',
+        description: 'Enter the day\'s high and low, with the low not above the high, and a close inside them if you have it.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveRangeMutation.mutate({ id, realizedHigh, realizedLow, realizedClose });
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-4 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg text-white">Expected vs Realized Move</CardTitle>
+        <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleImportFile} />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={importRangesMutation.isPending}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import Ranges (CSV)
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {days.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            Save a premarket analysis with a reference price and VIX or IV to track its expected move.
+          </p>
+        ) : (
+          <>
+            {reviews.length > 0 && (
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-white">{insideCount}/{reviews.length}</p>
+                  <p className="text-sm text-gray-400">Days inside 1σ</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-white">{avgRatio!.toFixed(2)}x</p>
+                  <p className="text-sm text-gray-400">Avg realized / expected range</p>
+                </div>
+              </div>
+            )}
+            <div className="space-y-3">
+              {days.map(({ analysis, move }) => {
+                const review = analysis.realizedHigh !== null && analysis.realizedLow !== null
+                  ? reviewRealizedMove(move!, analysis.realizedHigh, analysis.realizedLow)
+                  : null;
+                return (
+                  <div key={analysis.id} className="rounded-lg border border-gray-700 p-3 space-y-2 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-white font-medium">
+                        {format(new Date(analysis.date), 'MMM d, yyyy')} · {analysis.expectedMoveTicker ?? 'SPY'}
+                      </span>
+                      <span className="text-gray-300">±${move!.oneSigma.toFixed(2)} (1σ)</span>
+                    </div>
+                    {review ? (
+                      <div className="flex items-center justify-between text-gray-300">
+                        <span>
+                          Range ${review.realizedRange.toFixed(2)} vs expected ${review.expectedRange.toFixed(2)}
+                        </span>
+                        <span className={review.withinOneSigma ? 'text-green-400' : 'text-red-400'}>
+                          {review.rangeRatio.toFixed(2)}x · {review.withinOneSigma ? 'inside 1σ' : 'broke 1σ'}
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="High"
+                          className="bg-gray-900 border-gray-600 text-white"
+                          value={inputs[analysis.id]?.high ?? ''}
+                          onChange={(e) => updateInput(analysis.id, 'high', e.target.value)}
+                        />
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="Low"
+                          className="bg-gray-900 border-gray-600 text-white"
+                          value={inputs[analysis.id]?.low ?? ''}
+                          onChange={(e) => updateInput(analysis.id, 'low', e.target.value)}
+                        />
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="Close"
+                          className="bg-gray-900 border-gray-600 text-white"
+                          value={inputs[analysis.id]?.close ?? ''}
+                          onChange={(e) => updateInput(analysis.id, 'close', e.target.value)}
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          disabled={saveRangeMutation.isPending}
+                          onClick={() => saveRange(analysis.id)}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
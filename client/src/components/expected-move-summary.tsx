@@ -0,0 +1,54 @@
+import { Badge } from '@/components/ui/badge';
+import { classifyKeyLevels, type ExpectedMove, type KeyLevelField, type LevelZone } from '@shared/expected-move';
+
+interface ExpectedMoveSummaryProps {
+  ticker: string;
+  move: ExpectedMove;
+  levels: Partial<Record<KeyLevelField, string | null>>;
+}
+
+const ZONE_CLASSES: Record<LevelZone, string> = {
+  'inside 1σ': 'bg-green-900/40 text-green-400 border-green-700',
+  'inside 2σ': 'bg-yellow-900/40 text-yellow-400 border-yellow-700',
+  'outside 2σ': 'bg-red-900/40 text-red-400 border-red-700',
+};
+
+const formatRange = ([low, high]: [number, number]) => `$${low.toFixed(2)} – $${high.toFixed(2)}`;
+
+// The day's 1σ and 2σ ranges and where each key level sits in them
+export default function ExpectedMoveSummary({ ticker, move, levels }: ExpectedMoveSummaryProps) {
+  const keyLevels = classifyKeyLevels(levels, move);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div className="rounded-lg border border-gray-700 p-3">
+          <div className="text-gray-400">1σ move ({ticker}, ~68%)</div>
+          <div className="text-white font-semibold">±${move.oneSigma.toFixed(2)}</div>
+          <div className="text-gray-300">{formatRange(move.oneSigmaRange)}</div>
+        </div>
+        <div className="rounded-lg border border-gray-700 p-3">
+          <div className="text-gray-400">2σ move ({ticker}, ~95%)</div>
+          <div className="text-white font-semibold">±${move.twoSigma.toFixed(2)}</div>
+          <div className="text-gray-300">{formatRange(move.twoSigmaRange)}</div>
+        </div>
+      </div>
+
+      {keyLevels.length > 0 ? (
+        <div className="space-y-2">
+          {keyLevels.map(level => (
+            <div key={`${level.label}-${level.price}`} className="flex items-center justify-between text-sm">
+              <span className="text-gray-300">{level.label} ${level.price.toFixed(2)}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-gray-400">{level.distance >= 0 ? '+' : ''}{level.distance.toFixed(2)}σ</span>
+                <Badge variant="outline" className={ZONE_CLASSES[level.zone]}>{level.zone}</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Enter key levels in SPY Analysis to see where they fall in the expected range.</p>
+      )}
+    </div>
+  );
+}
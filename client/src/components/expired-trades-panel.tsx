@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import { CLOSE_REASON_LABELS, type TradeSettlement } from '@shared/settlement';
+import type { Trade } from '@shared/schema';
+
+interface ExpiredTradesPanelProps {
+  trades: Trade[];
+}
+
+// Open trades the server flagged as past expiration, with one-click settlement
+export default function ExpiredTradesPanel({ trades }: ExpiredTradesPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [underlyingPrices, setUnderlyingPrices] = useState<Record<number, string>>({});
+
+  const expiredTrades = trades.filter(trade => trade.expirationFlaggedAt && trade.openQuantity > 0);
+
+  const settleTradeMutation = useMutation({
+    mutationFn: async ({ id, settlement }: { id: number; settlement: TradeSettlement }) => {
+      return apiRequest(`/api/trades/${id}/settle`, 'POST', settlement);
+    },
+    onSuccess: (_, { settlement }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-legs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-executions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-positions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
+      toast({
+        title: 'Trade Settled',
+        description: settlement.closeReason === 'expired'
+          ? 'The position was closed at $0.00.'
+          : 'The position was closed at intrinsic value and the shares were added to your stock positions.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to settle trade. Check that the underlying price puts the contract in the money.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (expiredTrades.length === 0) return null;
+
+  const settle = (trade: Trade, closeReason: TradeSettlement['closeReason']) => {
+    if (closeReason === 'expired') {
+      settleTradeMutation.mutate({ id: trade.id, settlement: { closeReason } });
+      return;
+    }
+    const underlyingPrice = parseFloat(underlyingPrices[trade.id] ?? '');
+    if (!Number.isFinite(underlyingPrice) || underlyingPrice <= 0) {
+      toast({
+        title: 'Underlying Price Required',
+        description: `Enter where ${trade.ticker} settled to record the ${closeReason === 'assigned' ? 'assignment' : 'exercise'}.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    settleTradeMutation.mutate({ id: trade.id, settlement: { closeReason, underlyingPrice } });
+  };
+
+  return (
+    <Card className="mb-6 w-full border-amber-300 bg-amber-50 dark:bg-amber-950/20">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-amber-600" />
+          Expired Positions ({expiredTrades.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          These trades are still open past their expiration date. Settle them as expired worthless, or enter the
+          underlying's settlement price if they were assigned or exercised.
+        </p>
+        {expiredTrades.map(trade => (
+          <div key={trade.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border rounded-lg bg-background">
+            <div className="flex-1 text-sm">
+              <div className="font-semibold">
+                {trade.ticker} ${trade.strikePrice} {trade.type.toUpperCase()} {trade.direction === 'short' ? '(SHORT)' : ''}
+              </div>
+              <div className="text-muted-foreground">
+                Expired {format(new Date(trade.expirationDate), 'MMM dd, yyyy')} · {trade.openQuantity} open
+              </div>
+            </div>
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="Underlying price"
+              className="sm:w-40"
+              value={underlyingPrices[trade.id] ?? ''}
+              onChange={(e) => setUnderlyingPrices(prices => ({ ...prices, [trade.id]: e.target.value }))}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={settleTradeMutation.isPending}
+                onClick={() => settle(trade, 'expired')}
+              >
+                {CLOSE_REASON_LABELS.expired}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={settleTradeMutation.isPending}
+                onClick={() => settle(trade, trade.direction === 'short' ? 'assigned' : 'exercised')}
+              >
+                {trade.direction === 'short' ? CLOSE_REASON_LABELS.assigned : CLOSE_REASON_LABELS.exercised}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
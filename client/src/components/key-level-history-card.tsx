@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { KeyLevelHistoryChart } from '@/components/charts/performance-charts';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { KEY_LEVEL_TYPE_LABELS, type KeyLevelDay } from '@shared/key-levels';
+import { KEY_LEVEL_REACTIONS, KEY_LEVEL_TYPES, type KeyLevelReaction, type KeyLevelType } from '@shared/schema';
+
+const RECENT_DAYS = 10;
+
+const REACTION_LABELS: Record<KeyLevelReaction, string> = {
+  respected: 'Respected',
+  broken: 'Broken',
+  untested: 'Untested',
+};
+
+const REACTION_CLASSES: Record<KeyLevelReaction, string> = {
+  respected: 'text-green-400',
+  broken: 'text-red-400',
+  untested: 'text-gray-400',
+};
+
+const invalidateKeyLevels = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['/api/key-levels'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+};
+
+// Key levels of one underlying across sessions, with how price reacted to each. Levels from a
+// premarket analysis follow it; levels for other underlyings are added here.
+export default function KeyLevelHistoryCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [underlying, setUnderlying] = useState('SPY');
+  const [newLevel, setNewLevel] = useState({
+    date: new Date().toISOString().split('T')[0],
+    levelType: 'call_resistance' as KeyLevelType,
+    price: '',
+  });
+
+  const ticker = underlying.trim().toUpperCase();
+  const { data: days = [] } = useQuery<KeyLevelDay[]>({
+    queryKey: ['/api/key-levels', ticker],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/key-levels?underlying=${encodeURIComponent(ticker)}`, 'GET');
+      return response.json();
+    },
+    enabled: ticker.length > 0,
+  });
+
+  const reactionMutation = useMutation({
+    mutationFn: async ({ id, reaction }: { id: number; reaction: KeyLevelReaction | null }) =>
+      apiRequest(`/api/key-levels/${id}`, 'PATCH', { reaction }),
+    onSuccess: () => invalidateKeyLevels(queryClient),
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to update the level.', variant: 'destructive' });
+    },
+  });
+
+  const addLevelMutation = useMutation({
+    mutationFn: async () => {
+      const [year, month, day] = newLevel.date.split('-').map(Number);
+      return apiRequest('/api/key-levels', 'POST', {
+        date: new Date(year, month - 1, day).toISOString(),
+        underlying: ticker,
+        levelType: newLevel.levelType,
+        price: newLevel.price,
+      });
+    },
+    onSuccess: () => {
+      invalidateKeyLevels(queryClient);
+      setNewLevel(prev => ({ ...prev, price: '' }));
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Enter a date and a positive price.', variant: 'destructive' });
+    },
+  });
+
+  const deleteLevelMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/key-levels/${id}`, 'DELETE'),
+    onSuccess: () => {
+      invalidateKeyLevels(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete the level.', variant: 'destructive' });
+    },
+  });
+
+  const recentDays = days.slice(-RECENT_DAYS).reverse();
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white flex flex-wrap items-center justify-between gap-2">
+          <span>Key Level History</span>
+          <Input
+            className="w-28 bg-gray-900 border-gray-600 text-white uppercase"
+            value={underlying}
+            onChange={(e) => setUnderlying(e.target.value)}
+            aria-label="Underlying"
+          />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {days.length === 0 ? (
+          <p className="text-sm text-gray-400">No key levels saved for {ticker || 'this underlying'} yet.</p>
+        ) : (
+          <>
+            <div className="h-64">
+              <KeyLevelHistoryChart days={days} />
+            </div>
+
+            <div className="space-y-3">
+              {recentDays.map(day => (
+                <div key={`${day.date}-${day.underlying}`} className="rounded border border-gray-700 p-3 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-white font-medium">{day.date}</span>
+                    {day.referencePrice !== null && (
+                      <span className="text-gray-400">Reference ${day.referencePrice.toFixed(2)}</span>
+                    )}
+                  </div>
+                  {day.levels.map(level => (
+                    <div key={level.id} className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="text-gray-300 w-32">{KEY_LEVEL_TYPE_LABELS[level.levelType]}</span>
+                      <span className="text-white w-20">${level.price.toFixed(2)}</span>
+                      <span className={`w-24 ${level.reaction ? REACTION_CLASSES[level.reaction] : 'text-gray-500'}`}>
+                        {level.reaction ? REACTION_LABELS[level.reaction] : 'Pending'}
+                      </span>
+                      <Select
+                        value={level.manualReaction ?? 'auto'}
+                        onValueChange={(value) => reactionMutation.mutate({
+                          id: level.id,
+                          reaction: value === 'auto' ? null : value as KeyLevelReaction,
+                        })}
+                      >
+                        <SelectTrigger className="w-36 h-8 bg-gray-900 border-gray-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">From range</SelectItem>
+                          {KEY_LEVEL_REACTIONS.map(reaction => (
+                            <SelectItem key={reaction} value={reaction}>{REACTION_LABELS[reaction]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!level.fromAnalysis && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-gray-400 hover:text-red-400"
+                          onClick={() => deleteLevelMutation.mutate(level.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <Input
+            type="date"
+            className="bg-gray-900 border-gray-600 text-white"
+            value={newLevel.date}
+            onChange={(e) => setNewLevel(prev => ({ ...prev, date: e.target.value }))}
+          />
+          <Select
+            value={newLevel.levelType}
+            onValueChange={(levelType) => setNewLevel(prev => ({ ...prev, levelType: levelType as KeyLevelType }))}
+          >
+            <SelectTrigger className="bg-gray-900 border-gray-600 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {KEY_LEVEL_TYPES.map(levelType => (
+                <SelectItem key={levelType} value={levelType}>{KEY_LEVEL_TYPE_LABELS[levelType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            placeholder="Price"
+            className="bg-gray-900 border-gray-600 text-white"
+            value={newLevel.price}
+            onChange={(e) => setNewLevel(prev => ({ ...prev, price: e.target.value }))}
+          />
+          <Button
+            variant="outline"
+            disabled={!ticker || !newLevel.price || addLevelMutation.isPending}
+            onClick={() => addLevelMutation.mutate()}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add {ticker || 'Level'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
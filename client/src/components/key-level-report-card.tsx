@@ -0,0 +1,65 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useKeyLevelReport } from '@/hooks/use-performance-report';
+import type { AnalyticsFilters } from '@shared/analytics';
+
+interface KeyLevelReportCardProps {
+  filters: Partial<AnalyticsFilters>;
+}
+
+const formatMoney = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+// How often price respected each level type, and how trades taken off each type did
+export default function KeyLevelReportCard({ filters }: KeyLevelReportCardProps) {
+  const { data: report } = useKeyLevelReport(filters);
+  const types = report?.types.filter(stats => stats.levels > 0 || stats.trades > 0) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Key Levels</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!report || types.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Enter key levels in Premarket Analysis and the day's range to see which levels hold.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground text-left">
+                  <th className="font-normal py-1">Level</th>
+                  <th className="font-normal py-1 text-right">Levels</th>
+                  <th className="font-normal py-1 text-right">Respected</th>
+                  <th className="font-normal py-1 text-right">Broken</th>
+                  <th className="font-normal py-1 text-right">Untested</th>
+                  <th className="font-normal py-1 text-right">Respect Rate</th>
+                  <th className="font-normal py-1 text-right">Trades</th>
+                  <th className="font-normal py-1 text-right">Win Rate</th>
+                  <th className="font-normal py-1 text-right">Total P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {types.map(stats => (
+                  <tr key={stats.levelType} className="border-t">
+                    <td className="py-1">{stats.label}</td>
+                    <td className="py-1 text-right">{stats.levels}</td>
+                    <td className="py-1 text-right">{stats.respected}</td>
+                    <td className="py-1 text-right">{stats.broken}</td>
+                    <td className="py-1 text-right">{stats.untested}</td>
+                    <td className="py-1 text-right">{stats.respectRate !== null ? `${stats.respectRate.toFixed(1)}%` : '—'}</td>
+                    <td className="py-1 text-right">{stats.trades}</td>
+                    <td className="py-1 text-right">{stats.trades > 0 ? `${stats.winRate.toFixed(1)}%` : '—'}</td>
+                    <td className={`py-1 text-right ${stats.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {stats.trades > 0 ? formatMoney(stats.totalPnL) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
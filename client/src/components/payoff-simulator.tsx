@@ -0,0 +1,152 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Slider } from '@/components/ui/slider';
+import { PayoffChart } from '@/components/charts/performance-charts';
+import { positionPayoffAtExpiration, summarizePosition, type PositionLeg } from '@shared/positions';
+import {
+  DEFAULT_PRICING_SETTINGS,
+  legVolatilities,
+  positionTheoreticalPnL,
+  yearsToExpiration,
+  type PricingSettings,
+} from '@shared/pricing';
+import type { Trade, TradeLeg } from '@shared/schema';
+
+interface PayoffSimulatorProps {
+  trade: Trade;
+  legs: TradeLeg[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CURVE_POINTS = 101;
+const PRICE_RANGE = 0.25; // chart spans this fraction either side of the reference price
+const FALLBACK_VOLATILITY = 0.3; // for legs whose entry price implies no volatility
+const MIN_VOLATILITY = 0.0001;
+
+const formatMoney = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+// Expiration payoff and theoretical value of the position as opened. The simulated date counts from
+// the entry time, and the IV shift is added to the volatility each leg was priced at when opened.
+export default function PayoffSimulator({ trade, legs }: PayoffSimulatorProps) {
+  const { data: pricing = DEFAULT_PRICING_SETTINGS } = useQuery<PricingSettings>({
+    queryKey: ['/api/pricing-settings'],
+  });
+
+  const positionLegs: PositionLeg[] = useMemo(() => legs.length > 0 ? legs : [{
+    side: trade.direction === 'short' ? 'sell' : 'buy',
+    type: trade.type,
+    strikePrice: trade.strikePrice,
+    expirationDate: trade.expirationDate,
+    quantity: trade.quantity,
+    entryPrice: trade.entryPrice,
+  }], [trade, legs]);
+
+  const strikes = positionLegs.map(leg => leg.strikePrice);
+  const referencePrice = trade.underlyingEntryPrice ?? strikes.reduce((sum, strike) => sum + strike, 0) / strikes.length;
+  const lowPrice = Math.max(0.01, Math.min(referencePrice * (1 - PRICE_RANGE), ...strikes.map(strike => strike * 0.95)));
+  const highPrice = Math.max(referencePrice * (1 + PRICE_RANGE), ...strikes.map(strike => strike * 1.05));
+  const lastExpiration = positionLegs.reduce(
+    (latest, leg) => (new Date(leg.expirationDate) > new Date(latest) ? leg.expirationDate : latest),
+    positionLegs[0].expirationDate,
+  );
+  const maxDays = Math.max(0, Math.ceil(yearsToExpiration(trade.entryTime, lastExpiration) * 365));
+
+  const [price, setPrice] = useState(referencePrice);
+  const [daysForward, setDaysForward] = useState(0);
+  const [ivShift, setIvShift] = useState(0); // volatility points
+
+  const baseVolatilities = useMemo(() => legVolatilities(positionLegs, {
+    underlyingPrice: referencePrice,
+    asOf: trade.entryTime,
+    volatility: positionLegs.length === 1 && trade.entryIv ? trade.entryIv / 100 : null,
+    rate: pricing.riskFreeRate / 100,
+    dividendYield: pricing.dividendYield / 100,
+  }).map(volatility => volatility ?? FALLBACK_VOLATILITY), [positionLegs, referencePrice, trade, pricing]);
+
+  const simulatedDate = new Date(new Date(trade.entryTime).getTime() + daysForward * DAY_MS);
+  const volatilities = baseVolatilities.map(volatility => Math.max(MIN_VOLATILITY, volatility + ivShift / 100));
+  const theoreticalPnL = (underlyingPrice: number) => positionTheoreticalPnL(positionLegs, {
+    underlyingPrice,
+    asOf: simulatedDate,
+    rate: pricing.riskFreeRate / 100,
+    dividendYield: pricing.dividendYield / 100,
+  }, volatilities);
+
+  const prices = Array.from({ length: CURVE_POINTS }, (_, i) => lowPrice + ((highPrice - lowPrice) * i) / (CURVE_POINTS - 1));
+  const expiration = prices.map(x => ({ x, y: positionPayoffAtExpiration(positionLegs, x) }));
+  const theoretical = prices.map(x => ({ x, y: theoreticalPnL(x) }));
+  const summary = summarizePosition(positionLegs);
+  const projected = theoreticalPnL(price);
+  const atExpiration = positionPayoffAtExpiration(positionLegs, price);
+
+  return (
+    <div className="space-y-4">
+      <div className="h-[280px] w-full">
+        <PayoffChart
+          expiration={expiration}
+          theoretical={theoretical}
+          breakevens={summary.breakevens.filter(breakeven => breakeven >= lowPrice && breakeven <= highPrice)}
+          maxProfit={summary.maxProfit}
+          maxLoss={summary.maxLoss}
+          selected={{ x: price, y: projected }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <div className="text-muted-foreground">Projected P&L</div>
+          <div className={`font-medium ${projected >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatMoney(projected)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">At Expiration</div>
+          <div className={`font-medium ${atExpiration >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatMoney(atExpiration)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Max Profit</div>
+          <div className="font-medium text-green-600">{summary.maxProfit === null ? 'Unlimited' : formatMoney(summary.maxProfit)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Max Loss</div>
+          <div className="font-medium text-red-600">{summary.maxLoss === null ? 'Unlimited' : formatMoney(summary.maxLoss)}</div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Underlying Price</span>
+            <span className="font-medium">${price.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={lowPrice}
+            max={highPrice}
+            step={(highPrice - lowPrice) / 200}
+            value={[price]}
+            onValueChange={([value]) => setPrice(value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Days Forward</span>
+            <span className="font-medium">{daysForward} ({format(simulatedDate, 'MMM d, yyyy')})</span>
+          </div>
+          <Slider min={0} max={maxDays} step={1} value={[daysForward]} onValueChange={([value]) => setDaysForward(value)} />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">IV Shift</span>
+            <span className="font-medium">{ivShift >= 0 ? '+' : ''}{ivShift} pts</span>
+          </div>
+          <Slider min={-50} max={50} step={1} value={[ivShift]} onValueChange={([value]) => setIvShift(value)} />
+        </div>
+      </div>
+
+      {trade.underlyingEntryPrice === null && (
+        <p className="text-xs text-muted-foreground">
+          Enter the underlying price at entry to center the chart on it and price the legs at their implied volatility.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { PerformanceReport, PlanStats } from '@shared/analytics';
+
+interface PlannedTradesCardProps {
+  report: PerformanceReport;
+}
+
+const formatMoney = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+function PlanColumn({ title, stats }: { title: string; stats: PlanStats }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-semibold text-foreground">{title}</h4>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="text-muted-foreground">Trades</div>
+        <div className="text-right">{stats.trades}</div>
+        <div className="text-muted-foreground">Hit Rate</div>
+        <div className="text-right">{stats.hitRate.toFixed(1)}%</div>
+        <div className="text-muted-foreground">Total P&L</div>
+        <div className={`text-right font-medium ${stats.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {formatMoney(stats.totalPnL)}
+        </div>
+        <div className="text-muted-foreground">Avg P&L</div>
+        <div className={`text-right ${stats.avgPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatMoney(stats.avgPnL)}</div>
+      </div>
+    </div>
+  );
+}
+
+// Trades that executed a premarket trade idea against the ones taken without a plan
+export default function PlannedTradesCard({ report }: PlannedTradesCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Planned vs Unplanned Trades</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {report.plannedTrades.trades === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Link trades to the premarket trade idea they executed to compare them with unplanned trades.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <PlanColumn title="Planned" stats={report.plannedTrades} />
+            <PlanColumn title="Unplanned" stats={report.unplannedTrades} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { usePremarketFactorReport } from '@/hooks/use-performance-report';
+import { MIN_FACTOR_TRADES, type FactorSignificance } from '@shared/factors';
+import type { AnalyticsFilters } from '@shared/analytics';
+
+interface PremarketFactorsCardProps {
+  filters: Partial<AnalyticsFilters>;
+}
+
+const SIGNIFICANCE_VARIANTS: Record<FactorSignificance, 'default' | 'secondary' | 'outline'> = {
+  'significant': 'default',
+  'not significant': 'secondary',
+  'too few trades': 'outline',
+};
+
+const formatMoney = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+// Win rate and P&L by the value each premarket factor had on the day, to find the inputs that matter
+export default function PremarketFactorsCard({ filters }: PremarketFactorsCardProps) {
+  const { data: report } = usePremarketFactorReport(filters);
+  const factors = report?.factors.filter(factor => factor.values.length > 0) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Premarket Factors</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!report || factors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Save premarket analyses on the days you trade to see which factors line up with your results.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {report.trades} trades over {report.days} analyzed days. Each value's win rate is compared with the
+              other days for the same factor (p &lt; 0.05 is significant; needs {MIN_FACTOR_TRADES} trades on each side).
+            </p>
+            {factors.map(factor => (
+              <div key={factor.factor} className="space-y-2">
+                <h4 className="font-semibold text-foreground">{factor.label}</h4>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground text-left">
+                        <th className="font-normal py-1">Value</th>
+                        <th className="font-normal py-1 text-right">Days</th>
+                        <th className="font-normal py-1 text-right">Trades</th>
+                        <th className="font-normal py-1 text-right">Win Rate</th>
+                        <th className="font-normal py-1 text-right">Avg P&L</th>
+                        <th className="font-normal py-1 text-right">Significance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {factor.values.map(stats => (
+                        <tr key={stats.value} className="border-t">
+                          <td className="py-1">{stats.value}</td>
+                          <td className="py-1 text-right">{stats.days}</td>
+                          <td className="py-1 text-right">{stats.trades}</td>
+                          <td className="py-1 text-right">{stats.winRate.toFixed(1)}%</td>
+                          <td className={`py-1 text-right ${stats.avgPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatMoney(stats.avgPnL)}
+                          </td>
+                          <td className="py-1 text-right">
+                            <Badge variant={SIGNIFICANCE_VARIANTS[stats.significance]}>
+                              {stats.pValue !== null ? `p=${stats.pValue.toFixed(3)}` : stats.significance}
+                            </Badge>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
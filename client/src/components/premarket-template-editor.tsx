@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  PREMARKET_FIELD_TYPES,
+  insertPremarketTemplateSchema,
+  type PremarketField,
+  type PremarketFieldType,
+  type PremarketTemplate,
+} from '@shared/schema';
+
+interface PremarketTemplateEditorProps {
+  template?: PremarketTemplate; // edited in place; a new template is created when missing
+  onDone: (saved?: PremarketTemplate) => void;
+}
+
+const FIELD_TYPE_LABELS: Record<PremarketFieldType, string> = {
+  number: 'Number',
+  select: 'Select',
+  boolean: 'Yes / No',
+  level: 'Price Levels',
+  text: 'Text',
+};
+
+// A field as it is edited: options as one comma-separated list of labels, bounds as typed
+interface DraftField {
+  key: string;
+  label: string;
+  type: PremarketFieldType;
+  required: boolean;
+  options: PremarketField['options'];
+  optionLabels: string;
+  min: string;
+  max: string;
+  integer: boolean;
+}
+
+interface DraftSection {
+  title: string;
+  fields: DraftField[];
+}
+
+const emptyField = (): DraftField => ({
+  key: '',
+  label: '',
+  type: 'text',
+  required: false,
+  options: [],
+  optionLabels: '',
+  min: '',
+  max: '',
+  integer: false,
+});
+
+const toDraftField = (field: PremarketField): DraftField => ({
+  key: field.key,
+  label: field.label,
+  type: field.type,
+  required: field.required,
+  options: field.options ?? [],
+  optionLabels: (field.options ?? []).map(choice => choice.label).join(', '),
+  min: field.min?.toString() ?? '',
+  max: field.max?.toString() ?? '',
+  integer: field.integer ?? false,
+});
+
+const slug = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// "Expected VIX open" → "expectedVixOpen"; keys must start with a letter
+const keyFromLabel = (label: string) => {
+  const words = label.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const key = words.map((word, index) => index === 0
+    ? word.toLowerCase()
+    : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return /^[a-zA-Z]/.test(key) ? key : `field${key}`;
+};
+
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+// Labels that were already options keep their stored value, so answers saved before the edit still match
+function toField(draft: DraftField): PremarketField {
+  const field: PremarketField = {
+    key: draft.key.trim() || keyFromLabel(draft.label),
+    label: draft.label,
+    type: draft.type,
+    required: draft.required,
+  };
+  if (draft.type === 'select') {
+    field.options = draft.optionLabels.split(',').map(label => label.trim()).filter(Boolean).map(label => ({
+      value: draft.options?.find(choice => choice.label === label)?.value ?? slug(label),
+      label,
+    }));
+  }
+  if (draft.type === 'number') {
+    field.min = toNumber(draft.min);
+    field.max = toNumber(draft.max);
+    field.integer = draft.integer;
+  }
+  return field;
+}
+
+// Creates or edits a premarket template: its sections and the typed fields in each
+export default function PremarketTemplateEditor({ template, onDone }: PremarketTemplateEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(template?.name ?? '');
+  const [isDefault, setIsDefault] = useState(template?.isDefault ?? false);
+  const [sections, setSections] = useState<DraftSection[]>(
+    template?.sections.map(section => ({ title: section.title, fields: section.fields.map(toDraftField) }))
+      ?? [{ title: '', fields: [emptyField()] }],
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const response = template
+        ? await apiRequest(`/api/premarket-templates/${template.id}`, 'PUT', data)
+        : await apiRequest('/api/premarket-templates', 'POST', data);
+      return response.json() as Promise<PremarketTemplate>;
+    },
+    onSuccess: (saved) => {
+      toast({ title: 'Template saved', description: `"${saved.name}" is ready to use` });
+      queryClient.invalidateQueries({ queryKey: ['/api/premarket-templates'] });
+      onDone(saved);
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to save premarket template', variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest(`/api/premarket-templates/${id}`, 'DELETE'),
+    onSuccess: () => {
+      toast({ title: 'Template deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/premarket-templates'] });
+      onDone();
+    },
+    onError: () => {
+      toast({ title: 'Error', description: 'Failed to delete premarket template', variant: 'destructive' });
+    },
+  });
+
+  const updateSection = (index: number, update: Partial<DraftSection>) =>
+    setSections(prev => prev.map((section, i) => (i === index ? { ...section, ...update } : section)));
+
+  const updateField = (sectionIndex: number, fieldIndex: number, update: Partial<DraftField>) =>
+    updateSection(sectionIndex, {
+      fields: sections[sectionIndex].fields.map((field, i) => (i === fieldIndex ? { ...field, ...update } : field)),
+    });
+
+  const moveSection = (index: number, offset: number) => setSections(prev => {
+    const next = [...prev];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    return next;
+  });
+
+  const handleSave = () => {
+    const result = insertPremarketTemplateSchema.safeParse({
+      name,
+      isDefault,
+      sections: sections.map(section => ({ title: section.title, fields: section.fields.map(toField) })),
+    });
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      toast({
+        title: 'Check the template',
+        description: `${issue.path.join('.') || 'template'}: ${issue.message}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveMutation.mutate(result.data);
+  };
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader>
+        <CardTitle className="text-white">{template ? `Edit "${template.name}"` : 'New Template'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-white">Name</Label>
+            <Input className="bg-gray-900 border-gray-600 text-white" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-3 md:pt-8">
+            <Switch checked={isDefault} onCheckedChange={setIsDefault} disabled={template?.isDefault} />
+            <Label className="text-white">Default template</Label>
+          </div>
+        </div>
+
+        {sections.map((section, sectionIndex) => (
+          <div key={sectionIndex} className="rounded-lg border border-gray-700 p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Section title"
+                className="bg-gray-900 border-gray-600 text-white"
+                value={section.title}
+                onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+              />
+              <Button type="button" variant="ghost" size="sm" className="text-gray-400" disabled={sectionIndex === 0}
+                onClick={() => moveSection(sectionIndex, -1)}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="text-gray-400" disabled={sectionIndex === sections.length - 1}
+                onClick={() => moveSection(sectionIndex, 1)}>
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="text-gray-400 hover:text-red-400"
+                onClick={() => setSections(prev => prev.filter((_, i) => i !== sectionIndex))}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {section.fields.map((field, fieldIndex) => (
+              <div key={fieldIndex} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-end">
+                <div className="md:col-span-4 space-y-1">
+                  <Label className="text-gray-400 text-xs">Label</Label>
+                  <Input className="bg-gray-900 border-gray-600 text-white" value={field.label}
+                    onChange={(e) => updateField(sectionIndex, fieldIndex, { label: e.target.value })} />
+                </div>
+                <div className="md:col-span-3 space-y-1">
+                  <Label className="text-gray-400 text-xs">Key</Label>
+                  <Input className="bg-gray-900 border-gray-600 text-white" value={field.key}
+                    placeholder={field.label ? keyFromLabel(field.label) : 'fromLabel'}
+                    onChange={(e) => updateField(sectionIndex, fieldIndex, { key: e.target.value })} />
+                </div>
+                <div className="md:col-span-2 space-y-1">
+                  <Label className="text-gray-400 text-xs">Type</Label>
+                  <Select value={field.type}
+                    onValueChange={(type) => updateField(sectionIndex, fieldIndex, { type: type as PremarketFieldType })}>
+                    <SelectTrigger className="bg-gray-900 border-gray-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PREMARKET_FIELD_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2 flex items-center gap-2 h-10">
+                  <Switch checked={field.required}
+                    onCheckedChange={(required) => updateField(sectionIndex, fieldIndex, { required })} />
+                  <Label className="text-white text-sm">Required</Label>
+                </div>
+                <div className="md:col-span-1 flex justify-end">
+                  <Button type="button" variant="ghost" size="sm" className="text-gray-400 hover:text-red-400"
+                    onClick={() => updateSection(sectionIndex, { fields: section.fields.filter((_, i) => i !== fieldIndex) })}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {field.type === 'select' && (
+                  <div className="md:col-span-12 space-y-1">
+                    <Label className="text-gray-400 text-xs">Options, separated by commas</Label>
+                    <Input className="bg-gray-900 border-gray-600 text-white" value={field.optionLabels}
+                      placeholder="Bullish, Bearish, Neutral"
+                      onChange={(e) => updateField(sectionIndex, fieldIndex, { optionLabels: e.target.value })} />
+                  </div>
+                )}
+                {field.type === 'number' && (
+                  <div className="md:col-span-12 grid grid-cols-3 gap-2 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-gray-400 text-xs">Min</Label>
+                      <Input type="number" className="bg-gray-900 border-gray-600 text-white" value={field.min}
+                        onChange={(e) => updateField(sectionIndex, fieldIndex, { min: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-gray-400 text-xs">Max</Label>
+                      <Input type="number" className="bg-gray-900 border-gray-600 text-white" value={field.max}
+                        onChange={(e) => updateField(sectionIndex, fieldIndex, { max: e.target.value })} />
+                    </div>
+                    <div className="flex items-center gap-2 h-10">
+                      <Switch checked={field.integer}
+                        onCheckedChange={(integer) => updateField(sectionIndex, fieldIndex, { integer })} />
+                      <Label className="text-white text-sm">Whole numbers</Label>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <Button type="button" variant="outline" size="sm"
+              onClick={() => updateSection(sectionIndex, { fields: [...section.fields, emptyField()] })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+        ))}
+
+        <Button type="button" variant="outline" className="w-full"
+          onClick={() => setSections(prev => [...prev, { title: '', fields: [emptyField()] }])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Section
+        </Button>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {template && !template.isDefault && (
+            <Button type="button" variant="destructive" disabled={deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate(template.id)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => onDone()}>Cancel</Button>
+          <Button type="button" className="bg-blue-600 hover:bg-blue-700" disabled={saveMutation.isPending} onClick={handleSave}>
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Template'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
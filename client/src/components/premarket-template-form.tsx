@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseLevelPrices } from '@shared/expected-move';
+import type { PremarketAnswers, PremarketField, PremarketSection } from '@shared/schema';
+
+// What the inputs hold while the form is filled in: text for everything typed, booleans for switches
+export type PremarketInputValue = string | boolean;
+export type PremarketInputValues = Record<string, PremarketInputValue>;
+
+interface PremarketTemplateFormProps {
+  sections: PremarketSection[];
+  values: PremarketInputValues;
+  errors?: Record<string, string>;
+  onChange: (key: string, value: PremarketInputValue) => void;
+}
+
+// Ratings with a small integer range are entered on a slider, like the checklist always had
+const isSlider = (field: PremarketField) =>
+  field.integer === true && field.min !== undefined && field.max !== undefined && field.max - field.min <= 100;
+
+// Typed answers from the inputs, leaving out empty ones, with a message for each field that is
+// required but empty or that does not parse as its type
+export function toPremarketAnswers(
+  sections: PremarketSection[],
+  values: PremarketInputValues,
+): { answers: PremarketAnswers; errors: Record<string, string> } {
+  const answers: PremarketAnswers = {};
+  const errors: Record<string, string> = {};
+  sections.flatMap(section => section.fields).forEach(field => {
+    const value = values[field.key];
+    if (field.type === 'boolean') {
+      answers[field.key] = value === true;
+      return;
+    }
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (!text) {
+      if (field.required) errors[field.key] = 'Required';
+      return;
+    }
+    if (field.type === 'number') {
+      const number = Number(text);
+      if (!Number.isFinite(number) || (field.integer && !Number.isInteger(number))) {
+        errors[field.key] = field.integer ? 'Enter a whole number' : 'Enter a number';
+      } else if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) {
+        errors[field.key] = `Enter a value from ${field.min ?? '…'} to ${field.max ?? '…'}`;
+      } else {
+        answers[field.key] = number;
+      }
+    } else if (field.type === 'level') {
+      const prices = parseLevelPrices(text);
+      if (prices.length === 0) errors[field.key] = 'Enter one or more prices, e.g. 585, 590.5';
+      else answers[field.key] = prices;
+    } else {
+      answers[field.key] = text;
+    }
+  });
+  return { answers, errors };
+}
+
+function FieldInput({ field, value, onChange }: {
+  field: PremarketField;
+  value: PremarketInputValue | undefined;
+  onChange: (value: PremarketInputValue) => void;
+}) {
+  const text = typeof value === 'string' ? value : '';
+  switch (field.type) {
+    case 'boolean':
+      return <Switch checked={value === true} onCheckedChange={onChange} />;
+    case 'select':
+      return (
+        <Select value={text} onValueChange={onChange}>
+          <SelectTrigger className="bg-gray-900 border-gray-600 text-white">
+            <SelectValue placeholder="Select" />
+          </SelectTrigger>
+          <SelectContent>
+            {(field.options ?? []).map(choice => (
+              <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'number':
+      if (isSlider(field)) {
+        const current = text ? Number(text) : Math.round((field.min! + field.max!) / 2);
+        return (
+          <div className="px-3">
+            <Slider
+              min={field.min}
+              max={field.max}
+              step={1}
+              value={[current]}
+              onValueChange={([next]) => onChange(String(next))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-sm text-gray-400 mt-1">
+              <span>{field.min}</span>
+              <span className="text-white font-medium">{text || '—'}</span>
+              <span>{field.max}</span>
+            </div>
+          </div>
+        );
+      }
+      return (
+        <Input
+          type="number"
+          step={field.integer ? 1 : 'any'}
+          className="bg-gray-900 border-gray-600 text-white"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'level':
+      return (
+        <Input
+          placeholder="e.g., 585, 590.5"
+          className="bg-gray-900 border-gray-600 text-white"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+    case 'text':
+      return (
+        <Textarea
+          className="bg-gray-900 border-gray-600 text-white min-h-[80px]"
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+// Renders any premarket template: one collapsible card per section, one input per field type
+export default function PremarketTemplateForm({ sections, values, errors = {}, onChange }: PremarketTemplateFormProps) {
+  const [collapsed, setCollapsed] = useState<Record<number, boolean>>({});
+
+  return (
+    <div className="space-y-6">
+      {sections.map((section, index) => (
+        <Card key={`${index}-${section.title}`} className="bg-gray-800 border-gray-700">
+          <CardHeader className="pb-4">
+            <button
+              type="button"
+              className="flex items-center justify-between w-full min-h-[44px] select-none"
+              style={{ touchAction: 'manipulation' }}
+              onClick={() => setCollapsed(prev => ({ ...prev, [index]: !prev[index] }))}
+            >
+              <h3 className="text-lg font-semibold text-white">{section.title}</h3>
+              {collapsed[index] ? (
+                <ChevronDown className="h-5 w-5 text-gray-400 flex-shrink-0" />
+              ) : (
+                <ChevronUp className="h-5 w-5 text-gray-400 flex-shrink-0" />
+              )}
+            </button>
+          </CardHeader>
+          {!collapsed[index] && (
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {section.fields.map(field => (
+                <div
+                  key={field.key}
+                  className={`space-y-2 ${field.type === 'text' ? 'md:col-span-2' : ''} ${field.type === 'boolean' ? 'flex items-center justify-between space-y-0' : ''}`}
+                >
+                  <Label className="text-white">
+                    {field.label}
+                    {field.required && <span className="text-red-400"> *</span>}
+                  </Label>
+                  <FieldInput field={field} value={values[field.key]} onChange={(value) => onChange(field.key, value)} />
+                  {errors[field.key] && <p className="text-sm text-red-400">{errors[field.key]}</p>}
+                </div>
+              ))}
+            </CardContent>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RDistributionChart } from '@/components/charts/performance-charts';
+import type { PerformanceReport } from '@shared/analytics';
+
+interface RMultipleCardProps {
+  report: PerformanceReport;
+}
+
+const formatR = (value: number | null) => (value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`);
+
+// Results in units of planned risk, for the trades that were entered with a stop or a planned risk
+export default function RMultipleCard({ report }: RMultipleCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">R-Multiples</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.rMultipleTrades === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Enter a planned stop or planned risk on your trades to see results in R.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4 text-center">
+              <div>
+                <p className={`text-2xl font-bold ${(report.expectancyR ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatR(report.expectancyR)}
+                </p>
+                <p className="text-sm text-muted-foreground">Expectancy</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-foreground">{report.rMultipleTrades}</p>
+                <p className="text-sm text-muted-foreground">Trades with a plan</p>
+              </div>
+            </div>
+            <div className="h-[200px] w-full">
+              <RDistributionChart data={report.rDistribution} />
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 font-medium text-muted-foreground">Strategy</th>
+                    <th className="text-right py-2 font-medium text-muted-foreground">Trades</th>
+                    <th className="text-right py-2 font-medium text-muted-foreground">Avg Planned</th>
+                    <th className="text-right py-2 font-medium text-muted-foreground">Avg Realized</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.playbookRPerformance.map(stats => (
+                    <tr key={stats.playbookId ?? 'none'} className="border-b border-border/50">
+                      <td className="py-2">{stats.name}</td>
+                      <td className="py-2 text-right">{stats.trades}</td>
+                      <td className="py-2 text-right">{formatR(stats.avgPlannedR)}</td>
+                      <td className={`py-2 text-right font-medium ${(stats.avgRealizedR ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatR(stats.avgRealizedR)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
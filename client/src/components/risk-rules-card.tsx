@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { DEFAULT_RISK_RULES, RISK_RULE_LABELS, type RiskEnforcement, type RiskRule, type RiskRules } from '@shared/guardrails';
+import type { RiskBreach } from '@shared/schema';
+
+const RECENT_BREACHES = 20;
+
+const LIMIT_HINTS: Record<RiskRule, string> = {
+  maxDailyLoss: 'Dollars of net realized loss',
+  maxTradesPerDay: 'Trades logged for the day',
+  maxContractsPerTrade: 'Contracts across all legs',
+  maxConsecutiveLosses: 'Losing trades in a row',
+};
+
+// Daily limits the server checks when a trade is logged for today, and the log of trades that broke them
+export default function RiskRulesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rulesInput, setRulesInput] = useState<RiskRules>(DEFAULT_RISK_RULES);
+
+  const { data: rules } = useQuery<RiskRules>({
+    queryKey: ['/api/risk-rules'],
+  });
+
+  const { data: breaches = [] } = useQuery<RiskBreach[]>({
+    queryKey: ['/api/risk/breaches'],
+  });
+
+  useEffect(() => {
+    if (rules) {
+      setRulesInput(rules);
+    }
+  }, [rules]);
+
+  const updateRulesMutation = useMutation({
+    mutationFn: async (updated: RiskRules) => apiRequest('/api/risk-rules', 'PUT', updated),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/risk-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
+      toast({
+        title: 'Risk rules updated',
+        description: 'New trades for today will be checked against the updated limits.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update risk rules. Limits must be zero or more, and whole numbers except the daily loss.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateLimit = (rule: RiskRule, value: string) => {
+    setRulesInput(prev => ({ ...prev, [rule]: parseFloat(value) || 0 }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Risk Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {(Object.keys(RISK_RULE_LABELS) as RiskRule[]).map(rule => (
+            <div key={rule}>
+              <Label className="text-sm font-medium">{RISK_RULE_LABELS[rule]}</Label>
+              <Input
+                type="number"
+                min="0"
+                step={rule === 'maxDailyLoss' ? '0.01' : '1'}
+                value={rulesInput[rule]}
+                onChange={(e) => updateLimit(rule, e.target?.value || '')}
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">{LIMIT_HINTS[rule]}; 0 turns the rule off</p>
+            </div>
+          ))}
+          <div>
+            <Label className="text-sm font-medium">When a Trade Breaks a Rule</Label>
+            <div className="flex space-x-2 mt-2">
+              <Select
+                value={rulesInput.enforcement}
+                onValueChange={(enforcement) => setRulesInput(prev => ({ ...prev, enforcement: enforcement as RiskEnforcement }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="warn">Log it and warn</SelectItem>
+                  <SelectItem value="reject">Reject the trade</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                disabled={updateRulesMutation.isPending}
+                onClick={() => updateRulesMutation.mutate(rulesInput)}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Recent Breaches</Label>
+          {breaches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No trades have broken a risk rule.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="font-normal py-1">Logged</th>
+                    <th className="font-normal py-1">Ticker</th>
+                    <th className="font-normal py-1">Rule</th>
+                    <th className="font-normal py-1">Details</th>
+                    <th className="font-normal py-1 text-right">Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {breaches.slice(0, RECENT_BREACHES).map(breach => (
+                    <tr key={breach.id} className="border-t">
+                      <td className="py-1 whitespace-nowrap">{format(new Date(breach.createdAt), 'MMM d, h:mm a')}</td>
+                      <td className="py-1">{breach.ticker}</td>
+                      <td className="py-1">{RISK_RULE_LABELS[breach.rule as RiskRule] ?? breach.rule}</td>
+                      <td className="py-1 text-muted-foreground">{breach.message}</td>
+                      <td className="py-1 text-right">
+                        <Badge variant={breach.action === 'rejected' ? 'destructive' : 'outline'}>
+                          {breach.action === 'rejected' ? 'Rejected' : `Warned #${breach.tradeId}`}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
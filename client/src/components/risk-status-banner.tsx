@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { ShieldAlert } from 'lucide-react';
+import type { RiskStatus } from '@shared/guardrails';
+
+// Shown in the dashboard header once today's trading has reached a risk limit or broken a rule
+export default function RiskStatusBanner() {
+  const { data: status } = useQuery<RiskStatus>({
+    queryKey: ['/api/risk/status'],
+    refetchInterval: 60000,
+  });
+
+  if (!status || (status.limitsReached.length === 0 && status.breaches.length === 0)) return null;
+
+  const reject = status.rules.enforcement === 'reject';
+  const headline = status.limitsReached.length > 0
+    ? (reject ? 'Trading locked for today' : 'Risk limit reached')
+    : `${status.breaches.length} rule breach${status.breaches.length === 1 ? '' : 'es'} today`;
+  const details = status.limitsReached.length > 0
+    ? status.limitsReached.map(check => check.message).join('; ')
+    : status.breaches.map(breach => breach.message).join('; ');
+
+  return (
+    <div
+      className="flex items-center gap-2 rounded-md border border-red-500/50 bg-red-500/10 px-3 py-1 text-red-500"
+      title={details}
+      role="alert"
+    >
+      <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+      <div className="text-xs sm:text-sm leading-tight">
+        <p className="font-semibold">{headline}</p>
+        <p className="hidden md:block max-w-xs truncate">{details}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { buildRollChains } from '@shared/rolls';
+import type { Trade } from '@shared/schema';
+
+interface RollChainsCardProps {
+  trades: Trade[];
+}
+
+const formatSigned = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+// Campaigns of trades rolled into one another, with their combined results
+export default function RollChainsCard({ trades }: RollChainsCardProps) {
+  const chains = buildRollChains(trades).sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+
+  if (chains.length === 0) return null;
+
+  return (
+    <Card className="mb-6 w-full">
+      <CardHeader>
+        <CardTitle className="text-lg">Roll Chains</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {chains.map(chain => (
+          <div key={chain.rootId} className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{chain.ticker}</span>
+                <Badge variant="outline">{chain.rolls} {chain.rolls === 1 ? 'roll' : 'rolls'}</Badge>
+                {chain.closedAt === null && <Badge variant="secondary">OPEN</Badge>}
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {chain.tradeIds.map(id => `#${id}`).join(' → ')}
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div>
+                <div className="text-muted-foreground">Cumulative P&L</div>
+                <div className={`font-medium ${chain.cumulativePnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatSigned(chain.cumulativePnl)}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Net Credit</div>
+                <div className={`font-medium ${chain.netCredit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatSigned(chain.netCredit)}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Days in Trade</div>
+                <div className="font-medium">{chain.daysInTrade}</div>
+              </div>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Opened {format(chain.openedAt, 'MMM dd, yyyy')}
+              {chain.closedAt && ` · closed ${format(chain.closedAt, 'MMM dd, yyyy')}`}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,9 @@ import { Download, Upload, Database, Trash2, Settings2, FileText, Cog, ChevronRi
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { Trade, PlaybookStrategy, PremarketAnalysis, TradeAnalysis } from "@shared/schema";
+import { DEFAULT_FEE_SCHEDULE, type FeeSchedule } from "@shared/fees";
+import { DEFAULT_PRICING_SETTINGS, type PricingSettings } from "@shared/pricing";
+import RiskRulesCard from "@/components/risk-rules-card";
 
 interface DatabaseStats {
   totalTrades: number;
@@ -26,7 +29,6 @@ interface DatabaseStats {
 export default function AdminSection() {
   const [localSettings, setLocalSettings] = useState({
     startingBalance: 28000,
-    commissionPerTrade: 1.00,
     autoSaveInterval: 5,
     theme: 'dark',
     emailNotifications: true,
@@ -47,6 +49,7 @@ export default function AdminSection() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings/account_balance"] });
       queryClient.invalidateQueries({ queryKey: ["/api/performance/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/performance/analytics"] });
       toast({
         title: "Account balance updated",
         description: "The account balance has been updated successfully.",
@@ -61,6 +64,56 @@ export default function AdminSection() {
     },
   });
 
+  // Fetch the commission and fee schedule applied to new trades
+  const { data: feeSchedule } = useQuery<FeeSchedule>({
+    queryKey: ["/api/fee-schedule"],
+  });
+
+  const updateFeeScheduleMutation = useMutation({
+    mutationFn: async (schedule: FeeSchedule) => {
+      return apiRequest("/api/fee-schedule", "PUT", schedule);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fee-schedule"] });
+      toast({
+        title: "Fees updated",
+        description: "New trades and fills will be charged with the updated commission and fees.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update commission and fees.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Fetch the rate and dividend yield used for entry Greeks
+  const { data: pricingSettings } = useQuery<PricingSettings>({
+    queryKey: ["/api/pricing-settings"],
+  });
+
+  const updatePricingSettingsMutation = useMutation({
+    mutationFn: async (pricing: PricingSettings) => {
+      return apiRequest("/api/pricing-settings", "PUT", pricing);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing-settings"] });
+      toast({
+        title: "Pricing updated",
+        description: "Entry Greeks of new and edited trades will use the updated rate and yield.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update pricing settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Fetch all data for statistics
   const { data: trades = [] } = useQuery<Trade[]>({
     queryKey: ['/api/trades'],
@@ -159,30 +212,40 @@ export default function AdminSection() {
         'Date',
         'Ticker',
         'Type',
+        'Direction',
         'Quantity',
         'Strike Price',
         'Entry Price',
         'Exit Price',
         'Expiration',
-        'P&L',
+        'Gross P&L',
+        'Commission',
+        'Fees',
+        'Net P&L',
         'Strategy',
         'Entry Reason',
-        'Exit Reason'
+        'Exit Reason',
+        'Close Reason'
       ];
 
       const csvData = trades.map(trade => [
         new Date(trade.tradeDate).toLocaleDateString(),
         trade.ticker,
         trade.type,
+        trade.direction,
         trade.quantity,
         trade.strikePrice,
         trade.entryPrice,
-        trade.exitPrice || '',
+        trade.exitPrice ?? '',
         trade.expirationDate ? new Date(trade.expirationDate).toLocaleDateString() : '',
+        trade.grossPnl ?? trade.pnl,
+        trade.commission ?? 0,
+        trade.fees ?? 0,
         trade.pnl,
         trade.playbookId ? strategies?.find(s => s.id === trade.playbookId)?.name || '' : '',
         trade.entryReason || '',
-        trade.exitReason || ''
+        trade.exitReason || '',
+        trade.closeReason || ''
       ]);
 
       const csvContent = [
@@ -246,6 +309,8 @@ export default function AdminSection() {
       
       // Calculate performance metrics
       const totalPnL = trades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
+      const totalGrossPnL = trades.reduce((sum, trade) => sum + (trade.grossPnl ?? trade.pnl ?? 0), 0);
+      const totalCharges = trades.reduce((sum, trade) => sum + (trade.commission || 0) + (trade.fees || 0), 0);
       const winningTrades = trades.filter(t => (t.pnl || 0) > 0);
       const losingTrades = trades.filter(t => (t.pnl || 0) < 0);
       const breakEvenTrades = trades.filter(t => (t.pnl || 0) === 0);
@@ -282,6 +347,8 @@ export default function AdminSection() {
         .join(', ');
       
       doc.text(`Top Symbols: ${topSymbols}`, 100, summaryY + 12);
+      doc.text(`Gross P&L: $${totalGrossPnL.toFixed(2)}`, 100, summaryY + 18);
+      doc.text(`Commissions & Fees: $${totalCharges.toFixed(2)}`, 100, summaryY + 24);
 
       // Trades table with better organization
       const sortedTrades = [...trades].sort((a, b) => 
@@ -299,10 +366,11 @@ export default function AdminSection() {
             day: 'numeric' 
           }),
           trade.ticker,
-          trade.type.toUpperCase(),
+          trade.direction === 'short' ? `SHORT ${trade.type.toUpperCase()}` : trade.type.toUpperCase(),
           trade.quantity.toString(),
           `$${trade.entryPrice.toFixed(2)}`,
-          trade.exitPrice ? `$${trade.exitPrice.toFixed(2)}` : 'OPEN',
+          trade.exitPrice !== null ? `$${trade.exitPrice.toFixed(2)}` : 'OPEN',
+          `$${((trade.commission || 0) + (trade.fees || 0)).toFixed(2)}`,
           trade.pnl ? `$${trade.pnl.toFixed(2)}` : '$0.00',
           strategyName,
           (trade.entryReason || '').substring(0, 20) + (trade.entryReason && trade.entryReason.length > 20 ? '...' : '')
@@ -311,7 +379,7 @@ export default function AdminSection() {
 
       // Create the table using autoTable
       autoTable(doc, {
-        head: [['Date', 'Symbol', 'Type', 'Qty', 'Entry', 'Exit', 'P&L', 'Strategy', 'Entry Reason']],
+        head: [['Date', 'Symbol', 'Type', 'Qty', 'Entry', 'Exit', 'Fees', 'Net P&L', 'Strategy', 'Entry Reason']],
         body: tableData,
         startY: 95,
         styles: { 
@@ -331,9 +399,10 @@ export default function AdminSection() {
           3: { cellWidth: 10 },  // Qty
           4: { cellWidth: 18 },  // Entry
           5: { cellWidth: 18 },  // Exit
-          6: { cellWidth: 20, halign: 'right' },  // P&L
-          7: { cellWidth: 25 },  // Strategy
-          8: { cellWidth: 30 }   // Entry Reason
+          6: { cellWidth: 14, halign: 'right' },  // Fees
+          7: { cellWidth: 20, halign: 'right' },  // Net P&L
+          8: { cellWidth: 25 },  // Strategy
+          9: { cellWidth: 30 }   // Entry Reason
         },
         alternateRowStyles: { fillColor: [245, 245, 245] },
         margin: { left: 15, right: 15 }
@@ -387,6 +456,11 @@ export default function AdminSection() {
         queryClient.invalidateQueries({ queryKey: ['/api/trade-analysis'] });
         queryClient.invalidateQueries({ queryKey: ['/api/premarket-analysis'] });
         queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
       } catch (error) {
         toast({
           title: "Import Failed",
@@ -607,6 +681,30 @@ export default function AdminSection() {
     }
   }, [accountBalanceSetting]);
 
+  const [feeScheduleInput, setFeeScheduleInput] = useState<FeeSchedule>(DEFAULT_FEE_SCHEDULE);
+
+  React.useEffect(() => {
+    if (feeSchedule) {
+      setFeeScheduleInput(feeSchedule);
+    }
+  }, [feeSchedule]);
+
+  const updateFeeScheduleInput = (key: keyof FeeSchedule, value: string) => {
+    setFeeScheduleInput(prev => ({ ...prev, [key]: parseFloat(value) || 0 }));
+  };
+
+  const [pricingSettingsInput, setPricingSettingsInput] = useState<PricingSettings>(DEFAULT_PRICING_SETTINGS);
+
+  React.useEffect(() => {
+    if (pricingSettings) {
+      setPricingSettingsInput(pricingSettings);
+    }
+  }, [pricingSettings]);
+
+  const updatePricingSettingsInput = (key: keyof PricingSettings, value: string) => {
+    setPricingSettingsInput(prev => ({ ...prev, [key]: parseFloat(value) || 0 }));
+  };
+
   const handleUpdateAccountBalance = () => {
     if (accountBalanceInput && accountBalanceInput !== ((accountBalanceSetting as any)?.value || "")) {
       updateAccountBalanceMutation.mutate(accountBalanceInput);
@@ -797,15 +895,77 @@ export default function AdminSection() {
                 </p>
               </div>
               <div>
-                <Label className="text-sm font-medium">Commission per Trade</Label>
+                <Label className="text-sm font-medium">Commission per Contract</Label>
                 <Input
                   type="number"
                   step="0.01"
-                  value={localSettings.commissionPerTrade}
-                  onChange={(e) => updateLocalSetting('commissionPerTrade', parseFloat(e.target?.value || "") || 0)}
+                  value={feeScheduleInput.commissionPerContract}
+                  onChange={(e) => updateFeeScheduleInput('commissionPerContract', e.target?.value || "")}
                   className="mt-2"
                 />
               </div>
+              <div>
+                <Label className="text-sm font-medium">Fees per Order</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={feeScheduleInput.feesPerOrder}
+                  onChange={(e) => updateFeeScheduleInput('feesPerOrder', e.target?.value || "")}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Regulatory Fees per Contract</Label>
+                <div className="flex space-x-2 mt-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={feeScheduleInput.regulatoryFeesPerContract}
+                    onChange={(e) => updateFeeScheduleInput('regulatoryFeesPerContract', e.target?.value || "")}
+                  />
+                  <Button
+                    size="sm"
+                    disabled={updateFeeScheduleMutation.isPending}
+                    onClick={() => updateFeeScheduleMutation.mutate(feeScheduleInput)}
+                  >
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Charged on each contract opened or closed; P&L is reported net of these
+                </p>
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Risk-Free Rate (%)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={pricingSettingsInput.riskFreeRate}
+                  onChange={(e) => updatePricingSettingsInput('riskFreeRate', e.target?.value || "")}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Dividend Yield (%)</Label>
+                <div className="flex space-x-2 mt-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={pricingSettingsInput.dividendYield}
+                    onChange={(e) => updatePricingSettingsInput('dividendYield', e.target?.value || "")}
+                  />
+                  <Button
+                    size="sm"
+                    disabled={updatePricingSettingsMutation.isPending}
+                    onClick={() => updatePricingSettingsMutation.mutate(pricingSettingsInput)}
+                  >
+                    Save
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Used to price options for the Greeks recorded when a trade is opened
+                </p>
+              </div>
               <div>
                 <Label className="text-sm font-medium">Auto-save Interval (minutes)</Label>
                 <Select
@@ -873,6 +1033,9 @@ export default function AdminSection() {
         </CardContent>
       </Card>
 
+      {/* Risk Rules */}
+      <RiskRulesCard />
+
       {/* Data Management */}
       <Card>
         <CardHeader>
@@ -11,12 +11,18 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { CloudUpload, Save, Image, X, Calendar, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Trade, TradeAnalysis, IntradayNote, PlaybookStrategy } from "@shared/schema";
+import type { Trade, TradeLeg, TradeExecution, TradeAnalysis, IntradayNote, PlaybookStrategy } from "@shared/schema";
 import { format } from "date-fns";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import TradeLegsTable, { structureLabel } from "@/components/trade-legs-table";
+import TradeExecutionsEditor from "@/components/trade-executions-editor";
+import PayoffSimulator from "@/components/payoff-simulator";
+import { plannedRMultiple, plannedRiskDollars } from "@shared/risk";
+import { entryMoneyness, moneynessBucket, underlyingMove } from "@shared/moneyness";
+import { CLOSE_REASON_LABELS, type CloseReason } from "@shared/settlement";
 
 const analysisFormSchema = z.object({
   tradeId: z.number().min(1, "Please select a trade"),
@@ -31,11 +37,20 @@ type AnalysisFormData = z.infer<typeof analysisFormSchema>;
 // Trade edit form schema
 const tradeEditSchema = z.object({
   ticker: z.string().min(1, "Ticker is required"),
-  type: z.enum(["calls", "puts"]),
+  type: z.enum(["calls", "puts", "mixed"]),
+  direction: z.enum(["long", "short"]),
   quantity: z.number().min(1, "Quantity must be at least 1"),
   strikePrice: z.number().min(0, "Strike price must be positive"),
   entryPrice: z.number().min(0, "Entry price must be positive"),
   exitPrice: z.number().min(0, "Exit price must be positive").optional(),
+  closeReason: z.enum(["closed", "expired", "assigned", "exercised"]).optional(),
+  plannedStop: z.number().min(0, "Stop must be positive").optional(),
+  plannedTarget: z.number().min(0, "Target must be positive").optional(),
+  plannedRisk: z.number().positive("Risk must be positive").optional(),
+  underlyingEntryPrice: z.number().positive("Underlying price must be positive").optional(),
+  underlyingExitPrice: z.number().positive("Underlying price must be positive").optional(),
+  entryIv: z.number().min(0, "IV must be positive").optional(),
+  exitIv: z.number().min(0, "IV must be positive").optional(),
   entryTime: z.string().min(1, "Entry time is required"),
   exitTime: z.string().optional(),
   entryReason: z.string().optional(),
@@ -45,6 +60,8 @@ const tradeEditSchema = z.object({
 
 type TradeEditFormData = z.infer<typeof tradeEditSchema>;
 
+const signedPercent = (value: number | null) => (value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`);
+
 export default function AnalysisSection() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date>(() => {
@@ -81,6 +98,16 @@ export default function AnalysisSection() {
     queryKey: ['/api/trades'],
   });
 
+  // Fetch legs of multi-leg positions
+  const { data: allLegs = [] } = useQuery<TradeLeg[]>({
+    queryKey: ['/api/trade-legs'],
+  });
+
+  // Fetch fills of scaled trades
+  const { data: allExecutions = [] } = useQuery<TradeExecution[]>({
+    queryKey: ['/api/trade-executions'],
+  });
+
   // Fetch existing trade analyses
   const { data: analyses = [], isLoading: analysesLoading } = useQuery<TradeAnalysis[]>({
     queryKey: ['/api/trade-analysis'],
@@ -266,11 +293,12 @@ export default function AnalysisSection() {
                         {tradesOnDate.length > 0 ? (
                           tradesOnDate.map((trade) => {
                             const strategy = strategies.find(s => s.id === trade.playbookId);
+                            const isMultiLeg = allLegs.some(leg => leg.tradeId === trade.id);
                             return (
                               <SelectItem key={trade.id} value={trade.id.toString()}>
                                 <div className="flex flex-col">
                                   <div>
-                                    Trade #{trade.id} - {trade.ticker} {trade.type}
+                                    Trade #{trade.id} - {trade.ticker} {isMultiLeg ? structureLabel(trade) : trade.type}
                                     {trade.pnl !== null && trade.pnl !== undefined ? (
                                       <span className={trade.pnl >= 0 ? ' text-green-600' : ' text-red-600'}>
                                         {' '}({trade.pnl >= 0 ? '+' : ''}${trade.pnl.toFixed(2)})
@@ -450,17 +478,28 @@ export default function AnalysisSection() {
               {(() => {
                 const selectedTrade = allTrades.find((t: Trade) => t.id === selectedTradeId);
                 if (!selectedTrade) return <div>Trade not found</div>;
+                const selectedTradeLegs = allLegs.filter(leg => leg.tradeId === selectedTrade.id);
+                const selectedTradeExecutions = allExecutions.filter(execution => execution.tradeId === selectedTrade.id);
                 
                 const TradeEditFormComponent = () => {
                   const tradeForm = useForm<TradeEditFormData>({
                     resolver: zodResolver(tradeEditSchema),
                     defaultValues: {
                       ticker: selectedTrade.ticker,
-                      type: selectedTrade.type as "calls" | "puts",
+                      type: selectedTrade.type as "calls" | "puts" | "mixed",
+                      direction: selectedTrade.direction as "long" | "short",
                       quantity: selectedTrade.quantity,
                       strikePrice: selectedTrade.strikePrice,
                       entryPrice: selectedTrade.entryPrice,
-                      exitPrice: selectedTrade.exitPrice || undefined,
+                      exitPrice: selectedTrade.exitPrice ?? undefined,
+                      closeReason: (selectedTrade.closeReason as CloseReason | null) ?? undefined,
+                      plannedStop: selectedTrade.plannedStop ?? undefined,
+                      plannedTarget: selectedTrade.plannedTarget ?? undefined,
+                      plannedRisk: selectedTrade.plannedRisk ?? undefined,
+                      underlyingEntryPrice: selectedTrade.underlyingEntryPrice ?? undefined,
+                      underlyingExitPrice: selectedTrade.underlyingExitPrice ?? undefined,
+                      entryIv: selectedTrade.entryIv ?? undefined,
+                      exitIv: selectedTrade.exitIv ?? undefined,
                       entryTime: format(new Date(selectedTrade.entryTime), "yyyy-MM-dd'T'HH:mm"),
                       exitTime: selectedTrade.exitTime ? format(new Date(selectedTrade.exitTime), "yyyy-MM-dd'T'HH:mm") : "",
                       entryReason: selectedTrade.entryReason || "",
@@ -475,7 +514,15 @@ export default function AnalysisSection() {
                         ...data,
                         entryTime: new Date(data.entryTime).toISOString(),
                         exitTime: data.exitTime ? new Date(data.exitTime).toISOString() : null,
-                        exitPrice: data.exitPrice || null,
+                        exitPrice: data.exitPrice ?? null,
+                        closeReason: data.closeReason ?? null,
+                        plannedStop: data.plannedStop ?? null,
+                        plannedTarget: data.plannedTarget ?? null,
+                        plannedRisk: data.plannedRisk ?? null,
+                        underlyingEntryPrice: data.underlyingEntryPrice ?? null,
+                        underlyingExitPrice: data.underlyingExitPrice ?? null,
+                        entryIv: data.entryIv ?? null,
+                        exitIv: data.exitIv ?? null,
                         playbookId: data.playbookId,
                       };
                       return apiRequest(`/api/trades/${selectedTrade.id}`, 'PATCH', updateData);
@@ -483,6 +530,11 @@ export default function AnalysisSection() {
                     onSuccess: () => {
                       queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
                       queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+                      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+                      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+                      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+                      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+                      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
                       toast({
                         title: "Trade Updated",
                         description: "Trade details have been successfully updated.",
@@ -541,6 +593,28 @@ export default function AnalysisSection() {
                             )}
                           />
 
+                          <FormField
+                            control={tradeForm.control}
+                            name="direction"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Direction</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="long">Long (Buy to Open)</SelectItem>
+                                    <SelectItem value="short">Short (Sell to Open)</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
                           <FormField
                             control={tradeForm.control}
                             name="quantity"
@@ -611,7 +685,7 @@ export default function AnalysisSection() {
                                     type="number"
                                     step="0.01"
                                     {...field}
-                                    value={field.value || ""}
+                                    value={field.value ?? ""}
                                     onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
                                     placeholder="3.75"
                                   />
@@ -621,6 +695,176 @@ export default function AnalysisSection() {
                             )}
                           />
 
+                          <FormField
+                            control={tradeForm.control}
+                            name="closeReason"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Close Reason</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Still open" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {(Object.keys(CLOSE_REASON_LABELS) as CloseReason[]).map(reason => (
+                                      <SelectItem key={reason} value={reason}>{CLOSE_REASON_LABELS[reason]}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="plannedStop"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Planned Stop ($)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                    placeholder="2.00"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="plannedTarget"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Planned Target ($)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                    placeholder="5.00"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="plannedRisk"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Planned Risk ($)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                                    placeholder="From stop if blank"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="underlyingEntryPrice"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Underlying at Entry</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    placeholder="Stock price"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="underlyingExitPrice"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Underlying at Exit</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    placeholder="Stock price"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="entryIv"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>IV at Entry (%)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    placeholder="e.g. 24.5"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={tradeForm.control}
+                            name="exitIv"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>IV at Exit (%)</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    {...field}
+                                    value={field.value ?? ""}
+                                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    placeholder="e.g. 21.0"
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
                           <FormField
                             control={tradeForm.control}
                             name="entryTime"
@@ -738,7 +982,137 @@ export default function AnalysisSection() {
                   );
                 };
                 
-                return <TradeEditFormComponent />;
+                return (
+                  <div className="space-y-6">
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-semibold">Position</h4>
+                        <Badge variant="outline">{structureLabel(selectedTrade)}</Badge>
+                      </div>
+                      <TradeLegsTable trade={selectedTrade} legs={selectedTradeLegs} />
+                      {selectedTrade.pnl !== null && (
+                        <div className="grid grid-cols-3 gap-3 text-sm">
+                          <div>
+                            <div className="text-muted-foreground">Gross P&L</div>
+                            <div className="font-medium">${(selectedTrade.grossPnl ?? selectedTrade.pnl).toFixed(2)}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Commission & Fees</div>
+                            <div className="font-medium">${((selectedTrade.commission || 0) + (selectedTrade.fees || 0)).toFixed(2)}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Net P&L</div>
+                            <div className={`font-medium ${selectedTrade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              ${selectedTrade.pnl.toFixed(2)}
+                            </div>
+                          </div>
+                        </div>
+                      )}
+                      {(selectedTrade.rMultiple !== null || plannedRMultiple(selectedTrade) !== null) && (
+                        <div className="grid grid-cols-3 gap-3 text-sm">
+                          <div>
+                            <div className="text-muted-foreground">Planned Risk</div>
+                            <div className="font-medium">${plannedRiskDollars(selectedTrade)?.toFixed(2) ?? '—'}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Planned R</div>
+                            <div className="font-medium">{plannedRMultiple(selectedTrade)?.toFixed(2).concat('R') ?? '—'}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Realized R</div>
+                            <div className={`font-medium ${(selectedTrade.rMultiple ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {selectedTrade.rMultiple?.toFixed(2).concat('R') ?? '—'}
+                            </div>
+                          </div>
+                        </div>
+                      )}
+                      {(selectedTrade.underlyingEntryPrice !== null || selectedTrade.entryIv !== null) && (() => {
+                        const move = underlyingMove(selectedTrade);
+                        const moneyness = entryMoneyness(selectedTrade);
+                        return (
+                          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                            <div>
+                              <div className="text-muted-foreground">Moneyness at Entry</div>
+                              <div className="font-medium">
+                                {moneyness === null ? '—' : `${moneynessBucket(selectedTrade)} (${signedPercent(moneyness)})`}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-muted-foreground">Underlying Move</div>
+                              <div className={`font-medium ${move.favorable === null ? '' : move.favorable ? 'text-green-600' : 'text-red-600'}`}>
+                                {signedPercent(move.underlyingChangePercent)}
+                                {move.underlyingChange !== null && ` ($${move.underlyingChange.toFixed(2)})`}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-muted-foreground">Option Move</div>
+                              <div className={`font-medium ${(move.optionChangePercent ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {signedPercent(move.optionChangePercent)}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-muted-foreground">IV Change</div>
+                              <div className="font-medium">
+                                {move.ivChange === null ? '—' : `${move.ivChange >= 0 ? '+' : ''}${move.ivChange.toFixed(1)} pts`}
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })()}
+                      {selectedTrade.entryDelta !== null && (
+                        <div className="grid grid-cols-3 sm:grid-cols-5 gap-3 text-sm">
+                          <div>
+                            <div className="text-muted-foreground">Entry Delta</div>
+                            <div className="font-medium">{selectedTrade.entryDelta.toFixed(1)} sh</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Gamma</div>
+                            <div className="font-medium">{selectedTrade.entryGamma?.toFixed(2) ?? '—'}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Theta / Day</div>
+                            <div className={`font-medium ${(selectedTrade.entryTheta ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              ${selectedTrade.entryTheta?.toFixed(2) ?? '—'}
+                            </div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Vega</div>
+                            <div className="font-medium">${selectedTrade.entryVega?.toFixed(2) ?? '—'}</div>
+                          </div>
+                          <div>
+                            <div className="text-muted-foreground">Rho</div>
+                            <div className="font-medium">${selectedTrade.entryRho?.toFixed(2) ?? '—'}</div>
+                          </div>
+                        </div>
+                      )}
+                      {selectedTradeLegs.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Type, strike, prices and expiry of a multi-leg position are derived from its legs. Edit the legs from Trade Logging.
+                        </p>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      <h4 className="font-semibold">Payoff & What-If</h4>
+                      <PayoffSimulator key={selectedTrade.id} trade={selectedTrade} legs={selectedTradeLegs} />
+                    </div>
+                    {selectedTradeLegs.length === 0 && (
+                      <div className="space-y-2">
+                        <h4 className="font-semibold">Executions</h4>
+                        <TradeExecutionsEditor
+                          key={`${selectedTrade.id}:${selectedTradeExecutions.map(execution => execution.id).join(",")}`}
+                          trade={selectedTrade}
+                          executions={selectedTradeExecutions}
+                        />
+                        {selectedTradeExecutions.length > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            Contracts, prices, times and P&L of a trade with executions are derived from its fills.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    <TradeEditFormComponent />
+                  </div>
+                );
               })()}
             </CardContent>
           </Card>
@@ -20,6 +20,8 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import type { Trade, PremarketAnalysis, TradeAnalysis, IntradayNote } from "@shared/schema";
+import type { DailyScorecard } from "@shared/scorecard";
+import DailyScorecardCard from "@/components/daily-scorecard-card";
 
 export default function DailySnapshotSection() {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
@@ -41,6 +43,10 @@ export default function DailySnapshotSection() {
     queryKey: ['/api/intraday-notes'],
   });
 
+  const { data: scorecards = [] } = useQuery<DailyScorecard[]>({
+    queryKey: ['/api/scorecards'],
+  });
+
   // Filter data by selected date with error handling
   const dateString = selectedDate.toDateString();
   
@@ -75,6 +81,9 @@ export default function DailySnapshotSection() {
     }
   });
 
+  const scorecardOnDate = scorecards.find(scorecard => scorecard.date === format(selectedDate, 'yyyy-MM-dd'));
+  const againstPlanIds = new Set(scorecardOnDate?.trades.filter(trade => trade.againstPlan).map(trade => trade.tradeId));
+
   const notesOnDate = intradayNotes.filter(note => {
     try {
       if (!note.time) return false;
@@ -263,6 +272,9 @@ export default function DailySnapshotSection() {
         </Card>
       )}
 
+      {/* Plan vs Execution Scorecard */}
+      {scorecardOnDate && <DailyScorecardCard scorecard={scorecardOnDate} />}
+
       {/* Trades Summary */}
       {tradesOnDate.length > 0 && (
         <Card>
@@ -280,13 +292,16 @@ export default function DailySnapshotSection() {
                     <Badge variant={trade.type === 'calls' ? 'default' : 'secondary'}>
                       {trade.ticker} {trade.type}
                     </Badge>
+                    {againstPlanIds.has(trade.id) && (
+                      <Badge variant="destructive">Against plan</Badge>
+                    )}
                     <span className="text-sm text-muted-foreground">
                       {trade.quantity} contracts @ ${trade.strikePrice}
                     </span>
                     <span className="text-sm text-muted-foreground">
                       Entry: ${trade.entryPrice}
                     </span>
-                    {trade.exitPrice && (
+                    {trade.exitPrice !== null && (
                       <span className="text-sm text-muted-foreground">
                         Exit: ${trade.exitPrice}
                       </span>
@@ -1,5 +1,4 @@
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { DollarSign, Percent, TrendingUp, BarChart3, Target, Activity, Calendar, Award } from "lucide-react";
@@ -9,154 +8,36 @@ import {
   WinRateChart,
   SymbolPerformanceChart,
   TimeClassificationChart,
+  DirectionPerformanceChart,
+  CloseReasonPerformanceChart,
+  MoneynessPerformanceChart,
   RiskRewardScatterChart,
   PnLDistributionChart,
   StreakChart,
 } from "@/components/charts/performance-charts";
 import { DailyPerformanceCalendar } from "@/components/charts/daily-performance-calendar";
-import { calculateDrawdown, calculateSharpeRatio, getStreakAnalysis } from "@/lib/trade-calculations";
-import type { Trade } from "@shared/schema";
-
-interface PerformanceData {
-  totalPnL: number;
-  winRate: number;
-  avgRR: number;
-  totalTrades: number;
-  symbolPerformance: Record<string, number>;
-  timePerformance: Record<string, number>;
-  dailyPnL: Record<string, number>;
-  trades: Trade[];
-}
+import AnalyticsFiltersBar, { type AnalyticsFilterValues } from "@/components/analytics-filters-bar";
+import RMultipleCard from "@/components/r-multiple-card";
+import PlannedTradesCard from "@/components/planned-trades-card";
+import PremarketFactorsCard from "@/components/premarket-factors-card";
+import KeyLevelReportCard from "@/components/key-level-report-card";
+import EventDayReportCard from "@/components/event-day-report-card";
+import { usePerformanceReport } from "@/hooks/use-performance-report";
 
 export default function PerformanceSectionMobile() {
-  // Fetch performance data
-  const { data: performanceData, isLoading } = useQuery<PerformanceData>({
-    queryKey: ['/api/performance/analytics'],
-  });
+  const [filters, setFilters] = useState<AnalyticsFilterValues>({ groupBy: 'trade' });
 
-  // Fetch all trades
-  const { data: allTrades = [] } = useQuery<Trade[]>({
-    queryKey: ['/api/trades'],
-  });
-
-  // Fetch account balance
-  const { data: accountBalanceData } = useQuery<{value: string}>({
-    queryKey: ['/api/settings/account_balance'],
-  });
-
-  const startingBalance = accountBalanceData?.value ? parseInt(accountBalanceData.value) : 28000;
-
-  const analytics = useMemo(() => {
-    if (!performanceData || !allTrades) {
-      return {
-        completedTrades: [],
-        equityCurve: [],
-        drawdown: { maxDrawdown: 0, maxDrawdownPercent: 0, currentDrawdown: 0 },
-        sharpeRatio: 0,
-        streakAnalysis: { currentStreak: 0, maxWinStreak: 0, maxLossStreak: 0, streaks: [] },
-        pnlDistribution: {},
-        riskRewardData: [],
-        monthlyCalendar: {},
-      };
-    }
-
-    const completedTrades = allTrades.filter(trade => trade.pnl !== null);
-    
-    // Calculate equity curve
-    let balance = startingBalance;
-    const equityCurve = [{ date: new Date().toISOString(), balance }];
-    
-    completedTrades.forEach(trade => {
-      if (trade.exitTime) {
-        balance += trade.pnl || 0;
-        equityCurve.push({
-          date: trade.exitTime.toString(),
-          balance
-        });
-      }
-    });
-
-    // Calculate drawdown
-    const balanceHistory = equityCurve.map(point => point.balance);
-    const drawdown = calculateDrawdown(balanceHistory);
-
-    // Calculate Sharpe ratio
-    const dailyReturns = Object.values(performanceData.dailyPnL).map(pnl => pnl / startingBalance);
-    const sharpeRatio = calculateSharpeRatio(dailyReturns);
-
-    // Streak analysis
-    const streakAnalysis = getStreakAnalysis(completedTrades);
-
-    // P&L distribution
-    const bucketSize = 100;
-    const pnlDistribution: Record<string, number> = {};
-    completedTrades.forEach(trade => {
-      const bucket = Math.floor((trade.pnl || 0) / bucketSize) * bucketSize;
-      pnlDistribution[bucket.toString()] = (pnlDistribution[bucket.toString()] || 0) + 1;
-    });
-
-    // Risk/Reward scatter data
-    const riskRewardData = completedTrades.map(trade => {
-      const risk = Math.abs(trade.entryPrice * trade.quantity * 100 * 0.1); // Assume 10% risk
-      return {
-        x: risk,
-        y: trade.pnl || 0,
-        id: trade.id
-      };
-    });
-
-    // Monthly calendar data
-    const monthlyCalendar: Record<string, number> = {};
-    completedTrades.forEach(trade => {
-      if (trade.exitTime) {
-        const monthKey = new Date(trade.exitTime).toLocaleDateString('en-US', { 
-          year: 'numeric', 
-          month: 'short' 
-        });
-        monthlyCalendar[monthKey] = (monthlyCalendar[monthKey] || 0) + (trade.pnl || 0);
-      }
-    });
-
-    return {
-      completedTrades,
-      equityCurve,
-      drawdown,
-      sharpeRatio,
-      streakAnalysis,
-      pnlDistribution,
-      riskRewardData,
-      monthlyCalendar,
-    };
-  }, [performanceData, allTrades, startingBalance]);
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-muted-foreground">Loading performance data...</div>
-      </div>
-    );
-  }
-
-  if (!performanceData) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-muted-foreground">No performance data available</div>
-      </div>
-    );
-  }
-
-  const winningTrades = analytics.completedTrades.filter(t => t.pnl! > 0);
-  const losingTrades = analytics.completedTrades.filter(t => t.pnl! <= 0);
-  const currentBalance = startingBalance + performanceData.totalPnL;
+  // Fetch the performance report for the current filters
+  const { data: performanceData, isLoading } = usePerformanceReport(filters);
 
   // Convert daily P&L data for heatmap
   const heatmapData = useMemo(() => {
-    if (!performanceData?.dailyPnL || !allTrades) return [];
+    if (!performanceData) return [];
     
     // Group trades by date and calculate daily P&L
     const dailyData: Record<string, { pnl: number; trades: number }> = {};
     
-    allTrades.forEach(trade => {
+    performanceData.trades.forEach(trade => {
       if (trade.pnl !== null && trade.tradeDate) {
         // Normalize to local date to avoid timezone shifts
         const tradeDate = new Date(trade.tradeDate);
@@ -188,7 +69,25 @@ export default function PerformanceSectionMobile() {
     
 
     return result;
-  }, [performanceData?.dailyPnL, allTrades]);
+  }, [performanceData]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading performance data...</div>
+      </div>
+    );
+  }
+
+  if (!performanceData) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">No performance data available</div>
+      </div>
+    );
+  }
+
+  const { streaks, drawdown } = performanceData;
 
   return (
     <div className="w-full max-w-full overflow-hidden space-y-6">
@@ -198,6 +97,13 @@ export default function PerformanceSectionMobile() {
         <p className="text-muted-foreground">Track your trading performance and identify patterns</p>
       </div>
 
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <AnalyticsFiltersBar filters={filters} onChange={setFilters} />
+        </CardContent>
+      </Card>
+
       {/* Performance Calendar - TOP PRIORITY */}
       <Card>
         <CardHeader>
@@ -228,7 +134,7 @@ export default function PerformanceSectionMobile() {
                   {performanceData.totalPnL >= 0 ? '+' : ''}${performanceData.totalPnL.toFixed(2)}
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  Account: ${currentBalance.toLocaleString()}
+                  Account: ${performanceData.currentBalance.toLocaleString()}
                 </p>
               </div>
               <div className="w-12 h-12 bg-green-100 dark:bg-green-900/20 rounded-lg flex items-center justify-center">
@@ -248,7 +154,7 @@ export default function PerformanceSectionMobile() {
                   {performanceData.winRate.toFixed(1)}%
                 </p>
                 <p className="text-xs text-muted-foreground">
-                  {winningTrades.length}W / {losingTrades.length}L
+                  {performanceData.wins}W / {performanceData.losses}L
                 </p>
               </div>
               <div className="w-12 h-12 bg-blue-100 dark:bg-blue-900/20 rounded-lg flex items-center justify-center">
@@ -284,7 +190,7 @@ export default function PerformanceSectionMobile() {
                 <p className="text-sm text-muted-foreground">Total Trades</p>
                 <p className="text-2xl font-bold text-foreground">{performanceData.totalTrades}</p>
                 <p className="text-xs text-muted-foreground">
-                  {analytics.completedTrades.length} completed
+                  {performanceData.completedTrades} completed
                 </p>
               </div>
               <div className="w-12 h-12 bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center">
@@ -305,10 +211,10 @@ export default function PerformanceSectionMobile() {
                 <p className="text-sm text-muted-foreground">Max Drawdown</p>
               </div>
               <p className="text-lg font-bold text-red-600">
-                ${analytics.drawdown.maxDrawdown.toFixed(2)}
+                ${drawdown.maxDrawdown.toFixed(2)}
               </p>
               <p className="text-xs text-muted-foreground">
-                {analytics.drawdown.maxDrawdownPercent.toFixed(1)}%
+                {drawdown.maxDrawdownPercent.toFixed(1)}%
               </p>
             </div>
           </CardContent>
@@ -322,10 +228,10 @@ export default function PerformanceSectionMobile() {
                 <p className="text-sm text-muted-foreground">Sharpe Ratio</p>
               </div>
               <p className="text-lg font-bold text-purple-600">
-                {analytics.sharpeRatio.toFixed(2)}
+                {performanceData.sharpeRatio.toFixed(2)}
               </p>
               <p className="text-xs text-muted-foreground">
-                Risk-adj return
+                Sortino: {performanceData.sortinoRatio.toFixed(2)}
               </p>
             </div>
           </CardContent>
@@ -339,10 +245,10 @@ export default function PerformanceSectionMobile() {
                 <p className="text-sm text-muted-foreground">Win Streak</p>
               </div>
               <p className="text-lg font-bold text-green-600">
-                {analytics.streakAnalysis.maxWinStreak}
+                {streaks.maxWinStreak}
               </p>
               <p className="text-xs text-muted-foreground">
-                Current: {analytics.streakAnalysis.currentStreak}
+                Current: {streaks.currentStreak}
               </p>
             </div>
           </CardContent>
@@ -353,12 +259,10 @@ export default function PerformanceSectionMobile() {
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <Calendar className="w-4 h-4 text-muted-foreground" />
-                <p className="text-sm text-muted-foreground">Avg/Trade</p>
+                <p className="text-sm text-muted-foreground">Expectancy</p>
               </div>
-              <p className="text-lg font-bold text-blue-600">
-                ${analytics.completedTrades.length > 0 
-                  ? (performanceData.totalPnL / analytics.completedTrades.length).toFixed(2)
-                  : '0.00'}
+              <p className={`text-lg font-bold ${performanceData.expectancy >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                ${performanceData.expectancy.toFixed(2)}
               </p>
               <p className="text-xs text-muted-foreground">
                 Per completed trade
@@ -368,6 +272,35 @@ export default function PerformanceSectionMobile() {
         </Card>
       </div>
 
+      {/* Trade Quality */}
+      <div className="grid grid-cols-2 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Profit Factor</p>
+              <p className="text-lg font-bold text-foreground">
+                {performanceData.profitFactor === null ? '—' : performanceData.profitFactor.toFixed(2)}
+              </p>
+              <p className="text-xs text-muted-foreground">Gross wins / gross losses</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Avg Win / Loss</p>
+              <p className="text-lg font-bold">
+                <span className="text-green-600">${performanceData.avgWin.toFixed(2)}</span>
+                {' / '}
+                <span className="text-red-600">${performanceData.avgLoss.toFixed(2)}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">Per completed trade</p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Charts Section - Mobile Optimized */}
       <div className="space-y-6">
         {/* Equity Curve */}
@@ -377,7 +310,7 @@ export default function PerformanceSectionMobile() {
           </CardHeader>
           <CardContent>
             <div className="h-[200px] w-full">
-              <EquityCurveChart data={analytics.equityCurve} />
+              <EquityCurveChart data={performanceData.equityCurve} />
             </div>
           </CardContent>
         </Card>
@@ -420,6 +353,42 @@ export default function PerformanceSectionMobile() {
           </CardContent>
         </Card>
 
+        {/* Direction Performance */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Long vs Short Performance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[200px] w-full">
+              <DirectionPerformanceChart data={performanceData.directionPerformance} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Outcome Performance */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Performance by Outcome</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[200px] w-full">
+              <CloseReasonPerformanceChart data={performanceData.closeReasonPerformance} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Moneyness Performance */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Performance by Moneyness</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[200px] w-full">
+              <MoneynessPerformanceChart data={performanceData.moneynessPerformance} />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Win Rate Breakdown */}
         <Card>
           <CardHeader>
@@ -428,8 +397,8 @@ export default function PerformanceSectionMobile() {
           <CardContent>
             <div className="h-[200px] w-full">
               <WinRateChart 
-                wins={winningTrades.length}
-                losses={losingTrades.length}
+                wins={performanceData.wins}
+                losses={performanceData.losses}
               />
             </div>
           </CardContent>
@@ -442,11 +411,22 @@ export default function PerformanceSectionMobile() {
           </CardHeader>
           <CardContent>
             <div className="h-[200px] w-full">
-              <PnLDistributionChart data={analytics.pnlDistribution} />
+              <PnLDistributionChart data={performanceData.pnlDistribution} />
             </div>
           </CardContent>
         </Card>
 
+        {/* R-Multiples */}
+        <RMultipleCard report={performanceData} />
+
+        {/* Planned vs Unplanned */}
+        <PlannedTradesCard report={performanceData} />
+
+        {/* Premarket Factors */}
+        <PremarketFactorsCard filters={filters} />
+        <KeyLevelReportCard filters={filters} />
+        <EventDayReportCard filters={filters} />
+
         {/* Risk/Reward Scatter */}
         <Card>
           <CardHeader>
@@ -454,7 +434,7 @@ export default function PerformanceSectionMobile() {
           </CardHeader>
           <CardContent>
             <div className="h-[250px] w-full">
-              <RiskRewardScatterChart data={analytics.riskRewardData} />
+              <RiskRewardScatterChart data={performanceData.riskRewardData} />
             </div>
           </CardContent>
         </Card>
@@ -469,25 +449,25 @@ export default function PerformanceSectionMobile() {
               <div className="grid grid-cols-3 gap-4 text-center">
                 <div>
                   <p className="text-2xl font-bold text-green-600">
-                    {analytics.streakAnalysis.maxWinStreak}
+                    {streaks.maxWinStreak}
                   </p>
                   <p className="text-sm text-muted-foreground">Max Win Streak</p>
                 </div>
                 <div>
                   <p className="text-2xl font-bold text-red-600">
-                    {analytics.streakAnalysis.maxLossStreak}
+                    {streaks.maxLossStreak}
                   </p>
                   <p className="text-sm text-muted-foreground">Max Loss Streak</p>
                 </div>
                 <div>
-                  <p className={`text-2xl font-bold ${analytics.streakAnalysis.currentStreak >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {analytics.streakAnalysis.currentStreak}
+                  <p className={`text-2xl font-bold ${streaks.currentStreak >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {streaks.currentStreak}
                   </p>
                   <p className="text-sm text-muted-foreground">Current Streak</p>
                 </div>
               </div>
               <div className="h-[150px] w-full">
-                <StreakChart streaks={analytics.streakAnalysis.streaks} />
+                <StreakChart streaks={streaks.streaks} />
               </div>
             </div>
           </CardContent>
@@ -504,28 +484,38 @@ export default function PerformanceSectionMobile() {
             <div className="grid grid-cols-1 gap-3">
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-muted-foreground">Starting Balance</span>
-                <span className="font-medium">${startingBalance.toLocaleString()}</span>
+                <span className="font-medium">${performanceData.startingBalance.toLocaleString()}</span>
               </div>
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-muted-foreground">Current Balance</span>
-                <span className="font-medium">${currentBalance.toLocaleString()}</span>
+                <span className="font-medium">${performanceData.currentBalance.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-muted-foreground">Gross P&L</span>
+                <span className="font-medium">${performanceData.totalGrossPnL.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between items-center py-2 border-b">
+                <span className="text-muted-foreground">Commission & Fees</span>
+                <span className="font-medium text-red-600">
+                  ${(performanceData.totalCommission + performanceData.totalFees).toFixed(2)}
+                </span>
               </div>
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-muted-foreground">Total Return</span>
                 <span className={`font-medium ${performanceData.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {((performanceData.totalPnL / startingBalance) * 100).toFixed(2)}%
+                  {performanceData.returnPercent.toFixed(2)}%
                 </span>
               </div>
               <div className="flex justify-between items-center py-2 border-b">
                 <span className="text-muted-foreground">Best Trade</span>
                 <span className="font-medium text-green-600">
-                  ${Math.max(...analytics.completedTrades.map(t => t.pnl || 0)).toFixed(2)}
+                  ${performanceData.largestWin.toFixed(2)}
                 </span>
               </div>
               <div className="flex justify-between items-center py-2">
                 <span className="text-muted-foreground">Worst Trade</span>
                 <span className="font-medium text-red-600">
-                  ${Math.min(...analytics.completedTrades.map(t => t.pnl || 0)).toFixed(2)}
+                  ${performanceData.largestLoss.toFixed(2)}
                 </span>
               </div>
             </div>
@@ -1,5 +1,4 @@
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { DollarSign, Percent, TrendingUp, BarChart3 } from "lucide-react";
@@ -9,150 +8,38 @@ import {
   WinRateChart,
   SymbolPerformanceChart,
   TimeClassificationChart,
+  MoneynessPerformanceChart,
   RiskRewardScatterChart,
   PnLDistributionChart,
   StreakChart,
 } from "@/components/charts/performance-charts";
 import { DailyPerformanceCalendar } from "@/components/charts/daily-performance-calendar";
-import { calculateDrawdown, calculateSharpeRatio, getStreakAnalysis } from "@/lib/trade-calculations";
-import type { Trade } from "@shared/schema";
-
-interface PerformanceData {
-  totalPnL: number;
-  winRate: number;
-  avgRR: number;
-  totalTrades: number;
-  symbolPerformance: Record<string, number>;
-  timePerformance: Record<string, number>;
-  dailyPnL: Record<string, number>;
-  trades: Trade[];
-}
+import AnalyticsFiltersBar, { type AnalyticsFilterValues } from "@/components/analytics-filters-bar";
+import RMultipleCard from "@/components/r-multiple-card";
+import PlannedTradesCard from "@/components/planned-trades-card";
+import PremarketFactorsCard from "@/components/premarket-factors-card";
+import KeyLevelReportCard from "@/components/key-level-report-card";
+import EventDayReportCard from "@/components/event-day-report-card";
+import { usePerformanceReport } from "@/hooks/use-performance-report";
 
 interface PerformanceSectionProps {
   onNavigateToAnalysis?: (date: Date) => void;
 }
 
 export default function PerformanceSection({ onNavigateToAnalysis }: PerformanceSectionProps = {}) {
-  // Fetch performance analytics
-  const { data: performanceData, isLoading } = useQuery<PerformanceData>({
-    queryKey: ['/api/performance/analytics'],
-  });
-
-  // Fetch all trades for additional calculations
-  const { data: allTrades = [] } = useQuery<Trade[]>({
-    queryKey: ['/api/trades'],
-  });
-
-  const analytics = useMemo(() => {
-    if (!performanceData || !allTrades.length) {
-      return {
-        completedTrades: [],
-        equityCurve: [],
-        drawdown: { maxDrawdown: 0, maxDrawdownPercent: 0, currentDrawdown: 0 },
-        sharpeRatio: 0,
-        streakAnalysis: { currentStreak: 0, maxWinStreak: 0, maxLossStreak: 0, streaks: [] },
-        pnlDistribution: {},
-        riskRewardData: [],
-        monthlyCalendar: {},
-      };
-    }
-
-    const completedTrades = allTrades.filter(trade => trade.pnl !== null);
-    
-    // Calculate equity curve
-    let balance = 28000; // Starting balance
-    const equityCurve = [{ date: new Date().toISOString(), balance }];
-    
-    completedTrades.forEach(trade => {
-      if (trade.exitTime) {
-        balance += trade.pnl || 0;
-        equityCurve.push({
-          date: trade.exitTime.toString(),
-          balance
-        });
-      }
-    });
-
-    // Calculate drawdown
-    const balanceHistory = equityCurve.map(point => point.balance);
-    const drawdown = calculateDrawdown(balanceHistory);
-
-    // Calculate Sharpe ratio
-    const dailyReturns = Object.values(performanceData.dailyPnL).map(pnl => pnl / 28000);
-    const sharpeRatio = calculateSharpeRatio(dailyReturns);
-
-    // Streak analysis
-    const streakAnalysis = getStreakAnalysis(completedTrades);
-
-    // P&L distribution
-    const bucketSize = 100;
-    const pnlDistribution: Record<string, number> = {};
-    completedTrades.forEach(trade => {
-      const bucket = Math.floor((trade.pnl || 0) / bucketSize) * bucketSize;
-      pnlDistribution[bucket.toString()] = (pnlDistribution[bucket.toString()] || 0) + 1;
-    });
-
-    // Risk/Reward scatter data
-    const riskRewardData = completedTrades.map(trade => {
-      const risk = Math.abs(trade.entryPrice * trade.quantity * 100 * 0.1); // Assume 10% risk
-      return {
-        x: risk,
-        y: trade.pnl || 0,
-        id: trade.id
-      };
-    });
-
-    // Monthly calendar data
-    const monthlyCalendar: Record<string, number> = {};
-    completedTrades.forEach(trade => {
-      if (trade.exitTime) {
-        const monthKey = new Date(trade.exitTime).toLocaleDateString('en-US', { 
-          year: 'numeric', 
-          month: 'short' 
-        });
-        monthlyCalendar[monthKey] = (monthlyCalendar[monthKey] || 0) + (trade.pnl || 0);
-      }
-    });
-
-    return {
-      completedTrades,
-      equityCurve,
-      drawdown,
-      sharpeRatio,
-      streakAnalysis,
-      pnlDistribution,
-      riskRewardData,
-      monthlyCalendar,
-    };
-  }, [performanceData, allTrades]);
+  const [filters, setFilters] = useState<AnalyticsFilterValues>({ groupBy: 'trade' });
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-muted-foreground">Loading performance data...</div>
-      </div>
-    );
-  }
-
-  if (!performanceData) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-muted-foreground">No performance data available</div>
-      </div>
-    );
-  }
-
-  const winningTrades = analytics.completedTrades.filter(t => t.pnl! > 0);
-  const losingTrades = analytics.completedTrades.filter(t => t.pnl! <= 0);
+  // Fetch the performance report for the current filters
+  const { data: performanceData, isLoading } = usePerformanceReport(filters);
 
   // Convert daily P&L data for heatmap
   const heatmapData = useMemo(() => {
-    if (!performanceData?.dailyPnL || !allTrades) return [];
+    if (!performanceData) return [];
     
     // Group trades by date and calculate daily P&L
     const dailyData: Record<string, { pnl: number; trades: number }> = {};
     
-    allTrades.forEach(trade => {
+    performanceData.trades.forEach(trade => {
       if (trade.pnl !== null && trade.tradeDate) {
         // Normalize to local date to avoid timezone shifts
         const tradeDate = new Date(trade.tradeDate);
@@ -184,10 +71,34 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
     
 
     return result;
-  }, [performanceData?.dailyPnL, allTrades]);
+  }, [performanceData]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">Loading performance data...</div>
+      </div>
+    );
+  }
+
+  if (!performanceData) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-muted-foreground">No performance data available</div>
+      </div>
+    );
+  }
+
+  const { streaks, drawdown } = performanceData;
 
   return (
     <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <AnalyticsFiltersBar filters={filters} onChange={setFilters} />
+        </CardContent>
+      </Card>
+
       {/* Daily Performance Calendar - TOP PRIORITY */}
       <DailyPerformanceCalendar 
         data={heatmapData} 
@@ -266,7 +177,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
             <div className="space-y-2">
               <p className="text-muted-foreground text-sm">Max Drawdown</p>
               <p className="text-xl font-bold text-destructive">
-                ${analytics.drawdown.maxDrawdown.toFixed(2)} ({analytics.drawdown.maxDrawdownPercent.toFixed(1)}%)
+                ${drawdown.maxDrawdown.toFixed(2)} ({drawdown.maxDrawdownPercent.toFixed(1)}%)
               </p>
             </div>
           </CardContent>
@@ -277,7 +188,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
             <div className="space-y-2">
               <p className="text-muted-foreground text-sm">Sharpe Ratio</p>
               <p className="text-xl font-bold text-primary">
-                {analytics.sharpeRatio.toFixed(2)}
+                {performanceData.sharpeRatio.toFixed(2)}
               </p>
             </div>
           </CardContent>
@@ -287,8 +198,8 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           <CardContent className="p-6">
             <div className="space-y-2">
               <p className="text-muted-foreground text-sm">Current Streak</p>
-              <p className={`text-xl font-bold ${analytics.streakAnalysis.currentStreak >= 0 ? 'trade-positive' : 'trade-negative'}`}>
-                {analytics.streakAnalysis.currentStreak > 0 ? '+' : ''}{analytics.streakAnalysis.currentStreak}
+              <p className={`text-xl font-bold ${streaks.currentStreak >= 0 ? 'trade-positive' : 'trade-negative'}`}>
+                {streaks.currentStreak > 0 ? '+' : ''}{streaks.currentStreak}
               </p>
             </div>
           </CardContent>
@@ -299,8 +210,8 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
             <div className="space-y-2">
               <p className="text-muted-foreground text-sm">Profit Factor</p>
               <p className="text-xl font-bold text-success">
-                {winningTrades.length > 0 && losingTrades.length > 0 
-                  ? (winningTrades.reduce((sum, t) => sum + t.pnl!, 0) / Math.abs(losingTrades.reduce((sum, t) => sum + t.pnl!, 0))).toFixed(2)
+                {performanceData.profitFactor !== null && performanceData.wins > 0
+                  ? performanceData.profitFactor.toFixed(2)
                   : 'N/A'
                 }
               </p>
@@ -318,7 +229,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           </CardHeader>
           <CardContent>
             <div className="chart-container">
-              <EquityCurveChart data={analytics.equityCurve} />
+              <EquityCurveChart data={performanceData.equityCurve} />
             </div>
           </CardContent>
         </Card>
@@ -330,7 +241,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           </CardHeader>
           <CardContent>
             <div className="chart-container">
-              <WinRateChart wins={winningTrades.length} losses={losingTrades.length} />
+              <WinRateChart wins={performanceData.wins} losses={performanceData.losses} />
             </div>
           </CardContent>
         </Card>
@@ -371,6 +282,18 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           </CardContent>
         </Card>
 
+        {/* Performance by Moneyness */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Performance by Moneyness at Entry</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="chart-container">
+              <MoneynessPerformanceChart data={performanceData.moneynessPerformance} />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Risk/Reward Scatter */}
         <Card>
           <CardHeader>
@@ -378,7 +301,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           </CardHeader>
           <CardContent>
             <div className="chart-container">
-              <RiskRewardScatterChart data={analytics.riskRewardData} />
+              <RiskRewardScatterChart data={performanceData.riskRewardData} />
             </div>
           </CardContent>
         </Card>
@@ -390,7 +313,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           </CardHeader>
           <CardContent>
             <div className="chart-container">
-              <PnLDistributionChart data={analytics.pnlDistribution} />
+              <PnLDistributionChart data={performanceData.pnlDistribution} />
             </div>
           </CardContent>
         </Card>
@@ -402,12 +325,23 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
           </CardHeader>
           <CardContent>
             <div className="chart-container">
-              <StreakChart streaks={analytics.streakAnalysis.streaks} />
+              <StreakChart streaks={streaks.streaks} />
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* R-Multiples */}
+      <RMultipleCard report={performanceData} />
+
+      {/* Planned vs Unplanned */}
+      <PlannedTradesCard report={performanceData} />
+
+      {/* Premarket Factors */}
+      <PremarketFactorsCard filters={filters} />
+      <KeyLevelReportCard filters={filters} />
+      <EventDayReportCard filters={filters} />
+
       {/* Monthly Performance Heatmap */}
       <Card>
         <CardHeader>
@@ -426,7 +360,7 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
                 {['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'].map(month => {
                   const currentYear = new Date().getFullYear();
                   const monthKey = `${month} ${currentYear}`;
-                  const pnl = analytics.monthlyCalendar[monthKey] || 0;
+                  const pnl = performanceData.monthlyPnL[monthKey] || 0;
                   const intensity = Math.min(Math.abs(pnl) / 1000, 1); // Normalize to 0-1
                   
                   return (
@@ -470,48 +404,60 @@ export default function PerformanceSection({ onNavigateToAnalysis }: Performance
                   <td className="py-2">Total Trades</td>
                   <td className="py-2 font-medium">{performanceData.totalTrades}</td>
                   <td className="py-2 text-muted-foreground">
-                    {winningTrades.length} wins, {losingTrades.length} losses
+                    {performanceData.wins} wins, {performanceData.losses} losses
                   </td>
                 </tr>
                 <tr className="border-b border-border/50">
                   <td className="py-2">Best Trade</td>
                   <td className="py-2 font-medium text-success">
-                    +${Math.max(...analytics.completedTrades.map(t => t.pnl!)).toFixed(2)}
+                    +${performanceData.largestWin.toFixed(2)}
                   </td>
                   <td className="py-2 text-muted-foreground">Single best performing trade</td>
                 </tr>
                 <tr className="border-b border-border/50">
                   <td className="py-2">Worst Trade</td>
                   <td className="py-2 font-medium text-destructive">
-                    ${Math.min(...analytics.completedTrades.map(t => t.pnl!)).toFixed(2)}
+                    ${performanceData.largestLoss.toFixed(2)}
                   </td>
                   <td className="py-2 text-muted-foreground">Single worst performing trade</td>
                 </tr>
                 <tr className="border-b border-border/50">
                   <td className="py-2">Max Win Streak</td>
                   <td className="py-2 font-medium text-success">
-                    {analytics.streakAnalysis.maxWinStreak}
+                    {streaks.maxWinStreak}
                   </td>
                   <td className="py-2 text-muted-foreground">Longest consecutive winning streak</td>
                 </tr>
                 <tr className="border-b border-border/50">
                   <td className="py-2">Max Loss Streak</td>
                   <td className="py-2 font-medium text-destructive">
-                    {analytics.streakAnalysis.maxLossStreak}
+                    {streaks.maxLossStreak}
                   </td>
                   <td className="py-2 text-muted-foreground">Longest consecutive losing streak</td>
                 </tr>
+                <tr className="border-b border-border/50">
+                  <td className="py-2">Expectancy</td>
+                  <td className={`py-2 font-medium ${performanceData.expectancy >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    ${performanceData.expectancy.toFixed(2)}
+                  </td>
+                  <td className="py-2 text-muted-foreground">Average net P&L per completed trade</td>
+                </tr>
+                <tr className="border-b border-border/50">
+                  <td className="py-2">Sortino Ratio</td>
+                  <td className="py-2 font-medium">{performanceData.sortinoRatio.toFixed(2)}</td>
+                  <td className="py-2 text-muted-foreground">Return per unit of downside volatility</td>
+                </tr>
                 <tr className="border-b border-border/50">
                   <td className="py-2">Average Win</td>
                   <td className="py-2 font-medium text-success">
-                    ${winningTrades.length > 0 ? (winningTrades.reduce((sum, t) => sum + t.pnl!, 0) / winningTrades.length).toFixed(2) : '0.00'}
+                    ${performanceData.avgWin.toFixed(2)}
                   </td>
                   <td className="py-2 text-muted-foreground">Average profit per winning trade</td>
                 </tr>
                 <tr>
                   <td className="py-2">Average Loss</td>
                   <td className="py-2 font-medium text-destructive">
-                    ${losingTrades.length > 0 ? (losingTrades.reduce((sum, t) => sum + t.pnl!, 0) / losingTrades.length).toFixed(2) : '0.00'}
+                    ${(-performanceData.avgLoss).toFixed(2)}
                   </td>
                   <td className="py-2 text-muted-foreground">Average loss per losing trade</td>
                 </tr>
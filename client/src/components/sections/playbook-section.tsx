@@ -14,6 +14,7 @@ import { Plus, Edit, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { PlaybookStrategy, Trade } from "@shared/schema";
+import { isCompleted } from "@shared/analytics";
 
 const strategyFormSchema = z.object({
   name: z.string().min(1, "Strategy name is required"),
@@ -140,7 +141,7 @@ export default function PlaybookSection() {
 
   // Calculate strategy performance
   const getStrategyPerformance = (strategy: PlaybookStrategy) => {
-    const strategyTrades = trades.filter(trade => trade.playbookId === strategy.id && trade.pnl !== null);
+    const strategyTrades = trades.filter(trade => trade.playbookId === strategy.id && isCompleted(trade));
     const totalTrades = strategyTrades.length;
     
     if (totalTrades === 0) {
@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useState, type ClipboardEvent } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,18 +11,42 @@ import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Plus, ChartLine, Edit, Trash2, Clock, DollarSign, TrendingUp, TrendingDown, Upload } from "lucide-react";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, ChartLine, Edit, Trash2, Clock, DollarSign, TrendingUp, TrendingDown, Upload, ChevronDown, ChevronUp, X, Repeat } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { calculateOptionsPnL, classifyTimeOfDay } from "@/lib/trade-calculations";
-import type { Trade, PlaybookStrategy } from "@shared/schema";
+import { aggregateLegs, calculatePositionPnL } from "@shared/positions";
+import { calculateCharges, DEFAULT_FEE_SCHEDULE, type FeeSchedule } from "@shared/fees";
+import { plannedRMultiple } from "@shared/risk";
+import type { Trade, TradeLeg, PlaybookStrategy, TradeIdea, EconomicEvent } from "@shared/schema";
+import type { RiskCheck } from "@shared/guardrails";
 import { format } from "date-fns";
 import BulkTradeUpload from "@/components/bulk-trade-upload";
+import TradeLegsTable, { structureLabel } from "@/components/trade-legs-table";
+import ExpiredTradesPanel from "@/components/expired-trades-panel";
+import StockPositionsCard from "@/components/stock-positions-card";
+import { CLOSE_REASON_LABELS, isSettled, type CloseReason } from "@shared/settlement";
+import { KEY_LEVEL_TYPE_LABELS, type KeyLevelDay } from "@shared/key-levels";
+import { parseOptionSymbol } from "@shared/option-symbols";
+import RollChainsCard from "@/components/roll-chains-card";
+
+const legFormSchema = z.object({
+  side: z.enum(["buy", "sell"]),
+  type: z.enum(["calls", "puts"]),
+  strikePrice: z.coerce.number().min(0, "Strike price must be positive"),
+  expirationDate: z.string().min(1, "Expiration date is required"),
+  quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
+  entryPrice: z.coerce.number().min(0, "Entry price must be positive"),
+  exitPrice: z.coerce.number().min(0, "Exit price must be positive").optional(),
+});
+
+type LegFormData = z.infer<typeof legFormSchema>;
 
 const tradeFormSchema = z.object({
   ticker: z.string().min(1, "Ticker is required"),
   type: z.enum(["calls", "puts"]),
+  direction: z.enum(["long", "short"]),
   quantity: z.coerce.number().min(1, "Quantity must be at least 1"),
   strikePrice: z.coerce.number().min(0, "Strike price must be positive"),
   entryPrice: z.coerce.number().min(0, "Entry price must be positive"),
@@ -34,10 +58,97 @@ const tradeFormSchema = z.object({
   exitReason: z.string().optional(),
   playbookId: z.coerce.number().min(1, "Strategy selection is required"),
   tradeDate: z.string().min(1, "Trade date is required"),
+  rolledFromId: z.coerce.number().optional(),
+  tradeIdeaId: z.coerce.number().optional(),
+  keyLevelId: z.coerce.number().optional(),
+  tags: z.string().optional(), // comma-separated
+  plannedStop: z.number().min(0, "Stop must be positive").optional(),
+  plannedTarget: z.number().min(0, "Target must be positive").optional(),
+  plannedRisk: z.number().positive("Risk must be positive").optional(),
+  underlyingEntryPrice: z.number().positive("Underlying price must be positive").optional(),
+  underlyingExitPrice: z.number().positive("Underlying price must be positive").optional(),
+  entryIv: z.number().min(0, "IV must be positive").optional(),
+  exitIv: z.number().min(0, "IV must be positive").optional(),
+  legs: z.array(legFormSchema).optional(),
+});
+
+// Multi-leg positions take their contract fields from the legs instead of the single-contract inputs
+const multiLegFormSchema = tradeFormSchema.omit({
+  type: true,
+  direction: true,
+  quantity: true,
+  strikePrice: true,
+  entryPrice: true,
+  exitPrice: true,
+  expirationDate: true,
+}).extend({
+  legs: z.array(legFormSchema).min(2, "A multi-leg position needs at least two legs"),
 });
 
 type TradeFormData = z.infer<typeof tradeFormSchema>;
 
+const tradeFormResolver: Resolver<TradeFormData> = (values, context, options) =>
+  (values.legs && values.legs.length > 0
+    ? zodResolver(multiLegFormSchema)
+    : zodResolver(tradeFormSchema))(values, context, options) as ReturnType<Resolver<TradeFormData>>;
+
+const defaultLeg = (side: "buy" | "sell", expirationDate: string): LegFormData => ({
+  side,
+  type: "calls",
+  strikePrice: undefined as unknown as number,
+  expirationDate,
+  quantity: 1,
+  entryPrice: undefined as unknown as number,
+  exitPrice: undefined,
+});
+
+// Parse YYYY-MM-DD as a local date to avoid timezone shifts
+// Comma-separated tags, trimmed and without duplicates
+const parseTags = (value?: string) => {
+  const tags = Array.from(new Set((value ?? "").split(",").map(tag => tag.trim()).filter(Boolean)));
+  return tags.length > 0 ? tags : null;
+};
+
+// The rules a rejected trade broke, read from the "400: {...}" error apiRequest throws
+const riskRejection = (error: Error): RiskCheck[] | null => {
+  const body = error.message.match(/^400: ([\s\S]*)$/)?.[1];
+  try {
+    const parsed = body ? JSON.parse(body) : null;
+    return Array.isArray(parsed?.riskBreaches) ? parsed.riskBreaches : null;
+  } catch {
+    return null;
+  }
+};
+
+const toLocalDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Contract fields and legs sent to the server; the server re-derives the position summary
+const toPositionPayload = (data: TradeFormData) => {
+  if (!data.legs || data.legs.length === 0) {
+    return {
+      type: data.type,
+      direction: data.direction,
+      quantity: data.quantity,
+      strikePrice: data.strikePrice,
+      entryPrice: data.entryPrice,
+      exitPrice: data.exitPrice,
+      expirationDate: toLocalDate(data.expirationDate),
+      legs: [],
+    };
+  }
+
+  const legs = data.legs.map(leg => ({
+    ...leg,
+    expirationDate: toLocalDate(leg.expirationDate),
+    exitPrice: leg.exitPrice ?? null,
+  }));
+  const { pnl, ...contractFields } = aggregateLegs(legs);
+  return { ...contractFields, exitPrice: contractFields.exitPrice ?? undefined, legs };
+};
+
 interface TradesSectionProps {
   onNavigateToAnalysis?: (tradeId: number, section?: 'analysis' | 'edit') => void;
 }
@@ -47,6 +158,7 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
   const [editingTrade, setEditingTrade] = useState<Trade | null>(null);
   const [entrySource, setEntrySource] = useState<"playbook" | "custom">("playbook");
   const [showBulkUpload, setShowBulkUpload] = useState(false);
+  const [expandedTradeId, setExpandedTradeId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -64,10 +176,11 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
   };
 
   const form = useForm<TradeFormData>({
-    resolver: zodResolver(tradeFormSchema),
+    resolver: tradeFormResolver,
     defaultValues: {
       ticker: "SPY",
       type: "calls",
+      direction: "long",
       quantity: 1,
       strikePrice: undefined,
       entryPrice: undefined,
@@ -78,19 +191,57 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
       entryReason: "",
       exitReason: "",
       tradeDate: getCurrentCSTDate(),
+      rolledFromId: undefined,
+      tradeIdeaId: undefined,
+      keyLevelId: undefined,
+      tags: "",
+      plannedStop: undefined,
+      plannedTarget: undefined,
+      plannedRisk: undefined,
+      underlyingEntryPrice: undefined,
+      underlyingExitPrice: undefined,
+      entryIv: undefined,
+      exitIv: undefined,
+      legs: [],
     },
   });
 
+  const { fields: legFields, append: appendLeg, remove: removeLeg, replace: replaceLegs } = useFieldArray({
+    control: form.control,
+    name: "legs",
+  });
+  const isMultiLeg = legFields.length > 0;
+
   // Fetch trades
   const { data: trades = [], isLoading: tradesLoading } = useQuery<Trade[]>({
     queryKey: ['/api/trades'],
   });
 
+  // Fetch legs of multi-leg positions
+  const { data: allLegs = [] } = useQuery<TradeLeg[]>({
+    queryKey: ['/api/trade-legs'],
+  });
+
+  // Fetch the commission and fee schedule used for the P&L preview
+  const { data: feeSchedule = DEFAULT_FEE_SCHEDULE } = useQuery<FeeSchedule>({
+    queryKey: ['/api/fee-schedule'],
+  });
+
   // Fetch playbook strategies
   const { data: strategies = [] } = useQuery<PlaybookStrategy[]>({
     queryKey: ['/api/playbook-strategies'],
   });
 
+  // Premarket trade ideas a trade can be linked to
+  const { data: tradeIdeas = [] } = useQuery<TradeIdea[]>({
+    queryKey: ['/api/trade-ideas'],
+  });
+
+  // Economic events trades are tagged with by the server
+  const { data: economicEvents = [] } = useQuery<EconomicEvent[]>({
+    queryKey: ['/api/economic-events'],
+  });
+
   // Create trade mutation
   const createTradeMutation = useMutation({
     mutationFn: async (data: TradeFormData) => {
@@ -100,38 +251,47 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
       const month = parseInt(tradeDateParts[1]) - 1; // Month is 0-indexed
       const day = parseInt(tradeDateParts[2]);
       const normalizedTradeDate = new Date(year, month, day);
-      
-      const expirationParts = data.expirationDate.split('-');
-      const expYear = parseInt(expirationParts[0]);
-      const expMonth = parseInt(expirationParts[1]) - 1;
-      const expDay = parseInt(expirationParts[2]);
-      const normalizedExpirationDate = new Date(expYear, expMonth, expDay);
 
       const tradeData = {
         ticker: data.ticker,
-        type: data.type,
-        quantity: data.quantity,
-        strikePrice: data.strikePrice,
-        entryPrice: data.entryPrice,
-        exitPrice: data.exitPrice,
+        ...toPositionPayload(data),
         entryTime: new Date(`${data.tradeDate} ${data.entryTime}`),
         exitTime: data.exitTime ? new Date(`${data.tradeDate} ${data.exitTime}`) : null,
-        expirationDate: normalizedExpirationDate,
         entryReason: data.entryReason,
         exitReason: data.exitReason,
         playbookId: data.playbookId,
         tradeDate: normalizedTradeDate,
+        rolledFromId: data.rolledFromId ?? null,
+        tradeIdeaId: data.tradeIdeaId ?? null,
+        keyLevelId: data.keyLevelId ?? null,
+        tags: parseTags(data.tags),
+        plannedStop: data.plannedStop ?? null,
+        plannedTarget: data.plannedTarget ?? null,
+        plannedRisk: data.plannedRisk ?? null,
+        underlyingEntryPrice: data.underlyingEntryPrice ?? null,
+        underlyingExitPrice: data.underlyingExitPrice ?? null,
+        entryIv: data.entryIv ?? null,
+        exitIv: data.exitIv ?? null,
       };
       
-      return apiRequest('/api/trades', 'POST', tradeData);
+      const response = await apiRequest('/api/trades', 'POST', tradeData);
+      return response.json() as Promise<Trade & { riskBreaches?: RiskCheck[] }>;
     },
-    onSuccess: () => {
+    onSuccess: (trade) => {
       queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-legs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-ideas'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
       form.reset({
         ticker: "SPY",
         type: "calls",
+        direction: "long",
         quantity: 1,
         strikePrice: undefined,
         entryPrice: undefined,
@@ -142,17 +302,43 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
         entryReason: "",
         exitReason: "",
         tradeDate: getCurrentCSTDate(),
+        rolledFromId: undefined,
+        tradeIdeaId: undefined,
+        keyLevelId: undefined,
+        tags: "",
+        plannedStop: undefined,
+        plannedTarget: undefined,
+        plannedRisk: undefined,
+        underlyingEntryPrice: undefined,
+        underlyingExitPrice: undefined,
+        entryIv: undefined,
+        exitIv: undefined,
+        legs: [],
       });
       setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/breaches'] });
+      if (trade.riskBreaches?.length) {
+        toast({
+          title: "Trade Logged Against Your Risk Rules",
+          description: trade.riskBreaches.map(check => check.message).join('; '),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Trade Added",
         description: "Trade has been successfully logged.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      const rejected = riskRejection(error);
+      if (rejected) {
+        queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/risk/breaches'] });
+      }
       toast({
-        title: "Error",
-        description: "Failed to add trade. Please try again.",
+        title: rejected ? "Trade Rejected by Risk Rules" : "Error",
+        description: rejected ? rejected.map(check => check.message).join('; ') : "Failed to add trade. Please try again.",
         variant: "destructive",
       });
     },
@@ -167,38 +353,47 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
       const month = parseInt(tradeDateParts[1]) - 1; // Month is 0-indexed
       const day = parseInt(tradeDateParts[2]);
       const normalizedTradeDate = new Date(year, month, day);
-      
-      const expirationParts = data.expirationDate.split('-');
-      const expYear = parseInt(expirationParts[0]);
-      const expMonth = parseInt(expirationParts[1]) - 1;
-      const expDay = parseInt(expirationParts[2]);
-      const normalizedExpirationDate = new Date(expYear, expMonth, expDay);
 
       const tradeData = {
         ticker: data.ticker,
-        type: data.type,
-        quantity: data.quantity,
-        strikePrice: data.strikePrice,
-        entryPrice: data.entryPrice,
-        exitPrice: data.exitPrice,
+        ...toPositionPayload(data),
         entryTime: new Date(`${data.tradeDate} ${data.entryTime}`),
         exitTime: data.exitTime ? new Date(`${data.tradeDate} ${data.exitTime}`) : null,
-        expirationDate: normalizedExpirationDate,
         entryReason: data.entryReason,
         exitReason: data.exitReason,
         playbookId: data.playbookId,
         tradeDate: normalizedTradeDate,
+        rolledFromId: data.rolledFromId ?? null,
+        tradeIdeaId: data.tradeIdeaId ?? null,
+        keyLevelId: data.keyLevelId ?? null,
+        tags: parseTags(data.tags),
+        plannedStop: data.plannedStop ?? null,
+        plannedTarget: data.plannedTarget ?? null,
+        plannedRisk: data.plannedRisk ?? null,
+        underlyingEntryPrice: data.underlyingEntryPrice ?? null,
+        underlyingExitPrice: data.underlyingExitPrice ?? null,
+        entryIv: data.entryIv ?? null,
+        exitIv: data.exitIv ?? null,
       };
       
-      return apiRequest(`/api/trades/${tradeId}`, 'PATCH', tradeData);
+      const response = await apiRequest(`/api/trades/${tradeId}`, 'PATCH', tradeData);
+      return response.json() as Promise<Trade & { riskBreaches?: RiskCheck[] }>;
     },
-    onSuccess: () => {
+    onSuccess: (trade) => {
       queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-legs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-ideas'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
       form.reset({
         ticker: "SPY",
         type: "calls",
+        direction: "long",
         quantity: 1,
         strikePrice: undefined,
         entryPrice: undefined,
@@ -209,18 +404,43 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
         entryReason: "",
         exitReason: "",
         tradeDate: getCurrentCSTDate(),
+        rolledFromId: undefined,
+        tradeIdeaId: undefined,
+        keyLevelId: undefined,
+        tags: "",
+        plannedStop: undefined,
+        plannedTarget: undefined,
+        plannedRisk: undefined,
+        underlyingEntryPrice: undefined,
+        underlyingExitPrice: undefined,
+        entryIv: undefined,
+        exitIv: undefined,
+        legs: [],
       });
       setEditingTrade(null);
       setShowForm(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/breaches'] });
+      if (trade.riskBreaches?.length) {
+        toast({
+          title: "Trade Updated Against Your Risk Rules",
+          description: trade.riskBreaches.map(check => check.message).join('; '),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Trade Updated",
         description: "Trade has been successfully updated.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      const rejected = riskRejection(error);
+      if (rejected) {
+        queryClient.invalidateQueries({ queryKey: ['/api/risk/breaches'] });
+      }
       toast({
-        title: "Error",
-        description: "Failed to update trade. Please try again.",
+        title: rejected ? "Update Rejected by Risk Rules" : "Error",
+        description: rejected ? rejected.map(check => check.message).join('; ') : "Failed to update trade. Please try again.",
         variant: "destructive",
       });
     },
@@ -233,8 +453,15 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-legs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-executions'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
       toast({
         title: "Trade Deleted",
         description: "Trade has been successfully deleted.",
@@ -266,10 +493,11 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
     form.reset({
       ticker: trade.ticker,
       type: trade.type as "calls" | "puts",
+      direction: trade.direction as "long" | "short",
       quantity: trade.quantity,
       strikePrice: trade.strikePrice,
       entryPrice: trade.entryPrice,
-      exitPrice: trade.exitPrice || undefined,
+      exitPrice: trade.exitPrice ?? undefined,
       entryTime: entryTime.toTimeString().split(' ')[0].substring(0, 5),
       exitTime: exitTime ? exitTime.toTimeString().split(' ')[0].substring(0, 5) : "",
       expirationDate: expirationDate.toISOString().split('T')[0],
@@ -277,6 +505,28 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
       exitReason: trade.exitReason || "",
       playbookId: trade.playbookId || 1,
       tradeDate: tradeDate.toISOString().split('T')[0],
+      rolledFromId: trade.rolledFromId ?? undefined,
+      tradeIdeaId: trade.tradeIdeaId ?? undefined,
+      keyLevelId: trade.keyLevelId ?? undefined,
+      tags: (trade.tags ?? []).join(", "),
+      plannedStop: trade.plannedStop ?? undefined,
+      plannedTarget: trade.plannedTarget ?? undefined,
+      plannedRisk: trade.plannedRisk ?? undefined,
+      underlyingEntryPrice: trade.underlyingEntryPrice ?? undefined,
+      underlyingExitPrice: trade.underlyingExitPrice ?? undefined,
+      entryIv: trade.entryIv ?? undefined,
+      exitIv: trade.exitIv ?? undefined,
+      legs: allLegs
+        .filter(leg => leg.tradeId === trade.id)
+        .map(leg => ({
+          side: leg.side as "buy" | "sell",
+          type: leg.type as "calls" | "puts",
+          strikePrice: leg.strikePrice,
+          expirationDate: new Date(leg.expirationDate).toISOString().split('T')[0],
+          quantity: leg.quantity,
+          entryPrice: leg.entryPrice,
+          exitPrice: leg.exitPrice ?? undefined,
+        })),
     });
 
     setEditingTrade(trade);
@@ -289,6 +539,7 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
     form.reset({
       ticker: "SPY",
       type: "calls",
+      direction: "long",
       quantity: 1,
       strikePrice: undefined,
       entryPrice: undefined,
@@ -299,13 +550,97 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
       entryReason: "",
       exitReason: "",
       tradeDate: getCurrentCSTDate(),
+      rolledFromId: undefined,
+      tradeIdeaId: undefined,
+      keyLevelId: undefined,
+      tags: "",
+      plannedStop: undefined,
+      plannedTarget: undefined,
+      plannedRisk: undefined,
+      underlyingEntryPrice: undefined,
+      underlyingExitPrice: undefined,
+      entryIv: undefined,
+      exitIv: undefined,
+      legs: [],
+    });
+  };
+
+  // Start a new trade that replaces a closed one, keeping the contract's details
+  const handleRollTrade = (trade: Trade) => {
+    handleCancelEdit();
+    form.reset({
+      ...form.getValues(),
+      ticker: trade.ticker,
+      type: trade.type === "puts" ? "puts" : "calls",
+      direction: trade.direction as "long" | "short",
+      quantity: trade.quantity,
+      playbookId: trade.playbookId || 1,
+      rolledFromId: trade.id,
     });
+    setShowForm(true);
   };
 
   const watchedValues = form.watch();
-  const calculatedPnL = watchedValues.exitPrice && watchedValues.entryPrice && watchedValues.quantity
-    ? calculateOptionsPnL(watchedValues.entryPrice, watchedValues.exitPrice, watchedValues.quantity)
-    : null;
+
+  // An option symbol pasted into the ticker field fills in the single contract
+  const pasteTicker = (event: ClipboardEvent<HTMLInputElement>) => {
+    const contract = isMultiLeg ? null : parseOptionSymbol(event.clipboardData.getData("text"));
+    if (!contract) return;
+    event.preventDefault();
+    form.setValue("ticker", contract.ticker, { shouldValidate: true });
+    form.setValue("type", contract.type, { shouldValidate: true });
+    form.setValue("strikePrice", contract.strikePrice, { shouldValidate: true });
+    form.setValue("expirationDate", contract.expirationDate, { shouldValidate: true });
+  };
+
+  const plannedR = isMultiLeg ? null : plannedRMultiple({
+    direction: watchedValues.direction,
+    quantity: watchedValues.quantity || 0,
+    entryPrice: watchedValues.entryPrice || 0,
+    plannedStop: watchedValues.plannedStop ?? null,
+    plannedTarget: watchedValues.plannedTarget ?? null,
+    plannedRisk: watchedValues.plannedRisk ?? null,
+  });
+
+  // Closed trades on the same ticker that this one could have replaced
+  const rollCandidates = trades.filter(trade =>
+    trade.ticker === watchedValues.ticker?.toUpperCase() &&
+    trade.id !== editingTrade?.id &&
+    trade.openQuantity === 0 &&
+    (trade.id === watchedValues.rolledFromId || !trades.some(t => t.rolledFromId === trade.id && t.id !== editingTrade?.id))
+  );
+
+  // Ideas still open on this ticker, plus the one the trade is already linked to
+  const ideaCandidates = tradeIdeas.filter(idea =>
+    idea.id === watchedValues.tradeIdeaId ||
+    (idea.status === "planned" && idea.ticker === watchedValues.ticker?.toUpperCase())
+  );
+
+  // Key levels planned on this ticker for the trade's day
+  const levelTicker = watchedValues.ticker?.trim().toUpperCase() ?? '';
+  const { data: levelDays = [] } = useQuery<KeyLevelDay[]>({
+    queryKey: ['/api/key-levels', levelTicker, watchedValues.tradeDate],
+    queryFn: async () => {
+      const query = new URLSearchParams({ underlying: levelTicker, from: watchedValues.tradeDate, to: watchedValues.tradeDate });
+      const response = await apiRequest(`/api/key-levels?${query}`, 'GET');
+      return response.json();
+    },
+    enabled: levelTicker.length > 0 && /^\d{4}-\d{2}-\d{2}$/.test(watchedValues.tradeDate ?? ''),
+  });
+  const levelCandidates = levelDays.flatMap(day => day.levels);
+
+  // A closed trade is charged for opening and closing every contract, one order each way
+  const closedContracts = isMultiLeg
+    ? (watchedValues.legs || []).reduce((sum, leg) => sum + (leg.quantity || 0), 0) * 2
+    : (watchedValues.quantity || 0) * 2;
+  const previewCharges = calculateCharges(feeSchedule, closedContracts, 2);
+  const previewChargesTotal = previewCharges.commission + previewCharges.fees;
+  const legsPnL = isMultiLeg ? calculatePositionPnL(watchedValues.legs || []) : null;
+  const calculatedPnL = isMultiLeg
+    ? (legsPnL !== null && Number.isFinite(legsPnL) ? legsPnL - previewChargesTotal : null)
+    : watchedValues.exitPrice && watchedValues.entryPrice && watchedValues.quantity
+      ? calculateOptionsPnL(watchedValues.entryPrice, watchedValues.exitPrice, watchedValues.quantity, watchedValues.direction, previewChargesTotal)
+      : null;
 
   const timeClassification = watchedValues.entryTime 
     ? classifyTimeOfDay(watchedValues.entryTime)
@@ -352,6 +687,11 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
         )}
       </div>
 
+      {/* Positions left open past expiration, and shares they were settled into */}
+      <ExpiredTradesPanel trades={trades} />
+      <StockPositionsCard />
+      <RollChainsCard trades={trades} />
+
       {/* Mobile-Optimized Trade Entry Form */}
       {showForm && (
         <Card className="mb-6 w-full">
@@ -387,7 +727,352 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                       <FormItem>
                         <FormLabel>Ticker</FormLabel>
                         <FormControl>
-                          <Input placeholder="SPY, QQQ, etc." {...field} />
+                          <Input placeholder="SPY, QQQ, etc." {...field} onPaste={pasteTicker} />
+                        </FormControl>
+                        {!isMultiLeg && (
+                          <FormDescription>Paste an option symbol such as SPY250926C660 to fill in the contract</FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Position Type */}
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Position</Label>
+                    <RadioGroup
+                      value={isMultiLeg ? "multi" : "single"}
+                      onValueChange={(value: "single" | "multi") => {
+                        const expiration = form.getValues("expirationDate") || getCurrentCSTDate();
+                        replaceLegs(value === "multi" ? [defaultLeg("buy", expiration), defaultLeg("sell", expiration)] : []);
+                      }}
+                      className="flex flex-row space-x-4"
+                    >
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="single" id="position-single" />
+                        <Label htmlFor="position-single">Single Contract</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="multi" id="position-multi" />
+                        <Label htmlFor="position-multi">Multi-Leg</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+
+                  {!isMultiLeg && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="type"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Type</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value || ""}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select type" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="calls">Calls</SelectItem>
+                                <SelectItem value="puts">Puts</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="direction"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Direction</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="long">Long (Buy to Open)</SelectItem>
+                                <SelectItem value="short">Short (Sell to Open)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="quantity"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Contracts</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                {...field}
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
+                                placeholder="Enter quantity"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="strikePrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Strike Price</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                step="0.01" 
+                                {...field}
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                placeholder="Enter strike price"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="entryPrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Entry Price</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                step="0.01" 
+                                {...field}
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                placeholder="Enter entry price"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="exitPrice"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Exit Price</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                step="0.01" 
+                                {...field}
+                                value={field.value || ""}
+                                onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                placeholder="Enter exit price"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="expirationDate"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Expiration Date</FormLabel>
+                            <FormControl>
+                              <Input type="date" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {isMultiLeg && (
+                    <div className="space-y-3">
+                      {legFields.map((legField, index) => (
+                        <div key={legField.id} className="border rounded-lg p-3 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium">Leg {index + 1}</span>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeLeg(index)}
+                              disabled={legFields.length <= 2}
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          <div className="grid grid-cols-2 gap-3">
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.side`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Side</FormLabel>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="buy">Buy</SelectItem>
+                                      <SelectItem value="sell">Sell</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.type`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Type</FormLabel>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      <SelectItem value="calls">Calls</SelectItem>
+                                      <SelectItem value="puts">Puts</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.strikePrice`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Strike</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.quantity`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Contracts</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.entryPrice`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Entry Price</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.exitPrice`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Exit Price</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      {...field}
+                                      value={field.value ?? ""}
+                                      onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`legs.${index}.expirationDate`}
+                              render={({ field }) => (
+                                <FormItem className="col-span-2">
+                                  <FormLabel>Expiration Date</FormLabel>
+                                  <FormControl>
+                                    <Input type="date" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => appendLeg(defaultLeg("buy", form.getValues("expirationDate") || getCurrentCSTDate()))}
+                        className="w-full"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Leg
+                      </Button>
+                    </div>
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="entryTime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Entry Time</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -396,145 +1081,281 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
 
                   <FormField
                     control={form.control}
-                    name="type"
+                    name="exitTime"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Type</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value || ""}>
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select type" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="calls">Calls</SelectItem>
-                            <SelectItem value="puts">Puts</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <FormLabel>Exit Time (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                </div>
+
+                {/* Strategy Selection */}
+                <FormField
+                  control={form.control}
+                  name="playbookId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Trading Strategy</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString() || ""}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a strategy" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {strategies.map((strategy) => (
+                            <SelectItem key={strategy.id} value={strategy.id.toString()}>
+                              {strategy.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Roll Link */}
+                <FormField
+                  control={form.control}
+                  name="rolledFromId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rolled From</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))}
+                        value={field.value?.toString() || "none"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Not a roll" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not a roll</SelectItem>
+                          {rollCandidates.map((trade) => (
+                            <SelectItem key={trade.id} value={trade.id.toString()}>
+                              #{trade.id} {trade.ticker} ${trade.strikePrice} {trade.type.toUpperCase()} · exp {format(new Date(trade.expirationDate), 'MMM dd')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Trade Idea Link */}
+                <FormField
+                  control={form.control}
+                  name="tradeIdeaId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Trade Idea</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))}
+                        value={field.value?.toString() || "none"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Unplanned" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Unplanned</SelectItem>
+                          {ideaCandidates.map((idea) => (
+                            <SelectItem key={idea.id} value={idea.id.toString()}>
+                              {idea.ticker} {idea.type.toUpperCase()}{idea.entryLevel !== null ? ` off $${idea.entryLevel}` : ''} · {format(new Date(idea.createdAt), 'MMM dd')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
+                {/* Key Level the trade was taken off */}
+                <FormField
+                  control={form.control}
+                  name="keyLevelId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Taken Off Level</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "none" ? undefined : parseInt(value))}
+                        value={field.value?.toString() || "none"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="No level" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No level</SelectItem>
+                          {levelCandidates.map((level) => (
+                            <SelectItem key={level.id} value={level.id.toString()}>
+                              {KEY_LEVEL_TYPE_LABELS[level.levelType]} ${level.price.toFixed(2)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Trade Plan */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                   <FormField
                     control={form.control}
-                    name="quantity"
+                    name="plannedStop"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Contracts</FormLabel>
+                        <FormLabel>Planned Stop</FormLabel>
                         <FormControl>
-                          <Input 
-                            type="number" 
+                          <Input
+                            type="number"
+                            step="0.01"
                             {...field}
-                            value={field.value || ""}
-                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseInt(e.target.value))}
-                            placeholder="Enter quantity"
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                            placeholder="Option price"
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-
                   <FormField
                     control={form.control}
-                    name="strikePrice"
+                    name="plannedTarget"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Strike Price</FormLabel>
+                        <FormLabel>Planned Target</FormLabel>
                         <FormControl>
-                          <Input 
-                            type="number" 
-                            step="0.01" 
+                          <Input
+                            type="number"
+                            step="0.01"
                             {...field}
-                            value={field.value || ""}
+                            value={field.value ?? ""}
                             onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
-                            placeholder="Enter strike price"
+                            placeholder="Option price"
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-
                   <FormField
                     control={form.control}
-                    name="entryPrice"
+                    name="plannedRisk"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Entry Price</FormLabel>
+                        <FormLabel>Planned Risk ($)</FormLabel>
                         <FormControl>
-                          <Input 
-                            type="number" 
-                            step="0.01" 
+                          <Input
+                            type="number"
+                            step="0.01"
                             {...field}
-                            value={field.value || ""}
+                            value={field.value ?? ""}
                             onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
-                            placeholder="Enter entry price"
+                            placeholder="From stop if blank"
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                </div>
+                {plannedR !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Planned reward: {plannedR.toFixed(2)}R
+                  </p>
+                )}
 
+                {/* Underlying & Volatility */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
                   <FormField
                     control={form.control}
-                    name="exitPrice"
+                    name="underlyingEntryPrice"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Exit Price</FormLabel>
+                        <FormLabel>Underlying at Entry</FormLabel>
                         <FormControl>
-                          <Input 
-                            type="number" 
-                            step="0.01" 
+                          <Input
+                            type="number"
+                            step="0.01"
                             {...field}
-                            value={field.value || ""}
+                            value={field.value ?? ""}
                             onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
-                            placeholder="Enter exit price"
+                            placeholder="Stock price"
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-
                   <FormField
                     control={form.control}
-                    name="expirationDate"
+                    name="underlyingExitPrice"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Expiration Date</FormLabel>
+                        <FormLabel>Underlying at Exit</FormLabel>
                         <FormControl>
-                          <Input type="date" {...field} />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                            placeholder="Stock price"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-
                   <FormField
                     control={form.control}
-                    name="entryTime"
+                    name="entryIv"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Entry Time</FormLabel>
+                        <FormLabel>IV at Entry (%)</FormLabel>
                         <FormControl>
-                          <Input type="time" {...field} />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                            placeholder="e.g. 24.5"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-
                   <FormField
                     control={form.control}
-                    name="exitTime"
+                    name="exitIv"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Exit Time (Optional)</FormLabel>
+                        <FormLabel>IV at Exit (%)</FormLabel>
                         <FormControl>
-                          <Input type="time" {...field} />
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) => field.onChange(e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                            placeholder="e.g. 21.0"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -542,27 +1363,16 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                   />
                 </div>
 
-                {/* Strategy Selection */}
+                {/* Tags */}
                 <FormField
                   control={form.control}
-                  name="playbookId"
+                  name="tags"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Trading Strategy</FormLabel>
-                      <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString() || ""}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select a strategy" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {strategies.map((strategy) => (
-                            <SelectItem key={strategy.id} value={strategy.id.toString()}>
-                              {strategy.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
+                      <FormLabel>Tags</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. earnings, revenge trade" {...field} />
+                      </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -640,10 +1450,13 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                     )}
                     {calculatedPnL !== null && (
                       <div className="text-sm">
-                        <span className="text-muted-foreground">P&L: </span>
+                        <span className="text-muted-foreground">{previewChargesTotal > 0 ? 'Net P&L: ' : 'P&L: '}</span>
                         <span className={`font-medium ${calculatedPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                           {calculatedPnL >= 0 ? '+' : ''}${calculatedPnL.toFixed(2)}
                         </span>
+                        {previewChargesTotal > 0 && (
+                          <span className="text-muted-foreground"> after ${previewChargesTotal.toFixed(2)} commission & fees</span>
+                        )}
                       </div>
                     )}
                   </div>
@@ -709,6 +1522,9 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
             {sortedTrades.map((trade) => {
               const strategy = strategies.find(s => s.id === trade.playbookId);
               const pnl = trade.pnl || 0;
+              const tradeLegs = allLegs.filter(leg => leg.tradeId === trade.id);
+              const isExpanded = expandedTradeId === trade.id;
+              const charges = (trade.commission || 0) + (trade.fees || 0);
               
               return (
                 <Card key={trade.id} className="w-full">
@@ -721,6 +1537,40 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                           <Badge variant={trade.type === 'calls' ? 'default' : 'secondary'}>
                             {trade.type.toUpperCase()}
                           </Badge>
+                          {trade.direction === 'short' && (
+                            <Badge variant="outline">SHORT</Badge>
+                          )}
+                          {tradeLegs.length > 0 && (
+                            <Badge variant="outline">{structureLabel(trade)}</Badge>
+                          )}
+                          {trade.pnl !== null && trade.openQuantity > 0 && (
+                            <Badge variant="outline">{trade.openQuantity} open</Badge>
+                          )}
+                          {isSettled(trade.closeReason) && (
+                            <Badge variant="outline">{CLOSE_REASON_LABELS[trade.closeReason as CloseReason].toUpperCase()}</Badge>
+                          )}
+                          {trade.rolledFromId !== null && (
+                            <Badge variant="outline">ROLLED FROM #{trade.rolledFromId}</Badge>
+                          )}
+                          {trade.tradeIdeaId !== null && (
+                            <Badge variant="outline">PLANNED</Badge>
+                          )}
+                          {trade.keyLevelId !== null && (
+                            <Badge variant="outline">OFF LEVEL</Badge>
+                          )}
+                          {trade.economicEventId !== null && (
+                            <Badge variant="outline" className="text-yellow-600">
+                              {economicEvents.find(event => event.id === trade.economicEventId)?.category.toUpperCase() ?? 'EVENT'}
+                            </Badge>
+                          )}
+                          {trade.rMultiple !== null && (
+                            <Badge variant="outline" className={trade.rMultiple >= 0 ? 'text-green-600' : 'text-red-600'}>
+                              {trade.rMultiple >= 0 ? '+' : ''}{trade.rMultiple.toFixed(2)}R
+                            </Badge>
+                          )}
+                          {(trade.tags ?? []).map(tag => (
+                            <Badge key={tag} variant="secondary">{tag}</Badge>
+                          ))}
                         </div>
                         <div className="flex items-center gap-2">
                           {pnl !== 0 && (
@@ -731,6 +1581,16 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                               </span>
                             </div>
                           )}
+                          {trade.pnl !== null && trade.openQuantity === 0 && !trades.some(t => t.rolledFromId === trade.id) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleRollTrade(trade)}
+                              title="Roll into a new trade"
+                            >
+                              <Repeat className="w-4 h-4" />
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="sm"
@@ -754,7 +1614,7 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                       {/* Trade Details */}
                       <div className="grid grid-cols-2 gap-4 text-sm">
                         <div>
-                          <div className="text-muted-foreground">Strike</div>
+                          <div className="text-muted-foreground">{tradeLegs.length > 0 ? 'Lowest Strike' : 'Strike'}</div>
                           <div className="font-medium">${trade.strikePrice}</div>
                         </div>
                         <div>
@@ -762,13 +1622,25 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                           <div className="font-medium">{trade.quantity}</div>
                         </div>
                         <div>
-                          <div className="text-muted-foreground">Entry</div>
+                          <div className="text-muted-foreground">{tradeLegs.length > 0 ? 'Net Entry' : 'Entry'}</div>
                           <div className="font-medium">${trade.entryPrice}</div>
                         </div>
                         <div>
-                          <div className="text-muted-foreground">Exit</div>
-                          <div className="font-medium">${trade.exitPrice}</div>
+                          <div className="text-muted-foreground">{tradeLegs.length > 0 ? 'Net Exit' : 'Exit'}</div>
+                          <div className="font-medium">{trade.exitPrice !== null ? `$${trade.exitPrice}` : '-'}</div>
                         </div>
+                        {charges > 0 && (
+                          <>
+                            <div>
+                              <div className="text-muted-foreground">Gross P&L</div>
+                              <div className="font-medium">{trade.grossPnl !== null ? `$${trade.grossPnl.toFixed(2)}` : '-'}</div>
+                            </div>
+                            <div>
+                              <div className="text-muted-foreground">Commission & Fees</div>
+                              <div className="font-medium">${charges.toFixed(2)}</div>
+                            </div>
+                          </>
+                        )}
                       </div>
 
                       {/* Time Information */}
@@ -785,6 +1657,22 @@ export default function TradesSectionMobile({ onNavigateToAnalysis }: TradesSect
                         </div>
                       </div>
 
+                      {/* Position Legs */}
+                      {tradeLegs.length > 0 && (
+                        <div className="space-y-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedTradeId(isExpanded ? null : trade.id)}
+                            className="px-0 text-muted-foreground"
+                          >
+                            {isExpanded ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+                            {tradeLegs.length} legs
+                          </Button>
+                          {isExpanded && <TradeLegsTable trade={trade} legs={tradeLegs} />}
+                        </div>
+                      )}
+
                       {/* Strategy */}
                       {strategy && (
                         <div className="text-sm">
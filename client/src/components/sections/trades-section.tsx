@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,11 +13,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Plus, ChartLine, Edit, Filter, Download, Trash2 } from "lucide-react";
+import { Plus, ChartLine, Edit, Filter, Download, Trash2, ChevronDown, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { calculateOptionsPnL, classifyTimeOfDay } from "@/lib/trade-calculations";
-import type { Trade, PlaybookStrategy } from "@shared/schema";
+import type { Trade, TradeLeg, PlaybookStrategy } from "@shared/schema";
+import TradeLegsTable, { structureLabel } from "@/components/trade-legs-table";
 
 const tradeFormSchema = z.object({
   ticker: z.string().min(1, "Ticker is required"),
@@ -44,6 +45,7 @@ interface TradesSectionProps {
 
 export default function TradesSection({ onNavigateToAnalysis }: TradesSectionProps = {}) {
   const [entrySource, setEntrySource] = useState<"playbook" | "custom">("playbook");
+  const [expandedTradeId, setExpandedTradeId] = useState<number | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -83,6 +85,11 @@ export default function TradesSection({ onNavigateToAnalysis }: TradesSectionPro
     queryKey: ['/api/trades'],
   });
 
+  // Fetch legs of multi-leg positions
+  const { data: allLegs = [] } = useQuery<TradeLeg[]>({
+    queryKey: ['/api/trade-legs'],
+  });
+
   // Fetch playbook strategies
   const { data: strategies = [] } = useQuery<PlaybookStrategy[]>({
     queryKey: ['/api/playbook-strategies'],
@@ -113,6 +120,11 @@ export default function TradesSection({ onNavigateToAnalysis }: TradesSectionPro
       queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
       form.reset();
       toast({
         title: "Trade Added",
@@ -137,6 +149,11 @@ export default function TradesSection({ onNavigateToAnalysis }: TradesSectionPro
       queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
       toast({
         title: "Trade Deleted",
         description: "Trade has been successfully deleted.",
@@ -539,16 +556,33 @@ export default function TradesSection({ onNavigateToAnalysis }: TradesSectionPro
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {trades.map((trade) => (
-                    <TableRow key={trade.id}>
-                      <TableCell className="text-sm">#{trade.id}</TableCell>
+                  {trades.map((trade) => {
+                    const tradeLegs = allLegs.filter(leg => leg.tradeId === trade.id);
+                    const isExpanded = expandedTradeId === trade.id;
+                    return (
+                    <Fragment key={trade.id}>
+                    <TableRow>
+                      <TableCell className="text-sm">
+                        {tradeLegs.length > 0 ? (
+                          <button
+                            type="button"
+                            className="flex items-center gap-1"
+                            onClick={() => setExpandedTradeId(isExpanded ? null : trade.id)}
+                          >
+                            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            #{trade.id}
+                          </button>
+                        ) : (
+                          <>#{trade.id}</>
+                        )}
+                      </TableCell>
                       <TableCell className="font-medium">{trade.ticker}</TableCell>
                       <TableCell>
                         <Badge 
                           variant={trade.type === 'calls' ? 'default' : 'secondary'}
                           className={trade.type === 'calls' ? 'bg-success/20 text-success' : 'bg-destructive/20 text-destructive'}
                         >
-                          {trade.type}
+                          {tradeLegs.length > 0 ? structureLabel(trade) : trade.type}
                         </Badge>
                       </TableCell>
                       <TableCell>{trade.quantity}</TableCell>
@@ -603,7 +637,16 @@ export default function TradesSection({ onNavigateToAnalysis }: TradesSectionPro
                         </div>
                       </TableCell>
                     </TableRow>
-                  ))}
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={11}>
+                          <TradeLegsTable trade={trade} legs={tradeLegs} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    </Fragment>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </div>
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import type { StockPosition } from '@shared/schema';
+
+// Shares delivered by assigned or exercised options, closed here once they are sold or covered
+export default function StockPositionsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [exitPrices, setExitPrices] = useState<Record<number, string>>({});
+
+  const { data: positions = [] } = useQuery<StockPosition[]>({
+    queryKey: ['/api/stock-positions'],
+  });
+
+  const closePositionMutation = useMutation({
+    mutationFn: async ({ id, exitPrice }: { id: number; exitPrice: number }) => {
+      return apiRequest(`/api/stock-positions/${id}`, 'PATCH', { exitPrice, exitTime: new Date().toISOString() });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stock-positions'] });
+      toast({
+        title: 'Position Closed',
+        description: 'The stock position has been closed and its P&L recorded.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to close stock position. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (positions.length === 0) return null;
+
+  const closePosition = (position: StockPosition) => {
+    const exitPrice = parseFloat(exitPrices[position.id] ?? '');
+    if (!Number.isFinite(exitPrice) || exitPrice < 0) {
+      toast({
+        title: 'Exit Price Required',
+        description: `Enter the price the ${position.ticker} shares were ${position.direction === 'short' ? 'covered' : 'sold'} at.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    closePositionMutation.mutate({ id: position.id, exitPrice });
+  };
+
+  return (
+    <Card className="mb-6 w-full">
+      <CardHeader>
+        <CardTitle className="text-lg">Stock Positions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {positions.map(position => (
+          <div key={position.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 border rounded-lg">
+            <div className="flex-1 text-sm">
+              <div className="flex items-center gap-2 font-semibold">
+                {position.ticker}
+                <Badge variant="outline">{position.direction === 'short' ? 'SHORT' : 'LONG'} {position.shares} shares</Badge>
+              </div>
+              <div className="text-muted-foreground">
+                From trade #{position.tradeId} · opened {format(new Date(position.entryTime), 'MMM dd, yyyy')} at ${position.entryPrice.toFixed(2)}
+              </div>
+            </div>
+            {position.exitPrice !== null ? (
+              <div className="text-sm text-right">
+                <div className="text-muted-foreground">Closed at ${position.exitPrice.toFixed(2)}</div>
+                <div className={`font-semibold ${(position.pnl ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {(position.pnl ?? 0) >= 0 ? '+' : '-'}${Math.abs(position.pnl ?? 0).toFixed(2)}
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="Exit price"
+                  className="sm:w-32"
+                  value={exitPrices[position.id] ?? ''}
+                  onChange={(e) => setExitPrices(prices => ({ ...prices, [position.id]: e.target.value }))}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={closePositionMutation.isPending}
+                  onClick={() => closePosition(position)}
+                >
+                  Close
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
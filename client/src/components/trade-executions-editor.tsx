@@ -0,0 +1,290 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Plus, Save, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import type { Trade, TradeExecution } from '@shared/schema';
+
+const executionFormSchema = z.object({
+  side: z.enum(['buy', 'sell']),
+  quantity: z.coerce.number().min(1, 'Quantity must be at least 1'),
+  price: z.coerce.number().min(0, 'Price must be positive'),
+  executedAt: z.string().min(1, 'Time is required'),
+  commission: z.coerce.number().min(0, 'Commission must be positive').optional(),
+  fees: z.coerce.number().min(0, 'Fees must be positive').optional(),
+});
+
+const executionsFormSchema = z.object({
+  executions: z.array(executionFormSchema),
+});
+
+type ExecutionsFormData = z.infer<typeof executionsFormSchema>;
+
+interface TradeExecutionsEditorProps {
+  trade: Trade;
+  executions: TradeExecution[];
+}
+
+const toDateTimeInput = (value: Date | string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+function formatHoldingTime(minutes: number | null) {
+  if (minutes === null) return '-';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export default function TradeExecutionsEditor({ trade, executions }: TradeExecutionsEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ExecutionsFormData>({
+    resolver: zodResolver(executionsFormSchema),
+    defaultValues: {
+      executions: executions.map(execution => ({
+        side: execution.side as 'buy' | 'sell',
+        quantity: execution.quantity,
+        price: execution.price,
+        executedAt: toDateTimeInput(execution.executedAt),
+        commission: execution.commission ?? undefined,
+        fees: execution.fees ?? undefined,
+      })),
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'executions' });
+
+  const saveExecutionsMutation = useMutation({
+    mutationFn: async (data: ExecutionsFormData) => {
+      return apiRequest(`/api/trades/${trade.id}`, 'PATCH', {
+        executions: data.executions.map(execution => ({
+          ...execution,
+          executedAt: new Date(execution.executedAt).toISOString(),
+          // Left blank, the server charges the fill from the fee schedule
+          commission: execution.commission ?? null,
+          fees: execution.fees ?? null,
+        })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-executions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/analytics'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/scorecards'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/factors'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/key-levels'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/performance/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/risk/status'] });
+      toast({
+        title: 'Executions Saved',
+        description: 'Entry, exit and P&L have been recalculated from the fills.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to save executions. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // A new fill defaults to the closing side once the trade has an opening fill
+  const addExecution = () => {
+    const current = form.getValues('executions');
+    const openingSide = current[0]?.side ?? 'buy';
+    append({
+      side: current.length === 0 ? 'buy' : openingSide === 'buy' ? 'sell' : 'buy',
+      quantity: 1,
+      price: 0,
+      executedAt: toDateTimeInput(current.length > 0 ? current[current.length - 1].executedAt : trade.entryTime),
+      commission: undefined,
+      fees: undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Derived from the fills */}
+      {executions.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+          <div>
+            <div className="text-muted-foreground">Avg Entry</div>
+            <div className="font-medium">${trade.entryPrice.toFixed(2)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Avg Exit</div>
+            <div className="font-medium">{trade.exitPrice !== null ? `$${trade.exitPrice.toFixed(2)}` : '-'}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Realized P&L (Net)</div>
+            <div className={`font-medium ${(trade.pnl ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {trade.pnl !== null ? `${trade.pnl >= 0 ? '+' : '-'}$${Math.abs(trade.pnl).toFixed(2)}` : '-'}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Open Contracts</div>
+            <div className="font-medium">{trade.openQuantity} of {trade.quantity}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Holding Time</div>
+            <div className="font-medium">{formatHoldingTime(trade.holdingMinutes)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Commission & Fees</div>
+            <div className="font-medium">${((trade.commission || 0) + (trade.fees || 0)).toFixed(2)}</div>
+          </div>
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => saveExecutionsMutation.mutate(data))} className="space-y-3">
+          {fields.map((item, index) => (
+            <div key={item.id} className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_1fr_2fr_1fr_1fr_auto] gap-3 items-end p-3 border rounded-lg">
+              <FormField
+                control={form.control}
+                name={`executions.${index}.side`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Side</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="buy">Buy</SelectItem>
+                        <SelectItem value="sell">Sell</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`executions.${index}.quantity`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contracts</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`executions.${index}.price`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`executions.${index}.executedAt`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`executions.${index}.commission`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Commission</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Auto"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`executions.${index}.fees`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fees</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Auto"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="sm" onClick={() => remove(index)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          {fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No executions recorded. Add fills to track scaling in and out; the trade's entry, exit and P&L will be averaged from them.
+            </p>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={addExecution}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Fill
+            </Button>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={saveExecutionsMutation.isPending || (fields.length === 0 && executions.length === 0)}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saveExecutionsMutation.isPending ? 'Saving...' : 'Save Executions'}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
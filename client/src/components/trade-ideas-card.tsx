@@ -0,0 +1,137 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { TRADE_IDEA_STATUSES, type TradeIdea, type TradeIdeaStatus } from '@shared/schema';
+
+const RECENT_IDEAS = 20;
+
+const STATUS_LABELS: Record<TradeIdeaStatus, string> = {
+  planned: 'Planned',
+  taken: 'Taken',
+  skipped: 'Skipped',
+  invalidated: 'Invalidated',
+};
+
+const STATUS_CLASSES: Record<TradeIdeaStatus, string> = {
+  planned: 'text-blue-400',
+  taken: 'text-green-400',
+  skipped: 'text-gray-400',
+  invalidated: 'text-red-400',
+};
+
+function ideaLevels(idea: TradeIdea): string {
+  const parts = [
+    idea.entryLevel !== null ? `Entry $${idea.entryLevel.toFixed(2)}` : null,
+    idea.takeProfit1 !== null ? `TP1 $${idea.takeProfit1.toFixed(2)}` : null,
+    idea.takeProfit2 !== null ? `TP2 $${idea.takeProfit2.toFixed(2)}` : null,
+    idea.riskReward !== null ? `1:${idea.riskReward.toFixed(1)}` : null,
+    idea.confidence !== null ? `${idea.confidence}% confidence` : null,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+// Recent trade ideas and what became of them. Linking a trade marks its idea as taken on the
+// server; skipped and invalidated are set here.
+export default function TradeIdeasCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: ideas = [] } = useQuery<TradeIdea[]>({
+    queryKey: ['/api/trade-ideas'],
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: TradeIdeaStatus }) => {
+      return apiRequest(`/api/trade-ideas/${id}`, 'PATCH', { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-ideas'] });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to update the trade idea.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteIdeaMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest(`/api/trade-ideas/${id}`, 'DELETE');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trade-ideas'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trades'] });
+      toast({
+        title: 'Trade idea deleted',
+        description: 'Trades that executed it are now counted as unplanned.',
+      });
+    },
+    onError: () => {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the trade idea.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-gray-800 border-gray-700">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg text-white">Trade Ideas</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {ideas.length === 0 ? (
+          <p className="text-sm text-gray-400">Trade ideas saved with a premarket analysis are listed here.</p>
+        ) : (
+          ideas.slice(0, RECENT_IDEAS).map(idea => {
+            const status = idea.status as TradeIdeaStatus;
+            return (
+              <div key={idea.id} className="rounded-lg border border-gray-700 p-3 flex items-center justify-between gap-3 text-sm">
+                <div className="space-y-1 min-w-0">
+                  <div className="text-white font-medium">
+                    {idea.ticker} {idea.type === 'calls' ? 'Calls' : 'Puts'}
+                    <span className="text-gray-400 font-normal"> · {format(new Date(idea.createdAt), 'MMM d, yyyy')}</span>
+                  </div>
+                  <div className="text-gray-300 truncate">{ideaLevels(idea) || 'No levels entered'}</div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Select
+                    value={status}
+                    onValueChange={(value) => updateStatusMutation.mutate({ id: idea.id, status: value as TradeIdeaStatus })}
+                  >
+                    <SelectTrigger className={`w-[130px] bg-gray-900 border-gray-600 ${STATUS_CLASSES[status] ?? 'text-white'}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRADE_IDEA_STATUSES.map(option => (
+                        <SelectItem key={option} value={option}>{STATUS_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-400 hover:text-red-400"
+                    disabled={deleteIdeaMutation.isPending}
+                    onClick={() => deleteIdeaMutation.mutate(idea.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+import { POSITION_STRUCTURE_LABELS, type PositionStructure } from '@shared/positions';
+import type { Trade, TradeLeg } from '@shared/schema';
+
+interface TradeLegsTableProps {
+  trade: Trade;
+  legs: TradeLeg[];
+}
+
+const formatMoney = (value: number | null) =>
+  value === null ? 'Unlimited' : `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+export function structureLabel(trade: Trade) {
+  return POSITION_STRUCTURE_LABELS[trade.structure as PositionStructure] ?? trade.structure;
+}
+
+export default function TradeLegsTable({ trade, legs }: TradeLegsTableProps) {
+  const netPremium = trade.netPremium ?? 0;
+
+  return (
+    <div className="space-y-3">
+      {/* Risk Profile */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+        <div>
+          <div className="text-muted-foreground">{netPremium >= 0 ? 'Net Debit' : 'Net Credit'}</div>
+          <div className="font-medium">${Math.abs(netPremium).toFixed(2)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Max Profit</div>
+          <div className="font-medium text-green-600">{formatMoney(trade.maxProfit)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Max Loss</div>
+          <div className="font-medium text-red-600">{formatMoney(trade.maxLoss)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Breakevens</div>
+          <div className="font-medium">
+            {trade.breakevens && trade.breakevens.length > 0
+              ? trade.breakevens.map(price => `$${price.toFixed(2)}`).join(' / ')
+              : '-'}
+          </div>
+        </div>
+      </div>
+
+      {/* Legs */}
+      {legs.length > 0 && (
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-muted">
+              <tr>
+                <th className="p-2 text-left">Side</th>
+                <th className="p-2 text-left">Type</th>
+                <th className="p-2 text-left">Strike</th>
+                <th className="p-2 text-left">Expiry</th>
+                <th className="p-2 text-left">Qty</th>
+                <th className="p-2 text-left">Entry</th>
+                <th className="p-2 text-left">Exit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {legs.map((leg) => (
+                <tr key={leg.id} className="border-t">
+                  <td className="p-2">
+                    <Badge variant={leg.side === 'buy' ? 'default' : 'secondary'}>
+                      {leg.side.toUpperCase()}
+                    </Badge>
+                  </td>
+                  <td className="p-2">{leg.type}</td>
+                  <td className="p-2">${leg.strikePrice}</td>
+                  <td className="p-2">{format(new Date(leg.expirationDate), 'MMM dd')}</td>
+                  <td className="p-2">{leg.quantity}</td>
+                  <td className="p-2">${leg.entryPrice.toFixed(2)}</td>
+                  <td className="p-2">{leg.exitPrice !== null ? `$${leg.exitPrice.toFixed(2)}` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
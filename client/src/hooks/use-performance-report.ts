@@ -0,0 +1,54 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { analyticsQueryString, type AnalyticsFilters, type PerformanceReport } from "@shared/analytics";
+import type { FactorReport } from "@shared/factors";
+import type { KeyLevelReport } from "@shared/key-levels";
+import type { EventDayReport } from "@shared/economic-calendar";
+
+// The server's performance report for the given filters; keeps showing the last report while a new one loads
+export function usePerformanceReport(filters: Partial<AnalyticsFilters> = {}) {
+  return useQuery<PerformanceReport>({
+    queryKey: ["/api/performance/analytics", filters],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/performance/analytics${analyticsQueryString(filters)}`, "GET");
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Premarket factor report over the trades matching the same filters
+export function usePremarketFactorReport(filters: Partial<AnalyticsFilters> = {}) {
+  return useQuery<FactorReport>({
+    queryKey: ["/api/performance/factors", filters],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/performance/factors${analyticsQueryString(filters)}`, "GET");
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Respect rate and P&L by key level type over the trades matching the same filters
+export function useKeyLevelReport(filters: Partial<AnalyticsFilters> = {}) {
+  return useQuery<KeyLevelReport>({
+    queryKey: ["/api/performance/key-levels", filters],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/performance/key-levels${analyticsQueryString(filters)}`, "GET");
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Performance on economic event days against quiet days over the trades matching the same filters
+export function useEventDayReport(filters: Partial<AnalyticsFilters> = {}) {
+  return useQuery<EventDayReport>({
+    queryKey: ["/api/performance/events", filters],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/performance/events${analyticsQueryString(filters)}`, "GET");
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+}
@@ -2,12 +2,15 @@ export function calculateOptionsPnL(
   entryPrice: number,
   exitPrice: number,
   quantity: number,
+  direction: 'long' | 'short' = 'long',
   commission: number = 0
 ): number {
   const multiplier = 100; // Options multiplier
-  const entryDebit = entryPrice * quantity * multiplier;
-  const exitCredit = exitPrice * quantity * multiplier;
-  return exitCredit - entryDebit - commission;
+  const entryValue = entryPrice * quantity * multiplier;
+  const exitValue = exitPrice * quantity * multiplier;
+  // Long trades pay to open and collect to close; short trades collect to open and pay to close
+  const grossPnL = direction === 'short' ? entryValue - exitValue : exitValue - entryValue;
+  return grossPnL - commission;
 }
 
 export function classifyTimeOfDay(timeString: string): string {
@@ -39,112 +42,3 @@ export function calculateRiskReward(
   const reward = Math.abs(takeProfit - entryPrice);
   return risk > 0 ? reward / risk : 0;
 }
-
-export function calculateDrawdown(balanceHistory: number[]): {
-  maxDrawdown: number;
-  maxDrawdownPercent: number;
-  currentDrawdown: number;
-} {
-  if (balanceHistory.length === 0) {
-    return { maxDrawdown: 0, maxDrawdownPercent: 0, currentDrawdown: 0 };
-  }
-
-  let peak = balanceHistory[0];
-  let maxDrawdown = 0;
-  let maxDrawdownPercent = 0;
-  
-  for (let i = 1; i < balanceHistory.length; i++) {
-    if (balanceHistory[i] > peak) {
-      peak = balanceHistory[i];
-    }
-    
-    const drawdown = peak - balanceHistory[i];
-    const drawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
-    
-    if (drawdown > maxDrawdown) {
-      maxDrawdown = drawdown;
-      maxDrawdownPercent = drawdownPercent;
-    }
-  }
-  
-  const currentPeak = Math.max(...balanceHistory);
-  const currentBalance = balanceHistory[balanceHistory.length - 1];
-  const currentDrawdown = currentPeak - currentBalance;
-  
-  return { maxDrawdown, maxDrawdownPercent, currentDrawdown };
-}
-
-export function calculateSharpeRatio(
-  returns: number[],
-  riskFreeRate: number = 0.02
-): number {
-  if (returns.length === 0) return 0;
-  
-  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-  const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
-  const stdDev = Math.sqrt(variance);
-  
-  return stdDev > 0 ? (avgReturn - riskFreeRate / 252) / stdDev : 0;
-}
-
-export function getStreakAnalysis(trades: Array<{ pnl: number | null }>) {
-  const completedTrades = trades.filter(t => t.pnl !== null);
-  if (completedTrades.length === 0) {
-    return { currentStreak: 0, maxWinStreak: 0, maxLossStreak: 0, streaks: [] };
-  }
-
-  let currentStreak = 0;
-  let maxWinStreak = 0;
-  let maxLossStreak = 0;
-  let streaks: Array<{ type: 'win' | 'loss'; length: number; start: number }> = [];
-  
-  let currentStreakType: 'win' | 'loss' | null = null;
-  let currentStreakLength = 0;
-  let currentStreakStart = 0;
-
-  completedTrades.forEach((trade, index) => {
-    const isWin = trade.pnl !== null && trade.pnl > 0;
-    const streakType: 'win' | 'loss' = isWin ? 'win' : 'loss';
-    
-    if (currentStreakType === streakType) {
-      currentStreakLength++;
-    } else {
-      if (currentStreakType !== null) {
-        streaks.push({
-          type: currentStreakType,
-          length: currentStreakLength,
-          start: currentStreakStart
-        });
-        
-        if (currentStreakType === 'win') {
-          maxWinStreak = Math.max(maxWinStreak, currentStreakLength);
-        } else {
-          maxLossStreak = Math.max(maxLossStreak, currentStreakLength);
-        }
-      }
-      
-      currentStreakType = streakType;
-      currentStreakLength = 1;
-      currentStreakStart = index;
-    }
-  });
-  
-  // Handle the last streak
-  if (currentStreakType !== null) {
-    streaks.push({
-      type: currentStreakType,
-      length: currentStreakLength,
-      start: currentStreakStart
-    });
-    
-    if (currentStreakType === 'win') {
-      maxWinStreak = Math.max(maxWinStreak, currentStreakLength);
-    } else {
-      maxLossStreak = Math.max(maxLossStreak, currentStreakLength);
-    }
-    
-    currentStreak = currentStreakType === 'win' ? currentStreakLength : -currentStreakLength;
-  }
-  
-  return { currentStreak, maxWinStreak, maxLossStreak, streaks };
-}
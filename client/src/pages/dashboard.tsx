@@ -1,5 +1,4 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import Sidebar from "@/components/layout/sidebar";
@@ -11,6 +10,8 @@ import PerformanceSectionMobile from "@/components/sections/performance-section-
 import IntradaySection from "@/components/sections/intraday-section";
 import DailySnapshotSection from "@/components/sections/daily-snapshot-section";
 import AdminSection from "@/components/sections/admin-section";
+import { usePerformanceReport } from "@/hooks/use-performance-report";
+import RiskStatusBanner from "@/components/risk-status-banner";
 
 type SectionType = 'premarket' | 'trades' | 'analysis' | 'playbook' | 'performance' | 'intraday' | 'daily-snapshot' | 'admin';
 
@@ -47,20 +48,7 @@ export default function Dashboard() {
     }
   };
 
-  const { data: performanceData } = useQuery<{
-    totalPnL: number;
-    winRate: number;
-    avgRR: number;
-    totalTrades: number;
-  }>({
-    queryKey: ['/api/performance/analytics'],
-    staleTime: 30000, // Cache for 30 seconds
-  });
-
-  const { data: accountBalanceSetting } = useQuery({
-    queryKey: ['/api/settings/account_balance'],
-    staleTime: 30000,
-  });
+  const { data: performanceData } = usePerformanceReport();
 
   const sectionTitles: Record<SectionType, string> = {
     'premarket': 'Premarket Analysis',
@@ -139,11 +127,12 @@ export default function Dashboard() {
               </div>
             </div>
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4 text-right sm:text-left">
+              <RiskStatusBanner />
               <div className="flex items-center space-x-2">
                 <span className="text-xs sm:text-sm text-muted-foreground hidden sm:inline">Account Balance:</span>
                 <span className="text-xs sm:text-sm text-muted-foreground sm:hidden">Balance:</span>
                 <span className="text-sm sm:text-lg font-semibold text-success">
-                  ${((performanceData?.totalPnL || 0) + parseFloat((accountBalanceSetting as any)?.value || '25000')).toLocaleString('en-US', { minimumFractionDigits: 2 })}
+                  ${(performanceData?.currentBalance ?? 0).toLocaleString('en-US', { minimumFractionDigits: 2 })}
                 </span>
               </div>
               <div className="flex items-center space-x-2">
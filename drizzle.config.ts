@@ -1,5 +1,7 @@
 import { defineConfig } from "drizzle-kit";
 
+const usePglite = process.env.DATABASE_DRIVER === "pglite";
+
 if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL, ensure the database is provisioned");
 }
@@ -8,6 +10,7 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  ...(usePglite ? { driver: "pglite" as const } : {}),
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
@@ -0,0 +1,388 @@
+import type { PlaybookStrategy, PremarketAnalysis, Trade } from "@shared/schema";
+import { buildRollChains, mergeRollChains } from "@shared/rolls";
+import { plannedRMultiple, plannedRiskDollars } from "@shared/risk";
+import { MONEYNESS_BUCKETS, moneynessBucket } from "@shared/moneyness";
+import { normalCdf } from "@shared/pricing";
+import {
+  factorValue,
+  MIN_FACTOR_TRADES,
+  PREMARKET_FACTORS,
+  SIGNIFICANCE_LEVEL,
+  type FactorReport,
+  type FactorValueStats,
+  type PremarketFactor,
+} from "@shared/factors";
+import {
+  dteBucket,
+  isCompleted,
+  WEEKDAYS,
+  type AnalyticsFilters,
+  type DrawdownStats,
+  type PerformanceReport,
+  type PlanStats,
+  type PlaybookRStats,
+  type StreakStats,
+} from "@shared/analytics";
+import type { IStorage } from "./storage";
+
+const RISK_FREE_RATE = 0.02;
+const TRADING_DAYS = 252;
+const DISTRIBUTION_BUCKET = 100;
+const FALLBACK_ACCOUNT_BALANCE = 25000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const average = (values: number[]) =>
+  values.length > 0 ? roundCents(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+// Local calendar day as YYYY-MM-DD, matching the dates the filters are given in
+export function dateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// When the trade's result was realized; trades closed without an exit time fall back to their trade date
+const closedAt = (trade: Trade) => new Date(trade.exitTime ?? trade.tradeDate);
+
+export async function readAccountBalance(storage: Pick<IStorage, "getSetting">): Promise<number> {
+  const setting = await storage.getSetting("account_balance");
+  const value = setting ? parseFloat(setting.value) : NaN;
+  return Number.isFinite(value) ? value : FALLBACK_ACCOUNT_BALANCE;
+}
+
+export function filterTrades(trades: Trade[], filters: AnalyticsFilters): Trade[] {
+  return trades.filter(trade => {
+    const tradeDay = dateKey(new Date(trade.tradeDate));
+    if (filters.from && tradeDay < filters.from) return false;
+    if (filters.to && tradeDay > filters.to) return false;
+    if (filters.ticker && trade.ticker.toUpperCase() !== filters.ticker) return false;
+    if (filters.type && trade.type !== filters.type) return false;
+    if (filters.playbookId && trade.playbookId !== filters.playbookId) return false;
+    if (filters.timeClassification && trade.timeClassification !== filters.timeClassification) return false;
+    if (filters.tag && !(trade.tags ?? []).some(tag => tag.toLowerCase() === filters.tag!.toLowerCase())) return false;
+    if (filters.weekday !== undefined && new Date(trade.tradeDate).getDay() !== filters.weekday) return false;
+    if (filters.dteBucket && dteBucket(trade) !== filters.dteBucket) return false;
+    return true;
+  });
+}
+
+export function calculateDrawdown(balanceHistory: number[]): DrawdownStats {
+  if (balanceHistory.length === 0) {
+    return { maxDrawdown: 0, maxDrawdownPercent: 0, currentDrawdown: 0 };
+  }
+
+  let peak = balanceHistory[0];
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  balanceHistory.forEach(balance => {
+    peak = Math.max(peak, balance);
+    const drawdown = peak - balance;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peak > 0 ? (drawdown / peak) * 100 : 0;
+    }
+  });
+
+  return {
+    maxDrawdown: roundCents(maxDrawdown),
+    maxDrawdownPercent,
+    currentDrawdown: roundCents(peak - balanceHistory[balanceHistory.length - 1]),
+  };
+}
+
+// Daily excess return over its standard deviation
+export function calculateSharpeRatio(returns: number[], riskFreeRate = RISK_FREE_RATE): number {
+  if (returns.length === 0) return 0;
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS;
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
+  const stdDev = Math.sqrt(variance);
+  return stdDev > 0 ? (avgReturn - dailyRiskFree) / stdDev : 0;
+}
+
+// Like Sharpe, but only days below the risk-free rate count as volatility
+export function calculateSortinoRatio(returns: number[], riskFreeRate = RISK_FREE_RATE): number {
+  if (returns.length === 0) return 0;
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS;
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const downsideVariance = returns.reduce((sum, r) => sum + Math.pow(Math.min(0, r - dailyRiskFree), 2), 0) / returns.length;
+  const downsideDeviation = Math.sqrt(downsideVariance);
+  return downsideDeviation > 0 ? (avgReturn - dailyRiskFree) / downsideDeviation : 0;
+}
+
+// Runs of consecutive wins or losses, in the order the trades are given
+export function getStreakAnalysis(trades: Array<{ pnl: number | null }>): StreakStats {
+  const streaks: StreakStats["streaks"] = [];
+  trades
+    .filter(trade => trade.pnl !== null)
+    .forEach((trade, index) => {
+      const type = trade.pnl! > 0 ? "win" : "loss";
+      const current = streaks[streaks.length - 1];
+      if (current && current.type === type) {
+        current.length++;
+      } else {
+        streaks.push({ type, length: 1, start: index });
+      }
+    });
+
+  const longest = (type: "win" | "loss") =>
+    Math.max(0, ...streaks.filter(streak => streak.type === type).map(streak => streak.length));
+  const last = streaks[streaks.length - 1];
+  return {
+    currentStreak: last ? (last.type === "win" ? last.length : -last.length) : 0,
+    maxWinStreak: longest("win"),
+    maxLossStreak: longest("loss"),
+    streaks,
+  };
+}
+
+function sumPnLBy(trades: Trade[], key: (trade: Trade) => string | null): Record<string, number> {
+  return trades.reduce((acc, trade) => {
+    const group = key(trade);
+    if (group) {
+      acc[group] = roundCents((acc[group] || 0) + trade.pnl!);
+    }
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+// Buckets in their natural order rather than the order trades first landed in them
+function orderKeys(values: Record<string, number>, order: readonly string[]): Record<string, number> {
+  return Object.fromEntries(order.filter(key => key in values).map(key => [key, values[key]]));
+}
+
+// Trade counts per whole R, from the biggest loss bucket up
+function rDistribution(rMultiples: number[]): Record<string, number> {
+  const counts = new Map<number, number>();
+  rMultiples.forEach(r => {
+    const bucket = Math.floor(r);
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  });
+  return Object.fromEntries(
+    Array.from(counts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([bucket, count]) => [`${bucket}R`, count]),
+  );
+}
+
+function playbookRPerformance(trades: Trade[], strategies: PlaybookStrategy[]): PlaybookRStats[] {
+  const byPlaybook = new Map<number | null, Trade[]>();
+  trades
+    .filter(trade => trade.rMultiple !== null)
+    .forEach(trade => byPlaybook.set(trade.playbookId, [...(byPlaybook.get(trade.playbookId) ?? []), trade]));
+
+  return Array.from(byPlaybook.entries()).map(([playbookId, playbookTrades]) => ({
+    playbookId,
+    name: strategies.find(strategy => strategy.id === playbookId)?.name ?? "No strategy",
+    trades: playbookTrades.length,
+    avgPlannedR: average(playbookTrades.map(plannedRMultiple).filter((r): r is number => r !== null)),
+    avgRealizedR: average(playbookTrades.map(trade => trade.rMultiple!)),
+  }));
+}
+
+// Count, hit rate and P&L of a set of completed trades
+function planStats(trades: Trade[]): PlanStats {
+  const wins = trades.filter(trade => trade.pnl! > 0).length;
+  const totalPnL = roundCents(trades.reduce((sum, trade) => sum + trade.pnl!, 0));
+  return {
+    trades: trades.length,
+    wins,
+    hitRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    totalPnL,
+    avgPnL: trades.length > 0 ? roundCents(totalPnL / trades.length) : 0,
+  };
+}
+
+// The full metrics payload for the trades matching `filters`. With groupBy=chain each roll
+// chain is reported as one trade. Balances start from the account balance setting.
+export function buildPerformanceReport(
+  allTrades: Trade[],
+  filters: AnalyticsFilters,
+  startingBalance: number,
+  strategies: PlaybookStrategy[] = [],
+): PerformanceReport {
+  const trades = filterTrades(filters.groupBy === "chain" ? mergeRollChains(allTrades) : allTrades, filters);
+  const completedTrades = trades
+    .filter(isCompleted)
+    .sort((a, b) => closedAt(a).getTime() - closedAt(b).getTime());
+  const winningTrades = completedTrades.filter(trade => trade.pnl! > 0);
+  const losingTrades = completedTrades.filter(trade => trade.pnl! <= 0);
+
+  const totalPnL = roundCents(completedTrades.reduce((sum, trade) => sum + trade.pnl!, 0));
+  const totalGrossPnL = roundCents(completedTrades.reduce((sum, trade) => sum + (trade.grossPnl ?? trade.pnl!), 0));
+  const totalCommission = roundCents(trades.reduce((sum, trade) => sum + (trade.commission || 0), 0));
+  const totalFees = roundCents(trades.reduce((sum, trade) => sum + (trade.fees || 0), 0));
+
+  const grossWins = winningTrades.reduce((sum, trade) => sum + trade.pnl!, 0);
+  const grossLosses = Math.abs(losingTrades.reduce((sum, trade) => sum + trade.pnl!, 0));
+  const avgWin = winningTrades.length > 0 ? roundCents(grossWins / winningTrades.length) : 0;
+  const avgLoss = losingTrades.length > 0 ? roundCents(grossLosses / losingTrades.length) : 0;
+
+  // Equity curve and daily returns, each day measured against the balance it started with
+  let balance = startingBalance;
+  const equityCurve = completedTrades.length > 0
+    ? [{ date: new Date(completedTrades[0].entryTime).toISOString(), balance }]
+    : [];
+  const dailyPnL: Record<string, number> = {};
+  const monthlyPnL: Record<string, number> = {};
+  completedTrades.forEach(trade => {
+    balance = roundCents(balance + trade.pnl!);
+    equityCurve.push({ date: closedAt(trade).toISOString(), balance });
+    const day = new Date(trade.tradeDate).toDateString();
+    dailyPnL[day] = roundCents((dailyPnL[day] || 0) + trade.pnl!);
+    const month = closedAt(trade).toLocaleDateString("en-US", { year: "numeric", month: "short" });
+    monthlyPnL[month] = roundCents((monthlyPnL[month] || 0) + trade.pnl!);
+  });
+
+  let dayStartBalance = startingBalance;
+  const dailyReturns = Object.values(dailyPnL).map(pnl => {
+    const dailyReturn = dayStartBalance > 0 ? pnl / dayStartBalance : 0;
+    dayStartBalance += pnl;
+    return dailyReturn;
+  });
+
+  const pnlDistribution: Record<string, number> = {};
+  completedTrades.forEach(trade => {
+    const bucket = (Math.floor(trade.pnl! / DISTRIBUTION_BUCKET) * DISTRIBUTION_BUCKET).toString();
+    pnlDistribution[bucket] = (pnlDistribution[bucket] || 0) + 1;
+  });
+
+  const matchedIds = new Set(trades.map(trade => trade.id));
+  const rMultiples = completedTrades.map(trade => trade.rMultiple).filter((r): r is number => r !== null);
+
+  return {
+    filters,
+    groupBy: filters.groupBy,
+    startingBalance,
+    currentBalance: roundCents(startingBalance + totalPnL),
+
+    totalTrades: trades.length,
+    completedTrades: completedTrades.length,
+    wins: winningTrades.length,
+    losses: losingTrades.length,
+    winRate: completedTrades.length > 0 ? (winningTrades.length / completedTrades.length) * 100 : 0,
+    totalPnL,
+    totalGrossPnL,
+    totalCommission,
+    totalFees,
+    returnPercent: startingBalance > 0 ? (totalPnL / startingBalance) * 100 : 0,
+
+    avgWin,
+    avgLoss,
+    avgRR: avgLoss > 0 ? avgWin / avgLoss : 0,
+    expectancy: completedTrades.length > 0 ? roundCents(totalPnL / completedTrades.length) : 0,
+    profitFactor: grossLosses > 0 ? grossWins / grossLosses : null,
+    largestWin: Math.max(0, ...completedTrades.map(trade => trade.pnl!)),
+    largestLoss: Math.min(0, ...completedTrades.map(trade => trade.pnl!)),
+
+    drawdown: calculateDrawdown([startingBalance, ...equityCurve.map(point => point.balance)]),
+    sharpeRatio: calculateSharpeRatio(dailyReturns),
+    sortinoRatio: calculateSortinoRatio(dailyReturns),
+    streaks: getStreakAnalysis(completedTrades),
+
+    equityCurve,
+    dailyPnL,
+    monthlyPnL,
+    pnlDistribution,
+    riskRewardData: completedTrades.flatMap(trade => {
+      const risk = plannedRiskDollars(trade);
+      return risk === null ? [] : [{ x: risk, y: trade.pnl!, id: trade.id }];
+    }),
+
+    rMultipleTrades: rMultiples.length,
+    expectancyR: average(rMultiples),
+    rDistribution: rDistribution(rMultiples),
+    playbookRPerformance: playbookRPerformance(completedTrades, strategies),
+
+    plannedTrades: planStats(completedTrades.filter(trade => trade.tradeIdeaId !== null)),
+    unplannedTrades: planStats(completedTrades.filter(trade => trade.tradeIdeaId === null)),
+
+    symbolPerformance: sumPnLBy(completedTrades, trade => trade.ticker),
+    timePerformance: sumPnLBy(completedTrades, trade => trade.timeClassification),
+    directionPerformance: sumPnLBy(completedTrades, trade => trade.direction),
+    closeReasonPerformance: sumPnLBy(completedTrades, trade => trade.closeReason),
+    weekdayPerformance: sumPnLBy(completedTrades, trade => WEEKDAYS[new Date(trade.tradeDate).getDay()]),
+    dtePerformance: sumPnLBy(completedTrades, trade => dteBucket(trade)),
+    moneynessPerformance: orderKeys(sumPnLBy(completedTrades, moneynessBucket), MONEYNESS_BUCKETS),
+
+    rollChains: buildRollChains(allTrades).filter(chain => chain.tradeIds.some(id => matchedIds.has(id))),
+    trades: completedTrades,
+  };
+}
+
+// Two-sided p-value of a two-proportion z-test, comparing win rates
+function winRatePValue(wins: number, trades: number, otherWins: number, otherTrades: number): number {
+  const pooled = (wins + otherWins) / (trades + otherTrades);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trades + 1 / otherTrades));
+  if (standardError === 0) return 1;
+  const z = (wins / trades - otherWins / otherTrades) / standardError;
+  return Math.round(2 * (1 - normalCdf(Math.abs(z))) * 10000) / 10000;
+}
+
+// Joins each day's premarket analysis to the completed trades dated that day (the latest analysis when
+// a day has several) and splits them by every factor's value. Each value's win rate is tested against
+// the trades on days the factor had a different value.
+export function buildFactorReport(
+  analyses: PremarketAnalysis[],
+  allTrades: Trade[],
+  filters: AnalyticsFilters,
+): FactorReport {
+  const analysisByDay = new Map<string, PremarketAnalysis>();
+  [...analyses].sort((a, b) => a.id - b.id).forEach(analysis => analysisByDay.set(dateKey(new Date(analysis.date)), analysis));
+
+  const days = new Map<PremarketAnalysis, Trade[]>();
+  filterTrades(allTrades, filters)
+    .filter(isCompleted)
+    .forEach(trade => {
+      const analysis = analysisByDay.get(dateKey(new Date(trade.tradeDate)));
+      if (analysis) days.set(analysis, [...(days.get(analysis) ?? []), trade]);
+    });
+
+  const factors = (Object.keys(PREMARKET_FACTORS) as PremarketFactor[]).map(factor => {
+    const groups = new Map<string, { days: number; trades: Trade[] }>();
+    days.forEach((trades, analysis) => {
+      const value = factorValue(analysis, factor);
+      if (value === null) return;
+      const group = groups.get(value) ?? { days: 0, trades: [] };
+      groups.set(value, { days: group.days + 1, trades: [...group.trades, ...trades] });
+    });
+
+    const totalTrades = Array.from(groups.values()).reduce((sum, group) => sum + group.trades.length, 0);
+    const totalWins = Array.from(groups.values()).reduce(
+      (sum, group) => sum + group.trades.filter(trade => trade.pnl! > 0).length, 0);
+
+    const values: FactorValueStats[] = Array.from(groups.entries()).map(([value, group]) => {
+      const trades = group.trades.length;
+      const wins = group.trades.filter(trade => trade.pnl! > 0).length;
+      const totalPnL = roundCents(group.trades.reduce((sum, trade) => sum + trade.pnl!, 0));
+      const otherTrades = totalTrades - trades;
+      const pValue = trades >= MIN_FACTOR_TRADES && otherTrades >= MIN_FACTOR_TRADES
+        ? winRatePValue(wins, trades, totalWins - wins, otherTrades)
+        : null;
+      return {
+        value,
+        days: group.days,
+        trades,
+        wins,
+        winRate: trades > 0 ? (wins / trades) * 100 : 0,
+        totalPnL,
+        avgPnL: trades > 0 ? roundCents(totalPnL / trades) : 0,
+        pValue,
+        significance: pValue === null ? "too few trades" : pValue < SIGNIFICANCE_LEVEL ? "significant" : "not significant",
+      };
+    });
+
+    return {
+      factor,
+      label: PREMARKET_FACTORS[factor],
+      values: values.sort((a, b) => b.trades - a.trades),
+    };
+  });
+
+  return {
+    days: days.size,
+    trades: Array.from(days.values()).reduce((sum, trades) => sum + trades.length, 0),
+    factors,
+  };
+}
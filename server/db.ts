@@ -1,15 +1,49 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// 'neon' talks to Neon's serverless proxy, 'pg' to a regular local or hosted
+// Postgres, and 'pglite' to an embedded Postgres stored in a local directory
+export type DatabaseDriver = "neon" | "pg" | "pglite";
+
+export function getDatabaseDriver(): DatabaseDriver {
+  const driver = process.env.DATABASE_DRIVER || "neon";
+  if (driver !== "neon" && driver !== "pg" && driver !== "pglite") {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}". Use neon, pg or pglite.`);
+  }
+  return driver;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export function createDatabase(): Database {
+  const driver = getDatabaseDriver();
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  if (driver === "pglite") {
+    // DATABASE_URL is the data directory here, e.g. ./data/journal
+    const client = new PGlite(process.env.DATABASE_URL);
+    return drizzlePglite({ client, schema }) as unknown as Database;
+  }
+
+  if (driver === "pg") {
+    const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+    return drizzleNodePg({ client: pool, schema }) as unknown as Database;
+  }
+
+  const pool = new NeonPool({ connectionString: process.env.DATABASE_URL });
+  return drizzleNeon({ client: pool, schema }) as unknown as Database;
+}
@@ -0,0 +1,47 @@
+import type { EconomicEvent, Trade } from "@shared/schema";
+import { isCompleted, type AnalyticsFilters } from "@shared/analytics";
+import { EVENT_WINDOW_MINUTES, type EventDayReport, type EventDayStats } from "@shared/economic-calendar";
+import { dateKey, filterTrades } from "./analytics";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function eventDayStats(label: string, trades: Trade[]): EventDayStats {
+  const wins = trades.filter(trade => trade.pnl! > 0).length;
+  const totalPnL = roundCents(trades.reduce((sum, trade) => sum + trade.pnl!, 0));
+  return {
+    label,
+    days: new Set(trades.map(trade => dateKey(new Date(trade.tradeDate)))).size,
+    trades: trades.length,
+    wins,
+    winRate: trades.length > 0 ? (wins / trades.length) * 100 : 0,
+    totalPnL,
+    avgPnL: trades.length > 0 ? roundCents(totalPnL / trades.length) : 0,
+  };
+}
+
+// Completed trades (filtered like the performance report) split by the events on their trade date:
+// days with a high-impact release against days without a high- or medium-impact one, each category's
+// days, and the trades entered around an event against the rest. Days count days traded.
+export function buildEventDayReport(events: EconomicEvent[], allTrades: Trade[], filters: AnalyticsFilters): EventDayReport {
+  const eventsByDay = new Map<string, EconomicEvent[]>();
+  events.forEach(event => {
+    const day = dateKey(new Date(event.eventTime));
+    eventsByDay.set(day, [...(eventsByDay.get(day) ?? []), event]);
+  });
+
+  const trades = filterTrades(allTrades, filters).filter(isCompleted);
+  const dayEvents = (trade: Trade) => eventsByDay.get(dateKey(new Date(trade.tradeDate))) ?? [];
+
+  const categories = Array.from(new Set(events.map(event => event.category)))
+    .map(category => eventDayStats(category, trades.filter(trade => dayEvents(trade).some(event => event.category === category))))
+    .filter(stats => stats.trades > 0)
+    .sort((a, b) => b.trades - a.trades || a.label.localeCompare(b.label));
+
+  return {
+    eventDays: eventDayStats("High-impact days", trades.filter(trade => dayEvents(trade).some(event => event.impact === "high"))),
+    quietDays: eventDayStats("Quiet days", trades.filter(trade => dayEvents(trade).every(event => event.impact === "low"))),
+    categories,
+    inWindow: eventDayStats(`Within ${EVENT_WINDOW_MINUTES} min of an event`, trades.filter(trade => trade.economicEventId !== null)),
+    outsideWindow: eventDayStats("Other trades", trades.filter(trade => trade.economicEventId === null)),
+  };
+}
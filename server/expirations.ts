@@ -0,0 +1,24 @@
+import type { IStorage } from "./storage";
+import { log } from "./vite";
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Flags open trades whose options have expired so the journal can offer to settle them.
+// Runs once at startup and then hourly; flagging is idempotent, so restarts are harmless.
+export function startExpirationWatcher(storage: IStorage): NodeJS.Timeout {
+  const check = async () => {
+    try {
+      const flagged = await storage.flagExpiredTrades(new Date());
+      if (flagged.length > 0) {
+        log(`flagged ${flagged.length} open trade(s) past expiration`, "expirations");
+      }
+    } catch (error) {
+      console.error("Expiration check failed:", error);
+    }
+  };
+
+  void check();
+  const timer = setInterval(check, CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,163 @@
+import { createHash } from "crypto";
+import type { ImportBatch, ImportProfile, InsertTrade, Trade } from "@shared/schema";
+import {
+  detectBrokerAdapter,
+  fileHeaders,
+  groupExecutions,
+  headerSignature,
+  mappedAdapter,
+  type BrokerAdapter,
+  type ImportCommitRequest,
+  type ImportedTrade,
+  type ImportPreview,
+  type ImportPreviewRequest,
+  type ImportRow,
+} from "@shared/broker-imports";
+import { dateKey } from "./analytics";
+import type { ImportBatchTrade } from "./storage";
+
+export interface ImportPlan {
+  adapter: BrokerAdapter;
+  preview: ImportPreview;
+  trades: Map<number, InsertTrade>; // by row, for the rows that are new
+}
+
+const localDay = (day: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const fileHash = (content: string) => createHash("sha256").update(content).digest("hex");
+
+// A trade already recorded is the same contract, side and size opened in the same minute at the same price
+type Fingerprinted = Pick<Trade, "ticker" | "type" | "strikePrice" | "expirationDate" | "direction" | "quantity" | "entryTime" | "entryPrice">;
+const fingerprint = (trade: Fingerprinted) => [
+  trade.ticker.toUpperCase(),
+  trade.type,
+  trade.strikePrice,
+  dateKey(new Date(trade.expirationDate)),
+  trade.direction,
+  trade.quantity,
+  Math.floor(new Date(trade.entryTime).getTime() / 60000),
+  trade.entryPrice.toFixed(2),
+].join("|");
+
+// Entry, exit and P&L are averaged from the fills again when the trade is created
+function toInsertTrade({ executions, summary, ...contract }: ImportedTrade, adapter: BrokerAdapter): InsertTrade {
+  const closed = summary.openQuantity === 0;
+  const closingFills = executions.filter(execution => execution.side !== summary.side);
+  const lastClose = closed ? closingFills[closingFills.length - 1] : undefined;
+  return {
+    ticker: contract.ticker,
+    type: contract.type,
+    direction: summary.side === "sell" ? "short" : "long",
+    quantity: summary.quantity,
+    strikePrice: contract.strikePrice,
+    entryPrice: summary.entryPrice,
+    exitPrice: closed ? summary.exitPrice ?? undefined : undefined,
+    entryTime: summary.entryTime,
+    exitTime: summary.exitTime ?? undefined,
+    expirationDate: localDay(contract.expirationDate),
+    tradeDate: localDay(dateKey(summary.entryTime)),
+    entryReason: `Imported from ${adapter.label} (${contract.symbol})`,
+    exitReason: closed ? "Imported trade" : undefined,
+    playbookId: 1, // Default to first strategy, user can edit later
+    underlyingEntryPrice: executions[0].underlyingPrice,
+    underlyingExitPrice: lastClose?.underlyingPrice ?? null,
+    entryIv: executions[0].iv,
+    exitIv: lastClose?.iv ?? null,
+    executions: executions.map(({ side, quantity, price, executedAt, commission, fees }) => ({
+      side, quantity, price, executedAt, commission, fees,
+    })),
+  };
+}
+
+// Reads the file with the mapping given, else the newest profile saved for its header row, else the
+// adapter that recognizes it, and matches its fills into trades by the method asked for. Each trade is
+// marked new, or a duplicate of one already recorded; rows that could not be read and closing fills
+// with nothing open are invalid. Returns null when nothing reads the file.
+export function planImport(
+  { content, tradeDate, mapping, matching }: ImportPreviewRequest,
+  existingTrades: Trade[],
+  batches: ImportBatch[],
+  profiles: ImportProfile[],
+): ImportPlan | null {
+  const headers = fileHeaders(content);
+  const signature = headers ? headerSignature(headers) : null;
+  const profile = mapping ? undefined : profiles.find(profile => profile.headerSignature === signature);
+  const adapter = mapping ? mappedAdapter(mapping, "Column mapping")
+    : profile ? mappedAdapter(profile.mapping, profile.name)
+    : detectBrokerAdapter(content);
+  if (!adapter) return null;
+
+  const parsed = adapter.parse(content, { tradeDate: tradeDate ?? dateKey(new Date()) });
+  const { trades: grouped, unmatched } = groupExecutions(parsed.executions, matching);
+  const recorded = new Map(existingTrades.map(trade => [fingerprint(trade), trade.id]));
+  const hash = fileHash(content);
+
+  const trades = new Map<number, InsertTrade>();
+  const rows: ImportRow[] = grouped.map((imported, row) => {
+    const trade = toInsertTrade(imported, adapter);
+    const duplicateOf = recorded.get(fingerprint({ ...trade, direction: trade.direction ?? "long" })) ?? null;
+    if (duplicateOf === null) trades.set(row, trade);
+    return {
+      row,
+      status: duplicateOf === null ? "new" : "duplicate",
+      trade: {
+        symbol: imported.symbol,
+        ticker: imported.ticker,
+        root: imported.root,
+        type: imported.type,
+        strikePrice: imported.strikePrice,
+        expirationDate: imported.expirationDate,
+        adjusted: imported.adjusted,
+        direction: trade.direction ?? "long",
+        quantity: trade.quantity,
+        entryPrice: trade.entryPrice,
+        exitPrice: trade.exitPrice ?? null,
+        pnl: imported.summary.openQuantity === 0 ? imported.summary.pnl : null,
+        tradeDate: dateKey(trade.tradeDate),
+        entryTime: trade.entryTime.toISOString(),
+        exitTime: trade.exitTime?.toISOString() ?? null,
+        fills: imported.executions.length,
+      },
+      duplicateOf,
+      message: duplicateOf !== null ? `Already recorded as trade #${duplicateOf}`
+        : imported.adjusted ? `${imported.root} is an adjusted contract; P&L is figured on 100 shares`
+        : null,
+    };
+  });
+  const invalid = [
+    ...parsed.errors,
+    ...unmatched.map(fill => `${fill.symbol}: closing fill on ${dateKey(fill.executedAt)} with no opening fill in the file`),
+  ];
+  invalid.forEach(message => {
+    rows.push({ row: rows.length, status: "invalid", trade: null, duplicateOf: null, message });
+  });
+
+  return {
+    adapter,
+    preview: {
+      broker: { id: adapter.id, label: adapter.label, datedFills: adapter.datedFills },
+      profile: profile ? { id: profile.id, name: profile.name } : null,
+      fileHash: hash,
+      previousImport: batches.find(batch => batch.fileHash === hash) ?? null,
+      rows,
+    },
+    trades,
+  };
+}
+
+// The new rows in upload order: by expiration, so a trade is only rolled from one created before it.
+// A roll from a row that is not being created, or not created earlier, is dropped.
+export function batchTrades(plan: ImportPlan, rolledFrom: ImportCommitRequest["rolledFrom"] = []): ImportBatchTrade[] {
+  const order = Array.from(plan.trades.keys()).sort((a, b) =>
+    plan.preview.rows[a].trade!.expirationDate.localeCompare(plan.preview.rows[b].trade!.expirationDate) || a - b);
+  return order.map((row, index) => {
+    const fromIndex = order.indexOf(rolledFrom[row] ?? -1);
+    return {
+      trade: plan.trades.get(row)!,
+      rolledFromIndex: fromIndex >= 0 && fromIndex < index ? fromIndex : null,
+    };
+  });
+}
@@ -0,0 +1,96 @@
+import { KEY_LEVEL_TYPES, type KeyLevel, type KeyLevelReaction, type KeyLevelType, type PremarketAnalysis, type Trade } from "@shared/schema";
+import { isCompleted, type AnalyticsFilters } from "@shared/analytics";
+import {
+  KEY_LEVEL_TYPE_LABELS,
+  levelReaction,
+  type KeyLevelDay,
+  type KeyLevelFilters,
+  type KeyLevelReport,
+  type KeyLevelTypeStats,
+} from "@shared/key-levels";
+import { dateKey, filterTrades } from "./analytics";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const inRange = (day: string, from?: string, to?: string) => (!from || day >= from) && (!to || day <= to);
+
+// Levels per underlying per day, oldest first, with how price reacted to each
+export function buildKeyLevelHistory(
+  levels: KeyLevel[],
+  analyses: PremarketAnalysis[],
+  filters: KeyLevelFilters,
+): KeyLevelDay[] {
+  const analysisById = new Map(analyses.map(analysis => [analysis.id, analysis]));
+  const days = new Map<string, KeyLevelDay>();
+
+  levels
+    .filter(level => !filters.underlying || level.underlying === filters.underlying)
+    .filter(level => inRange(dateKey(new Date(level.date)), filters.from, filters.to))
+    .forEach(level => {
+      const date = dateKey(new Date(level.date));
+      const analysis = level.premarketAnalysisId !== null ? analysisById.get(level.premarketAnalysisId) : undefined;
+      const key = `${date}|${level.underlying}`;
+      const day = days.get(key) ?? { date, underlying: level.underlying, referencePrice: null, levels: [] };
+      day.referencePrice = day.referencePrice ?? analysis?.referencePrice ?? null;
+      day.levels.push({
+        id: level.id,
+        levelType: level.levelType as KeyLevelType,
+        price: level.price,
+        reaction: levelReaction(level, analysis),
+        manualReaction: level.reaction as KeyLevelReaction | null,
+        fromAnalysis: level.premarketAnalysisId !== null,
+      });
+      days.set(key, day);
+    });
+
+  return Array.from(days.values())
+    .map(day => ({ ...day, levels: day.levels.sort((a, b) => b.price - a.price) }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.underlying.localeCompare(b.underlying));
+}
+
+// How often each level type held, and the P&L of completed trades tagged as taken off one. Trades are
+// filtered like the performance report; levels by its date range and ticker.
+export function buildKeyLevelReport(
+  levels: KeyLevel[],
+  analyses: PremarketAnalysis[],
+  allTrades: Trade[],
+  filters: AnalyticsFilters,
+): KeyLevelReport {
+  const analysisById = new Map(analyses.map(analysis => [analysis.id, analysis]));
+  const levelById = new Map(levels.map(level => [level.id, level]));
+  const reportLevels = levels.filter(level =>
+    inRange(dateKey(new Date(level.date)), filters.from, filters.to)
+    && (!filters.ticker || level.underlying === filters.ticker));
+  const trades = filterTrades(allTrades, filters).filter(trade => isCompleted(trade) && trade.keyLevelId !== null);
+
+  const types: KeyLevelTypeStats[] = KEY_LEVEL_TYPES.map(levelType => {
+    const reactions = reportLevels
+      .filter(level => level.levelType === levelType)
+      .map(level => levelReaction(level, level.premarketAnalysisId !== null ? analysisById.get(level.premarketAnalysisId) : undefined));
+    const respected = reactions.filter(reaction => reaction === "respected").length;
+    const broken = reactions.filter(reaction => reaction === "broken").length;
+    const tested = respected + broken;
+
+    const typeTrades = trades.filter(trade => levelById.get(trade.keyLevelId!)?.levelType === levelType);
+    const wins = typeTrades.filter(trade => trade.pnl! > 0).length;
+    const totalPnL = roundCents(typeTrades.reduce((sum, trade) => sum + trade.pnl!, 0));
+
+    return {
+      levelType,
+      label: KEY_LEVEL_TYPE_LABELS[levelType],
+      levels: reactions.length,
+      tested,
+      respected,
+      broken,
+      untested: reactions.filter(reaction => reaction === "untested").length,
+      respectRate: tested > 0 ? (respected / tested) * 100 : null,
+      trades: typeTrades.length,
+      wins,
+      winRate: typeTrades.length > 0 ? (wins / typeTrades.length) * 100 : 0,
+      totalPnL,
+      avgPnL: typeTrades.length > 0 ? roundCents(totalPnL / typeTrades.length) : 0,
+    };
+  });
+
+  return { levels: reportLevels.length, types };
+}
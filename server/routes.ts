@@ -2,7 +2,36 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { getSession, authenticate, login, logout, getUser } from "./auth";
-import { insertTradeSchema, insertPremarketAnalysisSchema, insertTradeAnalysisSchema, insertPlaybookStrategySchema, insertIntradayNoteSchema } from "@shared/schema";
+import { insertTradeSchema, type InsertTrade, type Trade, insertStockPositionSchema, insertPremarketAnalysisSchema, insertPremarketTemplateSchema, insertTradeIdeaSchema, plannedTradeIdeaSchema, insertKeyLevelSchema, insertTradeAnalysisSchema, insertPlaybookStrategySchema, insertIntradayNoteSchema, insertRiskBreachSchema, type InsertRiskBreach, insertImportBatchSchema, insertImportProfileSchema } from "@shared/schema";
+import { feeScheduleSchema, FEE_SETTING_KEYS, type FeeSchedule } from "@shared/fees";
+import { pricingSettingsSchema, PRICING_SETTING_KEYS, type PricingSettings } from "@shared/pricing";
+import { realizedRangeImportSchema } from "@shared/expected-move";
+import { answersSchemaFor, answersToColumns, legacyAnswers } from "@shared/premarket-templates";
+import { isPastExpiration, openPositionLegs, settlementError, tradeSettlementSchema } from "@shared/settlement";
+import { rollLinkError } from "@shared/rolls";
+import { analyticsFiltersSchema } from "@shared/analytics";
+import { scorecardFiltersSchema } from "@shared/scorecard";
+import { keyLevelFiltersSchema } from "@shared/key-levels";
+import {
+  RISK_ENFORCEMENT_SETTING_KEY,
+  RISK_LIMIT_SETTING_KEYS,
+  checkContracts,
+  checkNewTrade,
+  limitsReached,
+  riskBreachFiltersSchema,
+  riskRulesSchema,
+  summarizeRiskDay,
+  type RiskCheck,
+  type RiskLimits,
+  type RiskRules,
+} from "@shared/guardrails";
+import { economicCalendarImportSchema, economicEventFiltersSchema, parseEconomicCalendar } from "@shared/economic-calendar";
+import { fileHeaders, importCommitSchema, importPreviewRequestSchema } from "@shared/broker-imports";
+import { buildFactorReport, buildPerformanceReport, dateKey, readAccountBalance } from "./analytics";
+import { buildDailyScorecard, buildScorecardHistory } from "./scorecard";
+import { buildKeyLevelHistory, buildKeyLevelReport } from "./key-levels";
+import { buildEventDayReport } from "./economic-calendar";
+import { batchTrades, planImport } from "./imports";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Session middleware
@@ -34,6 +63,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/trades/:id/legs", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const legs = await storage.getTradeLegsByTrade(id);
+      res.json(legs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trade legs" });
+    }
+  });
+
+  app.get("/api/trades/:id/executions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const executions = await storage.getTradeExecutionsByTrade(id);
+      res.json(executions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trade executions" });
+    }
+  });
+
   app.get("/api/trades/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -50,7 +99,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/trades", async (req, res) => {
     try {
       const validatedData = insertTradeSchema.parse(req.body);
+      if (validatedData.rolledFromId) {
+        const invalid = rollLinkError(await storage.getTrades(), null, validatedData.rolledFromId);
+        if (invalid) {
+          return res.status(400).json({ message: invalid });
+        }
+      }
+      if (validatedData.tradeIdeaId && !(await tradeIdeaExists(validatedData.tradeIdeaId))) {
+        return res.status(400).json({ message: "Trade idea not found" });
+      }
+      if (validatedData.keyLevelId && !(await storage.getKeyLevel(validatedData.keyLevelId))) {
+        return res.status(400).json({ message: "Key level not found" });
+      }
+      const { rules, checks } = await checkRiskRules(validatedData);
+      if (checks.length > 0 && rules.enforcement === "reject") {
+        await storage.createRiskBreaches(riskBreaches(validatedData, null, checks, "rejected"));
+        return res.status(400).json({ message: "Trade breaks risk rules", riskBreaches: checks });
+      }
       const trade = await storage.createTrade(validatedData);
+      if (checks.length > 0) {
+        await storage.createRiskBreaches(riskBreaches(validatedData, trade.id, checks, "warned"));
+        return res.status(201).json({ ...trade, riskBreaches: checks });
+      }
       res.status(201).json(trade);
     } catch (error) {
       res.status(400).json({ message: "Invalid trade data", error });
@@ -61,16 +131,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const updateData = insertTradeSchema.partial().parse(req.body);
+      if (updateData.rolledFromId) {
+        const invalid = rollLinkError(await storage.getTrades(), id, updateData.rolledFromId);
+        if (invalid) {
+          return res.status(400).json({ message: invalid });
+        }
+      }
+      if (updateData.tradeIdeaId && !(await tradeIdeaExists(updateData.tradeIdeaId))) {
+        return res.status(400).json({ message: "Trade idea not found" });
+      }
+      if (updateData.keyLevelId && !(await storage.getKeyLevel(updateData.keyLevelId))) {
+        return res.status(400).json({ message: "Key level not found" });
+      }
+      const existing = await storage.getTrade(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
+      const { rules, checks } = await checkRiskRulesOnEdit(existing, updateData);
+      if (checks.length > 0 && rules.enforcement === "reject") {
+        await storage.createRiskBreaches(riskBreaches({ ...existing, ...updateData }, id, checks, "rejected"));
+        return res.status(400).json({ message: "Trade breaks risk rules", riskBreaches: checks });
+      }
       const trade = await storage.updateTrade(id, updateData);
       if (!trade) {
         return res.status(404).json({ message: "Trade not found" });
       }
+      if (checks.length > 0) {
+        await storage.createRiskBreaches(riskBreaches(trade, trade.id, checks, "warned"));
+        return res.json({ ...trade, riskBreaches: checks });
+      }
       res.json(trade);
     } catch (error) {
       res.status(400).json({ message: "Invalid update data", error });
     }
   });
 
+  // Close an expired position at zero, or at intrinsic value with the resulting shares when assigned or exercised
+  app.post("/api/trades/:id/settle", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const settlement = tradeSettlementSchema.parse(req.body);
+      const trade = await storage.getTrade(id);
+      if (!trade) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
+      if (!isPastExpiration(trade.expirationDate, new Date())) {
+        return res.status(400).json({ message: "The trade has not expired yet" });
+      }
+      const legs = await storage.getTradeLegsByTrade(id);
+      const invalid = settlementError(openPositionLegs(trade, legs), settlement);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+      const result = await storage.settleTrade(id, settlement);
+      res.json(result);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid settlement data", error });
+    }
+  });
+
   app.delete("/api/trades/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -84,6 +203,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trade Legs routes
+  app.get("/api/trade-legs", async (req, res) => {
+    try {
+      const legs = await storage.getTradeLegs();
+      res.json(legs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trade legs" });
+    }
+  });
+
+  // Trade Executions routes
+  app.get("/api/trade-executions", async (req, res) => {
+    try {
+      const executions = await storage.getTradeExecutions();
+      res.json(executions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trade executions" });
+    }
+  });
+
+  // Stock Positions routes
+  app.get("/api/stock-positions", async (req, res) => {
+    try {
+      const positions = await storage.getStockPositions();
+      res.json(positions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock positions" });
+    }
+  });
+
+  app.patch("/api/stock-positions/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = insertStockPositionSchema.partial().parse(req.body);
+      const position = await storage.updateStockPosition(id, updateData);
+      if (!position) {
+        return res.status(404).json({ message: "Stock position not found" });
+      }
+      res.json(position);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid update data", error });
+    }
+  });
+
   // Premarket Analysis routes
   app.get("/api/premarket-analysis", async (req, res) => {
     try {
@@ -104,20 +267,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trade ideas planned in the analysis can be sent with it and are saved linked to it. Answers are
+  // checked against the template (the default one when no templateId is given); analyses sent as
+  // plain columns get their answers read from the columns.
   app.post("/api/premarket-analysis", async (req, res) => {
     try {
-      const validatedData = insertPremarketAnalysisSchema.parse(req.body);
-      const analysis = await storage.createPremarketAnalysis(validatedData);
+      const { tradeIdeas = [], ...body } = req.body;
+      const template = body.templateId
+        ? await storage.getPremarketTemplate(parseInt(body.templateId))
+        : await storage.getDefaultPremarketTemplate();
+      if (!template) {
+        return res.status(400).json({ message: "Premarket template not found" });
+      }
+      let answers = null;
+      if (body.answers !== undefined && body.answers !== null) {
+        const parsedAnswers = answersSchemaFor(template.sections).safeParse(body.answers);
+        if (!parsedAnswers.success) {
+          return res.status(400).json({ message: "Invalid premarket answers", error: parsedAnswers.error });
+        }
+        answers = parsedAnswers.data;
+      }
+      const validatedData = insertPremarketAnalysisSchema.parse({
+        ...body,
+        ...(answers && answersToColumns(answers)),
+        templateId: template.id,
+      });
+      const ideas = plannedTradeIdeaSchema.array().parse(tradeIdeas);
+      const analysis = await storage.createPremarketAnalysis({
+        ...validatedData,
+        answers: answers ?? legacyAnswers(validatedData),
+      });
+      for (const idea of ideas) {
+        await storage.createTradeIdea({ ...idea, premarketAnalysisId: analysis.id });
+      }
       res.status(201).json(analysis);
     } catch (error) {
       res.status(400).json({ message: "Invalid premarket analysis data", error });
     }
   });
 
+  // Realized highs, lows and closes for the expected-move review and the daily scorecard; days without
+  // an analysis are reported back
+  app.post("/api/premarket-analysis/realized-ranges", async (req, res) => {
+    const parsed = realizedRangeImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid realized ranges", error: parsed.error });
+    }
+    try {
+      const updated: number[] = [];
+      const unmatched: string[] = [];
+      for (const range of parsed.data.ranges) {
+        const [year, month, day] = range.date.split("-").map(Number);
+        const analysis = await storage.getPremarketAnalysisByDate(new Date(year, month - 1, day));
+        if (!analysis) {
+          unmatched.push(range.date);
+          continue;
+        }
+        await storage.updatePremarketAnalysis(analysis.id, {
+          realizedHigh: range.high,
+          realizedLow: range.low,
+          ...(range.close !== undefined && { realizedClose: range.close }),
+        });
+        updated.push(analysis.id);
+      }
+      res.json({ updated, unmatched });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import realized ranges" });
+    }
+  });
+
   app.patch("/api/premarket-analysis/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updateData = insertPremarketAnalysisSchema.partial().parse(req.body);
+      let updateData = insertPremarketAnalysisSchema.partial().parse(req.body);
+      if (updateData.answers) {
+        const existing = (await storage.getPremarketAnalysis()).find(analysis => analysis.id === id);
+        if (!existing) {
+          return res.status(404).json({ message: "Premarket analysis not found" });
+        }
+        const templateId = updateData.templateId ?? existing.templateId;
+        const template = templateId
+          ? await storage.getPremarketTemplate(templateId)
+          : await storage.getDefaultPremarketTemplate();
+        if (!template) {
+          return res.status(400).json({ message: "Premarket template not found" });
+        }
+        const parsedAnswers = answersSchemaFor(template.sections).safeParse(updateData.answers);
+        if (!parsedAnswers.success) {
+          return res.status(400).json({ message: "Invalid premarket answers", error: parsedAnswers.error });
+        }
+        updateData = { ...updateData, ...answersToColumns(parsedAnswers.data), templateId: template.id, answers: parsedAnswers.data };
+      }
       const analysis = await storage.updatePremarketAnalysis(id, updateData);
       if (!analysis) {
         return res.status(404).json({ message: "Premarket analysis not found" });
@@ -128,6 +368,335 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Premarket Templates routes
+  app.get("/api/premarket-templates", async (req, res) => {
+    try {
+      const templates = await storage.getPremarketTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch premarket templates" });
+    }
+  });
+
+  app.post("/api/premarket-templates", async (req, res) => {
+    try {
+      const validatedData = insertPremarketTemplateSchema.parse(req.body);
+      const template = await storage.createPremarketTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid premarket template data", error });
+    }
+  });
+
+  // Templates are replaced whole; answers already saved keep the values they were given
+  app.put("/api/premarket-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertPremarketTemplateSchema.parse(req.body);
+      if (!(await storage.getPremarketTemplate(id))) {
+        return res.status(404).json({ message: "Premarket template not found" });
+      }
+      const template = await storage.updatePremarketTemplate(id, validatedData);
+      res.json(template);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid premarket template data", error });
+    }
+  });
+
+  app.delete("/api/premarket-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const template = await storage.getPremarketTemplate(id);
+      if (!template) {
+        return res.status(404).json({ message: "Premarket template not found" });
+      }
+      if (template.isDefault) {
+        return res.status(400).json({ message: "Make another template the default before deleting this one" });
+      }
+      await storage.deletePremarketTemplate(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete premarket template" });
+    }
+  });
+
+  // Trade Ideas routes
+  app.get("/api/trade-ideas", async (req, res) => {
+    try {
+      const ideas = await storage.getTradeIdeas();
+      res.json(ideas);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trade ideas" });
+    }
+  });
+
+  app.post("/api/trade-ideas", async (req, res) => {
+    try {
+      const validatedData = insertTradeIdeaSchema.parse(req.body);
+      const idea = await storage.createTradeIdea(validatedData);
+      res.status(201).json(idea);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid trade idea data", error });
+    }
+  });
+
+  app.patch("/api/trade-ideas/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = insertTradeIdeaSchema.partial().parse(req.body);
+      const idea = await storage.updateTradeIdea(id, updateData);
+      if (!idea) {
+        return res.status(404).json({ message: "Trade idea not found" });
+      }
+      res.json(idea);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid update data", error });
+    }
+  });
+
+  app.delete("/api/trade-ideas/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteTradeIdea(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Trade idea not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete trade idea" });
+    }
+  });
+
+  // Key Level routes. Levels named in a premarket analysis are kept in step with it; these add levels
+  // for other underlyings, or record how price reacted when the day's range does not tell.
+  app.get("/api/key-levels", async (req, res) => {
+    const parsed = keyLevelFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid key level filters", error: parsed.error });
+    }
+    try {
+      const [levels, analyses] = await Promise.all([storage.getKeyLevels(), storage.getPremarketAnalysis()]);
+      res.json(buildKeyLevelHistory(levels, analyses, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch key levels" });
+    }
+  });
+
+  app.post("/api/key-levels", async (req, res) => {
+    try {
+      const validatedData = insertKeyLevelSchema.parse(req.body);
+      const level = await storage.createKeyLevel({ ...validatedData, premarketAnalysisId: null });
+      res.status(201).json(level);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid key level data", error });
+    }
+  });
+
+  app.patch("/api/key-levels/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updateData = insertKeyLevelSchema.pick({ reaction: true }).parse(req.body);
+      const level = await storage.updateKeyLevel(id, updateData);
+      if (!level) {
+        return res.status(404).json({ message: "Key level not found" });
+      }
+      res.json(level);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid update data", error });
+    }
+  });
+
+  app.delete("/api/key-levels/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const level = await storage.getKeyLevel(id);
+      if (!level) {
+        return res.status(404).json({ message: "Key level not found" });
+      }
+      if (level.premarketAnalysisId !== null) {
+        return res.status(400).json({ message: "Remove this level from its premarket analysis instead" });
+      }
+      await storage.deleteKeyLevel(id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete key level" });
+    }
+  });
+
+  // Economic calendar routes. Events come from an imported ICS or CSV calendar; trades are tagged with
+  // the event they were entered around by storage.
+  app.get("/api/economic-events", async (req, res) => {
+    const parsed = economicEventFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid economic event filters", error: parsed.error });
+    }
+    try {
+      const { from, to } = parsed.data;
+      const events = await storage.getEconomicEvents();
+      res.json(events.filter(event => {
+        const day = dateKey(new Date(event.eventTime));
+        return (!from || day >= from) && (!to || day <= to);
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch economic events" });
+    }
+  });
+
+  // Entries that cannot be read are reported back rather than failing the import
+  app.post("/api/economic-events/import", async (req, res) => {
+    const parsed = economicCalendarImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid economic calendar", error: parsed.error });
+    }
+    try {
+      const { content, fileName, timeZone } = parsed.data;
+      const { events, errors } = parseEconomicCalendar(content, timeZone, fileName);
+      if (events.length === 0) {
+        return res.status(400).json({ message: "No events found in the calendar", errors });
+      }
+      const created = await storage.createEconomicEvents(events);
+      res.status(201).json({ imported: created.length, skipped: events.length - created.length, errors });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import economic calendar" });
+    }
+  });
+
+  app.delete("/api/economic-events/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteEconomicEvent(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Economic event not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete economic event" });
+    }
+  });
+
+  // Broker import routes. The file is read on the server twice: once for a preview marking each trade new,
+  // duplicate or invalid, and again to commit the new trades as one batch. A file nothing reads is
+  // rejected with its header row, so its columns can be mapped by hand.
+  app.get("/api/imports", async (req, res) => {
+    try {
+      const batches = await storage.getImportBatches();
+      res.json(batches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch imports" });
+    }
+  });
+
+  app.post("/api/imports", async (req, res) => {
+    const parsed = importPreviewRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid import file", error: parsed.error });
+    }
+    try {
+      const plan = planImport(parsed.data, await storage.getTrades(), await storage.getImportBatches(), await storage.getImportProfiles());
+      if (!plan) {
+        return res.status(400).json({ message: "The file does not match any supported broker export or saved column mapping", headers: fileHeaders(parsed.data.content) });
+      }
+      res.json(plan.preview);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview import" });
+    }
+  });
+
+  // Duplicates and invalid rows are left out; the new trades are created together or not at all
+  app.post("/api/imports/commit", async (req, res) => {
+    const parsed = importCommitSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid import file", error: parsed.error });
+    }
+    try {
+      const plan = planImport(parsed.data, await storage.getTrades(), await storage.getImportBatches(), await storage.getImportProfiles());
+      if (!plan) {
+        return res.status(400).json({ message: "The file does not match any supported broker export or saved column mapping", headers: fileHeaders(parsed.data.content) });
+      }
+      const trades = batchTrades(plan, parsed.data.rolledFrom);
+      if (trades.length === 0) {
+        return res.status(400).json({ message: "No new trades to import" });
+      }
+      const batch = await storage.createImportBatch({
+        broker: plan.adapter.id,
+        fileName: parsed.data.fileName ?? null,
+        fileHash: plan.preview.fileHash,
+        tradeCount: trades.length,
+      }, trades);
+      const count = (status: string) => plan.preview.rows.filter(row => row.status === status).length;
+      res.status(201).json({ batch, imported: trades.length, duplicates: count("duplicate"), invalid: count("invalid") });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import trades" });
+    }
+  });
+
+  // Undoes an import by deleting the trades it created
+  app.delete("/api/imports/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteImportBatch(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to undo import" });
+    }
+  });
+
+  // Import profile routes: column mappings saved by name and applied to files with the same header row
+  app.get("/api/import-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.getImportProfiles();
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import profiles" });
+    }
+  });
+
+  app.post("/api/import-profiles", async (req, res) => {
+    const parsed = insertImportProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid import profile", error: parsed.error });
+    }
+    try {
+      const profile = await storage.createImportProfile(parsed.data);
+      res.status(201).json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create import profile" });
+    }
+  });
+
+  app.put("/api/import-profiles/:id", async (req, res) => {
+    const parsed = insertImportProfileSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid import profile", error: parsed.error });
+    }
+    try {
+      const id = parseInt(req.params.id);
+      const profile = await storage.updateImportProfile(id, parsed.data);
+      if (!profile) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update import profile" });
+    }
+  });
+
+  app.delete("/api/import-profiles/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteImportProfile(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete import profile" });
+    }
+  });
+
   // Trade Analysis routes
   app.get("/api/trade-analysis", async (req, res) => {
     try {
@@ -219,65 +788,101 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Performance Analytics route
+  // Performance Analytics route; filters come from the query string, and ?groupBy=chain
+  // counts each roll chain as one trade
   app.get("/api/performance/analytics", async (req, res) => {
+    const parsed = analyticsFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid analytics filters", error: parsed.error });
+    }
     try {
-      const trades = await storage.getTrades();
-      
-      // Calculate performance metrics
-      const totalTrades = trades.length;
-      const completedTrades = trades.filter(t => t.pnl !== null);
-      const winningTrades = completedTrades.filter(t => t.pnl! > 0);
-      const losingTrades = completedTrades.filter(t => t.pnl! <= 0);
-      
-      const totalPnL = completedTrades.reduce((sum, t) => sum + (t.pnl || 0), 0);
-      const winRate = completedTrades.length > 0 ? (winningTrades.length / completedTrades.length) * 100 : 0;
-      
-      // Calculate average R:R (simplified)
-      const avgWin = winningTrades.length > 0 ? winningTrades.reduce((sum, t) => sum + t.pnl!, 0) / winningTrades.length : 0;
-      const avgLoss = losingTrades.length > 0 ? Math.abs(losingTrades.reduce((sum, t) => sum + t.pnl!, 0) / losingTrades.length) : 0;
-      const avgRR = avgLoss > 0 ? avgWin / avgLoss : 0;
-      
-      // Performance by symbol
-      const symbolPerformance = trades.reduce((acc, trade) => {
-        if (trade.pnl !== null) {
-          acc[trade.ticker] = (acc[trade.ticker] || 0) + trade.pnl;
-        }
-        return acc;
-      }, {} as Record<string, number>);
-      
-      // Performance by time classification
-      const timePerformance = trades.reduce((acc, trade) => {
-        if (trade.pnl !== null && trade.timeClassification) {
-          acc[trade.timeClassification] = (acc[trade.timeClassification] || 0) + trade.pnl;
-        }
-        return acc;
-      }, {} as Record<string, number>);
-      
-      // Daily P&L
-      const dailyPnL = trades.reduce((acc, trade) => {
-        if (trade.pnl !== null && trade.tradeDate) {
-          const date = trade.tradeDate.toDateString();
-          acc[date] = (acc[date] || 0) + trade.pnl;
-        }
-        return acc;
-      }, {} as Record<string, number>);
-
-      res.json({
-        totalPnL,
-        winRate,
-        avgRR,
-        totalTrades,
-        symbolPerformance,
-        timePerformance,
-        dailyPnL,
-        trades: completedTrades
-      });
+      const [trades, startingBalance, strategies] = await Promise.all([
+        storage.getTrades(),
+        readAccountBalance(storage),
+        storage.getPlaybookStrategies(),
+      ]);
+      res.json(buildPerformanceReport(trades, parsed.data, startingBalance, strategies));
     } catch (error) {
       res.status(500).json({ message: "Failed to calculate performance analytics" });
     }
   });
 
+  // Premarket factor report over the trades matching the same filters as the analytics route
+  app.get("/api/performance/factors", async (req, res) => {
+    const parsed = analyticsFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid analytics filters", error: parsed.error });
+    }
+    try {
+      const [analyses, trades] = await Promise.all([storage.getPremarketAnalysis(), storage.getTrades()]);
+      res.json(buildFactorReport(analyses, trades, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate premarket factor report" });
+    }
+  });
+
+  // Respect rate of each key level type and P&L of the trades taken off them, for the same filters
+  app.get("/api/performance/key-levels", async (req, res) => {
+    const parsed = analyticsFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid analytics filters", error: parsed.error });
+    }
+    try {
+      const [levels, analyses, trades] = await Promise.all([
+        storage.getKeyLevels(),
+        storage.getPremarketAnalysis(),
+        storage.getTrades(),
+      ]);
+      res.json(buildKeyLevelReport(levels, analyses, trades, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate key level report" });
+    }
+  });
+
+  // Performance on economic event days against quiet days, for the same filters
+  app.get("/api/performance/events", async (req, res) => {
+    const parsed = analyticsFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid analytics filters", error: parsed.error });
+    }
+    try {
+      const [events, trades] = await Promise.all([storage.getEconomicEvents(), storage.getTrades()]);
+      res.json(buildEventDayReport(events, trades, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate economic event report" });
+    }
+  });
+
+  // Plan-vs-execution scorecards, one per premarket analysis; ?from and ?to limit the history
+  app.get("/api/scorecards", async (req, res) => {
+    const parsed = scorecardFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid scorecard filters", error: parsed.error });
+    }
+    try {
+      const [analyses, trades] = await Promise.all([storage.getPremarketAnalysis(), storage.getTrades()]);
+      res.json(buildScorecardHistory(analyses, trades, parsed.data));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate scorecards" });
+    }
+  });
+
+  app.get("/api/scorecards/:date", async (req, res) => {
+    const match = req.params.date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+    }
+    try {
+      const analysis = await storage.getPremarketAnalysisByDate(new Date(+match[1], +match[2] - 1, +match[3]));
+      if (!analysis) {
+        return res.status(404).json({ message: "Premarket analysis not found" });
+      }
+      res.json(buildDailyScorecard(analysis, await storage.getTrades()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate scorecard" });
+    }
+  });
+
   // Intraday Notes routes
   app.get("/api/intraday-notes", async (req, res) => {
     try {
@@ -335,6 +940,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fee schedule applied to new trades and fills
+  app.get("/api/fee-schedule", async (req, res) => {
+    try {
+      const schedule = await storage.getFeeSchedule();
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch fee schedule" });
+    }
+  });
+
+  app.put("/api/fee-schedule", async (req, res) => {
+    try {
+      const schedule: FeeSchedule = feeScheduleSchema.parse(req.body);
+      for (const field of Object.keys(FEE_SETTING_KEYS) as (keyof FeeSchedule)[]) {
+        await storage.setSetting(FEE_SETTING_KEYS[field], schedule[field].toString());
+      }
+      res.json(schedule);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid fee schedule", error });
+    }
+  });
+
+  // Rate and dividend yield used to price options for entry Greeks
+  app.get("/api/pricing-settings", async (req, res) => {
+    try {
+      const pricing = await storage.getPricingSettings();
+      res.json(pricing);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pricing settings" });
+    }
+  });
+
+  app.put("/api/pricing-settings", async (req, res) => {
+    try {
+      const pricing: PricingSettings = pricingSettingsSchema.parse(req.body);
+      for (const field of Object.keys(PRICING_SETTING_KEYS) as (keyof PricingSettings)[]) {
+        await storage.setSetting(PRICING_SETTING_KEYS[field], pricing[field].toString());
+      }
+      res.json(pricing);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid pricing settings", error });
+    }
+  });
+
+  // Risk guardrails checked when a trade is logged
+  app.get("/api/risk-rules", async (req, res) => {
+    try {
+      const rules = await storage.getRiskRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch risk rules" });
+    }
+  });
+
+  app.put("/api/risk-rules", async (req, res) => {
+    try {
+      const rules: RiskRules = riskRulesSchema.parse(req.body);
+      for (const field of Object.keys(RISK_LIMIT_SETTING_KEYS) as (keyof RiskLimits)[]) {
+        await storage.setSetting(RISK_LIMIT_SETTING_KEYS[field], rules[field].toString());
+      }
+      await storage.setSetting(RISK_ENFORCEMENT_SETTING_KEY, rules.enforcement);
+      res.json(rules);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid risk rules", error });
+    }
+  });
+
+  // Today's standing against the rules, for the dashboard banner
+  app.get("/api/risk/status", async (req, res) => {
+    try {
+      const today = dateKey(new Date());
+      const [rules, trades, breaches] = await Promise.all([
+        storage.getRiskRules(),
+        storage.getTradesByDate(new Date()),
+        storage.getRiskBreaches(),
+      ]);
+      const day = summarizeRiskDay(today, trades);
+      res.json({
+        rules,
+        day,
+        limitsReached: limitsReached(rules, day),
+        breaches: breaches.filter(breach => dateKey(new Date(breach.tradeDate)) === today),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch risk status" });
+    }
+  });
+
+  // Logged breaches, newest first; ?from and ?to filter by trade date
+  app.get("/api/risk/breaches", async (req, res) => {
+    const parsed = riskBreachFiltersSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid risk breach filters", error: parsed.error });
+    }
+    try {
+      const { from, to } = parsed.data;
+      const breaches = await storage.getRiskBreaches();
+      res.json(breaches.filter(breach => {
+        const day = dateKey(new Date(breach.tradeDate));
+        return (!from || day >= from) && (!to || day <= to);
+      }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch risk breaches" });
+    }
+  });
+
   // Settings routes
   app.get("/api/settings/:key", async (req, res) => {
     try {
@@ -392,16 +1103,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const trades = await storage.getTrades();
       
       // Create CSV header
-      const csvHeader = "Date,Ticker,Type,Quantity,Entry,Exit,PnL,Strategy,Notes\n";
+      const csvHeader = "Date,Ticker,Type,Direction,Quantity,Entry,Exit,Close Reason,Gross PnL,Commission,Fees,Net PnL,Strategy,Notes\n";
       
       // Create CSV rows
       const csvRows = trades.map(trade => {
         const date = new Date(trade.entryTime).toLocaleDateString();
         const pnl = trade.pnl || 0;
+        const grossPnl = trade.grossPnl ?? pnl;
         const strategy = trade.entryReason || "";
         const notes = (trade.exitReason || "").replace(/"/g, '""'); // Escape quotes
         
-        return `${date},"${trade.ticker}","${trade.type}",${trade.quantity},${trade.entryPrice},${trade.exitPrice || ""},${pnl},"${strategy}","${notes}"`;
+        return `${date},"${trade.ticker}","${trade.type}","${trade.direction}",${trade.quantity},${trade.entryPrice},${trade.exitPrice ?? ""},"${trade.closeReason || ""}",${grossPnl},${trade.commission || 0},${trade.fees || 0},${pnl},"${strategy}","${notes}"`;
       }).join("\n");
       
       const csvContent = csvHeader + csvRows;
@@ -448,6 +1160,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const winningTrades = trades.filter(t => (t.pnl || 0) > 0).length;
       const losingTrades = trades.filter(t => (t.pnl || 0) < 0).length;
       const totalPnL = trades.reduce((sum, t) => sum + (t.pnl || 0), 0);
+      const totalGrossPnL = trades.reduce((sum, t) => sum + (t.grossPnl ?? t.pnl ?? 0), 0);
+      const totalCommission = trades.reduce((sum, t) => sum + (t.commission || 0), 0);
+      const totalFees = trades.reduce((sum, t) => sum + (t.fees || 0), 0);
       const winRate = totalTrades > 0 ? (winningTrades / totalTrades * 100).toFixed(1) : "0";
       const avgWin = winningTrades > 0 ? (trades.filter(t => (t.pnl || 0) > 0).reduce((sum, t) => sum + (t.pnl || 0), 0) / winningTrades).toFixed(2) : "0";
       const avgLoss = losingTrades > 0 ? (trades.filter(t => (t.pnl || 0) < 0).reduce((sum, t) => sum + (t.pnl || 0), 0) / losingTrades).toFixed(2) : "0";
@@ -459,6 +1174,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           winningTrades,
           losingTrades,
           totalPnL: totalPnL.toFixed(2),
+          totalGrossPnL: totalGrossPnL.toFixed(2),
+          totalCommission: totalCommission.toFixed(2),
+          totalFees: totalFees.toFixed(2),
           winRate: `${winRate}%`,
           avgWin,
           avgLoss
@@ -477,19 +1195,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/backup", async (req, res) => {
     try {
       const trades = await storage.getTrades();
+      const legs = await storage.getTradeLegs();
+      const executions = await storage.getTradeExecutions();
+      const stockPositions = await storage.getStockPositions();
       const strategies = await storage.getPlaybookStrategies();
       const analyses = await storage.getTradeAnalyses();
       const premarketAnalyses = await storage.getPremarketAnalysis();
+      const tradeIdeas = await storage.getTradeIdeas();
+      const premarketTemplates = await storage.getPremarketTemplates();
+      const keyLevels = await storage.getKeyLevels();
+      const economicEvents = await storage.getEconomicEvents();
+      const riskBreaches = await storage.getRiskBreaches();
+      const importBatches = await storage.getImportBatches();
+      const importProfiles = await storage.getImportProfiles();
       const intradayNotes = await storage.getIntradayNotes();
       
+      // Embed legs and fills in their trade so /api/import-data can recreate them
+      const tradesWithLegs = trades.map(trade => {
+        const tradeLegs = legs.filter(leg => leg.tradeId === trade.id);
+        const tradeExecutions = executions.filter(execution => execution.tradeId === trade.id);
+        return {
+          ...trade,
+          ...(tradeLegs.length > 0 ? { legs: tradeLegs } : {}),
+          ...(tradeExecutions.length > 0 ? { executions: tradeExecutions } : {}),
+        };
+      });
+      
       const backup = {
         timestamp: new Date().toISOString(),
         version: "1.0",
         data: {
-          trades,
+          trades: tradesWithLegs,
+          stockPositions,
           strategies,
           analyses,
           premarketAnalyses,
+          tradeIdeas,
+          premarketTemplates,
+          keyLevels,
+          economicEvents,
+          riskBreaches,
+          importBatches,
+          importProfiles,
           intradayNotes
         }
       };
@@ -513,15 +1260,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Clear existing data first
       await storage.clearAllData();
       
-      // Import trades
+      // Premarket analyses, their trade ideas and key levels come back before the trades, which are linked to their new ids
+      const analysisIds = new Map<number, number>();
+      if (importData.premarketAnalyses && Array.isArray(importData.premarketAnalyses)) {
+        for (const analysis of importData.premarketAnalyses) {
+          try {
+            const validatedAnalysis = insertPremarketAnalysisSchema.parse(withoutNulls(analysis));
+            const created = await storage.createPremarketAnalysis(validatedAnalysis);
+            if (typeof analysis.id === "number") {
+              analysisIds.set(analysis.id, created.id);
+            }
+          } catch (error) {
+            console.warn("Failed to import premarket analysis:", error);
+          }
+        }
+      }
+      const ideaIds = new Map<number, number>();
+      if (importData.tradeIdeas && Array.isArray(importData.tradeIdeas)) {
+        for (const idea of importData.tradeIdeas) {
+          try {
+            const validatedIdea = insertTradeIdeaSchema.parse(idea);
+            const premarketAnalysisId = analysisIds.get(validatedIdea.premarketAnalysisId);
+            if (!premarketAnalysisId) continue;
+            const created = await storage.createTradeIdea({ ...validatedIdea, premarketAnalysisId });
+            if (typeof idea.id === "number") {
+              ideaIds.set(idea.id, created.id);
+            }
+          } catch (error) {
+            console.warn("Failed to import trade idea:", error);
+          }
+        }
+      }
+      // Restoring an analysis recreates the levels it names; those are matched up, and levels entered on their own created
+      const keyLevelIds = new Map<number, number>();
+      if (importData.keyLevels && Array.isArray(importData.keyLevels)) {
+        const analysisLevels = await storage.getKeyLevels();
+        for (const level of importData.keyLevels) {
+          try {
+            const { premarketAnalysisId, reaction, ...validatedLevel } = insertKeyLevelSchema.parse(level);
+            let restored;
+            if (premarketAnalysisId) {
+              const newAnalysisId = analysisIds.get(premarketAnalysisId);
+              const match = analysisLevels.find(existing =>
+                existing.premarketAnalysisId === newAnalysisId &&
+                existing.levelType === validatedLevel.levelType &&
+                existing.price === validatedLevel.price);
+              if (!match) continue;
+              analysisLevels.splice(analysisLevels.indexOf(match), 1);
+              restored = reaction ? await storage.updateKeyLevel(match.id, { reaction }) : match;
+            } else {
+              restored = await storage.createKeyLevel({ ...validatedLevel, reaction });
+            }
+            if (restored && typeof level.id === "number") {
+              keyLevelIds.set(level.id, restored.id);
+            }
+          } catch (error) {
+            console.warn("Failed to import key level:", error);
+          }
+        }
+      }
+
+      // Import batches come back before their trades, oldest first, so a restored file can still be undone
+      // and is still recognized when uploaded again
+      const batchIds = new Map<number, number>();
+      if (importData.importBatches && Array.isArray(importData.importBatches)) {
+        for (const batch of [...importData.importBatches].reverse()) {
+          try {
+            const validatedBatch = insertImportBatchSchema.parse(batch);
+            const created = await storage.createImportBatch(validatedBatch, []);
+            if (typeof batch.id === "number") {
+              batchIds.set(batch.id, created.id);
+            }
+          } catch (error) {
+            console.warn("Failed to import batch:", error);
+          }
+        }
+      }
+
+      // Import trades. Roll links point at the backup's ids, so they are restored once every trade has its new id
+      const importedIds = new Map<number, number>();
+      const rollLinks: Array<{ tradeId: number; rolledFromId: number }> = [];
+      const tradesByBatch = new Map<number, number[]>();
       for (const trade of importData.trades) {
         try {
-          const validatedTrade = insertTradeSchema.parse(trade);
-          await storage.createTrade(validatedTrade);
+          const { rolledFromId, tradeIdeaId, keyLevelId, ...validatedTrade } = insertTradeSchema.parse(trade);
+          const created = await storage.createTrade({
+            ...validatedTrade,
+            tradeIdeaId: tradeIdeaId ? ideaIds.get(tradeIdeaId) ?? null : null,
+            keyLevelId: keyLevelId ? keyLevelIds.get(keyLevelId) ?? null : null,
+          });
+          if (typeof trade.id === "number") {
+            importedIds.set(trade.id, created.id);
+          }
+          if (rolledFromId) {
+            rollLinks.push({ tradeId: created.id, rolledFromId });
+          }
+          const importBatchId = batchIds.get(trade.importBatchId);
+          if (importBatchId) {
+            tradesByBatch.set(importBatchId, [...(tradesByBatch.get(importBatchId) ?? []), created.id]);
+          }
         } catch (error) {
           console.warn("Failed to import trade:", error);
         }
       }
+      for (const link of rollLinks) {
+        const rolledFromId = importedIds.get(link.rolledFromId);
+        if (rolledFromId) {
+          await storage.updateTrade(link.tradeId, { rolledFromId });
+        }
+      }
+      for (const [importBatchId, tradeIds] of tradesByBatch) {
+        await storage.addTradesToImportBatch(importBatchId, tradeIds);
+      }
+
+      // Shares delivered by assignment or exercise, on the option trades' new ids
+      if (importData.stockPositions && Array.isArray(importData.stockPositions)) {
+        for (const position of importData.stockPositions) {
+          try {
+            const validatedPosition = insertStockPositionSchema.parse(position);
+            const tradeId = importedIds.get(validatedPosition.tradeId);
+            if (!tradeId) continue;
+            await storage.createStockPosition({ ...validatedPosition, tradeId });
+          } catch (error) {
+            console.warn("Failed to import stock position:", error);
+          }
+        }
+      }
+
+      // Restore the risk breach log, oldest first, against the trades' new ids
+      if (importData.riskBreaches && Array.isArray(importData.riskBreaches)) {
+        const breaches: InsertRiskBreach[] = [];
+        for (const breach of [...importData.riskBreaches].reverse()) {
+          try {
+            const { tradeId, ...validatedBreach } = insertRiskBreachSchema.parse(breach);
+            breaches.push({ ...validatedBreach, tradeId: tradeId ? importedIds.get(tradeId) ?? null : null });
+          } catch (error) {
+            console.warn("Failed to import risk breach:", error);
+          }
+        }
+        await storage.createRiskBreaches(breaches);
+      }
 
       // Import strategies if available
       if (importData.strategies && Array.isArray(importData.strategies)) {
@@ -556,3 +1434,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   return httpServer;
 }
+
+// Backups write unset columns as null, which some insert schemas only accept left out
+function withoutNulls(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null));
+}
+
+async function tradeIdeaExists(id: number): Promise<boolean> {
+  const ideas = await storage.getTradeIdeas();
+  return ideas.some(idea => idea.id === id);
+}
+
+const contractCount = (trade: { quantity: number; legs?: Array<{ quantity: number }> }) =>
+  trade.legs && trade.legs.length > 0
+    ? trade.legs.reduce((sum, leg) => sum + leg.quantity, 0)
+    : trade.quantity;
+
+// Rules only guard the current session; trades back-filled for earlier days are not checked
+async function checkRiskRules(trade: InsertTrade) {
+  const rules = await storage.getRiskRules();
+  const day = dateKey(new Date(trade.tradeDate));
+  if (day !== dateKey(new Date())) {
+    return { rules, checks: [] };
+  }
+  const dayTrades = await storage.getTradesByDate(new Date(trade.tradeDate));
+  return { rules, checks: checkNewTrade(rules, summarizeRiskDay(day, dayTrades), contractCount(trade)) };
+}
+
+// An edit that adds contracts to a trade of the current session is held to the per-trade contract limit
+async function checkRiskRulesOnEdit(trade: Trade, update: Partial<InsertTrade>) {
+  const rules = await storage.getRiskRules();
+  if (dateKey(new Date(update.tradeDate ?? trade.tradeDate)) !== dateKey(new Date())) {
+    return { rules, checks: [] };
+  }
+  const legs = await storage.getTradeLegsByTrade(trade.id);
+  const before = contractCount({ quantity: trade.quantity, legs });
+  const after = contractCount({ quantity: update.quantity ?? trade.quantity, legs: update.legs ?? legs });
+  return { rules, checks: after > before ? checkContracts(rules, after) : [] };
+}
+
+function riskBreaches(
+  trade: Pick<Trade, "tradeDate" | "ticker">,
+  tradeId: number | null,
+  checks: RiskCheck[],
+  action: "warned" | "rejected",
+): InsertRiskBreach[] {
+  return checks.map(check => ({
+    tradeId,
+    tradeDate: trade.tradeDate,
+    ticker: trade.ticker,
+    rule: check.rule,
+    limit: check.limit,
+    actual: check.actual,
+    message: check.message,
+    action,
+  }));
+}
@@ -0,0 +1,134 @@
+import type { PremarketAnalysis, Trade } from "@shared/schema";
+import { analysisExpectedMove, KEY_LEVEL_FIELDS, parseLevelPrices, type KeyLevelField } from "@shared/expected-move";
+import { LEVEL_TOLERANCE } from "@shared/key-levels";
+import type { DailyScorecard, MarketDirection, ScorecardFilters, TradeScore } from "@shared/scorecard";
+import { dateKey } from "./analytics";
+
+// A close within this much of the reference price is a flat day: a quarter of the 1σ expected move
+// when the analysis has one, otherwise a tenth of a percent
+const FLAT_DAY_SIGMA = 0.25;
+const FLAT_DAY_PERCENT = 0.001;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// The premarket form stores its choices capitalized ("Bullish", "Long"); older rows are lowercase
+const normalized = (value: string | null) => value?.trim().toLowerCase() || null;
+
+function biasDirection(analysis: PremarketAnalysis): MarketDirection | null {
+  const bias = normalized(analysis.bias);
+  return bias === "bullish" || bias === "bearish" || bias === "neutral" ? bias : null;
+}
+
+function plannedDirection(analysis: PremarketAnalysis): MarketDirection | null {
+  const direction = normalized(analysis.spyDirection);
+  if (direction === "long") return "bullish";
+  if (direction === "short") return "bearish";
+  const bias = biasDirection(analysis);
+  return bias === "neutral" ? null : bias;
+}
+
+function dayResult(analysis: PremarketAnalysis): MarketDirection | null {
+  if (analysis.referencePrice === null || analysis.realizedClose === null) return null;
+  const move = analysis.realizedClose - analysis.referencePrice;
+  const expected = analysisExpectedMove(analysis);
+  const flat = expected ? expected.oneSigma * FLAT_DAY_SIGMA : analysis.referencePrice * FLAT_DAY_PERCENT;
+  if (Math.abs(move) <= flat) return "neutral";
+  return move > 0 ? "bullish" : "bearish";
+}
+
+// Delta at entry when it was priced; otherwise long calls and short puts gain as the underlying rises
+export function tradeDirection(trade: Trade): MarketDirection {
+  if (trade.entryDelta !== null && trade.entryDelta !== 0) {
+    return trade.entryDelta > 0 ? "bullish" : "bearish";
+  }
+  const long = trade.direction !== "short";
+  return (trade.type === "calls") === long ? "bullish" : "bearish";
+}
+
+// Key levels are planned for the expected-move ticker, so only trades on it with an underlying price
+// at entry can be checked against them
+function entryLevel(trade: Trade, analysis: PremarketAnalysis): { atLevel: boolean | null; level: string | null } {
+  const levels = (Object.keys(KEY_LEVEL_FIELDS) as KeyLevelField[]).flatMap(field =>
+    parseLevelPrices(analysis[field]).map(price => ({ label: KEY_LEVEL_FIELDS[field], price })));
+  const ticker = analysis.expectedMoveTicker ?? "SPY";
+  if (levels.length === 0 || trade.underlyingEntryPrice === null || trade.ticker.toUpperCase() !== ticker) {
+    return { atLevel: null, level: null };
+  }
+  const entry = trade.underlyingEntryPrice;
+  const nearest = levels.reduce((best, level) =>
+    Math.abs(level.price - entry) < Math.abs(best.price - entry) ? level : best);
+  const atLevel = Math.abs(nearest.price - entry) <= nearest.price * LEVEL_TOLERANCE;
+  return { atLevel, level: atLevel ? nearest.label : null };
+}
+
+function scoreTrade(trade: Trade, analysis: PremarketAnalysis, planned: MarketDirection | null): TradeScore {
+  const direction = tradeDirection(trade);
+  return {
+    tradeId: trade.id,
+    ticker: trade.ticker,
+    direction,
+    withPlan: planned === null ? null : direction === planned,
+    againstPlan: planned !== null && direction !== planned,
+    ...entryLevel(trade, analysis),
+    pnl: trade.pnl,
+  };
+}
+
+const share = (count: number, total: number) => (total > 0 ? count / total : null);
+
+export function buildDailyScorecard(analysis: PremarketAnalysis, allTrades: Trade[]): DailyScorecard {
+  const date = dateKey(new Date(analysis.date));
+  const bias = biasDirection(analysis);
+  const planned = plannedDirection(analysis);
+  const result = dayResult(analysis);
+  const gamma = normalized(analysis.gammaEnvironment);
+
+  const trades = allTrades
+    .filter(trade => dateKey(new Date(trade.tradeDate)) === date)
+    .sort((a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime())
+    .map(trade => scoreTrade(trade, analysis, planned));
+  const tradesWithPlan = trades.filter(trade => trade.withPlan).length;
+  const tradesAgainstPlan = trades.filter(trade => trade.againstPlan).length;
+  const levelChecked = trades.filter(trade => trade.atLevel !== null);
+  const tradesAtLevel = levelChecked.filter(trade => trade.atLevel).length;
+  const biasMatched = bias !== null && result !== null ? bias === result : null;
+
+  const checks = [
+    biasMatched === null ? null : Number(biasMatched),
+    planned === null ? null : share(tradesWithPlan, trades.length),
+    share(tradesAtLevel, levelChecked.length),
+  ].filter((check): check is number => check !== null);
+
+  return {
+    date,
+    analysisId: analysis.id,
+    bias,
+    plannedDirection: planned,
+    gammaEnvironment: gamma === "positive" || gamma === "negative" ? gamma : null,
+    dayResult: result,
+    dayMove: result === null ? null : roundCents(analysis.realizedClose! - analysis.referencePrice!),
+    biasMatched,
+    trades,
+    tradesWithPlan,
+    tradesAgainstPlan,
+    tradesAtLevel,
+    pnl: roundCents(trades.reduce((sum, trade) => sum + (trade.pnl ?? 0), 0)),
+    againstPlanPnL: roundCents(trades.filter(trade => trade.againstPlan).reduce((sum, trade) => sum + (trade.pnl ?? 0), 0)),
+    score: checks.length > 0 ? Math.round((checks.reduce((sum, check) => sum + check, 0) / checks.length) * 100) : null,
+  };
+}
+
+// One scorecard per premarket analysis in the range, oldest first for trend charts
+export function buildScorecardHistory(
+  analyses: PremarketAnalysis[],
+  trades: Trade[],
+  filters: ScorecardFilters,
+): DailyScorecard[] {
+  return analyses
+    .filter(analysis => {
+      const day = dateKey(new Date(analysis.date));
+      return (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+    })
+    .map(analysis => buildDailyScorecard(analysis, trades))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
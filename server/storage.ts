@@ -1,6 +1,16 @@
 import {
   trades,
+  tradeLegs,
+  tradeExecutions,
+  stockPositions,
   premarketAnalysis,
+  premarketTemplates,
+  tradeIdeas,
+  keyLevels,
+  economicEvents,
+  riskBreaches,
+  importBatches,
+  importProfiles,
   tradeAnalysis,
   playbookStrategies,
   intradayNotes,
@@ -8,8 +18,28 @@ import {
   users,
   type Trade,
   type InsertTrade,
+  type TradeLeg,
+  type InsertTradeLeg,
+  type TradeExecution,
+  type InsertTradeExecution,
+  type StockPosition,
+  type InsertStockPosition,
   type PremarketAnalysis,
   type InsertPremarketAnalysis,
+  type PremarketTemplate,
+  type InsertPremarketTemplate,
+  type TradeIdea,
+  type InsertTradeIdea,
+  type KeyLevel,
+  type InsertKeyLevel,
+  type EconomicEvent,
+  type InsertEconomicEvent,
+  type RiskBreach,
+  type InsertRiskBreach,
+  type ImportBatch,
+  type InsertImportBatch,
+  type ImportProfile,
+  type InsertImportProfile,
   type TradeAnalysis,
   type InsertTradeAnalysis,
   type PlaybookStrategy,
@@ -21,6 +51,55 @@ import {
   type User,
   type UpsertUser,
 } from "@shared/schema";
+import { and, desc, eq, gt, gte, inArray, isNull, lt, lte, sql } from "drizzle-orm";
+import { aggregateLegs, calculateNetPremium, describeStructure, summarizePosition, type PositionLeg } from "@shared/positions";
+import { summarizeExecutions, type Execution } from "@shared/executions";
+import { realizedRMultiple } from "@shared/risk";
+import { DEFAULT_PREMARKET_TEMPLATE, legacyAnswers } from "@shared/premarket-templates";
+import { keyLevelsFromAnalysis } from "@shared/key-levels";
+import { EVENT_WINDOW_MINUTES, eventForTrade } from "@shared/economic-calendar";
+import {
+  DEFAULT_RISK_RULES,
+  RISK_ENFORCEMENTS,
+  RISK_ENFORCEMENT_SETTING_KEY,
+  RISK_LIMIT_SETTING_KEYS,
+  type RiskLimits,
+  type RiskRules,
+} from "@shared/guardrails";
+import {
+  DEFAULT_PRICING_SETTINGS,
+  PRICING_SETTING_KEYS,
+  positionGreeks,
+  type PricingSettings,
+} from "@shared/pricing";
+import {
+  calculateCharges,
+  DEFAULT_FEE_SCHEDULE,
+  FEE_SETTING_KEYS,
+  type FeeSchedule,
+  type TradeCharges,
+} from "@shared/fees";
+import {
+  expirationCloseTime,
+  isPastExpiration,
+  isSettled,
+  openPositionLegs,
+  settledShares,
+  settlementPrice,
+  type TradeSettlement,
+} from "@shared/settlement";
+import { createDatabase, type Database } from "./db";
+
+export interface TradeSettlementResult {
+  trade: Trade;
+  stockPosition: StockPosition | null; // shares delivered by assignment or exercise
+}
+
+// A trade of an import batch; `rolledFromIndex` points at an earlier trade of the same batch
+export interface ImportBatchTrade {
+  trade: InsertTrade;
+  rolledFromIndex: number | null;
+}
 
 export interface IStorage {
   // User operations (required for authentication)
@@ -34,6 +113,21 @@ export interface IStorage {
   createTrade(trade: InsertTrade): Promise<Trade>;
   updateTrade(id: number, trade: Partial<InsertTrade>): Promise<Trade | undefined>;
   deleteTrade(id: number): Promise<boolean>;
+  settleTrade(id: number, settlement: TradeSettlement): Promise<TradeSettlementResult | undefined>;
+  flagExpiredTrades(asOf: Date): Promise<Trade[]>;
+  
+  // Trade Legs
+  getTradeLegs(): Promise<TradeLeg[]>;
+  getTradeLegsByTrade(tradeId: number): Promise<TradeLeg[]>;
+  
+  // Trade Executions
+  getTradeExecutions(): Promise<TradeExecution[]>;
+  getTradeExecutionsByTrade(tradeId: number): Promise<TradeExecution[]>;
+  
+  // Stock Positions
+  getStockPositions(): Promise<StockPosition[]>;
+  createStockPosition(position: InsertStockPosition): Promise<StockPosition>;
+  updateStockPosition(id: number, position: Partial<InsertStockPosition>): Promise<StockPosition | undefined>;
   
   // Premarket Analysis
   getPremarketAnalysis(): Promise<PremarketAnalysis[]>;
@@ -41,6 +135,51 @@ export interface IStorage {
   createPremarketAnalysis(analysis: InsertPremarketAnalysis): Promise<PremarketAnalysis>;
   updatePremarketAnalysis(id: number, analysis: Partial<InsertPremarketAnalysis>): Promise<PremarketAnalysis | undefined>;
   
+  // Premarket Templates; there is always exactly one default
+  getPremarketTemplates(): Promise<PremarketTemplate[]>;
+  getPremarketTemplate(id: number): Promise<PremarketTemplate | undefined>;
+  getDefaultPremarketTemplate(): Promise<PremarketTemplate>;
+  createPremarketTemplate(template: InsertPremarketTemplate): Promise<PremarketTemplate>;
+  updatePremarketTemplate(id: number, template: InsertPremarketTemplate): Promise<PremarketTemplate | undefined>;
+  deletePremarketTemplate(id: number): Promise<boolean>;
+  
+  // Trade Ideas
+  getTradeIdeas(): Promise<TradeIdea[]>;
+  getTradeIdeasByAnalysis(premarketAnalysisId: number): Promise<TradeIdea[]>;
+  createTradeIdea(idea: InsertTradeIdea): Promise<TradeIdea>;
+  updateTradeIdea(id: number, idea: Partial<InsertTradeIdea>): Promise<TradeIdea | undefined>;
+  deleteTradeIdea(id: number): Promise<boolean>;
+  
+  // Key Levels; the rows of a premarket analysis are rewritten from its level fields when it is saved
+  getKeyLevels(): Promise<KeyLevel[]>;
+  getKeyLevel(id: number): Promise<KeyLevel | undefined>;
+  createKeyLevel(level: InsertKeyLevel): Promise<KeyLevel>;
+  updateKeyLevel(id: number, level: Partial<InsertKeyLevel>): Promise<KeyLevel | undefined>;
+  deleteKeyLevel(id: number): Promise<boolean>;
+  
+  // Economic Events; a trade is tagged with the event it was entered around whenever either changes.
+  // Creating skips events already stored with the same name and time.
+  getEconomicEvents(): Promise<EconomicEvent[]>;
+  createEconomicEvents(events: InsertEconomicEvent[]): Promise<EconomicEvent[]>;
+  deleteEconomicEvent(id: number): Promise<boolean>;
+  
+  // Risk Breaches, newest first
+  getRiskBreaches(): Promise<RiskBreach[]>;
+  createRiskBreaches(breaches: InsertRiskBreach[]): Promise<RiskBreach[]>;
+  
+  // Import Batches, newest first. A batch is created with all of its trades or not at all,
+  // and deleting it deletes the trades it created.
+  getImportBatches(): Promise<ImportBatch[]>;
+  createImportBatch(batch: InsertImportBatch, trades: ImportBatchTrade[]): Promise<ImportBatch>;
+  addTradesToImportBatch(id: number, tradeIds: number[]): Promise<void>;
+  deleteImportBatch(id: number): Promise<boolean>;
+  
+  // Import Profiles, newest first; kept when data is cleared, like strategies and settings
+  getImportProfiles(): Promise<ImportProfile[]>;
+  createImportProfile(profile: InsertImportProfile): Promise<ImportProfile>;
+  updateImportProfile(id: number, profile: Partial<InsertImportProfile>): Promise<ImportProfile | undefined>;
+  deleteImportProfile(id: number): Promise<boolean>;
+  
   // Trade Analysis
   getTradeAnalyses(): Promise<TradeAnalysis[]>;
   getTradeAnalysis(tradeId: number): Promise<TradeAnalysis | undefined>;
@@ -66,58 +205,409 @@ export interface IStorage {
   // Settings
   getSetting(key: string): Promise<Settings | undefined>;
   setSetting(key: string, value: string): Promise<Settings>;
+  getFeeSchedule(): Promise<FeeSchedule>;
+  getPricingSettings(): Promise<PricingSettings>;
+  getRiskRules(): Promise<RiskRules>;
+}
+
+const DEFAULT_PLAYBOOK_STRATEGIES: InsertPlaybookStrategy[] = [
+  { name: "No Strategy", description: "No strategy assigned - needs categorization", isDefault: true },
+  { name: "Pullback long off VWAP", description: "Long calls when price pulls back to VWAP with volume confirmation", isDefault: true },
+  { name: "Short off Call Resistance", description: "Short puts when price rejects at call resistance level", isDefault: true },
+  { name: "Long off Resistance", description: "Long calls when price breaks above resistance with volume", isDefault: true },
+  { name: "Long off Put Support", description: "Long calls when price bounces off put support with volume", isDefault: true },
+  { name: "Short off Put Support", description: "Short puts when price breaks below put support level", isDefault: true },
+];
+
+const DEFAULT_ACCOUNT_BALANCE = "25000";
+
+// Options are in contracts of 100; a short trade profits when it buys back cheaper than it sold
+function calculateTradePnL(entryPrice: number | null | undefined, exitPrice: number | null | undefined, quantity: number, direction: string): number | null {
+  if (exitPrice === null || exitPrice === undefined || entryPrice === null || entryPrice === undefined) return null;
+  const sign = direction === "short" ? -1 : 1;
+  return sign * (exitPrice - entryPrice) * quantity * 100;
+}
+
+// Classify time of day based on entry time
+function classifyEntryTime(entryTime: Date): string {
+  const hour = new Date(entryTime).getHours();
+  if (hour >= 9 && hour < 10) {
+    return "Open";
+  } else if (hour >= 10 && hour < 11) {
+    return "Morning";
+  } else if (hour >= 11 && hour < 14) {
+    return "Midday";
+  } else if (hour >= 14 && hour < 16) {
+    return "Close";
+  }
+  return "Other";
+}
+
+type TradeFields = Omit<Trade, "id" | "createdAt">;
+type TradeValues = Omit<InsertTrade, "legs" | "executions" | "usePlaybook">;
+type PricedExecution = Execution & { commission?: number | null; fees?: number | null };
+
+// The child records a trade's contract fields can be derived from
+interface TradeComponents {
+  legs: PositionLeg[];
+  executions: PricedExecution[];
+}
+
+function toTradeFields(values: TradeValues): TradeFields {
+  return {
+    ...values,
+    direction: values.direction ?? "long",
+    exitPrice: values.exitPrice ?? null,
+    exitTime: values.exitTime ?? null,
+    pnl: values.pnl ?? null,
+    grossPnl: null,
+    commission: values.commission ?? null,
+    fees: values.fees ?? null,
+    entryReason: values.entryReason ?? null,
+    exitReason: values.exitReason ?? null,
+    playbookId: values.playbookId ?? null,
+    timeClassification: values.timeClassification ?? null,
+    tags: values.tags ?? null,
+    structure: values.structure ?? "single",
+    netPremium: null,
+    maxProfit: null,
+    maxLoss: null,
+    breakevens: null,
+    openQuantity: 0,
+    holdingMinutes: null,
+    closeReason: values.closeReason ?? null,
+    expirationFlaggedAt: null,
+    rolledFromId: values.rolledFromId ?? null,
+    tradeIdeaId: values.tradeIdeaId ?? null,
+    keyLevelId: values.keyLevelId ?? null,
+    economicEventId: null,
+    importBatchId: null,
+    plannedStop: values.plannedStop ?? null,
+    plannedTarget: values.plannedTarget ?? null,
+    plannedRisk: values.plannedRisk ?? null,
+    rMultiple: null,
+    underlyingEntryPrice: values.underlyingEntryPrice ?? null,
+    underlyingExitPrice: values.underlyingExitPrice ?? null,
+    entryIv: values.entryIv ?? null,
+    exitIv: values.exitIv ?? null,
+    entryDelta: null,
+    entryGamma: null,
+    entryTheta: null,
+    entryVega: null,
+    entryRho: null,
+  };
+}
+
+// Stored P&L is net of charges, so an update starts again from the gross figure. Charges are
+// re-priced from the fee schedule when the traded contracts change, and a new exit price drops
+// the old close reason, unless the update sets them.
+function mergeTradeUpdate(existing: TradeFields, values: Partial<TradeValues>, contractsChanged: boolean): TradeFields {
+  const exitChanged = values.exitPrice !== undefined && values.exitPrice !== existing.exitPrice;
+  return {
+    ...existing,
+    pnl: existing.grossPnl ?? existing.pnl,
+    ...(contractsChanged ? { commission: null, fees: null } : {}),
+    ...(exitChanged ? { closeReason: null } : {}),
+    ...values,
+  } as TradeFields;
+}
+
+// Each fill is one order; fills without recorded charges are priced from the schedule
+function priceExecutions<T extends PricedExecution>(executions: T[], schedule: FeeSchedule): T[] {
+  return executions.map(execution => {
+    const scheduled = calculateCharges(schedule, execution.quantity, 1);
+    return {
+      ...execution,
+      commission: execution.commission ?? scheduled.commission,
+      fees: execution.fees ?? scheduled.fees,
+    };
+  });
+}
+
+// Contracts and orders a trade has gone through; a closed contract was traded twice.
+// All legs of a position are assumed to be sent as one order to open and one to close,
+// and contracts settled at expiration have no closing order.
+function countTradeActivity(trade: TradeFields, legs: PositionLeg[]) {
+  const settled = isSettled(trade.closeReason);
+  const isClosed = (exitPrice: number | null | undefined) => !settled && exitPrice !== null && exitPrice !== undefined;
+  if (legs.length > 0) {
+    return {
+      contracts: legs.reduce((sum, leg) => sum + leg.quantity * (isClosed(leg.exitPrice) ? 2 : 1), 0),
+      orders: legs.some(leg => isClosed(leg.exitPrice)) ? 2 : 1,
+    };
+  }
+  const closed = isClosed(trade.exitPrice);
+  return { contracts: trade.quantity * (closed ? 2 : 1), orders: closed ? 2 : 1 };
+}
+
+function minutesBetween(start: Date, end: Date | null): number | null {
+  return end ? Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000) : null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+const roundGreek = (value: number) => Math.round(value * 10000) / 10000;
+
+type EntryGreeks = Pick<TradeFields, "entryDelta" | "entryGamma" | "entryTheta" | "entryVega" | "entryRho">;
+
+// Greeks of the position as opened. A single contract is priced at the IV entered for it;
+// each leg of a multi-leg position, or a contract without IV, at the IV implied by its entry price.
+function calculateEntryGreeks(trade: TradeFields, legs: PositionLeg[], pricing: PricingSettings): EntryGreeks {
+  const greeks = trade.underlyingEntryPrice === null ? null : positionGreeks(legs, {
+    underlyingPrice: trade.underlyingEntryPrice,
+    asOf: trade.entryTime,
+    volatility: legs.length === 1 && trade.entryIv !== null && trade.entryIv > 0 ? trade.entryIv / 100 : null,
+    rate: pricing.riskFreeRate / 100,
+    dividendYield: pricing.dividendYield / 100,
+  });
+  return {
+    entryDelta: greeks && roundGreek(greeks.delta),
+    entryGamma: greeks && roundGreek(greeks.gamma),
+    entryTheta: greeks && roundGreek(greeks.theta),
+    entryVega: greeks && roundGreek(greeks.vega),
+    entryRho: greeks && roundGreek(greeks.rho),
+  };
+}
+
+// Everything the server derives for a trade: P&L, charges, time of day, holding time and the position's risk profile.
+// A trade with legs has its contract fields summarized from them and is short when opened for a net credit,
+// one with executions has them averaged from its fills and takes its direction from the opening fill, and
+// one with neither is a single contract bought or sold to open as entered.
+function deriveTradeFields(
+  fields: TradeFields,
+  { legs, executions }: TradeComponents,
+  schedule: FeeSchedule,
+  pricing: PricingSettings,
+  classifyTime: boolean,
+): TradeFields {
+  const fills = legs.length > 0 ? null : summarizeExecutions(executions);
+  let contractFields: Partial<TradeFields>;
+  if (legs.length > 0) {
+    const aggregate = aggregateLegs(legs);
+    contractFields = { ...aggregate, direction: calculateNetPremium(legs) < 0 ? "short" : "long" };
+  } else if (fills) {
+    const { side, openQuantity, holdingMinutes, ...averages } = fills;
+    contractFields = { ...averages, direction: side === "sell" ? "short" : "long", openQuantity, holdingMinutes };
+  } else {
+    contractFields = {
+      pnl: calculateTradePnL(fields.entryPrice, fields.exitPrice, fields.quantity, fields.direction) ?? fields.pnl,
+    };
+  }
+  const trade: TradeFields = { ...fields, ...contractFields };
+
+  const positionLegs: PositionLeg[] = legs.length > 0 ? legs : [{
+    side: trade.direction === "short" ? "sell" : "buy",
+    type: trade.type,
+    strikePrice: trade.strikePrice,
+    expirationDate: trade.expirationDate,
+    quantity: trade.quantity,
+    entryPrice: trade.entryPrice,
+    exitPrice: trade.exitPrice,
+  }];
+
+  // Fills carry their own charges; otherwise the trade's recorded charges win over the schedule
+  let charges: TradeCharges;
+  if (fills) {
+    charges = {
+      commission: roundCents(executions.reduce((sum, execution) => sum + (execution.commission ?? 0), 0)),
+      fees: roundCents(executions.reduce((sum, execution) => sum + (execution.fees ?? 0), 0)),
+    };
+  } else {
+    const { contracts, orders } = countTradeActivity(trade, legs);
+    const scheduled = calculateCharges(schedule, contracts, orders);
+    charges = { commission: trade.commission ?? scheduled.commission, fees: trade.fees ?? scheduled.fees };
+  }
+
+  const openQuantity = fills ? fills.openQuantity : (trade.exitPrice === null || trade.exitPrice === undefined ? trade.quantity : 0);
+  const netPnl = trade.pnl === null ? null : roundCents(trade.pnl - charges.commission - charges.fees);
+
+  return {
+    ...trade,
+    ...charges,
+    grossPnl: trade.pnl,
+    pnl: netPnl,
+    rMultiple: realizedRMultiple({ ...trade, pnl: netPnl }),
+    ...calculateEntryGreeks(trade, positionLegs, pricing),
+    ...summarizePosition(positionLegs),
+    structure: describeStructure(positionLegs),
+    openQuantity,
+    holdingMinutes: fills ? fills.holdingMinutes : minutesBetween(trade.entryTime, trade.exitTime),
+    timeClassification: classifyTime ? classifyEntryTime(trade.entryTime) : trade.timeClassification,
+    // A position closed without a reason was closed with an order; reopening it clears both
+    closeReason: openQuantity === 0 ? trade.closeReason ?? "closed" : null,
+    expirationFlaggedAt: openQuantity === 0 ? null : trade.expirationFlaggedAt,
+  };
+}
+
+// Open trades whose options expired since the last check
+function needsSettlement(trade: Trade, asOf: Date): boolean {
+  return trade.openQuantity > 0 && !trade.expirationFlaggedAt && isPastExpiration(trade.expirationDate, asOf);
+}
+
+// The trade update and share delivery that settle a trade's open contracts at the close of its expiration date.
+// Legs and single contracts get their settlement price as exit; a trade tracked by fills gets a closing fill,
+// which has no charges since nothing was sent to the broker.
+function planSettlement(trade: Trade, legs: TradeLeg[], executions: TradeExecution[], settlement: TradeSettlement) {
+  const settledAt = expirationCloseTime(trade.expirationDate);
+  const openLegs = openPositionLegs(trade, legs);
+  const update: Partial<InsertTrade> = { closeReason: settlement.closeReason };
+  if (settlement.underlyingPrice !== undefined) {
+    update.underlyingExitPrice = settlement.underlyingPrice;
+  }
+
+  if (legs.length > 0) {
+    update.legs = legs.map(({ id, tradeId, createdAt, ...leg }, index) => ({
+      ...leg,
+      exitPrice: openLegs.includes(legs[index]) ? settlementPrice(leg, settlement) : leg.exitPrice,
+    }) as InsertTradeLeg);
+    if (update.legs.every(leg => leg.exitPrice !== null && leg.exitPrice !== undefined)) {
+      update.exitTime = settledAt;
+    }
+  } else if (executions.length > 0) {
+    update.executions = [
+      ...executions.map(({ id, tradeId, createdAt, ...execution }) => execution as InsertTradeExecution),
+      {
+        side: trade.direction === "short" ? "buy" : "sell",
+        quantity: trade.openQuantity,
+        price: settlementPrice(openLegs[0], settlement),
+        executedAt: settledAt,
+        commission: 0,
+        fees: 0,
+      },
+    ];
+  } else {
+    update.exitPrice = settlementPrice(openLegs[0], settlement);
+    update.exitTime = settledAt;
+  }
+
+  const shares = settledShares(openLegs, settlement);
+  const stockPosition: InsertStockPosition | null = shares === 0 ? null : {
+    tradeId: trade.id,
+    ticker: trade.ticker,
+    direction: shares > 0 ? "long" : "short",
+    shares: Math.abs(shares),
+    entryPrice: settlement.underlyingPrice!,
+    entryTime: settledAt,
+    exitPrice: null,
+    exitTime: null,
+  };
+  return { update, stockPosition };
+}
+
+function calculateStockPnL(position: Pick<StockPosition, "direction" | "shares" | "entryPrice" | "exitPrice">): number | null {
+  if (position.exitPrice === null) return null;
+  const sign = position.direction === "short" ? -1 : 1;
+  return roundCents(sign * (position.exitPrice - position.entryPrice) * position.shares);
+}
+
+// Numeric settings stored one per key, falling back to the defaults for missing or invalid values
+async function readNumericSettings<T extends { [K in keyof T]: number }>(
+  storage: Pick<IStorage, "getSetting">,
+  keys: Record<keyof T, string>,
+  defaults: T,
+): Promise<T> {
+  const values = { ...defaults };
+  for (const field of Object.keys(keys) as (keyof T)[]) {
+    const setting = await storage.getSetting(keys[field]);
+    const value = setting ? parseFloat(setting.value) : NaN;
+    if (Number.isFinite(value)) {
+      values[field] = value as T[keyof T];
+    }
+  }
+  return values;
+}
+
+async function readRiskRules(storage: Pick<IStorage, "getSetting">): Promise<RiskRules> {
+  const { enforcement: defaultEnforcement, ...defaultLimits } = DEFAULT_RISK_RULES;
+  const limits = await readNumericSettings<RiskLimits>(storage, RISK_LIMIT_SETTING_KEYS, defaultLimits);
+  const setting = await storage.getSetting(RISK_ENFORCEMENT_SETTING_KEY);
+  const enforcement = RISK_ENFORCEMENTS.find(value => value === setting?.value) ?? defaultEnforcement;
+  return { ...limits, enforcement };
 }
 
 export class MemStorage implements IStorage {
   private trades: Map<number, Trade>;
+  private tradeLegs: Map<number, TradeLeg>;
+  private tradeExecutions: Map<number, TradeExecution>;
+  private stockPositions: Map<number, StockPosition>;
   private premarketAnalyses: Map<number, PremarketAnalysis>;
+  private premarketTemplates: Map<number, PremarketTemplate>;
   private tradeAnalyses: Map<number, TradeAnalysis>;
   private playbookStrategies: Map<number, PlaybookStrategy>;
   private intradayNotes: Map<number, IntradayNote>;
+  private tradeIdeas: Map<number, TradeIdea>;
+  private keyLevels: Map<number, KeyLevel>;
+  private economicEvents: Map<number, EconomicEvent>;
+  private riskBreaches: Map<number, RiskBreach>;
+  private importBatches: Map<number, ImportBatch>;
+  private importProfiles: Map<number, ImportProfile>;
   private settings: Map<string, Settings>;
   private users: Map<string, User>;
   private currentTradeId: number;
+  private currentLegId: number;
+  private currentExecutionId: number;
+  private currentStockPositionId: number;
   private currentPremarketId: number;
+  private currentTemplateId: number;
   private currentAnalysisId: number;
   private currentStrategyId: number;
   private currentNoteId: number;
+  private currentIdeaId: number;
+  private currentKeyLevelId: number;
+  private currentEventId: number;
+  private currentBreachId: number;
+  private currentImportBatchId: number;
+  private currentImportProfileId: number;
   private currentSettingId: number;
 
   constructor() {
     this.trades = new Map();
+    this.tradeLegs = new Map();
+    this.tradeExecutions = new Map();
+    this.stockPositions = new Map();
     this.premarketAnalyses = new Map();
+    this.premarketTemplates = new Map();
     this.tradeAnalyses = new Map();
     this.playbookStrategies = new Map();
     this.intradayNotes = new Map();
+    this.tradeIdeas = new Map();
+    this.keyLevels = new Map();
+    this.economicEvents = new Map();
+    this.riskBreaches = new Map();
+    this.importBatches = new Map();
+    this.importProfiles = new Map();
     this.settings = new Map();
     this.users = new Map();
     this.currentTradeId = 1;
+    this.currentLegId = 1;
+    this.currentExecutionId = 1;
+    this.currentStockPositionId = 1;
     this.currentPremarketId = 1;
+    this.currentTemplateId = 1;
     this.currentAnalysisId = 1;
     this.currentStrategyId = 1;
     this.currentNoteId = 1;
+    this.currentIdeaId = 1;
+    this.currentKeyLevelId = 1;
+    this.currentEventId = 1;
+    this.currentBreachId = 1;
+    this.currentImportBatchId = 1;
+    this.currentImportProfileId = 1;
     this.currentSettingId = 1;
     
     this.initializeDefaultStrategies();
     this.initializeDefaultSettings();
+    this.createPremarketTemplate(DEFAULT_PREMARKET_TEMPLATE);
     this.initializeSampleTrades();
   }
 
   private initializeDefaultStrategies() {
-    const defaultStrategies = [
-      { name: "No Strategy", description: "No strategy assigned - needs categorization", isDefault: true },
-      { name: "Pullback long off VWAP", description: "Long calls when price pulls back to VWAP with volume confirmation", isDefault: true },
-      { name: "Short off Call Resistance", description: "Short puts when price rejects at call resistance level", isDefault: true },
-      { name: "Long off Resistance", description: "Long calls when price breaks above resistance with volume", isDefault: true },
-      { name: "Long off Put Support", description: "Long calls when price bounces off put support with volume", isDefault: true },
-      { name: "Short off Put Support", description: "Short puts when price breaks below put support level", isDefault: true },
-    ];
-
-    defaultStrategies.forEach(strategy => {
+    DEFAULT_PLAYBOOK_STRATEGIES.forEach(strategy => {
       const id = this.currentStrategyId++;
       const fullStrategy: PlaybookStrategy = {
         id,
-        ...strategy,
+        name: strategy.name,
+        description: strategy.description ?? null,
+        isDefault: strategy.isDefault ?? null,
         createdAt: new Date(),
       };
       this.playbookStrategies.set(id, fullStrategy);
@@ -128,7 +618,7 @@ export class MemStorage implements IStorage {
     const accountBalanceSetting: Settings = {
       id: this.currentSettingId++,
       key: "account_balance",
-      value: "25000",
+      value: DEFAULT_ACCOUNT_BALANCE,
       updatedAt: new Date(),
     };
     this.settings.set("account_balance", accountBalanceSetting);
@@ -142,61 +632,163 @@ export class MemStorage implements IStorage {
     // Create sample trades directly with proper types
     const trade1: Trade = {
       id: this.currentTradeId++,
-      ticker: "SPY",
-      type: "calls",
-      quantity: 5,
-      entryPrice: 2.50,
-      exitPrice: 3.75,
-      entryTime: new Date(`${today.toDateString()} 09:35:00`),
-      exitTime: new Date(`${today.toDateString()} 10:15:00`),
-      strikePrice: 580,
-      expirationDate: new Date("2024-12-20"),
-      pnl: 625,
-      entryReason: "Bullish breakout above resistance",
-      exitReason: "Target reached at 50% gain",
-      playbookId: 5, // Short off Put Support strategy
-      timeClassification: null,
-      tradeDate: today,
+      ...deriveTradeFields({
+        ticker: "SPY",
+        type: "calls",
+        direction: "long",
+        quantity: 5,
+        entryPrice: 2.50,
+        exitPrice: 3.75,
+        entryTime: new Date(`${today.toDateString()} 09:35:00`),
+        exitTime: new Date(`${today.toDateString()} 10:15:00`),
+        strikePrice: 580,
+        expirationDate: new Date("2024-12-20"),
+        pnl: 625,
+        entryReason: "Bullish breakout above resistance",
+        exitReason: "Target reached at 50% gain",
+        playbookId: 5, // Short off Put Support strategy
+        timeClassification: null,
+        tags: null,
+        plannedStop: null,
+        plannedTarget: null,
+        plannedRisk: null,
+        rMultiple: null,
+        underlyingEntryPrice: null,
+        underlyingExitPrice: null,
+        entryIv: null,
+        exitIv: null,
+        entryDelta: null,
+        entryGamma: null,
+        entryTheta: null,
+        entryVega: null,
+        entryRho: null,
+        tradeDate: today,
+        structure: "single",
+        netPremium: null,
+        maxProfit: null,
+        maxLoss: null,
+        breakevens: null,
+        openQuantity: 0,
+        holdingMinutes: null,
+        grossPnl: null,
+        commission: null,
+        fees: null,
+        closeReason: null,
+        expirationFlaggedAt: null,
+        rolledFromId: null,
+        tradeIdeaId: null,
+        keyLevelId: null,
+        economicEventId: null,
+        importBatchId: null,
+      }, { legs: [], executions: [] }, DEFAULT_FEE_SCHEDULE, DEFAULT_PRICING_SETTINGS, false),
       createdAt: new Date(),
     };
 
     const trade2: Trade = {
       id: this.currentTradeId++,
-      ticker: "AAPL",
-      type: "puts",
-      quantity: 3,
-      entryPrice: 1.80,
-      exitPrice: 1.25,
-      entryTime: new Date(`${yesterday.toDateString()} 14:20:00`),
-      exitTime: new Date(`${yesterday.toDateString()} 15:45:00`),
-      strikePrice: 190,
-      expirationDate: new Date("2024-12-22"),
-      pnl: -165,
-      entryReason: "Bearish divergence on RSI",
-      exitReason: "Stop loss hit",
-      playbookId: 5, // Short off Put Support strategy
-      timeClassification: null,
-      tradeDate: yesterday,
+      ...deriveTradeFields({
+        ticker: "AAPL",
+        type: "puts",
+        direction: "long",
+        quantity: 3,
+        entryPrice: 1.80,
+        exitPrice: 1.25,
+        entryTime: new Date(`${yesterday.toDateString()} 14:20:00`),
+        exitTime: new Date(`${yesterday.toDateString()} 15:45:00`),
+        strikePrice: 190,
+        expirationDate: new Date("2024-12-22"),
+        pnl: -165,
+        entryReason: "Bearish divergence on RSI",
+        exitReason: "Stop loss hit",
+        playbookId: 5, // Short off Put Support strategy
+        timeClassification: null,
+        tags: null,
+        plannedStop: null,
+        plannedTarget: null,
+        plannedRisk: null,
+        rMultiple: null,
+        underlyingEntryPrice: null,
+        underlyingExitPrice: null,
+        entryIv: null,
+        exitIv: null,
+        entryDelta: null,
+        entryGamma: null,
+        entryTheta: null,
+        entryVega: null,
+        entryRho: null,
+        tradeDate: yesterday,
+        structure: "single",
+        netPremium: null,
+        maxProfit: null,
+        maxLoss: null,
+        breakevens: null,
+        openQuantity: 0,
+        holdingMinutes: null,
+        grossPnl: null,
+        commission: null,
+        fees: null,
+        closeReason: null,
+        expirationFlaggedAt: null,
+        rolledFromId: null,
+        tradeIdeaId: null,
+        keyLevelId: null,
+        economicEventId: null,
+        importBatchId: null,
+      }, { legs: [], executions: [] }, DEFAULT_FEE_SCHEDULE, DEFAULT_PRICING_SETTINGS, false),
       createdAt: new Date(),
     };
 
     const trade3: Trade = {
       id: this.currentTradeId++,
-      ticker: "QQQ",
-      type: "calls",
-      quantity: 10,
-      entryPrice: 1.95,
-      exitPrice: 2.80,
-      entryTime: new Date(`${twoDaysAgo.toDateString()} 10:05:00`),
-      exitTime: new Date(`${twoDaysAgo.toDateString()} 11:30:00`),
-      strikePrice: 520,
-      expirationDate: new Date("2024-12-18"),
-      pnl: 850,
-      entryReason: "Bounce off VWAP support",
-      exitReason: "Profit target achieved",
-      playbookId: 5, // Short off Put Support strategy
-      timeClassification: null,
-      tradeDate: twoDaysAgo,
+      ...deriveTradeFields({
+        ticker: "QQQ",
+        type: "calls",
+        direction: "long",
+        quantity: 10,
+        entryPrice: 1.95,
+        exitPrice: 2.80,
+        entryTime: new Date(`${twoDaysAgo.toDateString()} 10:05:00`),
+        exitTime: new Date(`${twoDaysAgo.toDateString()} 11:30:00`),
+        strikePrice: 520,
+        expirationDate: new Date("2024-12-18"),
+        pnl: 850,
+        entryReason: "Bounce off VWAP support",
+        exitReason: "Profit target achieved",
+        playbookId: 5, // Short off Put Support strategy
+        timeClassification: null,
+        tags: null,
+        plannedStop: null,
+        plannedTarget: null,
+        plannedRisk: null,
+        rMultiple: null,
+        underlyingEntryPrice: null,
+        underlyingExitPrice: null,
+        entryIv: null,
+        exitIv: null,
+        entryDelta: null,
+        entryGamma: null,
+        entryTheta: null,
+        entryVega: null,
+        entryRho: null,
+        tradeDate: twoDaysAgo,
+        structure: "single",
+        netPremium: null,
+        maxProfit: null,
+        maxLoss: null,
+        breakevens: null,
+        openQuantity: 0,
+        holdingMinutes: null,
+        grossPnl: null,
+        commission: null,
+        fees: null,
+        closeReason: null,
+        expirationFlaggedAt: null,
+        rolledFromId: null,
+        tradeIdeaId: null,
+        keyLevelId: null,
+        economicEventId: null,
+        importBatchId: null,
+      }, { legs: [], executions: [] }, DEFAULT_FEE_SCHEDULE, DEFAULT_PRICING_SETTINGS, false),
       createdAt: new Date(),
     };
 
@@ -308,44 +900,22 @@ export class MemStorage implements IStorage {
 
   async createTrade(insertTrade: InsertTrade): Promise<Trade> {
     const id = this.currentTradeId++;
+    const { legs = [], usePlaybook, ...values } = insertTrade;
+    const [schedule, pricing] = await Promise.all([this.getFeeSchedule(), this.getPricingSettings()]);
+    const executions = priceExecutions(insertTrade.executions ?? [], schedule);
     
-    // Calculate P&L if both entry and exit prices are provided
-    let calculatedPnL = insertTrade.pnl ?? null;
-    if (insertTrade.exitPrice && insertTrade.entryPrice) {
-      const priceDiff = insertTrade.exitPrice - insertTrade.entryPrice;
-      calculatedPnL = priceDiff * insertTrade.quantity * 100; // Options are in contracts of 100
-    }
-    
-    // Classify time of day based on entry time
-    let timeClassification = insertTrade.timeClassification ?? null;
-    if (insertTrade.entryTime) {
-      const hour = new Date(insertTrade.entryTime).getHours();
-      if (hour >= 9 && hour < 10) {
-        timeClassification = "Open";
-      } else if (hour >= 10 && hour < 11) {
-        timeClassification = "Morning";
-      } else if (hour >= 11 && hour < 14) {
-        timeClassification = "Midday";
-      } else if (hour >= 14 && hour < 16) {
-        timeClassification = "Close";
-      } else {
-        timeClassification = "Other";
-      }
-    }
-    
+    // Calculate P&L, charges, time of day and the risk profile from the contract, its legs or its fills
+    const fields = deriveTradeFields(toTradeFields(values), { legs, executions }, schedule, pricing, !!values.entryTime);
     const trade: Trade = {
       id,
-      ...insertTrade,
-      exitPrice: insertTrade.exitPrice ?? null,
-      exitTime: insertTrade.exitTime ?? null,
-      pnl: calculatedPnL,
-      entryReason: insertTrade.entryReason ?? null,
-      exitReason: insertTrade.exitReason ?? null,
-      playbookId: insertTrade.playbookId ?? null,
-      timeClassification,
+      ...fields,
+      economicEventId: eventForTrade(fields, Array.from(this.economicEvents.values()))?.id ?? null,
       createdAt: new Date(),
     };
     this.trades.set(id, trade);
+    this.replaceTradeLegs(id, legs);
+    this.replaceTradeExecutions(id, executions);
+    this.markIdeaTaken(trade.tradeIdeaId);
     return trade;
   }
 
@@ -353,45 +923,177 @@ export class MemStorage implements IStorage {
     const existingTrade = this.trades.get(id);
     if (!existingTrade) return undefined;
     
-    const mergedTrade = { ...existingTrade, ...updateData };
-    
-    // Recalculate P&L if entry or exit price changed
-    let calculatedPnL = mergedTrade.pnl;
-    if (mergedTrade.exitPrice && mergedTrade.entryPrice) {
-      const priceDiff = mergedTrade.exitPrice - mergedTrade.entryPrice;
-      calculatedPnL = priceDiff * mergedTrade.quantity * 100; // Options are in contracts of 100
-    }
+    const { legs, usePlaybook, ...values } = updateData;
+    const [schedule, pricing] = await Promise.all([this.getFeeSchedule(), this.getPricingSettings()]);
+    const executions = updateData.executions && priceExecutions(updateData.executions, schedule);
+    const { id: tradeId, createdAt, ...existingFields } = existingTrade;
+    const contractsChanged = !!legs || !!executions || values.quantity !== undefined || values.exitPrice !== undefined;
+    const mergedTrade = mergeTradeUpdate(existingFields, values, contractsChanged);
+    const components = {
+      legs: legs ?? await this.getTradeLegsByTrade(id),
+      executions: executions ?? await this.getTradeExecutionsByTrade(id),
+    };
     
     // Update time classification if entry time changed
-    let timeClassification = mergedTrade.timeClassification;
-    if (updateData.entryTime || (!existingTrade.timeClassification && mergedTrade.entryTime)) {
-      const hour = new Date(mergedTrade.entryTime).getHours();
-      if (hour >= 9 && hour < 10) {
-        timeClassification = "Open";
-      } else if (hour >= 10 && hour < 11) {
-        timeClassification = "Morning";
-      } else if (hour >= 11 && hour < 14) {
-        timeClassification = "Midday";
-      } else if (hour >= 14 && hour < 16) {
-        timeClassification = "Close";
-      } else {
-        timeClassification = "Other";
-      }
-    }
+    const classifyTime = !!values.entryTime || !!executions || (!existingTrade.timeClassification && !!mergedTrade.entryTime);
     
-    const updatedTrade: Trade = { 
-      ...mergedTrade, 
-      pnl: calculatedPnL,
-      timeClassification 
+    const fields = deriveTradeFields(mergedTrade, components, schedule, pricing, classifyTime);
+    const updatedTrade: Trade = {
+      id: tradeId,
+      ...fields,
+      economicEventId: eventForTrade(fields, Array.from(this.economicEvents.values()))?.id ?? null,
+      createdAt,
     };
     this.trades.set(id, updatedTrade);
+    if (legs) {
+      this.replaceTradeLegs(id, legs);
+    }
+    if (executions) {
+      this.replaceTradeExecutions(id, executions);
+    }
+    this.markIdeaTaken(updatedTrade.tradeIdeaId);
     return updatedTrade;
   }
 
+  // Same rule as markIdeaTaken for the database
+  private markIdeaTaken(ideaId: number | null) {
+    const idea = ideaId === null ? undefined : this.tradeIdeas.get(ideaId);
+    if (idea && idea.status === "planned") {
+      this.tradeIdeas.set(idea.id, { ...idea, status: "taken" });
+    }
+  }
+
   async deleteTrade(id: number): Promise<boolean> {
+    this.replaceTradeLegs(id, []);
+    this.replaceTradeExecutions(id, []);
+    Array.from(this.stockPositions.values())
+      .filter(position => position.tradeId === id)
+      .forEach(position => this.stockPositions.delete(position.id));
+    // Rolls out of a deleted trade start their own chain
+    Array.from(this.trades.values())
+      .filter(trade => trade.rolledFromId === id)
+      .forEach(trade => this.trades.set(trade.id, { ...trade, rolledFromId: null }));
     return this.trades.delete(id);
   }
 
+  async settleTrade(id: number, settlement: TradeSettlement): Promise<TradeSettlementResult | undefined> {
+    const trade = this.trades.get(id);
+    if (!trade) return undefined;
+
+    const { update, stockPosition } = planSettlement(
+      trade,
+      await this.getTradeLegsByTrade(id),
+      await this.getTradeExecutionsByTrade(id),
+      settlement,
+    );
+    const settledTrade = await this.updateTrade(id, update);
+    return {
+      trade: settledTrade!,
+      stockPosition: stockPosition && this.insertStockPosition(stockPosition),
+    };
+  }
+
+  async flagExpiredTrades(asOf: Date): Promise<Trade[]> {
+    const flagged = Array.from(this.trades.values())
+      .filter(trade => needsSettlement(trade, asOf))
+      .map(trade => ({ ...trade, expirationFlaggedAt: asOf }));
+    flagged.forEach(trade => this.trades.set(trade.id, trade));
+    return flagged;
+  }
+
+  // Trade Legs
+  async getTradeLegs(): Promise<TradeLeg[]> {
+    return Array.from(this.tradeLegs.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getTradeLegsByTrade(tradeId: number): Promise<TradeLeg[]> {
+    return Array.from(this.tradeLegs.values())
+      .filter(leg => leg.tradeId === tradeId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private replaceTradeLegs(tradeId: number, legs: InsertTradeLeg[]) {
+    Array.from(this.tradeLegs.values())
+      .filter(leg => leg.tradeId === tradeId)
+      .forEach(leg => this.tradeLegs.delete(leg.id));
+
+    legs.forEach(insertLeg => {
+      const id = this.currentLegId++;
+      const leg: TradeLeg = {
+        id,
+        tradeId,
+        ...insertLeg,
+        exitPrice: insertLeg.exitPrice ?? null,
+        createdAt: new Date(),
+      };
+      this.tradeLegs.set(id, leg);
+    });
+  }
+
+  // Trade Executions
+  async getTradeExecutions(): Promise<TradeExecution[]> {
+    return Array.from(this.tradeExecutions.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getTradeExecutionsByTrade(tradeId: number): Promise<TradeExecution[]> {
+    return Array.from(this.tradeExecutions.values())
+      .filter(execution => execution.tradeId === tradeId)
+      .sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime() || a.id - b.id);
+  }
+
+  private replaceTradeExecutions(tradeId: number, executions: InsertTradeExecution[]) {
+    Array.from(this.tradeExecutions.values())
+      .filter(execution => execution.tradeId === tradeId)
+      .forEach(execution => this.tradeExecutions.delete(execution.id));
+
+    executions.forEach(insertExecution => {
+      const id = this.currentExecutionId++;
+      const execution: TradeExecution = {
+        id,
+        tradeId,
+        ...insertExecution,
+        commission: insertExecution.commission ?? null,
+        fees: insertExecution.fees ?? null,
+        createdAt: new Date(),
+      };
+      this.tradeExecutions.set(id, execution);
+    });
+  }
+
+  // Stock Positions
+  async getStockPositions(): Promise<StockPosition[]> {
+    return Array.from(this.stockPositions.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async updateStockPosition(id: number, updateData: Partial<InsertStockPosition>): Promise<StockPosition | undefined> {
+    const existing = this.stockPositions.get(id);
+    if (!existing) return undefined;
+
+    const merged = { ...existing, ...updateData };
+    const updated: StockPosition = { ...merged, pnl: calculateStockPnL(merged) };
+    this.stockPositions.set(id, updated);
+    return updated;
+  }
+
+  async createStockPosition(insertPosition: InsertStockPosition): Promise<StockPosition> {
+    return this.insertStockPosition(insertPosition);
+  }
+
+  private insertStockPosition(insertPosition: InsertStockPosition): StockPosition {
+    const id = this.currentStockPositionId++;
+    const position: StockPosition = {
+      id,
+      ...insertPosition,
+      exitPrice: insertPosition.exitPrice ?? null,
+      exitTime: insertPosition.exitTime ?? null,
+      pnl: null,
+      createdAt: new Date(),
+    };
+    position.pnl = calculateStockPnL(position);
+    this.stockPositions.set(id, position);
+    return position;
+  }
+
   // Premarket Analysis
   async getPremarketAnalysis(): Promise<PremarketAnalysis[]> {
     return Array.from(this.premarketAnalyses.values()).sort((a, b) => b.id - a.id);
@@ -417,6 +1119,12 @@ export class MemStorage implements IStorage {
       vixValue: insertAnalysis.vixValue ?? null,
       expectedVolatility: insertAnalysis.expectedVolatility ?? null,
       gammaEnvironment: insertAnalysis.gammaEnvironment ?? null,
+      expectedMoveTicker: insertAnalysis.expectedMoveTicker ?? null,
+      referencePrice: insertAnalysis.referencePrice ?? null,
+      impliedVolatility: insertAnalysis.impliedVolatility ?? null,
+      realizedHigh: insertAnalysis.realizedHigh ?? null,
+      realizedLow: insertAnalysis.realizedLow ?? null,
+      realizedClose: insertAnalysis.realizedClose ?? null,
       esFuturesLevel: insertAnalysis.esFuturesLevel ?? null,
       esFuturesLevelType: insertAnalysis.esFuturesLevelType ?? null,
       esVolumeAnalysis: insertAnalysis.esVolumeAnalysis ?? null,
@@ -450,9 +1158,12 @@ export class MemStorage implements IStorage {
       tradeIdea1: insertAnalysis.tradeIdea1 ?? null,
       tradeIdea2: insertAnalysis.tradeIdea2 ?? null,
       tradeIdea3: insertAnalysis.tradeIdea3 ?? null,
+      templateId: insertAnalysis.templateId ?? null,
+      answers: insertAnalysis.answers ?? null,
       createdAt: new Date(),
     };
     this.premarketAnalyses.set(id, analysis);
+    this.syncKeyLevels(analysis);
     return analysis;
   }
 
@@ -467,9 +1178,75 @@ export class MemStorage implements IStorage {
 
     const updated: PremarketAnalysis = { ...existing, ...processedUpdateData };
     this.premarketAnalyses.set(id, updated);
+    this.syncKeyLevels(updated);
+    return updated;
+  }
+
+  // Levels still named keep their id, trade links and reaction; removed ones are unlinked from trades
+  private syncKeyLevels(analysis: PremarketAnalysis) {
+    const wanted = keyLevelsFromAnalysis(analysis);
+    const existing = Array.from(this.keyLevels.values()).filter(level => level.premarketAnalysisId === analysis.id);
+    existing.forEach(level => {
+      const match = wanted.find(next => next.levelType === level.levelType && next.price === level.price);
+      if (match) {
+        this.keyLevels.set(level.id, { ...level, date: match.date, underlying: match.underlying });
+        wanted.splice(wanted.indexOf(match), 1);
+      } else {
+        this.deleteKeyLevel(level.id);
+      }
+    });
+    wanted.forEach(level => this.createKeyLevel(level));
+  }
+
+  // Premarket Templates
+  async getPremarketTemplates(): Promise<PremarketTemplate[]> {
+    return Array.from(this.premarketTemplates.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getPremarketTemplate(id: number): Promise<PremarketTemplate | undefined> {
+    return this.premarketTemplates.get(id);
+  }
+
+  async getDefaultPremarketTemplate(): Promise<PremarketTemplate> {
+    const templates = await this.getPremarketTemplates();
+    return templates.find(template => template.isDefault) ?? templates[0];
+  }
+
+  async createPremarketTemplate(insertTemplate: InsertPremarketTemplate): Promise<PremarketTemplate> {
+    if (insertTemplate.isDefault) this.clearDefaultTemplate();
+    const id = this.currentTemplateId++;
+    const template: PremarketTemplate = {
+      id,
+      name: insertTemplate.name,
+      sections: insertTemplate.sections,
+      isDefault: insertTemplate.isDefault ?? false,
+      createdAt: new Date(),
+    };
+    this.premarketTemplates.set(id, template);
+    return template;
+  }
+
+  async updatePremarketTemplate(id: number, updateData: InsertPremarketTemplate): Promise<PremarketTemplate | undefined> {
+    const existing = this.premarketTemplates.get(id);
+    if (!existing) return undefined;
+
+    if (updateData.isDefault) this.clearDefaultTemplate();
+    // The default stays the default until another template takes over
+    const updated: PremarketTemplate = { ...existing, ...updateData, isDefault: updateData.isDefault || existing.isDefault };
+    this.premarketTemplates.set(id, updated);
     return updated;
   }
 
+  async deletePremarketTemplate(id: number): Promise<boolean> {
+    return this.premarketTemplates.delete(id);
+  }
+
+  private clearDefaultTemplate() {
+    this.premarketTemplates.forEach(template => {
+      template.isDefault = false;
+    });
+  }
+
   // Trade Analysis
   async getTradeAnalyses(): Promise<TradeAnalysis[]> {
     return Array.from(this.tradeAnalyses.values()).sort((a, b) => b.id - a.id);
@@ -570,6 +1347,232 @@ export class MemStorage implements IStorage {
     return this.intradayNotes.delete(id);
   }
 
+  // Trade Ideas
+  async getTradeIdeas(): Promise<TradeIdea[]> {
+    return Array.from(this.tradeIdeas.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async getTradeIdeasByAnalysis(premarketAnalysisId: number): Promise<TradeIdea[]> {
+    return Array.from(this.tradeIdeas.values())
+      .filter(idea => idea.premarketAnalysisId === premarketAnalysisId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createTradeIdea(insertIdea: InsertTradeIdea): Promise<TradeIdea> {
+    const id = this.currentIdeaId++;
+    const idea: TradeIdea = {
+      id,
+      premarketAnalysisId: insertIdea.premarketAnalysisId,
+      ticker: insertIdea.ticker,
+      type: insertIdea.type,
+      entryLevel: insertIdea.entryLevel ?? null,
+      riskReward: insertIdea.riskReward ?? null,
+      takeProfit1: insertIdea.takeProfit1 ?? null,
+      takeProfit2: insertIdea.takeProfit2 ?? null,
+      confidence: insertIdea.confidence ?? null,
+      positionSizing: insertIdea.positionSizing ?? null,
+      status: insertIdea.status ?? "planned",
+      notes: insertIdea.notes ?? null,
+      createdAt: new Date(),
+    };
+    this.tradeIdeas.set(id, idea);
+    return idea;
+  }
+
+  async updateTradeIdea(id: number, updateData: Partial<InsertTradeIdea>): Promise<TradeIdea | undefined> {
+    const existing = this.tradeIdeas.get(id);
+    if (!existing) return undefined;
+
+    const updated: TradeIdea = { ...existing, ...updateData };
+    this.tradeIdeas.set(id, updated);
+    return updated;
+  }
+
+  // Trades that executed a deleted idea count as unplanned
+  async deleteTradeIdea(id: number): Promise<boolean> {
+    Array.from(this.trades.values())
+      .filter(trade => trade.tradeIdeaId === id)
+      .forEach(trade => this.trades.set(trade.id, { ...trade, tradeIdeaId: null }));
+    return this.tradeIdeas.delete(id);
+  }
+
+  // Key Levels
+  async getKeyLevels(): Promise<KeyLevel[]> {
+    return Array.from(this.keyLevels.values()).sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id);
+  }
+
+  async getKeyLevel(id: number): Promise<KeyLevel | undefined> {
+    return this.keyLevels.get(id);
+  }
+
+  async createKeyLevel(insertLevel: InsertKeyLevel): Promise<KeyLevel> {
+    const id = this.currentKeyLevelId++;
+    const level: KeyLevel = {
+      id,
+      premarketAnalysisId: insertLevel.premarketAnalysisId ?? null,
+      date: insertLevel.date,
+      underlying: insertLevel.underlying,
+      levelType: insertLevel.levelType,
+      price: insertLevel.price,
+      reaction: insertLevel.reaction ?? null,
+      createdAt: new Date(),
+    };
+    this.keyLevels.set(id, level);
+    return level;
+  }
+
+  async updateKeyLevel(id: number, updateData: Partial<InsertKeyLevel>): Promise<KeyLevel | undefined> {
+    const existing = this.keyLevels.get(id);
+    if (!existing) return undefined;
+
+    const updated: KeyLevel = { ...existing, ...updateData };
+    this.keyLevels.set(id, updated);
+    return updated;
+  }
+
+  // Trades taken off a deleted level are no longer tagged with one
+  async deleteKeyLevel(id: number): Promise<boolean> {
+    Array.from(this.trades.values())
+      .filter(trade => trade.keyLevelId === id)
+      .forEach(trade => this.trades.set(trade.id, { ...trade, keyLevelId: null }));
+    return this.keyLevels.delete(id);
+  }
+
+  // Economic Events
+  async getEconomicEvents(): Promise<EconomicEvent[]> {
+    return Array.from(this.economicEvents.values()).sort((a, b) => a.eventTime.getTime() - b.eventTime.getTime() || a.id - b.id);
+  }
+
+  async createEconomicEvents(insertEvents: InsertEconomicEvent[]): Promise<EconomicEvent[]> {
+    const stored = new Set(Array.from(this.economicEvents.values()).map(eventKey));
+    const created: EconomicEvent[] = [];
+    insertEvents.forEach(insertEvent => {
+      if (stored.has(eventKey(insertEvent))) return;
+      stored.add(eventKey(insertEvent));
+      const event: EconomicEvent = {
+        id: this.currentEventId++,
+        name: insertEvent.name,
+        eventTime: insertEvent.eventTime,
+        allDay: insertEvent.allDay ?? false,
+        impact: insertEvent.impact,
+        category: insertEvent.category,
+        createdAt: new Date(),
+      };
+      this.economicEvents.set(event.id, event);
+      created.push(event);
+    });
+    this.retagTrades();
+    return created;
+  }
+
+  async deleteEconomicEvent(id: number): Promise<boolean> {
+    const deleted = this.economicEvents.delete(id);
+    this.retagTrades();
+    return deleted;
+  }
+
+  // Risk Breaches
+  async getRiskBreaches(): Promise<RiskBreach[]> {
+    return Array.from(this.riskBreaches.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async createRiskBreaches(insertBreaches: InsertRiskBreach[]): Promise<RiskBreach[]> {
+    return insertBreaches.map(insertBreach => {
+      const breach: RiskBreach = {
+        id: this.currentBreachId++,
+        ...insertBreach,
+        tradeId: insertBreach.tradeId ?? null,
+        createdAt: new Date(),
+      };
+      this.riskBreaches.set(breach.id, breach);
+      return breach;
+    });
+  }
+
+  // Import Batches
+  async getImportBatches(): Promise<ImportBatch[]> {
+    return Array.from(this.importBatches.values()).sort((a, b) => b.id - a.id);
+  }
+
+  // Trades already created are deleted again if a later one fails
+  async createImportBatch(insertBatch: InsertImportBatch, batchTrades: ImportBatchTrade[]): Promise<ImportBatch> {
+    const created: Trade[] = [];
+    try {
+      for (const { trade, rolledFromIndex } of batchTrades) {
+        created.push(await this.createTrade({
+          ...trade,
+          rolledFromId: rolledFromIndex === null ? null : created[rolledFromIndex].id,
+        }));
+      }
+    } catch (error) {
+      for (const trade of created) {
+        await this.deleteTrade(trade.id);
+      }
+      throw error;
+    }
+
+    const batch: ImportBatch = {
+      id: this.currentImportBatchId++,
+      ...insertBatch,
+      fileName: insertBatch.fileName ?? null,
+      createdAt: new Date(),
+    };
+    this.importBatches.set(batch.id, batch);
+    created.forEach(trade => this.trades.set(trade.id, { ...trade, importBatchId: batch.id }));
+    return batch;
+  }
+
+  // Puts trades restored from a backup back in the batch that created them
+  async addTradesToImportBatch(id: number, tradeIds: number[]): Promise<void> {
+    tradeIds.forEach(tradeId => {
+      const trade = this.trades.get(tradeId);
+      if (trade) this.trades.set(tradeId, { ...trade, importBatchId: id });
+    });
+  }
+
+  async deleteImportBatch(id: number): Promise<boolean> {
+    if (!this.importBatches.has(id)) return false;
+    const batchTrades = Array.from(this.trades.values()).filter(trade => trade.importBatchId === id);
+    for (const trade of batchTrades) {
+      await this.deleteTrade(trade.id);
+    }
+    return this.importBatches.delete(id);
+  }
+
+  // Import Profiles
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return Array.from(this.importProfiles.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const profile: ImportProfile = {
+      id: this.currentImportProfileId++,
+      ...insertProfile,
+      createdAt: new Date(),
+    };
+    this.importProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updateImportProfile(id: number, updates: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const existing = this.importProfiles.get(id);
+    if (!existing) return undefined;
+    const profile = { ...existing, ...updates };
+    this.importProfiles.set(id, profile);
+    return profile;
+  }
+
+  async deleteImportProfile(id: number): Promise<boolean> {
+    return this.importProfiles.delete(id);
+  }
+
+  private retagTrades() {
+    const events = Array.from(this.economicEvents.values());
+    this.trades.forEach(trade => {
+      this.trades.set(trade.id, { ...trade, economicEventId: eventForTrade(trade, events)?.id ?? null });
+    });
+  }
+
   // Settings
   async getSetting(key: string): Promise<Settings | undefined> {
     return this.settings.get(key);
@@ -596,21 +1599,827 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async getFeeSchedule(): Promise<FeeSchedule> {
+    return readNumericSettings(this, FEE_SETTING_KEYS, DEFAULT_FEE_SCHEDULE);
+  }
+
+  async getPricingSettings(): Promise<PricingSettings> {
+    return readNumericSettings(this, PRICING_SETTING_KEYS, DEFAULT_PRICING_SETTINGS);
+  }
+
+  async getRiskRules(): Promise<RiskRules> {
+    return readRiskRules(this);
+  }
+
   // Clear all data
   async clearAllData(): Promise<boolean> {
     this.trades.clear();
+    this.tradeLegs.clear();
+    this.tradeExecutions.clear();
+    this.stockPositions.clear();
     this.premarketAnalyses.clear();
     this.tradeAnalyses.clear();
     this.intradayNotes.clear();
+    this.tradeIdeas.clear();
+    this.keyLevels.clear();
+    this.riskBreaches.clear();
+    this.importBatches.clear();
     
     // Reset IDs but keep strategies and settings
     this.currentTradeId = 1;
+    this.currentLegId = 1;
+    this.currentExecutionId = 1;
+    this.currentStockPositionId = 1;
     this.currentPremarketId = 1;
     this.currentAnalysisId = 1;
     this.currentNoteId = 1;
+    this.currentIdeaId = 1;
+    this.currentKeyLevelId = 1;
+    this.currentBreachId = 1;
+    this.currentImportBatchId = 1;
     
     return true;
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Events are the same when they have the same name and time, whichever file they came from
+const eventKey = (event: Pick<EconomicEvent, "name" | "eventTime">) => `${event.name}|${new Date(event.eventTime).getTime()}`;
+
+// Tags every trade with the event it was entered around, writing only the tags that changed
+async function retagTrades(tx: Transaction) {
+  const events = await tx.select().from(economicEvents);
+  const tagged = await tx
+    .select({ id: trades.id, entryTime: trades.entryTime, economicEventId: trades.economicEventId })
+    .from(trades);
+  for (const trade of tagged) {
+    const economicEventId = eventForTrade(trade, events)?.id ?? null;
+    if (economicEventId !== trade.economicEventId) {
+      await tx.update(trades).set({ economicEventId }).where(eq(trades.id, trade.id));
+    }
+  }
+}
+
+// An idea a trade was linked to has been taken, unless it was already given another outcome
+async function markIdeaTaken(tx: Transaction, ideaId: number | null) {
+  if (ideaId === null) return;
+  await tx
+    .update(tradeIdeas)
+    .set({ status: "taken" })
+    .where(and(eq(tradeIdeas.id, ideaId), eq(tradeIdeas.status, "planned")));
+}
+
+// Rewrites the key levels of an analysis from its level fields. Levels it still names keep their row, so
+// trades taken off them stay tagged; the others are deleted and their trades untagged.
+async function syncKeyLevels(tx: Transaction, analysis: PremarketAnalysis) {
+  const wanted = keyLevelsFromAnalysis(analysis);
+  const existing = await tx.select().from(keyLevels).where(eq(keyLevels.premarketAnalysisId, analysis.id));
+  const removed: number[] = [];
+  for (const level of existing) {
+    const match = wanted.find(next => next.levelType === level.levelType && next.price === level.price);
+    if (match) {
+      wanted.splice(wanted.indexOf(match), 1);
+      await tx
+        .update(keyLevels)
+        .set({ date: match.date, underlying: match.underlying })
+        .where(eq(keyLevels.id, level.id));
+    } else {
+      removed.push(level.id);
+    }
+  }
+  if (removed.length > 0) {
+    await tx.update(trades).set({ keyLevelId: null }).where(inArray(trades.keyLevelId, removed));
+    await tx.delete(keyLevels).where(inArray(keyLevels.id, removed));
+  }
+  if (wanted.length > 0) {
+    await tx.insert(keyLevels).values(wanted);
+  }
+}
+
+// A new trade worked out ahead of the transaction that writes it
+interface PreparedTrade {
+  fields: TradeFields;
+  legs: InsertTradeLeg[];
+  executions: InsertTradeExecution[];
+}
+
+// A trade update worked out ahead of the transaction that writes it
+interface PreparedTradeUpdate {
+  tradeId: number;
+  fields: TradeFields;
+  legs?: InsertTradeLeg[]; // replace the legs when given
+  executions?: InsertTradeExecution[]; // replace the fills when given
+}
+
+export class DatabaseStorage implements IStorage {
+  private defaultsSeeded: Promise<void> | null = null;
+
+  constructor(private db: Database) {}
+
+  // Seed the default playbook, account balance and premarket template the first time an empty
+  // database is used
+  private ensureDefaults(): Promise<void> {
+    if (!this.defaultsSeeded) {
+      this.defaultsSeeded = (async () => {
+        const [existingStrategy] = await this.db.select().from(playbookStrategies).limit(1);
+        if (!existingStrategy) {
+          await this.db.insert(playbookStrategies).values(DEFAULT_PLAYBOOK_STRATEGIES);
+        }
+        await this.db
+          .insert(settings)
+          .values({ key: "account_balance", value: DEFAULT_ACCOUNT_BALANCE })
+          .onConflictDoNothing({ target: settings.key });
+        await this.migrateLegacyPremarketAnalyses();
+        await this.backfillKeyLevels();
+      })().catch((error) => {
+        this.defaultsSeeded = null;
+        throw error;
+      });
+    }
+    return this.defaultsSeeded;
+  }
+
+  // Analyses saved before templates get the default template and answers read from their columns
+  private async migrateLegacyPremarketAnalyses() {
+    let [template] = await this.db
+      .select()
+      .from(premarketTemplates)
+      .orderBy(desc(premarketTemplates.isDefault), premarketTemplates.id)
+      .limit(1);
+    if (!template) {
+      [template] = await this.db.insert(premarketTemplates).values(DEFAULT_PREMARKET_TEMPLATE).returning();
+    }
+    const legacy = await this.db.select().from(premarketAnalysis).where(isNull(premarketAnalysis.answers));
+    for (const analysis of legacy) {
+      await this.db
+        .update(premarketAnalysis)
+        .set({ templateId: template.id, answers: legacyAnswers(analysis) })
+        .where(eq(premarketAnalysis.id, analysis.id));
+    }
+  }
+
+  // Analyses saved before key levels had their own table get rows read from their level fields
+  private async backfillKeyLevels() {
+    const analyses = await this.db.select().from(premarketAnalysis);
+    const synced = await this.db
+      .selectDistinct({ premarketAnalysisId: keyLevels.premarketAnalysisId })
+      .from(keyLevels);
+    const done = new Set(synced.map(row => row.premarketAnalysisId));
+    const missing = analyses.flatMap(analysis => (done.has(analysis.id) ? [] : keyLevelsFromAnalysis(analysis)));
+    if (missing.length > 0) {
+      await this.db.insert(keyLevels).values(missing);
+    }
+  }
+
+  // User operations (required for authentication)
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values(userData)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: {
+          ...userData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return user;
+  }
+
+  // Trades
+  async getTrades(): Promise<Trade[]> {
+    return this.db.select().from(trades).orderBy(desc(trades.id));
+  }
+
+  async getTrade(id: number): Promise<Trade | undefined> {
+    const [trade] = await this.db.select().from(trades).where(eq(trades.id, id));
+    return trade;
+  }
+
+  async getTradesByDate(date: Date): Promise<Trade[]> {
+    const { start, end } = dayRange(date);
+    return this.db
+      .select()
+      .from(trades)
+      .where(and(gte(trades.tradeDate, start), lt(trades.tradeDate, end)));
+  }
+
+  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+    const prepared = await this.prepareTrade(insertTrade);
+    return this.db.transaction(tx => this.writeTrade(tx, prepared));
+  }
+
+  private async prepareTrade(insertTrade: InsertTrade): Promise<PreparedTrade> {
+    const { legs = [], usePlaybook, ...values } = insertTrade;
+    const [schedule, pricing] = await Promise.all([this.getFeeSchedule(), this.getPricingSettings()]);
+    const executions = priceExecutions(insertTrade.executions ?? [], schedule);
+    const fields = deriveTradeFields(toTradeFields(values), { legs, executions }, schedule, pricing, !!values.entryTime);
+    return { fields: { ...fields, economicEventId: await this.economicEventNear(fields) }, legs, executions };
+  }
+
+  private async writeTrade(tx: Transaction, { fields, legs, executions }: PreparedTrade): Promise<Trade> {
+    const [trade] = await tx
+      .insert(trades)
+      .values(fields)
+      .returning();
+    if (legs.length > 0) {
+      await tx.insert(tradeLegs).values(legs.map(leg => ({ ...leg, tradeId: trade.id })));
+    }
+    if (executions.length > 0) {
+      await tx.insert(tradeExecutions).values(executions.map(execution => ({ ...execution, tradeId: trade.id })));
+    }
+    await markIdeaTaken(tx, trade.tradeIdeaId);
+    return trade;
+  }
+
+  async updateTrade(id: number, updateData: Partial<InsertTrade>): Promise<Trade | undefined> {
+    const prepared = await this.prepareTradeUpdate(id, updateData);
+    if (!prepared) return undefined;
+    return this.db.transaction(tx => this.writeTradeUpdate(tx, prepared));
+  }
+
+  // Everything is read up front so the write transaction only writes
+  private async prepareTradeUpdate(id: number, updateData: Partial<InsertTrade>): Promise<PreparedTradeUpdate | undefined> {
+    const existingTrade = await this.getTrade(id);
+    if (!existingTrade) return undefined;
+
+    const { legs, usePlaybook, ...values } = updateData;
+    const [schedule, pricing] = await Promise.all([this.getFeeSchedule(), this.getPricingSettings()]);
+    const executions = updateData.executions && priceExecutions(updateData.executions, schedule);
+    const { id: tradeId, createdAt, ...existingFields } = existingTrade;
+    const contractsChanged = !!legs || !!executions || values.quantity !== undefined || values.exitPrice !== undefined;
+    const mergedFields = mergeTradeUpdate(existingFields, values, contractsChanged);
+    const components = {
+      legs: legs ?? await this.getTradeLegsByTrade(id),
+      executions: executions ?? await this.getTradeExecutionsByTrade(id),
+    };
+    const classifyTime = !!values.entryTime || !!executions || (!existingTrade.timeClassification && !!mergedFields.entryTime);
+
+    const fields = deriveTradeFields(mergedFields, components, schedule, pricing, classifyTime);
+    return { tradeId, fields: { ...fields, economicEventId: await this.economicEventNear(fields) }, legs, executions };
+  }
+
+  private async economicEventNear(trade: Pick<Trade, "entryTime">): Promise<number | null> {
+    const window = EVENT_WINDOW_MINUTES * 60000;
+    const entry = new Date(trade.entryTime).getTime();
+    const nearby = await this.db
+      .select()
+      .from(economicEvents)
+      .where(and(gte(economicEvents.eventTime, new Date(entry - window)), lte(economicEvents.eventTime, new Date(entry + window))));
+    return eventForTrade(trade, nearby)?.id ?? null;
+  }
+
+  private async writeTradeUpdate(tx: Transaction, { tradeId, fields, legs, executions }: PreparedTradeUpdate): Promise<Trade> {
+    const [trade] = await tx
+      .update(trades)
+      .set(fields)
+      .where(eq(trades.id, tradeId))
+      .returning();
+    if (legs) {
+      await tx.delete(tradeLegs).where(eq(tradeLegs.tradeId, tradeId));
+      if (legs.length > 0) {
+        await tx.insert(tradeLegs).values(legs.map(leg => ({ ...leg, tradeId })));
+      }
+    }
+    if (executions) {
+      await tx.delete(tradeExecutions).where(eq(tradeExecutions.tradeId, tradeId));
+      if (executions.length > 0) {
+        await tx.insert(tradeExecutions).values(executions.map(execution => ({ ...execution, tradeId })));
+      }
+    }
+    await markIdeaTaken(tx, trade.tradeIdeaId);
+    return trade;
+  }
+
+  async deleteTrade(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(tradeLegs).where(eq(tradeLegs.tradeId, id));
+      await tx.delete(tradeExecutions).where(eq(tradeExecutions.tradeId, id));
+      await tx.delete(stockPositions).where(eq(stockPositions.tradeId, id));
+      await tx.update(trades).set({ rolledFromId: null }).where(eq(trades.rolledFromId, id));
+      const deleted = await tx.delete(trades).where(eq(trades.id, id)).returning({ id: trades.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async settleTrade(id: number, settlement: TradeSettlement): Promise<TradeSettlementResult | undefined> {
+    const trade = await this.getTrade(id);
+    if (!trade) return undefined;
+
+    const { update, stockPosition } = planSettlement(
+      trade,
+      await this.getTradeLegsByTrade(id),
+      await this.getTradeExecutionsByTrade(id),
+      settlement,
+    );
+    const prepared = await this.prepareTradeUpdate(id, update);
+    if (!prepared) return undefined;
+
+    // The option closes and the shares appear together or not at all
+    return this.db.transaction(async (tx) => {
+      const settledTrade = await this.writeTradeUpdate(tx, prepared);
+      if (!stockPosition) {
+        return { trade: settledTrade, stockPosition: null };
+      }
+      const [position] = await tx
+        .insert(stockPositions)
+        .values({ ...stockPosition, pnl: calculateStockPnL({ ...stockPosition, exitPrice: stockPosition.exitPrice ?? null }) })
+        .returning();
+      return { trade: settledTrade, stockPosition: position };
+    });
+  }
+
+  async flagExpiredTrades(asOf: Date): Promise<Trade[]> {
+    const candidates = await this.db
+      .select()
+      .from(trades)
+      .where(and(gt(trades.openQuantity, 0), isNull(trades.expirationFlaggedAt), lt(trades.expirationDate, asOf)));
+    const ids = candidates.filter(trade => needsSettlement(trade, asOf)).map(trade => trade.id);
+    if (ids.length === 0) return [];
+    return this.db
+      .update(trades)
+      .set({ expirationFlaggedAt: asOf })
+      .where(inArray(trades.id, ids))
+      .returning();
+  }
+
+  // Trade Legs
+  async getTradeLegs(): Promise<TradeLeg[]> {
+    return this.db.select().from(tradeLegs).orderBy(tradeLegs.id);
+  }
+
+  async getTradeLegsByTrade(tradeId: number): Promise<TradeLeg[]> {
+    return this.db.select().from(tradeLegs).where(eq(tradeLegs.tradeId, tradeId)).orderBy(tradeLegs.id);
+  }
+
+  // Trade Executions
+  async getTradeExecutions(): Promise<TradeExecution[]> {
+    return this.db.select().from(tradeExecutions).orderBy(tradeExecutions.id);
+  }
+
+  async getTradeExecutionsByTrade(tradeId: number): Promise<TradeExecution[]> {
+    return this.db
+      .select()
+      .from(tradeExecutions)
+      .where(eq(tradeExecutions.tradeId, tradeId))
+      .orderBy(tradeExecutions.executedAt, tradeExecutions.id);
+  }
+
+  // Stock Positions
+  async getStockPositions(): Promise<StockPosition[]> {
+    return this.db.select().from(stockPositions).orderBy(stockPositions.id);
+  }
+
+  async createStockPosition(insertPosition: InsertStockPosition): Promise<StockPosition> {
+    const [position] = await this.db
+      .insert(stockPositions)
+      .values({ ...insertPosition, pnl: calculateStockPnL({ ...insertPosition, exitPrice: insertPosition.exitPrice ?? null }) })
+      .returning();
+    return position;
+  }
+
+  async updateStockPosition(id: number, updateData: Partial<InsertStockPosition>): Promise<StockPosition | undefined> {
+    const [existing] = await this.db.select().from(stockPositions).where(eq(stockPositions.id, id));
+    if (!existing) return undefined;
+
+    const merged = { ...existing, ...updateData };
+    const [position] = await this.db
+      .update(stockPositions)
+      .set({ ...updateData, pnl: calculateStockPnL(merged) })
+      .where(eq(stockPositions.id, id))
+      .returning();
+    return position;
+  }
+
+  // Premarket Analysis
+  async getPremarketAnalysis(): Promise<PremarketAnalysis[]> {
+    await this.ensureDefaults();
+    return this.db.select().from(premarketAnalysis).orderBy(desc(premarketAnalysis.id));
+  }
+
+  async getPremarketAnalysisByDate(date: Date): Promise<PremarketAnalysis | undefined> {
+    await this.ensureDefaults();
+    const { start, end } = dayRange(date);
+    const [analysis] = await this.db
+      .select()
+      .from(premarketAnalysis)
+      .where(and(gte(premarketAnalysis.date, start), lt(premarketAnalysis.date, end)))
+      .limit(1);
+    return analysis;
+  }
+
+  async createPremarketAnalysis(insertAnalysis: InsertPremarketAnalysis): Promise<PremarketAnalysis> {
+    return this.db.transaction(async (tx) => {
+      const [analysis] = await tx.insert(premarketAnalysis).values(insertAnalysis).returning();
+      await syncKeyLevels(tx, analysis);
+      return analysis;
+    });
+  }
+
+  async updatePremarketAnalysis(id: number, updateData: Partial<InsertPremarketAnalysis>): Promise<PremarketAnalysis | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [analysis] = await tx
+        .update(premarketAnalysis)
+        .set(updateData)
+        .where(eq(premarketAnalysis.id, id))
+        .returning();
+      if (analysis) await syncKeyLevels(tx, analysis);
+      return analysis;
+    });
+  }
+
+  // Premarket Templates
+  async getPremarketTemplates(): Promise<PremarketTemplate[]> {
+    await this.ensureDefaults();
+    return this.db.select().from(premarketTemplates).orderBy(premarketTemplates.id);
+  }
+
+  async getPremarketTemplate(id: number): Promise<PremarketTemplate | undefined> {
+    await this.ensureDefaults();
+    const [template] = await this.db.select().from(premarketTemplates).where(eq(premarketTemplates.id, id));
+    return template;
+  }
+
+  async getDefaultPremarketTemplate(): Promise<PremarketTemplate> {
+    await this.ensureDefaults();
+    const [template] = await this.db
+      .select()
+      .from(premarketTemplates)
+      .orderBy(desc(premarketTemplates.isDefault), premarketTemplates.id)
+      .limit(1);
+    return template;
+  }
+
+  async createPremarketTemplate(insertTemplate: InsertPremarketTemplate): Promise<PremarketTemplate> {
+    return this.db.transaction(async (tx) => {
+      if (insertTemplate.isDefault) {
+        await tx.update(premarketTemplates).set({ isDefault: false }).where(eq(premarketTemplates.isDefault, true));
+      }
+      const [template] = await tx.insert(premarketTemplates).values(insertTemplate).returning();
+      return template;
+    });
+  }
+
+  async updatePremarketTemplate(id: number, updateData: InsertPremarketTemplate): Promise<PremarketTemplate | undefined> {
+    return this.db.transaction(async (tx) => {
+      const { isDefault, ...fields } = updateData;
+      if (isDefault) {
+        await tx.update(premarketTemplates).set({ isDefault: false }).where(eq(premarketTemplates.isDefault, true));
+      }
+      // The default stays the default until another template takes over
+      const [template] = await tx
+        .update(premarketTemplates)
+        .set(isDefault ? { ...fields, isDefault } : fields)
+        .where(eq(premarketTemplates.id, id))
+        .returning();
+      return template;
+    });
+  }
+
+  async deletePremarketTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(premarketTemplates)
+      .where(eq(premarketTemplates.id, id))
+      .returning({ id: premarketTemplates.id });
+    return deleted.length > 0;
+  }
+
+  // Trade Analysis
+  async getTradeAnalyses(): Promise<TradeAnalysis[]> {
+    return this.db.select().from(tradeAnalysis).orderBy(desc(tradeAnalysis.id));
+  }
+
+  async getTradeAnalysis(tradeId: number): Promise<TradeAnalysis | undefined> {
+    const [analysis] = await this.db.select().from(tradeAnalysis).where(eq(tradeAnalysis.tradeId, tradeId)).limit(1);
+    return analysis;
+  }
+
+  async createTradeAnalysis(insertAnalysis: InsertTradeAnalysis): Promise<TradeAnalysis> {
+    const [analysis] = await this.db.insert(tradeAnalysis).values(insertAnalysis).returning();
+    return analysis;
+  }
+
+  async updateTradeAnalysis(id: number, updateData: Partial<InsertTradeAnalysis>): Promise<TradeAnalysis | undefined> {
+    const [analysis] = await this.db
+      .update(tradeAnalysis)
+      .set(updateData)
+      .where(eq(tradeAnalysis.id, id))
+      .returning();
+    return analysis;
+  }
+
+  // Playbook Strategies
+  async getPlaybookStrategies(): Promise<PlaybookStrategy[]> {
+    await this.ensureDefaults();
+    return this.db.select().from(playbookStrategies).orderBy(desc(playbookStrategies.id));
+  }
+
+  async createPlaybookStrategy(insertStrategy: InsertPlaybookStrategy): Promise<PlaybookStrategy> {
+    const [strategy] = await this.db.insert(playbookStrategies).values(insertStrategy).returning();
+    return strategy;
+  }
+
+  async updatePlaybookStrategy(id: number, updateData: Partial<InsertPlaybookStrategy>): Promise<PlaybookStrategy | undefined> {
+    const [strategy] = await this.db
+      .update(playbookStrategies)
+      .set(updateData)
+      .where(eq(playbookStrategies.id, id))
+      .returning();
+    return strategy;
+  }
+
+  async deletePlaybookStrategy(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(playbookStrategies)
+      .where(eq(playbookStrategies.id, id))
+      .returning({ id: playbookStrategies.id });
+    return deleted.length > 0;
+  }
+
+  // Intraday Notes
+  async getIntradayNotes(): Promise<IntradayNote[]> {
+    return this.db.select().from(intradayNotes).orderBy(desc(intradayNotes.id));
+  }
+
+  async getIntradayNotesByDate(date: Date): Promise<IntradayNote[]> {
+    const { start, end } = dayRange(date);
+    return this.db
+      .select()
+      .from(intradayNotes)
+      .where(and(gte(intradayNotes.date, start), lt(intradayNotes.date, end)));
+  }
+
+  async createIntradayNote(insertNote: InsertIntradayNote): Promise<IntradayNote> {
+    const [note] = await this.db.insert(intradayNotes).values(insertNote).returning();
+    return note;
+  }
+
+  async updateIntradayNote(id: number, updateData: Partial<InsertIntradayNote>): Promise<IntradayNote | undefined> {
+    const [note] = await this.db
+      .update(intradayNotes)
+      .set(updateData)
+      .where(eq(intradayNotes.id, id))
+      .returning();
+    return note;
+  }
+
+  async deleteIntradayNote(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(intradayNotes)
+      .where(eq(intradayNotes.id, id))
+      .returning({ id: intradayNotes.id });
+    return deleted.length > 0;
+  }
+
+  // Trade Ideas
+  async getTradeIdeas(): Promise<TradeIdea[]> {
+    return this.db.select().from(tradeIdeas).orderBy(desc(tradeIdeas.id));
+  }
+
+  async getTradeIdeasByAnalysis(premarketAnalysisId: number): Promise<TradeIdea[]> {
+    return this.db
+      .select()
+      .from(tradeIdeas)
+      .where(eq(tradeIdeas.premarketAnalysisId, premarketAnalysisId))
+      .orderBy(tradeIdeas.id);
+  }
+
+  async createTradeIdea(insertIdea: InsertTradeIdea): Promise<TradeIdea> {
+    const [idea] = await this.db.insert(tradeIdeas).values(insertIdea).returning();
+    return idea;
+  }
+
+  async updateTradeIdea(id: number, updateData: Partial<InsertTradeIdea>): Promise<TradeIdea | undefined> {
+    const [idea] = await this.db
+      .update(tradeIdeas)
+      .set(updateData)
+      .where(eq(tradeIdeas.id, id))
+      .returning();
+    return idea;
+  }
+
+  // Trades that executed a deleted idea count as unplanned
+  async deleteTradeIdea(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(trades).set({ tradeIdeaId: null }).where(eq(trades.tradeIdeaId, id));
+      const deleted = await tx.delete(tradeIdeas).where(eq(tradeIdeas.id, id)).returning({ id: tradeIdeas.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Key Levels
+  async getKeyLevels(): Promise<KeyLevel[]> {
+    await this.ensureDefaults();
+    return this.db.select().from(keyLevels).orderBy(keyLevels.date, keyLevels.id);
+  }
+
+  async getKeyLevel(id: number): Promise<KeyLevel | undefined> {
+    const [level] = await this.db.select().from(keyLevels).where(eq(keyLevels.id, id));
+    return level;
+  }
+
+  async createKeyLevel(insertLevel: InsertKeyLevel): Promise<KeyLevel> {
+    const [level] = await this.db.insert(keyLevels).values(insertLevel).returning();
+    return level;
+  }
+
+  async updateKeyLevel(id: number, updateData: Partial<InsertKeyLevel>): Promise<KeyLevel | undefined> {
+    const [level] = await this.db
+      .update(keyLevels)
+      .set(updateData)
+      .where(eq(keyLevels.id, id))
+      .returning();
+    return level;
+  }
+
+  async deleteKeyLevel(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(trades).set({ keyLevelId: null }).where(eq(trades.keyLevelId, id));
+      const deleted = await tx.delete(keyLevels).where(eq(keyLevels.id, id)).returning({ id: keyLevels.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Risk Breaches
+  async getRiskBreaches(): Promise<RiskBreach[]> {
+    return this.db.select().from(riskBreaches).orderBy(desc(riskBreaches.id));
+  }
+
+  async createRiskBreaches(insertBreaches: InsertRiskBreach[]): Promise<RiskBreach[]> {
+    if (insertBreaches.length === 0) return [];
+    return this.db.insert(riskBreaches).values(insertBreaches).returning();
+  }
+
+  // Import Batches
+  async getImportBatches(): Promise<ImportBatch[]> {
+    return this.db.select().from(importBatches).orderBy(desc(importBatches.id));
+  }
+
+  async createImportBatch(insertBatch: InsertImportBatch, batchTrades: ImportBatchTrade[]): Promise<ImportBatch> {
+    const prepared: PreparedTrade[] = [];
+    for (const { trade } of batchTrades) {
+      prepared.push(await this.prepareTrade(trade));
+    }
+    return this.db.transaction(async (tx) => {
+      const [batch] = await tx.insert(importBatches).values(insertBatch).returning();
+      const createdIds: number[] = [];
+      for (const [index, { rolledFromIndex }] of batchTrades.entries()) {
+        const trade = await this.writeTrade(tx, {
+          ...prepared[index],
+          fields: {
+            ...prepared[index].fields,
+            importBatchId: batch.id,
+            rolledFromId: rolledFromIndex === null ? null : createdIds[rolledFromIndex],
+          },
+        });
+        createdIds.push(trade.id);
+      }
+      return batch;
+    });
+  }
+
+  async addTradesToImportBatch(id: number, tradeIds: number[]): Promise<void> {
+    if (tradeIds.length === 0) return;
+    await this.db.update(trades).set({ importBatchId: id }).where(inArray(trades.id, tradeIds));
+  }
+
+  async deleteImportBatch(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const batchTrades = await tx.select({ id: trades.id }).from(trades).where(eq(trades.importBatchId, id));
+      const tradeIds = batchTrades.map(trade => trade.id);
+      if (tradeIds.length > 0) {
+        await tx.delete(tradeLegs).where(inArray(tradeLegs.tradeId, tradeIds));
+        await tx.delete(tradeExecutions).where(inArray(tradeExecutions.tradeId, tradeIds));
+        await tx.delete(stockPositions).where(inArray(stockPositions.tradeId, tradeIds));
+        await tx.update(trades).set({ rolledFromId: null }).where(inArray(trades.rolledFromId, tradeIds));
+        await tx.delete(trades).where(inArray(trades.id, tradeIds));
+      }
+      const deleted = await tx.delete(importBatches).where(eq(importBatches.id, id)).returning({ id: importBatches.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Import Profiles
+  async getImportProfiles(): Promise<ImportProfile[]> {
+    return this.db.select().from(importProfiles).orderBy(desc(importProfiles.id));
+  }
+
+  async createImportProfile(insertProfile: InsertImportProfile): Promise<ImportProfile> {
+    const [profile] = await this.db.insert(importProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateImportProfile(id: number, updates: Partial<InsertImportProfile>): Promise<ImportProfile | undefined> {
+    const [profile] = await this.db
+      .update(importProfiles)
+      .set(updates)
+      .where(eq(importProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteImportProfile(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(importProfiles)
+      .where(eq(importProfiles.id, id))
+      .returning({ id: importProfiles.id });
+    return deleted.length > 0;
+  }
+
+  // Economic Events
+  async getEconomicEvents(): Promise<EconomicEvent[]> {
+    return this.db.select().from(economicEvents).orderBy(economicEvents.eventTime, economicEvents.id);
+  }
+
+  async createEconomicEvents(insertEvents: InsertEconomicEvent[]): Promise<EconomicEvent[]> {
+    return this.db.transaction(async (tx) => {
+      const stored = new Set((await tx.select().from(economicEvents)).map(eventKey));
+      const fresh = insertEvents.filter(event => {
+        if (stored.has(eventKey(event))) return false;
+        stored.add(eventKey(event));
+        return true;
+      });
+      const created = fresh.length > 0 ? await tx.insert(economicEvents).values(fresh).returning() : [];
+      await retagTrades(tx);
+      return created;
+    });
+  }
+
+  async deleteEconomicEvent(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx.delete(economicEvents).where(eq(economicEvents.id, id)).returning({ id: economicEvents.id });
+      await retagTrades(tx);
+      return deleted.length > 0;
+    });
+  }
+
+  // Settings
+  async getSetting(key: string): Promise<Settings | undefined> {
+    await this.ensureDefaults();
+    const [setting] = await this.db.select().from(settings).where(eq(settings.key, key));
+    return setting;
+  }
+
+  async setSetting(key: string, value: string): Promise<Settings> {
+    const [setting] = await this.db
+      .insert(settings)
+      .values({ key, value })
+      .onConflictDoUpdate({
+        target: settings.key,
+        set: { value, updatedAt: new Date() },
+      })
+      .returning();
+    return setting;
+  }
+
+  async getFeeSchedule(): Promise<FeeSchedule> {
+    return readNumericSettings(this, FEE_SETTING_KEYS, DEFAULT_FEE_SCHEDULE);
+  }
+
+  async getPricingSettings(): Promise<PricingSettings> {
+    return readNumericSettings(this, PRICING_SETTING_KEYS, DEFAULT_PRICING_SETTINGS);
+  }
+
+  async getRiskRules(): Promise<RiskRules> {
+    return readRiskRules(this);
+  }
+
+  // Clear all data
+  async clearAllData(): Promise<boolean> {
+    // Keep strategies and settings, and restart IDs like MemStorage does
+    await this.db.execute(
+      sql`TRUNCATE TABLE ${trades}, ${tradeLegs}, ${tradeExecutions}, ${stockPositions}, ${premarketAnalysis}, ${tradeIdeas}, ${keyLevels}, ${riskBreaches}, ${importBatches}, ${tradeAnalysis}, ${intradayNotes} RESTART IDENTITY`,
+    );
+    return true;
+  }
+}
+
+// Local-time bounds of the calendar day containing `date`, matching MemStorage's date comparisons
+function dayRange(date: Date): { start: Date; end: Date } {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+  return { start, end };
+}
+
+// STORAGE=memory keeps everything in process (used for tests and quick local runs);
+// STORAGE=database persists through Drizzle. Defaults to the database whenever one is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE || (process.env.DATABASE_URL ? "database" : "memory");
+
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+  if (driver === "database") {
+    return new DatabaseStorage(createDatabase());
+  }
+  throw new Error(`Unknown STORAGE "${driver}". Use memory or database.`);
+}
+
+export const storage = createStorage();
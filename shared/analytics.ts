@@ -0,0 +1,159 @@
+// Performance report filters and payload, shared by the analytics endpoint and the views that render it
+
+import { z } from "zod";
+import type { Trade } from "./schema";
+import type { RollChain } from "./rolls";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days to expiration when the trade was opened, grouped the way 0DTE and swing trades are usually compared
+export const DTE_BUCKETS = ["0 DTE", "1-7 DTE", "8-30 DTE", "31-60 DTE", "60+ DTE"] as const;
+export type DteBucket = typeof DTE_BUCKETS[number];
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+
+// Local calendar day, so a trade dated at midnight is not shifted into the previous day
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export function daysToExpiration(trade: Pick<Trade, "tradeDate" | "expirationDate">): number {
+  const opened = startOfDay(new Date(trade.tradeDate));
+  const expires = startOfDay(new Date(trade.expirationDate));
+  return Math.max(0, Math.round((expires.getTime() - opened.getTime()) / DAY_MS));
+}
+
+export function dteBucket(trade: Pick<Trade, "tradeDate" | "expirationDate">): DteBucket {
+  const days = daysToExpiration(trade);
+  if (days === 0) return "0 DTE";
+  if (days <= 7) return "1-7 DTE";
+  if (days <= 30) return "8-30 DTE";
+  if (days <= 60) return "31-60 DTE";
+  return "60+ DTE";
+}
+
+// Completed once flat; a trade scaled out of part way has realized P&L but is still open
+export function isCompleted(trade: Pick<Trade, "pnl" | "openQuantity">): boolean {
+  return trade.pnl !== null && trade.openQuantity === 0;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+// Query string filters; every one is optional and they combine with AND
+export const analyticsFiltersSchema = z.object({
+  from: isoDate.optional(), // trade date, inclusive
+  to: isoDate.optional(), // trade date, inclusive
+  ticker: z.string().trim().toUpperCase().min(1).optional(),
+  type: z.enum(["calls", "puts"]).optional(),
+  playbookId: z.coerce.number().int().positive().optional(),
+  timeClassification: z.string().min(1).optional(),
+  tag: z.string().trim().min(1).optional(),
+  weekday: z.coerce.number().int().min(0).max(6).optional(), // 0 = Sunday
+  dteBucket: z.enum(DTE_BUCKETS).optional(),
+  groupBy: z.enum(["trade", "chain"]).default("trade"),
+});
+
+export type AnalyticsFilters = z.infer<typeof analyticsFiltersSchema>;
+
+// Query string for the analytics endpoint, leaving out filters that are not set
+export function analyticsQueryString(filters: Partial<AnalyticsFilters>): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export interface DrawdownStats {
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  currentDrawdown: number;
+}
+
+export interface Streak {
+  type: "win" | "loss";
+  length: number;
+  start: number; // index into the report's trades
+}
+
+export interface StreakStats {
+  currentStreak: number; // positive while winning, negative while losing
+  maxWinStreak: number;
+  maxLossStreak: number;
+  streaks: Streak[];
+}
+
+// Planned against realized R for the trades of one playbook strategy
+export interface PlaybookRStats {
+  playbookId: number | null;
+  name: string;
+  trades: number; // completed trades with a planned risk
+  avgPlannedR: number | null; // over trades that also had a target
+  avgRealizedR: number | null;
+}
+
+// Completed trades that did or did not execute a premarket trade idea
+export interface PlanStats {
+  trades: number;
+  wins: number;
+  hitRate: number; // percent of trades that won
+  totalPnL: number;
+  avgPnL: number;
+}
+
+export interface PerformanceReport {
+  filters: AnalyticsFilters;
+  groupBy: "trade" | "chain";
+  startingBalance: number; // the account balance setting
+  currentBalance: number;
+
+  totalTrades: number;
+  completedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number; // percent
+  totalPnL: number;
+  totalGrossPnL: number;
+  totalCommission: number;
+  totalFees: number;
+  returnPercent: number;
+
+  avgWin: number;
+  avgLoss: number; // positive dollar amount
+  avgRR: number;
+  expectancy: number; // average net P&L per completed trade
+  profitFactor: number | null; // null when there are no losing trades
+  largestWin: number;
+  largestLoss: number;
+
+  drawdown: DrawdownStats;
+  sharpeRatio: number; // daily, on returns against the balance at the start of each day
+  sortinoRatio: number;
+  streaks: StreakStats;
+
+  equityCurve: Array<{ date: string; balance: number }>;
+  dailyPnL: Record<string, number>;
+  monthlyPnL: Record<string, number>;
+  pnlDistribution: Record<string, number>; // $100 buckets → trade count
+  riskRewardData: Array<{ x: number; y: number; id: number }>; // planned risk ($) → net P&L
+
+  rMultipleTrades: number; // completed trades with a planned risk
+  expectancyR: number | null; // average realized R
+  rDistribution: Record<string, number>; // whole-R buckets → trade count
+  playbookRPerformance: PlaybookRStats[];
+
+  plannedTrades: PlanStats;
+  unplannedTrades: PlanStats;
+
+  symbolPerformance: Record<string, number>;
+  timePerformance: Record<string, number>;
+  directionPerformance: Record<string, number>;
+  closeReasonPerformance: Record<string, number>;
+  weekdayPerformance: Record<string, number>;
+  dtePerformance: Record<string, number>;
+  moneynessPerformance: Record<string, number>; // by distance from the strike at entry
+
+  rollChains: RollChain[];
+  trades: Trade[]; // completed trades matching the filters, in the order they closed
+}
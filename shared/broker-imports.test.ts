@@ -0,0 +1,182 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { detectBrokerAdapter, groupExecutions, matchExecutions, type ImportedExecution } from "./broker-imports";
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/broker-exports/${name}`, import.meta.url), "utf8");
+
+type Fill = Pick<ImportedExecution,
+  "ticker" | "type" | "strikePrice" | "expirationDate" | "side" | "positionEffect" | "quantity" | "price" | "executedAt" | "commission" | "fees">;
+
+const fillOf = ({ ticker, type, strikePrice, expirationDate, side, positionEffect, quantity, price, executedAt, commission, fees }: ImportedExecution): Fill =>
+  ({ ticker, type, strikePrice, expirationDate, side, positionEffect, quantity, price, executedAt, commission, fees });
+
+// Local wall-clock time on the fixtures' trade date
+const at = (hour: number, minute: number, second = 0, day = 26) => new Date(2025, 8, day, hour, minute, second);
+
+const spyCall = { ticker: "SPY", type: "calls", strikePrice: 660, expirationDate: "2025-09-26" } as const;
+
+function readFixture(name: string, adapterId: string) {
+  const content = fixture(name);
+  const adapter = detectBrokerAdapter(content);
+  assert.equal(adapter?.id, adapterId);
+  const result = adapter!.parse(content, { tradeDate: "2025-09-26" });
+  return { executions: result.executions.map(fillOf), errors: result.errors };
+}
+
+describe("Schwab / thinkorswim", () => {
+  it("reads the Account Trade History section of a thinkorswim statement", () => {
+    const { executions, errors } = readFixture("schwab-statement.csv", "schwab");
+    const qqqPut = { ticker: "QQQ", type: "puts", expirationDate: "2025-09-26", commission: null, fees: null } as const;
+    assert.deepEqual(executions, [
+      { ...spyCall, side: "buy", positionEffect: "open", quantity: 2, price: 1.25, executedAt: at(9, 45, 12), commission: null, fees: null },
+      { ...qqqPut, strikePrice: 590, side: "sell", positionEffect: "open", quantity: 1, price: 2.1, executedAt: at(10, 15, 30) },
+      // The spread's second leg shares the first leg's time
+      { ...qqqPut, strikePrice: 585, side: "buy", positionEffect: "open", quantity: 1, price: 1.25, executedAt: at(10, 15, 30) },
+      { ...spyCall, side: "sell", positionEffect: "close", quantity: 2, price: 1.8, executedAt: at(11, 2, 3), commission: null, fees: null },
+    ]);
+    assert.deepEqual(errors, ["Trade history row 6: needs a side, contract, time, quantity and price"]);
+  });
+
+  it("reads schwab.com transaction history", () => {
+    const { executions, errors } = readFixture("schwab-transactions.csv", "schwab");
+    assert.deepEqual(executions, [
+      { ...spyCall, side: "buy", positionEffect: "open", quantity: 2, price: 1.25, executedAt: at(9, 30), commission: 1.32, fees: 0 },
+      { ...spyCall, side: "sell", positionEffect: "close", quantity: 2, price: 1.8, executedAt: at(10, 0), commission: 1.32, fees: 0 },
+    ]);
+    assert.deepEqual(errors, ["Row 5: needs an option symbol, date, quantity and price"]);
+  });
+});
+
+describe("Fidelity", () => {
+  it("reads account activity, skipping expirations and stock", () => {
+    const { executions, errors } = readFixture("fidelity.csv", "fidelity");
+    assert.deepEqual(executions, [
+      { ...spyCall, side: "sell", positionEffect: "close", quantity: 2, price: 1.8, executedAt: at(10, 0), commission: 1.3, fees: 0.04 },
+      { ...spyCall, side: "buy", positionEffect: "open", quantity: 2, price: 1.25, executedAt: at(9, 30), commission: 1.3, fees: 0.04 },
+    ]);
+    assert.deepEqual(errors, ["Row 6: -QQQ250926P590 needs a date, quantity and price"]);
+  });
+});
+
+describe("Interactive Brokers", () => {
+  it("reads executions from a Flex XML report", () => {
+    const { executions, errors } = readFixture("ibkr-flex.xml", "ibkr");
+    const spxPut = { ticker: "SPX", type: "puts", strikePrice: 6550, expirationDate: "2025-09-26", quantity: 1, commission: 1.06, fees: 0 } as const;
+    assert.deepEqual(executions, [
+      { ...spxPut, side: "sell", positionEffect: "open", price: 3.2, executedAt: at(9, 45) },
+      { ...spxPut, side: "buy", positionEffect: "close", price: 1.05, executedAt: at(11, 15) },
+    ]);
+    assert.deepEqual(errors, ["Trade 6: needs a contract, Buy/Sell, DateTime, Quantity and TradePrice"]);
+  });
+
+  it("reads executions from a Flex CSV report", () => {
+    const { executions, errors } = readFixture("ibkr-flex.csv", "ibkr");
+    assert.deepEqual(executions, [
+      { ...spyCall, side: "buy", positionEffect: "open", quantity: 2, price: 1.25, executedAt: at(9, 45, 12), commission: 1.3, fees: 0 },
+      { ...spyCall, side: "sell", positionEffect: "close", quantity: 2, price: 1.8, executedAt: at(10, 15, 30), commission: 1.31, fees: 0 },
+    ]);
+    assert.deepEqual(errors, ["Row 5: needs a contract, Buy/Sell, DateTime, Quantity and TradePrice"]);
+  });
+});
+
+describe("Tastytrade", () => {
+  it("reads option trades with per-share prices, skipping futures and expirations", () => {
+    const { executions, errors } = readFixture("tastytrade.csv", "tastytrade");
+    assert.deepEqual(executions, [
+      { ...spyCall, side: "sell", positionEffect: "close", quantity: 2, price: 1.8, executedAt: new Date("2025-09-26T11:02:03-04:00"), commission: 1, fees: 0.28 },
+      { ...spyCall, side: "buy", positionEffect: "open", quantity: 2, price: 1.25, executedAt: new Date("2025-09-26T09:45:12-04:00"), commission: 2, fees: 0.28 },
+    ]);
+    assert.deepEqual(errors, ["Row 6: needs a contract, date, quantity and average price"]);
+  });
+});
+
+// A fill of the SPY 660 call, `minute` minutes after 9:30
+const fill = (
+  side: "buy" | "sell",
+  quantity: number,
+  price: number,
+  minute: number,
+  { positionEffect = null, commission = null, strikePrice = 660 }: Partial<ImportedExecution> = {},
+): ImportedExecution => ({
+  symbol: `SPY 250926C${strikePrice}`,
+  ...spyCall,
+  strikePrice,
+  root: "SPY",
+  adjusted: false,
+  side,
+  positionEffect,
+  quantity,
+  price,
+  executedAt: at(9, 30 + minute),
+  commission,
+  fees: null,
+  underlyingPrice: null,
+  iv: null,
+});
+
+describe("matchExecutions", () => {
+  const first = fill("buy", 1, 1, 1);
+  const second = fill("buy", 1, 2, 2);
+  const close1 = fill("sell", 1, 3, 3);
+  const close2 = fill("sell", 1, 3, 4);
+  const fills = [first, second, close1, close2];
+
+  it("closes the oldest lot first with FIFO", () => {
+    assert.deepEqual(matchExecutions(fills, "fifo"), { roundTrips: [[first, close1], [second, close2]], unmatched: [] });
+  });
+
+  it("closes the newest lot first with LIFO", () => {
+    assert.deepEqual(matchExecutions(fills, "lifo"), { roundTrips: [[first, close2], [second, close1]], unmatched: [] });
+  });
+
+  it("keeps one round trip per position at average cost", () => {
+    assert.deepEqual(matchExecutions(fills, "average"), { roundTrips: [fills], unmatched: [] });
+  });
+
+  it("closes part of a lot and leaves the rest open", () => {
+    const open = fill("buy", 3, 1, 1);
+    const partial = fill("sell", 1, 2, 2);
+    assert.deepEqual(matchExecutions([open, partial], "fifo"), { roundTrips: [[open, partial]], unmatched: [] });
+  });
+
+  it("opens a new lot with what is left of a closing fill larger than the position", () => {
+    const open = fill("buy", 1, 1, 1);
+    const flip = fill("sell", 3, 2, 2, { commission: 3 });
+    assert.deepEqual(matchExecutions([open, flip], "fifo"), {
+      roundTrips: [
+        [open, { ...flip, quantity: 1, commission: 1 }],
+        [{ ...flip, quantity: 2, commission: 2, positionEffect: "open" }],
+      ],
+      unmatched: [],
+    });
+  });
+
+  it("reports closing fills with nothing open", () => {
+    const close = fill("sell", 1, 2, 1, { positionEffect: "close" });
+    const open = fill("buy", 1, 1, 2);
+    assert.deepEqual(matchExecutions([close, open], "fifo"), { roundTrips: [[open]], unmatched: [close] });
+  });
+});
+
+describe("groupExecutions", () => {
+  it("keeps positions still open at the end of the file open", () => {
+    const { trades, unmatched } = groupExecutions([fill("sell", 1, 2, 2), fill("buy", 3, 1, 1)]);
+    assert.equal(trades.length, 1);
+    assert.deepEqual(unmatched, []);
+    const { quantity, openQuantity, entryPrice, exitPrice, exitTime, pnl } = trades[0].summary;
+    assert.deepEqual({ quantity, openQuantity, entryPrice, exitPrice, exitTime, pnl },
+      { quantity: 3, openQuantity: 2, entryPrice: 1, exitPrice: 2, exitTime: null, pnl: 100 });
+  });
+
+  it("matches each contract on its own and lists round trips in the order they opened", () => {
+    const { trades } = groupExecutions([
+      fill("sell", 1, 3, 4, { strikePrice: 665 }),
+      fill("sell", 1, 2, 3),
+      fill("buy", 1, 1, 2, { strikePrice: 665 }),
+      fill("buy", 1, 1, 1),
+    ], "lifo");
+    assert.deepEqual(trades.map(trade => [trade.strikePrice, trade.executions.length, trade.summary.pnl]), [[660, 2, 100], [665, 2, 200]]);
+  });
+});
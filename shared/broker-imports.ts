@@ -0,0 +1,751 @@
+// Broker imports: a registry of adapters, each recognizing one broker's export from its header row and
+// reading it into normalized executions. Executions are then matched into round-trip trades per contract:
+// one per opening fill, closed first in first out or last in first out, or one per position from the
+// fill that opens it until it is flat again, at its average cost.
+
+import { z } from "zod";
+import { summarizeExecutions, type ExecutionSummary } from "./executions";
+import { isoDate, optionContract, parseOptionSymbol, type OptionContract } from "./option-symbols";
+import { columnMappingSchema, type ColumnMapping, type ImportBatch, type ImportProfile } from "./schema";
+
+export interface ImportedExecution extends OptionContract {
+  side: "buy" | "sell";
+  positionEffect: "open" | "close" | null; // null when the file does not say
+  quantity: number; // contracts, always positive
+  price: number; // per share
+  executedAt: Date;
+  commission: number | null; // null when the export has no charges, so the fee schedule prices the fill
+  fees: number | null;
+  underlyingPrice: number | null;
+  iv: number | null; // percent
+}
+
+export interface BrokerParseOptions {
+  tradeDate: string; // YYYY-MM-DD, given to fills in files that carry no dates
+}
+
+export interface BrokerParseResult {
+  executions: ImportedExecution[];
+  errors: string[]; // one per row that could not be read
+}
+
+export interface BrokerAdapter {
+  id: string;
+  label: string;
+  formatHint: string; // where the export is found and what it looks like
+  datedFills: boolean; // false when fills are given the trade date from the options
+  detect(content: string): boolean;
+  parse(content: string, options: BrokerParseOptions): BrokerParseResult;
+}
+
+export interface ImportedTrade extends OptionContract {
+  executions: ImportedExecution[]; // in time order
+  summary: ExecutionSummary;
+}
+
+export const MATCHING_METHODS = ["fifo", "lifo", "average"] as const;
+export type MatchingMethod = typeof MATCHING_METHODS[number];
+
+export const MATCHING_METHOD_LABELS: Record<MatchingMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  average: "Average cost",
+};
+
+const isoDateText = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const importPreviewRequestSchema = z.object({
+  content: z.string().min(1),
+  fileName: z.string().optional(),
+  tradeDate: isoDateText.optional(), // for files without dates; today when not given
+  mapping: columnMappingSchema.optional(), // read the file with these columns instead of a saved profile or adapter
+  matching: z.enum(MATCHING_METHODS).default("fifo"),
+});
+
+export const importCommitSchema = importPreviewRequestSchema.extend({
+  // Per preview row, the row it was rolled from
+  rolledFrom: z.array(z.number().int().nonnegative().nullable()).optional(),
+});
+
+export type ImportPreviewRequest = z.infer<typeof importPreviewRequestSchema>;
+export type ImportCommitRequest = z.infer<typeof importCommitSchema>;
+
+export const IMPORT_ROW_STATUSES = ["new", "duplicate", "invalid"] as const;
+export type ImportRowStatus = typeof IMPORT_ROW_STATUSES[number];
+
+export interface ImportTradePreview extends OptionContract {
+  direction: "long" | "short";
+  quantity: number;
+  entryPrice: number;
+  exitPrice: number | null; // null while contracts are still open
+  pnl: number | null; // before charges
+  tradeDate: string; // YYYY-MM-DD
+  entryTime: string;
+  exitTime: string | null;
+  fills: number;
+}
+
+export interface ImportRow {
+  row: number;
+  status: ImportRowStatus;
+  trade: ImportTradePreview | null; // null when the row could not be read
+  duplicateOf: number | null; // id of the trade already recorded
+  message: string | null; // why a row is a duplicate or invalid, or a note on a new one
+}
+
+export interface ImportPreview {
+  broker: Pick<BrokerAdapter, "id" | "label" | "datedFills">;
+  profile: Pick<ImportProfile, "id" | "name"> | null; // the saved column mapping applied to the file
+  fileHash: string;
+  previousImport: ImportBatch | null; // the latest batch committed from the same file
+  rows: ImportRow[];
+}
+
+export interface ImportCommitResult {
+  batch: ImportBatch;
+  imported: number;
+  duplicates: number;
+  invalid: number;
+}
+
+// Files that only give a date get their opening fills at the open and closing fills half an hour later
+const DATE_ONLY_OPEN = [9, 30] as const;
+const DATE_ONLY_CLOSE = [10, 0] as const;
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+// Columns split on tabs or unquoted commas, or only on the delimiter given
+const splitColumns = (line: string, delimiter?: string) =>
+  line
+    .split(delimiter ? new RegExp(`${delimiter}(?=(?:[^"]*"[^"]*")*[^"]*$)`) : /\t|,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map(col => col.replace(/"/g, "").trim());
+
+// Files with decimal commas separate their columns with tabs or semicolons
+const delimiterOf = (line: string) =>
+  line.includes("\t") ? "\t" : (line.match(/;/g)?.length ?? 0) > (line.match(/,/g)?.length ?? 0) ? ";" : ",";
+
+const lowerHeaders = (line: string, delimiter?: string) => splitColumns(line, delimiter).map(header => header.toLowerCase());
+
+// Index of the first line whose columns include every one of the headers; with `byDelimiter`,
+// each line is split on its own delimiter
+function findHeaderRow(lines: string[], required: string[], byDelimiter = false): number {
+  return lines.findIndex(line => {
+    const headers = lowerHeaders(line, byDelimiter ? delimiterOf(line) : undefined);
+    return required.every(name => headers.includes(name));
+  });
+}
+
+// Reads a row by header name; the first of several names that is present wins
+function columnReader(headerLine: string, delimiter?: string) {
+  const headers = lowerHeaders(headerLine, delimiter);
+  return (columns: string[], ...names: string[]) => {
+    const index = headers.findIndex(header => names.includes(header));
+    return index >= 0 ? columns[index] ?? "" : "";
+  };
+}
+
+// "$1,234.50", "(12.00)" or "-0.65", or "1.234,50" with a decimal comma; blank and "--" are null
+function parseAmount(text: string | undefined, decimalComma = false): number | null {
+  const raw = (text ?? "").replace(/[$\s]/g, "");
+  const cleaned = decimalComma ? raw.replace(/\./g, "").replace(",", ".") : raw.replace(/,/g, "");
+  if (!cleaned || cleaned === "--") return null;
+  const negative = /^\(.*\)$/.test(cleaned);
+  const value = parseFloat(cleaned.replace(/[()]/g, ""));
+  if (isNaN(value)) return null;
+  return negative ? -value : value;
+}
+
+const fullYear = (year: string) => year.length === 2 ? 2000 + +year : +year;
+
+// "2025-09-26", "20250926", "09/26/2025", "9/26/25" or "26 SEP 25"; "26/09/2025" and "26.09.2025" when day first
+function parseDate(text: string, dayFirst = false): string | null {
+  const trimmed = text.trim();
+  const iso = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (iso) return isoDate(+iso[1], +iso[2], +iso[3]);
+  const numeric = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (numeric) {
+    const [month, day] = dayFirst ? [numeric[2], numeric[1]] : [numeric[1], numeric[2]];
+    return isoDate(fullYear(numeric[3]), +month, +day);
+  }
+  const named = trimmed.match(/^(\d{1,2}) ([A-Z]{3}) (\d{2,4})$/i);
+  const month = named ? MONTHS.indexOf(named[2].toUpperCase()) : -1;
+  if (named && month >= 0) return isoDate(fullYear(named[3]), month + 1, +named[1]);
+  return null;
+}
+
+function localTime(date: string, hour: number, minute: number, second = 0): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day, hour, minute, second);
+}
+
+// A date and an optional "09:45:12", "094512" or "9:45 AM" wall-clock time, read as local time
+function parseDateTime(date: string, time: string | undefined, dayFirst = false): Date | null {
+  const day = parseDate(date, dayFirst);
+  if (!day) return null;
+  const clock = time?.match(/^(\d{1,2}):?(\d{2}):?(\d{2})?\s*(am|pm)?/i);
+  if (!clock) return localTime(day, ...DATE_ONLY_OPEN);
+  const meridiem = clock[4]?.toLowerCase();
+  const hour = meridiem ? +clock[1] % 12 + (meridiem === "pm" ? 12 : 0) : +clock[1];
+  return localTime(day, hour, +clock[2], +(clock[3] ?? 0));
+}
+
+function dateOnlyFill(date: string, positionEffect: ImportedExecution["positionEffect"]): Date {
+  const [hour, minute] = positionEffect === "close" ? DATE_ONLY_CLOSE : DATE_ONLY_OPEN;
+  return localTime(date, hour, minute);
+}
+
+// A contract given in separate root, expiration, strike and call/put columns
+function columnsContract(
+  symbol: string, root: string, expiration: string, strike: string, callPut: string, dayFirst = false, decimalComma = false,
+): OptionContract | null {
+  const expirationDate = parseDate(expiration, dayFirst);
+  const strikePrice = parseAmount(strike, decimalComma);
+  const type = /^c/i.test(callPut) ? "calls" : /^p/i.test(callPut) ? "puts" : null;
+  if (!root || !expirationDate || strikePrice === null || !type) return null;
+  return optionContract(symbol, root, type, strikePrice, expirationDate);
+}
+
+// Also the order codes B, S, BTO, STO, BTC and STC
+const sideOf = (text: string): ImportedExecution["side"] | null =>
+  /^\s*(buy|bot|bought|you bought|b|bto|btc)\b/i.test(text) ? "buy"
+    : /^\s*(sell|sld|sold|you sold|s|sto|stc)\b/i.test(text) ? "sell"
+    : null;
+
+const effectOf = (text: string): ImportedExecution["positionEffect"] =>
+  /\b(to open|opening|bto|sto)\b/i.test(text) ? "open" : /\b(to close|closing|btc|stc)\b/i.test(text) ? "close" : null;
+
+function toExecution(
+  contract: OptionContract,
+  fill: Pick<ImportedExecution, "side" | "positionEffect" | "quantity" | "price" | "executedAt"> & Partial<ImportedExecution>,
+): ImportedExecution {
+  return {
+    ...contract,
+    commission: null,
+    fees: null,
+    underlyingPrice: null,
+    iv: null,
+    ...fill,
+    quantity: Math.abs(fill.quantity),
+    price: Math.abs(fill.price),
+  };
+}
+
+// E*TRADE gain/loss: one closed round trip per row with per-share basis and proceeds and no dates.
+// A negative quantity was sold to open, so its proceeds came in first.
+const etradeAdapter: BrokerAdapter = {
+  id: "etrade",
+  label: "E*TRADE",
+  formatHint: "Gains & Losses CSV with Symbol, Basis/Share, Proceeds/Share and Quantity; symbols like -SPY250703C618. Optional Underlying Entry/Exit and IV Entry/Exit columns.",
+  datedFills: false,
+  detect: content => findHeaderRow(content.split(/\r?\n/), ["symbol", "basis/share", "proceeds/share"]) >= 0,
+  parse(content, { tradeDate }) {
+    const lines = content.split(/\r?\n/).filter(line => line.trim());
+    const headerIndex = findHeaderRow(lines, ["symbol", "basis/share", "proceeds/share"]);
+    const read = columnReader(lines[headerIndex]);
+    const executions: ImportedExecution[] = [];
+    const errors: string[] = [];
+
+    lines.slice(headerIndex + 1).forEach((line, index) => {
+      if (line.trim().startsWith("TOTALS")) return;
+      const columns = splitColumns(line);
+      const contract = parseOptionSymbol(read(columns, "symbol"));
+      if (!contract) return; // stock and summary rows
+      const basis = parseAmount(read(columns, "basis/share"));
+      const proceeds = parseAmount(read(columns, "proceeds/share"));
+      // Older exports leave the quantity column unnamed in the eighth position
+      const quantity = parseAmount(read(columns, "quantity", "qty") || columns[7]);
+      if (basis === null || proceeds === null || !quantity) {
+        errors.push(`Row ${headerIndex + index + 2}: ${contract.symbol} needs Basis/Share, Proceeds/Share and Quantity`);
+        return;
+      }
+      const short = quantity < 0;
+      const optional = (...names: string[]) => parseAmount(read(columns, ...names));
+      executions.push(toExecution(contract, {
+        side: short ? "sell" : "buy",
+        positionEffect: "open",
+        quantity,
+        price: short ? proceeds : basis,
+        executedAt: dateOnlyFill(tradeDate, "open"),
+        underlyingPrice: optional("underlying entry"),
+        iv: optional("iv entry"),
+      }));
+      executions.push(toExecution(contract, {
+        side: short ? "buy" : "sell",
+        positionEffect: "close",
+        quantity,
+        price: short ? basis : proceeds,
+        executedAt: dateOnlyFill(tradeDate, "close"),
+        underlyingPrice: optional("underlying exit"),
+        iv: optional("iv exit"),
+      }));
+    });
+    return { executions, errors };
+  },
+};
+
+const TOS_HEADERS = ["exec time", "side", "qty", "pos effect", "symbol", "exp", "strike", "type", "price"];
+const SCHWAB_HEADERS = ["date", "action", "symbol", "quantity", "price"];
+
+// thinkorswim account statement: the Account Trade History section, ended by a blank line.
+// Later legs of a spread leave Exec Time blank and share the first leg's.
+function parseTosTradeHistory(content: string): BrokerParseResult {
+  const lines = content.split(/\r?\n/);
+  const headerIndex = findHeaderRow(lines, TOS_HEADERS);
+  const read = columnReader(lines[headerIndex]);
+  const executions: ImportedExecution[] = [];
+  const errors: string[] = [];
+  let execTime = "";
+
+  for (let i = headerIndex + 1; i < lines.length && lines[i].trim(); i++) {
+    const columns = splitColumns(lines[i]);
+    execTime = read(columns, "exec time") || execTime;
+    const type = read(columns, "type");
+    if (!/^(call|put)$/i.test(type)) continue; // stock legs
+    const side = sideOf(read(columns, "side"));
+    const contract = columnsContract(
+      `${read(columns, "symbol")} ${read(columns, "exp")} ${read(columns, "strike")} ${type}`,
+      read(columns, "symbol"),
+      read(columns, "exp"),
+      read(columns, "strike"),
+      type,
+    );
+    const [date, time] = execTime.split(/\s+/);
+    const executedAt = date ? parseDateTime(date, time) : null;
+    const quantity = parseAmount(read(columns, "qty"));
+    const price = parseAmount(read(columns, "price"));
+    if (!side || !contract || !executedAt || !quantity || price === null) {
+      errors.push(`Trade history row ${i - headerIndex}: needs a side, contract, time, quantity and price`);
+      continue;
+    }
+    executions.push(toExecution(contract, {
+      side,
+      positionEffect: effectOf(read(columns, "pos effect")),
+      quantity,
+      price,
+      executedAt,
+    }));
+  }
+  return { executions, errors };
+}
+
+// schwab.com transaction history: one row per order with a date only, and symbols like "SPY 09/26/2025 660.00 C"
+function parseSchwabTransactions(content: string): BrokerParseResult {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  const headerIndex = findHeaderRow(lines, SCHWAB_HEADERS);
+  const read = columnReader(lines[headerIndex]);
+  const executions: ImportedExecution[] = [];
+  const errors: string[] = [];
+
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    const columns = splitColumns(line);
+    const action = read(columns, "action");
+    const side = sideOf(action);
+    const positionEffect = effectOf(action);
+    if (!side || !positionEffect) return; // expirations, assignments, cash and stock
+    const contract = parseOptionSymbol(read(columns, "symbol"));
+    // "09/26/2025 as of 09/25/2025" is the settlement date as of the trade date
+    const date = parseDate(read(columns, "date").split(/ as of /i).pop() ?? "");
+    const quantity = parseAmount(read(columns, "quantity"));
+    const price = parseAmount(read(columns, "price"));
+    if (!contract || !date || !quantity || price === null) {
+      errors.push(`Row ${headerIndex + index + 2}: needs an option symbol, date, quantity and price`);
+      return;
+    }
+    executions.push(toExecution(contract, {
+      side,
+      positionEffect,
+      quantity,
+      price,
+      executedAt: dateOnlyFill(date, positionEffect),
+      commission: Math.abs(parseAmount(read(columns, "fees & comm")) ?? 0),
+      fees: 0,
+    }));
+  });
+  return { executions, errors };
+}
+
+const schwabAdapter: BrokerAdapter = {
+  id: "schwab",
+  label: "Schwab / thinkorswim",
+  formatHint: "thinkorswim Account Statement CSV (Account Trade History section), or schwab.com transaction history CSV.",
+  datedFills: true,
+  detect(content) {
+    const lines = content.split(/\r?\n/);
+    return findHeaderRow(lines, TOS_HEADERS) >= 0
+      || findHeaderRow(lines, [...SCHWAB_HEADERS, "fees & comm"]) >= 0;
+  },
+  parse(content) {
+    return findHeaderRow(content.split(/\r?\n/), TOS_HEADERS) >= 0
+      ? parseTosTradeHistory(content)
+      : parseSchwabTransactions(content);
+  },
+};
+
+// Fidelity account activity: Action reads like "YOU BOUGHT OPENING TRANSACTION CALL (SPY) ...",
+// symbols like " -SPY250926C660", dates only, newest first
+const fidelityAdapter: BrokerAdapter = {
+  id: "fidelity",
+  label: "Fidelity",
+  formatHint: "Activity & Orders history CSV (Run Date, Action, Symbol, Quantity, Price, Commission, Fees).",
+  datedFills: true,
+  detect: content => findHeaderRow(content.split(/\r?\n/), ["run date", "action", "symbol"]) >= 0,
+  parse(content) {
+    const lines = content.split(/\r?\n/).filter(line => line.trim());
+    const headerIndex = findHeaderRow(lines, ["run date", "action", "symbol"]);
+    const read = columnReader(lines[headerIndex]);
+    const executions: ImportedExecution[] = [];
+    const errors: string[] = [];
+
+    lines.slice(headerIndex + 1).forEach((line, index) => {
+      const columns = splitColumns(line);
+      const action = read(columns, "action");
+      const side = /YOU BOUGHT/i.test(action) ? "buy" : /YOU SOLD/i.test(action) ? "sell" : null;
+      const contract = parseOptionSymbol(read(columns, "symbol"));
+      if (!side || !contract) return; // expirations, assignments, stock and the closing disclaimer
+      const date = parseDate(read(columns, "run date", "trade date"));
+      const quantity = parseAmount(read(columns, "quantity"));
+      const price = parseAmount(read(columns, "price ($)", "price"));
+      if (!date || !quantity || price === null) {
+        errors.push(`Row ${headerIndex + index + 2}: ${contract.symbol} needs a date, quantity and price`);
+        return;
+      }
+      const positionEffect = effectOf(action);
+      executions.push(toExecution(contract, {
+        side,
+        positionEffect,
+        quantity,
+        price,
+        executedAt: dateOnlyFill(date, positionEffect),
+        commission: Math.abs(parseAmount(read(columns, "commission ($)", "commission")) ?? 0),
+        fees: Math.abs(parseAmount(read(columns, "fees ($)", "fees")) ?? 0),
+      }));
+    });
+    return { executions, errors };
+  },
+};
+
+// Field names of a Flex query, lowercased with punctuation dropped so XML attributes
+// (buySell, openCloseIndicator) and CSV headers (Buy/Sell, Open/CloseIndicator) read the same
+const flexKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function ibkrExecution(record: Map<string, string>, row: string): ImportedExecution | string | null {
+  const field = (...names: string[]) => names.map(name => record.get(name)).find(value => value !== undefined && value !== "") ?? "";
+  if (!/^(opt|fop)$/i.test(field("assetcategory", "assetclass"))) return null;
+  const level = field("levelofdetail");
+  if (level && !/execution/i.test(level)) return null; // order and symbol summaries repeat the executions
+  const buySell = field("buysell");
+  if (/\(ca\.\)/i.test(buySell)) return null; // cancelled executions
+
+  const symbol = field("symbol");
+  const contract = parseOptionSymbol(symbol)
+    ?? columnsContract(symbol, field("underlyingsymbol") || symbol.split(/\s+/)[0], field("expiry"), field("strike"), field("putcall"));
+  const side = sideOf(buySell);
+  const [date, time] = field("datetime").split(/[;,\s]+/);
+  const executedAt = parseDateTime(date || field("tradedate"), time || field("tradetime"));
+  const quantity = parseAmount(field("quantity"));
+  const price = parseAmount(field("tradeprice", "price"));
+  if (!contract || !side || !executedAt || !quantity || price === null) {
+    return `${row}: needs a contract, Buy/Sell, DateTime, Quantity and TradePrice`;
+  }
+  const openClose = field("opencloseindicator").toUpperCase();
+  return toExecution(contract, {
+    side,
+    positionEffect: openClose === "O" ? "open" : openClose === "C" ? "close" : null,
+    quantity,
+    price,
+    executedAt,
+    commission: Math.abs(parseAmount(field("ibcommission", "commission")) ?? 0),
+    fees: 0,
+  });
+}
+
+// Interactive Brokers Flex query: <Trade .../> elements of the XML report, or the CSV report's Trades section
+const ibkrAdapter: BrokerAdapter = {
+  id: "ibkr",
+  label: "Interactive Brokers",
+  formatHint: "Flex query Trades report as XML or CSV, with DateTime, Buy/Sell, Quantity, TradePrice, IBCommission and Open/CloseIndicator.",
+  datedFills: true,
+  detect: content => /<FlexQueryResponse\b|<Trade\s/.test(content)
+    || content.split(/\r?\n/).some(line => {
+      const keys = splitColumns(line).map(flexKey);
+      return keys.includes("tradeprice") && (keys.includes("buysell") || keys.includes("ibcommission"));
+    }),
+  parse(content) {
+    const results: Array<ImportedExecution | string | null> = [];
+    if (/<Trade\s/.test(content)) {
+      Array.from(content.matchAll(/<Trade\s([^>]*?)\/?>/g)).forEach((element, index) => {
+        const record = new Map(Array.from(element[1].matchAll(/(\w+)="([^"]*)"/g), ([, name, value]) => [flexKey(name), value]));
+        results.push(ibkrExecution(record, `Trade ${index + 1}`));
+      });
+    } else {
+      const lines = content.split(/\r?\n/).filter(line => line.trim());
+      let keys: string[] = [];
+      lines.forEach((line, index) => {
+        const columns = splitColumns(line);
+        const lineKeys = columns.map(flexKey);
+        if (lineKeys.includes("tradeprice")) {
+          keys = lineKeys; // a report with several sections repeats its header row
+          return;
+        }
+        if (keys.length === 0) return;
+        results.push(ibkrExecution(new Map(keys.map((key, i) => [key, columns[i] ?? ""])), `Row ${index + 1}`));
+      });
+    }
+    return {
+      executions: results.filter((result): result is ImportedExecution => typeof result === "object" && result !== null),
+      errors: results.filter((result): result is string => typeof result === "string"),
+    };
+  },
+};
+
+// Tastytrade transaction history: Action is BUY_TO_OPEN and the like, Date is an ISO timestamp with offset
+const tastytradeAdapter: BrokerAdapter = {
+  id: "tastytrade",
+  label: "Tastytrade",
+  formatHint: "Transactions CSV (Date, Type, Action, Symbol, Instrument Type, Quantity, Average Price, Commissions, Fees).",
+  datedFills: true,
+  detect: content => findHeaderRow(content.split(/\r?\n/), ["instrument type", "average price", "call or put"]) >= 0,
+  parse(content) {
+    const lines = content.split(/\r?\n/).filter(line => line.trim());
+    const headerIndex = findHeaderRow(lines, ["instrument type", "average price", "call or put"]);
+    const read = columnReader(lines[headerIndex]);
+    const executions: ImportedExecution[] = [];
+    const errors: string[] = [];
+
+    lines.slice(headerIndex + 1).forEach((line, index) => {
+      const columns = splitColumns(line);
+      const instrument = read(columns, "instrument type");
+      const action = read(columns, "action").replace(/_/g, " ");
+      const side = sideOf(action);
+      // Expirations and assignments come through as Receive Deliver rows without an order action
+      if (!/option/i.test(instrument) || /future/i.test(instrument) || !side) return;
+      const symbol = read(columns, "symbol");
+      const contract = parseOptionSymbol(symbol) ?? columnsContract(
+        symbol,
+        read(columns, "root symbol", "underlying symbol"),
+        read(columns, "expiration date"),
+        read(columns, "strike price"),
+        read(columns, "call or put"),
+      );
+      const timestamp = new Date(read(columns, "date").replace(/([+-]\d{2})(\d{2})$/, "$1:$2"));
+      const quantity = parseAmount(read(columns, "quantity"));
+      // Average Price is per contract, so it carries the multiplier
+      const average = parseAmount(read(columns, "average price"));
+      const price = average === null ? null : average / (parseAmount(read(columns, "multiplier")) || 100);
+      if (!contract || isNaN(timestamp.getTime()) || !quantity || price === null) {
+        errors.push(`Row ${headerIndex + index + 2}: needs a contract, date, quantity and average price`);
+        return;
+      }
+      executions.push(toExecution(contract, {
+        side,
+        positionEffect: effectOf(action),
+        quantity,
+        price,
+        executedAt: timestamp,
+        commission: Math.abs(parseAmount(read(columns, "commissions")) ?? 0),
+        fees: Math.abs(parseAmount(read(columns, "fees")) ?? 0),
+      }));
+    });
+    return { executions, errors };
+  },
+};
+
+// Checked in order; the first adapter that recognizes the file reads it
+export const BROKER_ADAPTERS: BrokerAdapter[] = [
+  ibkrAdapter,
+  tastytradeAdapter,
+  schwabAdapter,
+  fidelityAdapter,
+  etradeAdapter,
+];
+
+export function detectBrokerAdapter(content: string): BrokerAdapter | undefined {
+  return BROKER_ADAPTERS.find(adapter => adapter.detect(content));
+}
+
+// The first line with at least three named columns, as written
+export function fileHeaders(content: string): string[] | null {
+  const line = content.split(/\r?\n/).find(line => splitColumns(line, delimiterOf(line)).filter(Boolean).length >= 3);
+  return line ? splitColumns(line, delimiterOf(line)) : null;
+}
+
+// Identifies a layout by its header row, so a saved mapping is applied to later files from the same export
+export const headerSignature = (headers: string[]) => headers.map(header => header.toLowerCase()).join("|");
+
+const mappedHeaders = (mapping: ColumnMapping) =>
+  [mapping.symbol, mapping.underlying, mapping.expiration, mapping.strike, mapping.callPut, mapping.side,
+    mapping.quantity, mapping.price, mapping.date, mapping.time, mapping.commission, mapping.fees]
+    .filter((header): header is string => !!header)
+    .map(header => header.toLowerCase());
+
+// Reads a file with columns assigned by hand. Side text such as "Buy to Open" or "STC" also gives the
+// position effect; without a side column the sign of the quantity does.
+export function mappedAdapter(mapping: ColumnMapping, label: string): BrokerAdapter {
+  const required = mappedHeaders(mapping);
+  const dayFirst = mapping.dateFormat === "DD/MM/YYYY";
+  const decimalComma = mapping.numberFormat === "1.234,56";
+  const amount = (text: string) => parseAmount(text, decimalComma);
+  return {
+    id: "custom",
+    label,
+    formatHint: "Any CSV, with its columns mapped to trade fields.",
+    datedFills: true,
+    detect: content => findHeaderRow(content.split(/\r?\n/), required, true) >= 0,
+    parse(content) {
+      const lines = content.split(/\r?\n/).filter(line => line.trim());
+      const headerIndex = findHeaderRow(lines, required, true);
+      const executions: ImportedExecution[] = [];
+      const errors: string[] = [];
+      if (headerIndex < 0) return { executions, errors: [`The file has no row with the columns ${required.join(", ")}`] };
+      const delimiter = delimiterOf(lines[headerIndex]);
+      const read = columnReader(lines[headerIndex], delimiter);
+
+      lines.slice(headerIndex + 1).forEach((line, index) => {
+        const columns = splitColumns(line, delimiter);
+        const column = (header: string | undefined) => header ? read(columns, header.toLowerCase()) : "";
+        const row = `Row ${headerIndex + index + 2}`;
+        const contract = mapping.symbolFormat === "occ"
+          ? parseOptionSymbol(column(mapping.symbol))
+          : columnsContract(
+            [mapping.underlying, mapping.expiration, mapping.strike, mapping.callPut].map(column).join(" "),
+            column(mapping.underlying),
+            column(mapping.expiration),
+            column(mapping.strike),
+            column(mapping.callPut),
+            dayFirst,
+            decimalComma,
+          );
+        if (!contract) {
+          const written = column(mapping.symbolFormat === "occ" ? mapping.symbol : mapping.underlying);
+          if (written) errors.push(`${row}: "${written}" is not an option contract`); // blank for totals and notes
+          return;
+        }
+        const quantity = amount(column(mapping.quantity));
+        const sideText = column(mapping.side);
+        const side = mapping.side ? sideOf(sideText) : quantity !== null && quantity < 0 ? "sell" : "buy";
+        const positionEffect = effectOf(sideText);
+        const [date, ...clock] = column(mapping.date).split(/[T\s]+/);
+        const time = column(mapping.time) || clock.join(" ");
+        const day = parseDate(date, dayFirst);
+        const executedAt = !day ? null : time ? parseDateTime(date, time, dayFirst) : dateOnlyFill(day, positionEffect);
+        const price = amount(column(mapping.price));
+        if (!side || !executedAt || !quantity || price === null) {
+          errors.push(`${row}: ${contract.symbol} needs a side, date, quantity and price`);
+          return;
+        }
+        const charge = (header: string | undefined) =>
+          mapping.commission || mapping.fees ? Math.abs(amount(column(header)) ?? 0) : null;
+        executions.push(toExecution(contract, {
+          side,
+          positionEffect,
+          quantity,
+          price,
+          executedAt,
+          commission: charge(mapping.commission),
+          fees: charge(mapping.fees),
+        }));
+      });
+      return { executions, errors };
+    },
+  };
+}
+
+const contractKey = (contract: OptionContract) =>
+  `${contract.root}|${contract.type}|${contract.strikePrice}|${contract.expirationDate}`;
+
+const EFFECT_ORDER = { open: 0, null: 1, close: 2 } as const;
+
+// Part of a fill, with its charges in proportion
+function portion(fill: ImportedExecution, quantity: number): ImportedExecution {
+  if (quantity === fill.quantity) return fill;
+  const share = (charge: number | null) => charge === null ? null : charge * quantity / fill.quantity;
+  return { ...fill, quantity, commission: share(fill.commission), fees: share(fill.fees) };
+}
+
+interface Lot {
+  fills: ImportedExecution[];
+  open: number; // contracts not yet closed
+}
+
+// Pairs one contract's fills, in time order, into round trips. FIFO and LIFO open a round trip for each
+// opening fill and close the oldest or newest first; average cost keeps one round trip per position. A
+// closing fill larger than the position is split, the rest opening the next round trip, and round trips
+// still open at the end of the file are kept open. Closing fills with nothing open belong to a position
+// opened before the file starts and are reported instead.
+export function matchExecutions(
+  fills: ImportedExecution[],
+  method: MatchingMethod,
+): { roundTrips: ImportedExecution[][]; unmatched: ImportedExecution[] } {
+  const roundTrips: ImportedExecution[][] = [];
+  const unmatched: ImportedExecution[] = [];
+  let lots: Lot[] = []; // open, oldest first
+
+  const openLot = (fill: ImportedExecution) => {
+    const lot = { fills: [fill], open: fill.quantity };
+    roundTrips.push(lot.fills);
+    lots.push(lot);
+  };
+
+  fills.forEach(fill => {
+    const openSide = lots[0]?.fills[0].side;
+    if (!openSide && fill.positionEffect === "close") {
+      unmatched.push(fill);
+    } else if (!openSide || fill.side === openSide) {
+      if (method === "average" && lots.length > 0) {
+        lots[0].fills.push(fill);
+        lots[0].open += fill.quantity;
+      } else {
+        openLot(fill);
+      }
+    } else {
+      let remaining = fill.quantity;
+      while (remaining > 0 && lots.length > 0) {
+        const lot = method === "lifo" ? lots[lots.length - 1] : lots[0];
+        const closing = Math.min(remaining, lot.open);
+        lot.fills.push(portion(fill, closing));
+        lot.open -= closing;
+        remaining -= closing;
+        if (lot.open === 0) lots = lots.filter(open => open !== lot);
+      }
+      if (remaining > 0) openLot({ ...portion(fill, remaining), positionEffect: "open" });
+    }
+  });
+  return { roundTrips, unmatched };
+}
+
+// Round trips for every contract in the file, in the order they were opened
+export function groupExecutions(
+  executions: ImportedExecution[],
+  method: MatchingMethod = "fifo",
+): { trades: ImportedTrade[]; unmatched: ImportedExecution[] } {
+  const fills = [...executions].sort((a, b) =>
+    a.executedAt.getTime() - b.executedAt.getTime()
+    || EFFECT_ORDER[a.positionEffect ?? "null"] - EFFECT_ORDER[b.positionEffect ?? "null"]);
+  const byContract = new Map<string, ImportedExecution[]>();
+  fills.forEach(fill => {
+    const key = contractKey(fill);
+    byContract.set(key, [...(byContract.get(key) ?? []), fill]);
+  });
+
+  const grouped: ImportedExecution[][] = [];
+  const unmatched: ImportedExecution[] = [];
+  byContract.forEach(contractFills => {
+    const matched = matchExecutions(contractFills, method);
+    grouped.push(...matched.roundTrips);
+    unmatched.push(...matched.unmatched);
+  });
+  grouped.sort((a, b) => a[0].executedAt.getTime() - b[0].executedAt.getTime());
+
+  const trades = grouped.map(group => ({
+    symbol: group[0].symbol,
+    ticker: group[0].ticker,
+    root: group[0].root,
+    type: group[0].type,
+    strikePrice: group[0].strikePrice,
+    expirationDate: group[0].expirationDate,
+    adjusted: group[0].adjusted,
+    executions: group,
+    summary: summarizeExecutions(group)!,
+  }));
+  return { trades, unmatched };
+}
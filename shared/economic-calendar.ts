@@ -0,0 +1,250 @@
+// Economic calendar: events read from an ICS or CSV export, the category and impact each one gets,
+// the trades entered close enough to an event to be tagged with it, and the event-day report payload
+
+import { z } from "zod";
+import type { EconomicEvent, EconomicImpact, InsertEconomicEvent, Trade } from "./schema";
+
+// Trades entered this many minutes either side of a timed event are tagged with it
+export const EVENT_WINDOW_MINUTES = 30;
+
+// US releases are published in Eastern time; files without a zone are read in the zone chosen on import
+export const DEFAULT_EVENT_TIME_ZONE = "America/New_York";
+export const EVENT_TIME_ZONES = ["America/New_York", "America/Chicago", "UTC"] as const;
+
+// All-day events are stored at noon, so they fall on their own date in any US time zone
+const ALL_DAY_HOUR = 12;
+
+// First matching category wins; its impact is used when the file does not give one
+const EVENT_CATEGORIES: Array<{ category: string; pattern: RegExp; impact: EconomicImpact }> = [
+  { category: "FOMC", pattern: /\bFOMC\b|fed(eral)? (funds|reserve)|interest rate decision|powell/i, impact: "high" },
+  { category: "CPI", pattern: /\bCPI\b|consumer price/i, impact: "high" },
+  { category: "NFP", pattern: /non-?farm|\bNFP\b|employment situation/i, impact: "high" },
+  { category: "PCE", pattern: /\bPCE\b|personal consumption/i, impact: "high" },
+  { category: "PPI", pattern: /\bPPI\b|producer price/i, impact: "medium" },
+  { category: "GDP", pattern: /\bGDP\b|gross domestic/i, impact: "medium" },
+  { category: "Retail Sales", pattern: /retail sales/i, impact: "medium" },
+  { category: "ISM/PMI", pattern: /\bISM\b|\bPMI\b/i, impact: "medium" },
+  { category: "Jobless Claims", pattern: /jobless claims|initial claims/i, impact: "low" },
+];
+
+export const OTHER_EVENT_CATEGORY = "Other";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const economicEventFiltersSchema = z.object({
+  from: isoDate.optional(), // event date, inclusive
+  to: isoDate.optional(), // event date, inclusive
+});
+
+export type EconomicEventFilters = z.infer<typeof economicEventFiltersSchema>;
+
+export const economicCalendarImportSchema = z.object({
+  content: z.string().min(1),
+  fileName: z.string().optional(),
+  timeZone: z.enum(EVENT_TIME_ZONES).default(DEFAULT_EVENT_TIME_ZONE),
+});
+
+export interface CalendarParseResult {
+  events: InsertEconomicEvent[];
+  errors: string[]; // one per entry that could not be read
+}
+
+export interface EventDayStats {
+  label: string;
+  days: number;
+  trades: number;
+  wins: number;
+  winRate: number; // percent
+  totalPnL: number;
+  avgPnL: number;
+}
+
+export interface EventDayReport {
+  eventDays: EventDayStats; // days with a high-impact event
+  quietDays: EventDayStats; // days without a high- or medium-impact event
+  categories: EventDayStats[]; // days with an event of each category, most trades first
+  inWindow: EventDayStats; // trades tagged with an event
+  outsideWindow: EventDayStats;
+}
+
+const IMPACT_RANK: Record<EconomicImpact, number> = { high: 3, medium: 2, low: 1 };
+
+export function eventCategory(name: string): { category: string; impact: EconomicImpact } {
+  const match = EVENT_CATEGORIES.find(entry => entry.pattern.test(name));
+  return match ? { category: match.category, impact: match.impact } : { category: OTHER_EVENT_CATEGORY, impact: "low" };
+}
+
+// Impact spelled out in a field, as in "High Impact Expected" or "3 - medium"
+function impactFromText(text: string | undefined): EconomicImpact | null {
+  const match = text?.toLowerCase().match(/\b(high|medium|low)\b/);
+  return match ? match[1] as EconomicImpact : null;
+}
+
+export function highestImpact(events: Pick<EconomicEvent, "impact">[]): EconomicImpact | null {
+  return events.reduce<EconomicImpact | null>((best, event) => {
+    const impact = event.impact as EconomicImpact;
+    return best === null || IMPACT_RANK[impact] > IMPACT_RANK[best] ? impact : best;
+  }, null);
+}
+
+function isKnownTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+function zoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+// The instant a wall-clock time in the given zone refers to
+export function zonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  return new Date(guess - zoneOffsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+function toEvent(name: string, eventTime: Date, allDay: boolean, impact: EconomicImpact | null): InsertEconomicEvent {
+  const category = eventCategory(name);
+  return { name, eventTime, allDay, category: category.category, impact: impact ?? category.impact };
+}
+
+// ICS: VEVENT blocks with SUMMARY and DTSTART. DTSTART may be UTC (trailing Z), carry a TZID, be a
+// date only (an all-day event) or be floating, read in the import zone. PRIORITY 1-4 is high impact,
+// 5 medium and 6-9 low; otherwise impact is looked for in CATEGORIES and DESCRIPTION.
+export function parseIcsEvents(content: string, timeZone: string): CalendarParseResult {
+  const lines = content.replace(/\r\n/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: InsertEconomicEvent[] = [];
+  const errors: string[] = [];
+  let current: Map<string, { params: string; value: string }> | null = null;
+
+  lines.forEach(line => {
+    if (line.trim() === "BEGIN:VEVENT") {
+      current = new Map();
+      return;
+    }
+    if (line.trim() === "END:VEVENT") {
+      const block: Map<string, { params: string; value: string }> = current ?? new Map();
+      current = null;
+      const name = block.get("SUMMARY")?.value.replace(/\\([,;\\])/g, "$1").trim();
+      const start = block.get("DTSTART");
+      const match = start?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+      if (!name || !start || !match) {
+        errors.push(`Skipped event "${name ?? "untitled"}": missing or unreadable DTSTART`);
+        return;
+      }
+      const [, year, month, day, hour, minute, utc] = match;
+      const allDay = hour === undefined;
+      const tzid = start.params.match(/TZID=([^;:]+)/)?.[1];
+      const zone = utc ? "UTC" : tzid && isKnownTimeZone(tzid) ? tzid : timeZone;
+      const eventTime = zonedTime(+year, +month, +day, allDay ? ALL_DAY_HOUR : +hour, allDay ? 0 : +minute, zone);
+      const priority = Number(block.get("PRIORITY")?.value);
+      const impact = priority >= 1 && priority <= 4 ? "high"
+        : priority === 5 ? "medium"
+        : priority >= 6 && priority <= 9 ? "low"
+        : impactFromText(block.get("CATEGORIES")?.value) ?? impactFromText(block.get("DESCRIPTION")?.value);
+      events.push(toEvent(name, eventTime, allDay, impact));
+      return;
+    }
+    if (!current) return;
+    const separator = line.indexOf(":");
+    if (separator < 0) return;
+    const [key, ...params] = line.slice(0, separator).split(";");
+    current.set(key.toUpperCase(), { params: params.join(";"), value: line.slice(separator + 1) });
+  });
+
+  return { events, errors };
+}
+
+const splitColumns = (line: string) =>
+  line.split(/\t|,(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(col => col.replace(/"/g, "").trim());
+
+// "2026-10-15" or "10/15/2026"
+function parseDate(text: string): [number, number, number] | null {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return [+iso[1], +iso[2], +iso[3]];
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (us) return [us[3].length === 2 ? 2000 + +us[3] : +us[3], +us[1], +us[2]];
+  return null;
+}
+
+// "08:30", "8:30 AM" or "2:00pm"; empty or "All Day" is an all-day event
+function parseTime(text: string): [number, number] | null | "all-day" {
+  if (!text || /all ?day|tentative/i.test(text)) return "all-day";
+  const match = text.match(/^(\d{1,2}):(\d{2})\s*(am|pm)?$/i);
+  if (!match) return null;
+  let hour = +match[1];
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hour < 12) hour += 12;
+  if (meridiem === "am" && hour === 12) hour = 0;
+  return hour < 24 && +match[2] < 60 ? [hour, +match[2]] : null;
+}
+
+// CSV with a header row naming at least a date and an event column (event, name, title or
+// summary); time and impact columns are optional. Times are read in the import zone.
+export function parseCsvEvents(content: string, timeZone: string): CalendarParseResult {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return { events: [], errors: ["The file is empty"] };
+
+  const headers = splitColumns(lines[0]).map(header => header.toLowerCase());
+  const column = (...names: string[]) => headers.findIndex(header => names.includes(header));
+  const dateColumn = column("date", "day");
+  const timeColumn = column("time");
+  const nameColumn = column("event", "name", "title", "summary");
+  const impactColumn = column("impact", "importance", "priority");
+  if (dateColumn < 0 || nameColumn < 0) {
+    return { events: [], errors: ["The header row needs a date and an event column"] };
+  }
+
+  const events: InsertEconomicEvent[] = [];
+  const errors: string[] = [];
+  lines.slice(1).forEach((line, index) => {
+    const columns = splitColumns(line);
+    const name = columns[nameColumn];
+    const date = parseDate(columns[dateColumn] ?? "");
+    const time = parseTime(timeColumn >= 0 ? columns[timeColumn] ?? "" : "");
+    if (!name || !date || time === null) {
+      errors.push(`Row ${index + 2}: needs an event name, a date and a readable time`);
+      return;
+    }
+    const allDay = time === "all-day";
+    const [hour, minute] = allDay ? [ALL_DAY_HOUR, 0] : time;
+    events.push(toEvent(
+      name,
+      zonedTime(date[0], date[1], date[2], hour, minute, timeZone),
+      allDay,
+      impactFromText(impactColumn >= 0 ? columns[impactColumn] : undefined),
+    ));
+  });
+  return { events, errors };
+}
+
+export function parseEconomicCalendar(content: string, timeZone: string, fileName = ""): CalendarParseResult {
+  const isIcs = /\.ics$/i.test(fileName) || /BEGIN:VCALENDAR/.test(content);
+  return isIcs ? parseIcsEvents(content, timeZone) : parseCsvEvents(content, timeZone);
+}
+
+// The timed event nearest the trade's entry within the window; the higher impact wins a tie
+export function eventForTrade(trade: Pick<Trade, "entryTime">, events: EconomicEvent[]): EconomicEvent | undefined {
+  const entry = new Date(trade.entryTime).getTime();
+  const distance = (event: EconomicEvent) => Math.abs(new Date(event.eventTime).getTime() - entry);
+  return events
+    .filter(event => !event.allDay && distance(event) <= EVENT_WINDOW_MINUTES * 60000)
+    .sort((a, b) => distance(a) - distance(b)
+      || IMPACT_RANK[b.impact as EconomicImpact] - IMPACT_RANK[a.impact as EconomicImpact])[0];
+}
@@ -0,0 +1,79 @@
+// Derives a trade's entry, exit and realized P&L from its individual fills.
+// The first fill's side opens the position; fills on the other side close it.
+// Realized P&L uses the running average cost of the open contracts.
+
+import { CONTRACT_MULTIPLIER } from "./positions";
+
+export interface Execution {
+  side: "buy" | "sell" | string;
+  quantity: number;
+  price: number;
+  executedAt: Date | string;
+}
+
+export interface ExecutionSummary {
+  side: Execution["side"]; // side of the opening fills
+  quantity: number; // total contracts opened
+  openQuantity: number;
+  entryPrice: number; // average opening price
+  exitPrice: number | null; // average closing price, null until something is closed
+  entryTime: Date;
+  exitTime: Date | null; // last closing fill, null while contracts are still open
+  pnl: number | null; // realized so far, null until something is closed
+  holdingMinutes: number | null; // first fill until flat, null while still open
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function sortExecutions<T extends Execution>(executions: T[]): T[] {
+  return [...executions].sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+}
+
+export function summarizeExecutions(executions: Execution[]): ExecutionSummary | null {
+  if (executions.length === 0) return null;
+
+  const fills = sortExecutions(executions);
+  const openingSide = fills[0].side;
+  const direction = openingSide === "sell" ? -1 : 1;
+
+  let openQuantity = 0;
+  let averageCost = 0;
+  let openedQuantity = 0;
+  let openedValue = 0;
+  let closedQuantity = 0;
+  let closedValue = 0;
+  let realized = 0;
+  let lastCloseTime: Date | null = null;
+
+  for (const fill of fills) {
+    if (fill.side === openingSide) {
+      averageCost = (averageCost * openQuantity + fill.price * fill.quantity) / (openQuantity + fill.quantity);
+      openQuantity += fill.quantity;
+      openedQuantity += fill.quantity;
+      openedValue += fill.price * fill.quantity;
+    } else {
+      // Closing more than is open is clamped; the excess would be a new position in the other direction
+      const quantity = Math.min(fill.quantity, openQuantity);
+      realized += direction * (fill.price - averageCost) * quantity * CONTRACT_MULTIPLIER;
+      openQuantity -= quantity;
+      closedQuantity += quantity;
+      closedValue += fill.price * quantity;
+      lastCloseTime = new Date(fill.executedAt);
+    }
+  }
+
+  const entryTime = new Date(fills[0].executedAt);
+  const exitTime = openQuantity === 0 ? lastCloseTime : null;
+
+  return {
+    side: openingSide,
+    quantity: openedQuantity,
+    openQuantity,
+    entryPrice: roundCents(openedValue / openedQuantity),
+    exitPrice: closedQuantity > 0 ? roundCents(closedValue / closedQuantity) : null,
+    entryTime,
+    exitTime,
+    pnl: closedQuantity > 0 ? roundCents(realized) : null,
+    holdingMinutes: exitTime ? Math.round((exitTime.getTime() - entryTime.getTime()) / 60000) : null,
+  };
+}
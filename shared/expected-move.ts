@@ -0,0 +1,125 @@
+// One-day expected move from an annualized implied volatility, and how the day's key levels and
+// realized range compare with it. VIX is the 30-day implied volatility of the S&P 500, so it stands
+// in for SPY, SPX and ES; other underlyings need their own IV.
+
+import { z } from "zod";
+import type { PremarketAnalysis } from "./schema";
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export interface ExpectedMove {
+  price: number; // reference price the range is centered on
+  volatility: number; // annualized, percent
+  oneSigma: number; // dollars
+  twoSigma: number;
+  oneSigmaRange: [number, number];
+  twoSigmaRange: [number, number];
+}
+
+export type LevelZone = "inside 1σ" | "inside 2σ" | "outside 2σ";
+
+export interface RangeLevel {
+  label: string;
+  price: number;
+  zone: LevelZone;
+  distance: number; // signed, from the reference price in units of 1σ
+}
+
+export interface RealizedMoveReview {
+  realizedRange: number; // high - low
+  expectedRange: number; // width of the 1σ range
+  rangeRatio: number; // realized over expected range; above 1 means the day moved more than implied
+  withinOneSigma: boolean; // the whole day traded inside the 1σ range
+}
+
+export const KEY_LEVEL_FIELDS = {
+  callResistance: "Call Resistance",
+  putSupport: "Put Support",
+  hvlLevel: "HVL",
+  vaultLevel: "Vault",
+  vwapLevel: "VWAP",
+} as const;
+
+export type KeyLevelField = keyof typeof KEY_LEVEL_FIELDS;
+
+// Daily high, low and (when the file has one) close imported from a price history file, matched to
+// premarket analyses by date
+export const realizedRangeImportSchema = z.object({
+  ranges: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD"),
+    high: z.coerce.number().positive(),
+    low: z.coerce.number().positive(),
+    close: z.coerce.number().positive().optional(),
+  })
+    .refine(range => range.low <= range.high, { message: "Low must not be above high", path: ["low"] })
+    .refine(range => range.close === undefined || (range.close >= range.low && range.close <= range.high), {
+      message: "Close must be inside the day's range",
+      path: ["close"],
+    })).min(1),
+});
+
+export type RealizedRangeImport = z.infer<typeof realizedRangeImportSchema>;
+
+// Volatility for the day: the entered IV when there is one, otherwise VIX
+export function impliedVolatilityFor(analysis: Pick<PremarketAnalysis, "impliedVolatility" | "vixValue">): number | null {
+  const volatility = analysis.impliedVolatility ?? analysis.vixValue;
+  return volatility !== null && volatility > 0 ? volatility : null;
+}
+
+export function calculateExpectedMove(price: number, volatility: number, days = 1): ExpectedMove {
+  const oneSigma = roundCents(price * (volatility / 100) * Math.sqrt(days / TRADING_DAYS_PER_YEAR));
+  const twoSigma = roundCents(oneSigma * 2);
+  return {
+    price,
+    volatility,
+    oneSigma,
+    twoSigma,
+    oneSigmaRange: [roundCents(price - oneSigma), roundCents(price + oneSigma)],
+    twoSigmaRange: [roundCents(price - twoSigma), roundCents(price + twoSigma)],
+  };
+}
+
+// Level fields are free text and can hold several prices, as in "585, 590.5"
+export function parseLevelPrices(text: string | null | undefined): number[] {
+  return (text?.match(/\d+(?:\.\d+)?/g) ?? []).map(Number).filter(price => price > 0);
+}
+
+export function levelZone(price: number, move: ExpectedMove): LevelZone {
+  const distance = Math.abs(price - move.price);
+  if (distance <= move.oneSigma) return "inside 1σ";
+  if (distance <= move.twoSigma) return "inside 2σ";
+  return "outside 2σ";
+}
+
+export function classifyKeyLevels(
+  levels: Partial<Record<KeyLevelField, string | null>>,
+  move: ExpectedMove,
+): RangeLevel[] {
+  return (Object.keys(KEY_LEVEL_FIELDS) as KeyLevelField[]).flatMap(field =>
+    parseLevelPrices(levels[field]).map(price => ({
+      label: KEY_LEVEL_FIELDS[field],
+      price,
+      zone: levelZone(price, move),
+      distance: move.oneSigma > 0 ? Math.round(((price - move.price) / move.oneSigma) * 100) / 100 : 0,
+    })));
+}
+
+export function reviewRealizedMove(move: ExpectedMove, realizedHigh: number, realizedLow: number): RealizedMoveReview {
+  const realizedRange = roundCents(realizedHigh - realizedLow);
+  const expectedRange = roundCents(move.oneSigma * 2);
+  return {
+    realizedRange,
+    expectedRange,
+    rangeRatio: expectedRange > 0 ? Math.round((realizedRange / expectedRange) * 100) / 100 : 0,
+    withinOneSigma: realizedHigh <= move.oneSigmaRange[1] && realizedLow >= move.oneSigmaRange[0],
+  };
+}
+
+// Expected move of a saved premarket analysis, when it has a reference price and a volatility
+export function analysisExpectedMove(analysis: PremarketAnalysis): ExpectedMove | null {
+  const volatility = impliedVolatilityFor(analysis);
+  if (analysis.referencePrice === null || volatility === null) return null;
+  return calculateExpectedMove(analysis.referencePrice, volatility);
+}
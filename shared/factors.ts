@@ -0,0 +1,58 @@
+// Premarket factor report: each categorical premarket input, split by the value it had, against the
+// P&L of the trades taken that day
+
+import type { PremarketAnalysis } from "./schema";
+
+export const PREMARKET_FACTORS = {
+  dpofTrend: "DPOF Trend",
+  dpofCenterline: "DPOF Centerline",
+  dpofVolumeDivergence: "DPOF Volume Divergence",
+  dpofExpansionDivergence: "DPOF Expansion Divergence",
+  dpofAbsorption: "DPOF Absorption",
+  isInSqueeze: "In Squeeze",
+  squeezeMomoDirection: "Squeeze Momentum",
+  bondCorrelation: "Bond Correlation",
+  gammaEnvironment: "Gamma Environment",
+  economicImpact: "Economic Impact",
+} as const;
+
+export type PremarketFactor = keyof typeof PREMARKET_FACTORS;
+
+// Below this many trades on either side of a split the win rate comparison is not attempted
+export const MIN_FACTOR_TRADES = 10;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export type FactorSignificance = "significant" | "not significant" | "too few trades";
+
+export interface FactorValueStats {
+  value: string;
+  days: number;
+  trades: number;
+  wins: number;
+  winRate: number; // percent
+  totalPnL: number;
+  avgPnL: number;
+  pValue: number | null; // two-sided, win rate against the days the factor had any other value
+  significance: FactorSignificance;
+}
+
+export interface FactorStats {
+  factor: PremarketFactor;
+  label: string;
+  values: FactorValueStats[]; // most trades first
+}
+
+export interface FactorReport {
+  days: number; // analyses with at least one completed trade
+  trades: number;
+  factors: FactorStats[];
+}
+
+// Text inputs are stored in whatever case the form used; booleans read as Yes/No. Unset is null.
+export function factorValue(analysis: PremarketAnalysis, factor: PremarketFactor): string | null {
+  const value = analysis[factor];
+  if (value === null || value === undefined) return null;
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  const text = value.trim().toLowerCase().replace(/_/g, " ");
+  return text ? text.charAt(0).toUpperCase() + text.slice(1) : null;
+}
@@ -0,0 +1,45 @@
+// Broker charges applied to trades. The schedule lives in server settings; the charges
+// it produces are recorded on each trade or fill when saved, so a later schedule change
+// only affects trades and fills saved after it.
+
+import { z } from "zod";
+
+export interface FeeSchedule {
+  commissionPerContract: number;
+  feesPerOrder: number;
+  regulatoryFeesPerContract: number;
+}
+
+export interface TradeCharges {
+  commission: number;
+  fees: number; // per-order and regulatory fees
+}
+
+export const FEE_SETTING_KEYS: Record<keyof FeeSchedule, string> = {
+  commissionPerContract: "commission_per_contract",
+  feesPerOrder: "fees_per_order",
+  regulatoryFeesPerContract: "regulatory_fees_per_contract",
+};
+
+export const feeScheduleSchema = z.object({
+  commissionPerContract: z.coerce.number().nonnegative(),
+  feesPerOrder: z.coerce.number().nonnegative(),
+  regulatoryFeesPerContract: z.coerce.number().nonnegative(),
+});
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  commissionPerContract: 0,
+  feesPerOrder: 0,
+  regulatoryFeesPerContract: 0,
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Charges for a number of contracts traded over a number of orders; opening and
+// closing the same contract counts it twice
+export function calculateCharges(schedule: FeeSchedule, contracts: number, orders: number): TradeCharges {
+  return {
+    commission: roundCents(schedule.commissionPerContract * contracts),
+    fees: roundCents(schedule.feesPerOrder * orders + schedule.regulatoryFeesPerContract * contracts),
+  };
+}
@@ -0,0 +1,149 @@
+// Risk guardrails: daily limits stored as settings and checked on the server when a trade is logged, the
+// contract limit again when an edit adds contracts. A limit of 0 is off. Breaking one either warns or
+// rejects the trade, and every breach is logged.
+
+import { z } from "zod";
+import type { RiskBreach, Trade } from "./schema";
+import { isCompleted } from "./analytics";
+
+export const RISK_ENFORCEMENTS = ["warn", "reject"] as const;
+export type RiskEnforcement = typeof RISK_ENFORCEMENTS[number];
+
+export interface RiskLimits {
+  maxDailyLoss: number; // dollars of net realized loss on the day
+  maxTradesPerDay: number;
+  maxContractsPerTrade: number;
+  maxConsecutiveLosses: number; // losing trades in a row on the day
+}
+
+export type RiskRule = keyof RiskLimits;
+
+export interface RiskRules extends RiskLimits {
+  enforcement: RiskEnforcement;
+}
+
+export const RISK_LIMIT_SETTING_KEYS: Record<RiskRule, string> = {
+  maxDailyLoss: "risk_max_daily_loss",
+  maxTradesPerDay: "risk_max_trades_per_day",
+  maxContractsPerTrade: "risk_max_contracts_per_trade",
+  maxConsecutiveLosses: "risk_max_consecutive_losses",
+};
+
+export const RISK_ENFORCEMENT_SETTING_KEY = "risk_enforcement";
+
+export const RISK_RULE_LABELS: Record<RiskRule, string> = {
+  maxDailyLoss: "Max daily loss",
+  maxTradesPerDay: "Max trades per day",
+  maxContractsPerTrade: "Max contracts per trade",
+  maxConsecutiveLosses: "Max consecutive losses",
+};
+
+export const riskRulesSchema = z.object({
+  maxDailyLoss: z.coerce.number().nonnegative(),
+  maxTradesPerDay: z.coerce.number().int().nonnegative(),
+  maxContractsPerTrade: z.coerce.number().int().nonnegative(),
+  maxConsecutiveLosses: z.coerce.number().int().nonnegative(),
+  enforcement: z.enum(RISK_ENFORCEMENTS),
+});
+
+export const DEFAULT_RISK_RULES: RiskRules = {
+  maxDailyLoss: 0,
+  maxTradesPerDay: 0,
+  maxContractsPerTrade: 0,
+  maxConsecutiveLosses: 0,
+  enforcement: "warn",
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const riskBreachFiltersSchema = z.object({
+  from: isoDate.optional(), // trade date, inclusive
+  to: isoDate.optional(), // trade date, inclusive
+});
+
+export type RiskBreachFilters = z.infer<typeof riskBreachFiltersSchema>;
+
+export interface RiskDay {
+  date: string; // YYYY-MM-DD
+  trades: number;
+  realizedPnL: number; // net P&L realized on the day, partly closed trades included
+  consecutiveLosses: number; // losing trades in a row up to the latest close
+}
+
+export interface RiskCheck {
+  rule: RiskRule;
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+export interface RiskStatus {
+  rules: RiskRules;
+  day: RiskDay;
+  limitsReached: RiskCheck[]; // limits that the next trade of the day would break
+  breaches: RiskBreach[]; // logged today, newest first
+}
+
+const formatDollars = (value: number) => `$${Math.abs(value).toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+export function summarizeRiskDay(date: string, trades: Trade[]): RiskDay {
+  const closed = trades
+    .filter(isCompleted)
+    .sort((a, b) => new Date(a.exitTime ?? a.tradeDate).getTime() - new Date(b.exitTime ?? b.tradeDate).getTime());
+  let consecutiveLosses = 0;
+  for (let i = closed.length - 1; i >= 0 && closed[i].pnl! < 0; i--) {
+    consecutiveLosses++;
+  }
+  return {
+    date,
+    trades: trades.length,
+    realizedPnL: Math.round(trades.reduce((sum, trade) => sum + (trade.pnl ?? 0), 0) * 100) / 100,
+    consecutiveLosses,
+  };
+}
+
+// Limits the day has already used up, so another trade would break them
+export function limitsReached(rules: RiskRules, day: RiskDay): RiskCheck[] {
+  const checks: RiskCheck[] = [];
+  if (rules.maxDailyLoss > 0 && -day.realizedPnL >= rules.maxDailyLoss) {
+    checks.push({
+      rule: "maxDailyLoss",
+      limit: rules.maxDailyLoss,
+      actual: -day.realizedPnL,
+      message: `Daily loss limit of ${formatDollars(rules.maxDailyLoss)} reached (down ${formatDollars(day.realizedPnL)} today)`,
+    });
+  }
+  if (rules.maxTradesPerDay > 0 && day.trades >= rules.maxTradesPerDay) {
+    checks.push({
+      rule: "maxTradesPerDay",
+      limit: rules.maxTradesPerDay,
+      actual: day.trades,
+      message: `${day.trades} of ${rules.maxTradesPerDay} trades for the day already taken`,
+    });
+  }
+  if (rules.maxConsecutiveLosses > 0 && day.consecutiveLosses >= rules.maxConsecutiveLosses) {
+    checks.push({
+      rule: "maxConsecutiveLosses",
+      limit: rules.maxConsecutiveLosses,
+      actual: day.consecutiveLosses,
+      message: `${day.consecutiveLosses} losing trades in a row (limit ${rules.maxConsecutiveLosses})`,
+    });
+  }
+  return checks;
+}
+
+// The per-trade contract limit, for a trade of `contracts` contracts
+export function checkContracts(rules: RiskRules, contracts: number): RiskCheck[] {
+  if (rules.maxContractsPerTrade === 0 || contracts <= rules.maxContractsPerTrade) return [];
+  return [{
+    rule: "maxContractsPerTrade",
+    limit: rules.maxContractsPerTrade,
+    actual: contracts,
+    message: `${contracts} contracts is over the ${rules.maxContractsPerTrade} contract limit per trade`,
+  }];
+}
+
+// Every rule a new trade of `contracts` contracts would break on the given day
+export function checkNewTrade(rules: RiskRules, day: RiskDay, contracts: number): RiskCheck[] {
+  return [...limitsReached(rules, day), ...checkContracts(rules, contracts)];
+}
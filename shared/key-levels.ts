@@ -0,0 +1,111 @@
+// Key levels as numbers per underlying per day: the rows read from a premarket analysis, how price
+// reacted to each one, and the history and report payloads built from them
+
+import { z } from "zod";
+import { KEY_LEVEL_FIELDS, parseLevelPrices, type KeyLevelField } from "./expected-move";
+import type { InsertKeyLevel, KeyLevel, KeyLevelReaction, KeyLevelType, PremarketAnalysis } from "./schema";
+
+// Within this fraction of a level's price, price is at the level
+export const LEVEL_TOLERANCE = 0.002;
+
+export const KEY_LEVEL_TYPE_FIELDS: Record<KeyLevelField, KeyLevelType> = {
+  callResistance: "call_resistance",
+  putSupport: "put_support",
+  hvlLevel: "hvl",
+  vaultLevel: "vault",
+  vwapLevel: "vwap",
+};
+
+export const KEY_LEVEL_TYPE_LABELS = Object.fromEntries(
+  (Object.keys(KEY_LEVEL_TYPE_FIELDS) as KeyLevelField[]).map(field => [KEY_LEVEL_TYPE_FIELDS[field], KEY_LEVEL_FIELDS[field]]),
+) as Record<KeyLevelType, string>;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const keyLevelFiltersSchema = z.object({
+  underlying: z.string().trim().toUpperCase().min(1).optional(),
+  from: isoDate.optional(), // level date, inclusive
+  to: isoDate.optional(), // level date, inclusive
+});
+
+export type KeyLevelFilters = z.infer<typeof keyLevelFiltersSchema>;
+
+export interface KeyLevelPoint {
+  id: number;
+  levelType: KeyLevelType;
+  price: number;
+  reaction: KeyLevelReaction | null; // null until the day's range (and close) are known
+  manualReaction: KeyLevelReaction | null; // entered on the level rather than read from the range
+  fromAnalysis: boolean; // named in the day's premarket analysis
+}
+
+export interface KeyLevelDay {
+  date: string; // YYYY-MM-DD
+  underlying: string;
+  referencePrice: number | null;
+  levels: KeyLevelPoint[];
+}
+
+export interface KeyLevelTypeStats {
+  levelType: KeyLevelType;
+  label: string;
+  levels: number;
+  tested: number; // respected + broken
+  respected: number;
+  broken: number;
+  untested: number;
+  respectRate: number | null; // percent of tested levels that held
+  trades: number; // completed trades taken off a level of this type
+  wins: number;
+  winRate: number; // percent
+  totalPnL: number;
+  avgPnL: number;
+}
+
+export interface KeyLevelReport {
+  levels: number;
+  types: KeyLevelTypeStats[];
+}
+
+// The levels an analysis names, for the ticker its expected move is planned on
+export function keyLevelsFromAnalysis(analysis: PremarketAnalysis): InsertKeyLevel[] {
+  const underlying = (analysis.expectedMoveTicker || "SPY").toUpperCase();
+  return (Object.keys(KEY_LEVEL_TYPE_FIELDS) as KeyLevelField[]).flatMap(field =>
+    parseLevelPrices(analysis[field]).map(price => ({
+      premarketAnalysisId: analysis.id,
+      date: new Date(analysis.date),
+      underlying,
+      levelType: KEY_LEVEL_TYPE_FIELDS[field],
+      price,
+    })));
+}
+
+// A level above the day's reference price is resistance and one below is support. Without a reference
+// price only call resistance and put support say which side they are on.
+function levelSide(level: Pick<KeyLevel, "levelType" | "price">, referencePrice: number | null) {
+  if (referencePrice !== null) return level.price >= referencePrice ? "resistance" : "support";
+  if (level.levelType === "call_resistance") return "resistance";
+  if (level.levelType === "put_support") return "support";
+  return null;
+}
+
+// Untested when the day's range stayed short of the level; otherwise respected when the close stayed on
+// the level's side and broken when it closed through it. A reaction entered on the level wins.
+export function levelReaction(
+  level: Pick<KeyLevel, "levelType" | "price" | "reaction">,
+  day: Pick<PremarketAnalysis, "referencePrice" | "realizedHigh" | "realizedLow" | "realizedClose"> | undefined,
+): KeyLevelReaction | null {
+  if (level.reaction) return level.reaction as KeyLevelReaction;
+  if (!day || day.realizedHigh === null || day.realizedLow === null) return null;
+  const side = levelSide(level, day.referencePrice);
+  if (side === null) return null;
+
+  const band = level.price * LEVEL_TOLERANCE;
+  if (side === "resistance" && day.realizedHigh < level.price - band) return "untested";
+  if (side === "support" && day.realizedLow > level.price + band) return "untested";
+  if (day.realizedClose === null) return null;
+  const held = side === "resistance"
+    ? day.realizedClose <= level.price + band
+    : day.realizedClose >= level.price - band;
+  return held ? "respected" : "broken";
+}
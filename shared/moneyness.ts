@@ -0,0 +1,67 @@
+// Where the underlying traded relative to the strike, and how it moved against the option over the trade
+
+import type { Trade } from "./schema";
+
+type UnderlyingTrade = Pick<
+  Trade,
+  "type" | "direction" | "structure" | "strikePrice" | "entryPrice" | "exitPrice" | "underlyingEntryPrice" | "underlyingExitPrice" | "entryIv" | "exitIv"
+>;
+
+// Within this distance of the strike, in percent of the underlying, a contract counts as at the money
+const ATM_BAND_PERCENT = 1;
+const DEEP_BAND_PERCENT = 5;
+
+export const MONEYNESS_BUCKETS = ["Deep ITM", "ITM", "ATM", "OTM", "Deep OTM"] as const;
+export type MoneynessBucket = typeof MONEYNESS_BUCKETS[number];
+
+const roundTo = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const percentChange = (from: number | null, to: number | null) =>
+  from !== null && to !== null && from !== 0 ? roundTo(((to - from) / from) * 100, 2) : null;
+
+// Distance from the strike at entry in percent of the underlying, positive when in the money.
+// Only single-contract trades have one strike to measure against.
+export function entryMoneyness(trade: UnderlyingTrade): number | null {
+  if (trade.structure !== "single" || trade.underlyingEntryPrice === null || trade.underlyingEntryPrice <= 0) {
+    return null;
+  }
+  const intrinsicSide = trade.type === "puts" ? -1 : 1;
+  return roundTo(intrinsicSide * ((trade.underlyingEntryPrice - trade.strikePrice) / trade.underlyingEntryPrice) * 100, 2);
+}
+
+export function moneynessBucket(trade: UnderlyingTrade): MoneynessBucket | null {
+  const distance = entryMoneyness(trade);
+  if (distance === null) return null;
+  if (Math.abs(distance) <= ATM_BAND_PERCENT) return "ATM";
+  if (distance > DEEP_BAND_PERCENT) return "Deep ITM";
+  if (distance > 0) return "ITM";
+  if (distance < -DEEP_BAND_PERCENT) return "Deep OTM";
+  return "OTM";
+}
+
+export interface UnderlyingMove {
+  underlyingChange: number | null;
+  underlyingChangePercent: number | null;
+  optionChangePercent: number | null;
+  ivChange: number | null; // percentage points
+  // Whether the underlying moved the way the position needed; a losing trade with a favorable
+  // move lost to time decay or falling volatility rather than direction
+  favorable: boolean | null;
+}
+
+export function underlyingMove(trade: UnderlyingTrade): UnderlyingMove {
+  const underlyingChange = trade.underlyingEntryPrice !== null && trade.underlyingExitPrice !== null
+    ? roundTo(trade.underlyingExitPrice - trade.underlyingEntryPrice, 2)
+    : null;
+  // Long calls and short puts want the underlying higher
+  const bullish = (trade.type === "puts") === (trade.direction === "short");
+  return {
+    underlyingChange,
+    underlyingChangePercent: percentChange(trade.underlyingEntryPrice, trade.underlyingExitPrice),
+    optionChangePercent: percentChange(trade.entryPrice, trade.exitPrice),
+    ivChange: trade.entryIv !== null && trade.exitIv !== null ? roundTo(trade.exitIv - trade.entryIv, 2) : null,
+    favorable: underlyingChange === null || trade.structure !== "single" || underlyingChange === 0
+      ? null
+      : (underlyingChange > 0) === bullish,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatOptionSymbol, isoDate, parseOptionSymbol, SYMBOL_STYLES, type OptionContract } from "./option-symbols";
+
+type Contract = Omit<OptionContract, "symbol">;
+
+const contractOf = (symbol: string): Contract | null => {
+  const contract = parseOptionSymbol(symbol);
+  if (!contract) return null;
+  const { symbol: _written, ...rest } = contract;
+  return rest;
+};
+
+const spyCall: Contract = {
+  ticker: "SPY", root: "SPY", type: "calls", strikePrice: 660, expirationDate: "2025-09-26", adjusted: false,
+};
+
+describe("parseOptionSymbol", () => {
+  it("reads OCC symbols, padded or not", () => {
+    assert.deepEqual(contractOf("SPY   250926C00660000"), spyCall);
+    assert.deepEqual(contractOf("SPY250926C00660000"), spyCall);
+    assert.equal(parseOptionSymbol("  SPY   250926C00660000 ")?.symbol, "SPY   250926C00660000");
+  });
+
+  it("reads compact symbols with the strike as written", () => {
+    assert.deepEqual(contractOf("SPY 250926C660"), spyCall);
+    assert.deepEqual(contractOf("spy 250926c660"), spyCall);
+  });
+
+  it("reads thinkorswim symbols and descriptions", () => {
+    assert.deepEqual(contractOf(".SPY250926C660"), spyCall);
+    assert.deepEqual(contractOf("SPY 100 26 SEP 25 660 CALL"), spyCall);
+    assert.deepEqual(contractOf("SPXW 100 (Weeklys) 26 SEP 25 6550 PUT"), {
+      ticker: "SPX", root: "SPXW", type: "puts", strikePrice: 6550, expirationDate: "2025-09-26", adjusted: false,
+    });
+  });
+
+  it("reads IBKR and Schwab descriptions", () => {
+    assert.deepEqual(contractOf("SPY 26SEP25 660 C"), spyCall);
+    assert.deepEqual(contractOf("SPY 09/26/2025 660.00 C"), spyCall);
+  });
+
+  it("reads E*TRADE and Fidelity symbols", () => {
+    assert.deepEqual(contractOf("-SPY250926C660"), spyCall);
+    assert.deepEqual(contractOf(" -SPY250926C660"), spyCall);
+  });
+
+  it("records index weeklies on their underlying", () => {
+    assert.deepEqual(contractOf("SPXW  250926P06550000"), {
+      ticker: "SPX", root: "SPXW", type: "puts", strikePrice: 6550, expirationDate: "2025-09-26", adjusted: false,
+    });
+    assert.equal(contractOf("NDXP  250926C20000000")?.ticker, "NDX");
+  });
+
+  it("marks adjusted roots and deliverables", () => {
+    const aapl = { ticker: "AAPL", root: "AAPL1", type: "calls", strikePrice: 150, expirationDate: "2025-09-26", adjusted: true };
+    assert.deepEqual(contractOf("AAPL1 250926C00150000"), aapl);
+    assert.deepEqual(contractOf("AAPL1250926C00150000"), aapl);
+    assert.deepEqual(contractOf("AAPL 50 26 SEP 25 150 CALL"), { ...aapl, root: "AAPL" });
+  });
+
+  it("reads decimal strikes", () => {
+    assert.equal(contractOf(".SPXW250926P6550.5")?.strikePrice, 6550.5);
+    assert.equal(contractOf("SPXW  250926P06550500")?.strikePrice, 6550.5);
+    assert.equal(contractOf("F     251017C00012500")?.strikePrice, 12.5);
+  });
+
+  it("returns null for anything else", () => {
+    ["", "SPY", "SPY 250926X660", "SPY 251326C660", "SPY 250231C660", "SPY 31 FEB 25 660 CALL", "SPY 26 XYZ 25 660 CALL", "Total"]
+      .forEach(symbol => assert.equal(parseOptionSymbol(symbol), null, symbol));
+  });
+});
+
+describe("formatOptionSymbol", () => {
+  const spxPut: Contract = { ticker: "SPX", root: "SPXW", type: "puts", strikePrice: 6550.5, expirationDate: "2025-09-26", adjusted: false };
+
+  it("writes each style", () => {
+    assert.equal(formatOptionSymbol(spxPut), "SPXW  250926P06550500");
+    assert.equal(formatOptionSymbol(spxPut, "thinkorswim"), ".SPXW250926P6550.5");
+    assert.equal(formatOptionSymbol(spxPut, "ibkr"), "SPXW 26SEP25 6550.5 P");
+    assert.equal(formatOptionSymbol(spxPut, "etrade"), "-SPXW250926P6550.5");
+  });
+
+  it("reads back what it writes", () => {
+    const contracts: Contract[] = [
+      spyCall,
+      spxPut,
+      { ticker: "AAPL", root: "AAPL1", type: "calls", strikePrice: 150, expirationDate: "2026-01-16", adjusted: true },
+    ];
+    contracts.forEach(contract => SYMBOL_STYLES.forEach(style => {
+      assert.deepEqual(contractOf(formatOptionSymbol(contract, style)), contract, `${contract.root} ${style}`);
+    }));
+  });
+});
+
+describe("isoDate", () => {
+  it("rejects days the month does not have", () => {
+    assert.equal(isoDate(2025, 9, 26), "2025-09-26");
+    assert.equal(isoDate(2024, 2, 29), "2024-02-29");
+    assert.equal(isoDate(2025, 2, 29), null);
+    assert.equal(isoDate(2025, 2, 31), null);
+    assert.equal(isoDate(2025, 13, 1), null);
+  });
+});
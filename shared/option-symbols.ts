@@ -0,0 +1,130 @@
+// Option symbols as brokers write them, read into one contract type and written back out in each
+// broker's style. The OCC root is kept apart from the underlying: SPXW options are on SPX, and a root
+// with a trailing digit (AAPL1) is an adjusted contract whose deliverable is not 100 shares.
+
+export type OptionType = "calls" | "puts";
+
+export interface OptionContract {
+  symbol: string; // as written
+  ticker: string; // the underlying
+  root: string; // OCC root, e.g. SPXW or AAPL1
+  type: OptionType;
+  strikePrice: number;
+  expirationDate: string; // YYYY-MM-DD
+  adjusted: boolean; // deliverable other than 100 shares of the underlying
+}
+
+export const SYMBOL_STYLES = ["occ", "thinkorswim", "ibkr", "etrade"] as const;
+export type SymbolStyle = typeof SYMBOL_STYLES[number];
+
+// Roots listed for another expiration cycle or settlement of the same index
+const INDEX_ROOTS: Record<string, string> = {
+  SPXW: "SPX",
+  SPXPM: "SPX",
+  NDXP: "NDX",
+  RUTW: "RUT",
+  VIXW: "VIX",
+  DJXW: "DJX",
+};
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const fullYear = (year: string) => year.length === 2 ? 2000 + +year : +year;
+
+// YYYY-MM-DD, or null for a day the month does not have, such as 02/31
+export function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// "26 SEP 25", "26SEP25", "09/26/2025" or "2025-09-26"
+function expirationOf(text: string): string | null {
+  const named = text.match(/^(\d{1,2})\s?([A-Z]{3})\s?(\d{2,4})$/);
+  if (named) return isoDate(fullYear(named[3]), MONTHS.indexOf(named[2]) + 1, +named[1]);
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (us) return isoDate(fullYear(us[3]), +us[1], +us[2]);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return iso ? isoDate(+iso[1], +iso[2], +iso[3]) : null;
+}
+
+// The underlying of a root, and whether the root marks an adjusted deliverable
+export function underlyingOf(root: string): { ticker: string; adjusted: boolean } {
+  const upper = root.toUpperCase();
+  if (INDEX_ROOTS[upper]) return { ticker: INDEX_ROOTS[upper], adjusted: false };
+  const adjusted = upper.match(/^([A-Z.]+?)\d$/);
+  return adjusted ? { ticker: adjusted[1], adjusted: true } : { ticker: upper, adjusted: false };
+}
+
+export function optionContract(
+  symbol: string,
+  root: string,
+  type: OptionType,
+  strikePrice: number,
+  expirationDate: string,
+  adjusted = false,
+): OptionContract {
+  const underlying = underlyingOf(root);
+  return {
+    symbol,
+    ticker: underlying.ticker,
+    root: root.toUpperCase(),
+    type,
+    strikePrice,
+    expirationDate,
+    adjusted: adjusted || underlying.adjusted,
+  };
+}
+
+const typeOf = (callPut: string): OptionType => /^C/.test(callPut) ? "calls" : "puts";
+
+// OCC ("SPY   250926C00660000", strike in thousandths) and the compact forms brokers derive from it, with
+// the strike as written: "SPY 250703C618" (IBKR, thinkorswim), ".SPXW250926P6550.5" (thinkorswim)
+// and "-SPY250703C618" (E*TRADE, Fidelity)
+const COMPACT = /^[-.]?([A-Z][A-Z0-9.]*?)\s*(\d{2})(\d{2})(\d{2})([CP])(\d+(?:\.\d+)?)$/;
+
+// Descriptions: "SPXW 100 (Weeklys) 26 SEP 25 6550 PUT" (thinkorswim), "SPY 26SEP25 660 C" (IBKR)
+// and "SPY 09/26/2025 660.00 C" (Schwab). A deliverable other than 100 marks an adjusted contract.
+const DESCRIPTION = /^([A-Z][A-Z0-9.]*)\s+(?:(\d+)\s+)?(?:\([^)]*\)\s+)?(\S+(?:\s[A-Z]{3}\s\d{2,4})?)\s+(\d+(?:\.\d+)?)\s+(CALL|PUT|C|P)$/;
+
+export function parseOptionSymbol(symbol: string): OptionContract | null {
+  const written = symbol.trim();
+  const text = written.toUpperCase().replace(/\s+/g, " ");
+
+  const compact = text.match(COMPACT);
+  if (compact) {
+    const [, root, year, month, day, callPut, strike] = compact;
+    const expirationDate = isoDate(2000 + +year, +month, +day);
+    if (!expirationDate) return null;
+    return optionContract(written, root, typeOf(callPut), /^\d{8}$/.test(strike) ? +strike / 1000 : +strike, expirationDate);
+  }
+
+  const description = text.match(DESCRIPTION);
+  if (description) {
+    const [, root, deliverable, expiration, strike, callPut] = description;
+    const expirationDate = expirationOf(expiration);
+    if (!expirationDate) return null;
+    return optionContract(written, root, typeOf(callPut), +strike, expirationDate, !!deliverable && deliverable !== "100");
+  }
+  return null;
+}
+
+const compactDate = (date: string) => date.slice(2).replace(/-/g, "");
+
+export function formatOptionSymbol(contract: Omit<OptionContract, "symbol">, style: SymbolStyle = "occ"): string {
+  const callPut = contract.type === "calls" ? "C" : "P";
+  const strike = String(+contract.strikePrice.toFixed(3));
+  switch (style) {
+    case "occ":
+      return `${contract.root.padEnd(6)}${compactDate(contract.expirationDate)}${callPut}${String(Math.round(contract.strikePrice * 1000)).padStart(8, "0")}`;
+    case "thinkorswim":
+      return `.${contract.root}${compactDate(contract.expirationDate)}${callPut}${strike}`;
+    case "etrade":
+      return `-${contract.root}${compactDate(contract.expirationDate)}${callPut}${strike}`;
+    case "ibkr": {
+      const [year, month, day] = contract.expirationDate.split("-");
+      return `${contract.root} ${day}${MONTHS[+month - 1]}${year.slice(2)} ${strike} ${callPut}`;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// Risk profile of option positions made of one or more legs.
+// All dollar amounts are for the whole position (price x quantity x 100).
+
+export const CONTRACT_MULTIPLIER = 100;
+
+export type LegSide = "buy" | "sell";
+
+export interface PositionLeg {
+  side: LegSide | string;
+  type: "calls" | "puts" | string;
+  strikePrice: number;
+  expirationDate: Date | string;
+  quantity: number;
+  entryPrice: number;
+  exitPrice?: number | null;
+}
+
+export interface PositionSummary {
+  netPremium: number; // positive = net debit paid, negative = net credit received
+  maxProfit: number | null; // null = unlimited
+  maxLoss: number | null; // negative P&L at the worst price, null = unlimited
+  breakevens: number[];
+}
+
+export type PositionStructure =
+  | "single"
+  | "vertical"
+  | "straddle"
+  | "strangle"
+  | "calendar"
+  | "butterfly"
+  | "iron_condor"
+  | "custom";
+
+export const POSITION_STRUCTURE_LABELS: Record<PositionStructure, string> = {
+  single: "Single",
+  vertical: "Vertical Spread",
+  straddle: "Straddle",
+  strangle: "Strangle",
+  calendar: "Calendar",
+  butterfly: "Butterfly",
+  iron_condor: "Iron Condor",
+  custom: "Custom",
+};
+
+const sideSign = (leg: PositionLeg) => (leg.side === "sell" ? -1 : 1);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function intrinsicValue(leg: PositionLeg, underlyingPrice: number): number {
+  return leg.type === "puts"
+    ? Math.max(leg.strikePrice - underlyingPrice, 0)
+    : Math.max(underlyingPrice - leg.strikePrice, 0);
+}
+
+export function legPayoffAtExpiration(leg: PositionLeg, underlyingPrice: number): number {
+  return sideSign(leg) * (intrinsicValue(leg, underlyingPrice) - leg.entryPrice) * leg.quantity * CONTRACT_MULTIPLIER;
+}
+
+export function positionPayoffAtExpiration(legs: PositionLeg[], underlyingPrice: number): number {
+  return legs.reduce((sum, leg) => sum + legPayoffAtExpiration(leg, underlyingPrice), 0);
+}
+
+export function calculateNetPremium(legs: PositionLeg[]): number {
+  return roundCents(legs.reduce((sum, leg) => sum + sideSign(leg) * leg.entryPrice * leg.quantity * CONTRACT_MULTIPLIER, 0));
+}
+
+// Realized P&L once every leg is closed, otherwise null
+export function calculatePositionPnL(legs: PositionLeg[]): number | null {
+  if (legs.length === 0 || legs.some(leg => leg.exitPrice === null || leg.exitPrice === undefined)) {
+    return null;
+  }
+  return roundCents(legs.reduce(
+    (sum, leg) => sum + sideSign(leg) * (leg.exitPrice! - leg.entryPrice) * leg.quantity * CONTRACT_MULTIPLIER,
+    0,
+  ));
+}
+
+// Expiration payoff is piecewise linear with kinks at the strikes, so the extremes and
+// zero crossings can be found exactly from the strikes plus the slope past the last one.
+// Legs with different expirations are treated as if they all expire together.
+export function summarizePosition(legs: PositionLeg[]): PositionSummary {
+  const netPremium = calculateNetPremium(legs);
+  if (legs.length === 0) {
+    return { netPremium, maxProfit: null, maxLoss: null, breakevens: [] };
+  }
+
+  const prices = Array.from(new Set([0, ...legs.map(leg => leg.strikePrice)])).sort((a, b) => a - b);
+  const values = prices.map(price => positionPayoffAtExpiration(legs, price));
+  const upperSlope = legs
+    .filter(leg => leg.type !== "puts")
+    .reduce((sum, leg) => sum + sideSign(leg) * leg.quantity * CONTRACT_MULTIPLIER, 0);
+
+  const breakevens: number[] = [];
+  for (let i = 0; i < prices.length - 1; i++) {
+    const [a, b] = [prices[i], prices[i + 1]];
+    const [va, vb] = [values[i], values[i + 1]];
+    if (va === 0 && i > 0) {
+      breakevens.push(a);
+    } else if (va * vb < 0) {
+      breakevens.push(a + (-va * (b - a)) / (vb - va));
+    }
+  }
+  const lastPrice = prices[prices.length - 1];
+  const lastValue = values[values.length - 1];
+  if (lastValue === 0 && upperSlope !== 0) {
+    breakevens.push(lastPrice);
+  } else if (upperSlope !== 0 && lastValue * upperSlope < 0) {
+    breakevens.push(lastPrice - lastValue / upperSlope);
+  }
+
+  return {
+    netPremium,
+    maxProfit: upperSlope > 0 ? null : roundCents(Math.max(...values)),
+    maxLoss: upperSlope < 0 ? null : roundCents(Math.min(...values)),
+    breakevens: Array.from(new Set(breakevens.map(roundCents))),
+  };
+}
+
+const expiryKey = (leg: PositionLeg) => new Date(leg.expirationDate).toDateString();
+
+export function describeStructure(legs: PositionLeg[]): PositionStructure {
+  if (legs.length <= 1) return "single";
+
+  const calls = legs.filter(leg => leg.type !== "puts");
+  const puts = legs.filter(leg => leg.type === "puts");
+  const sameExpiry = new Set(legs.map(expiryKey)).size === 1;
+  const isVertical = (pair: PositionLeg[]) =>
+    pair.length === 2 &&
+    pair[0].type === pair[1].type &&
+    pair[0].side !== pair[1].side &&
+    pair[0].quantity === pair[1].quantity &&
+    pair[0].strikePrice !== pair[1].strikePrice;
+
+  if (legs.length === 2) {
+    const [first, second] = legs;
+    if (sameExpiry && isVertical(legs)) return "vertical";
+    if (!sameExpiry && first.type === second.type && first.strikePrice === second.strikePrice && first.side !== second.side) {
+      return "calendar";
+    }
+    if (sameExpiry && calls.length === 1 && puts.length === 1 && first.side === second.side) {
+      return first.strikePrice === second.strikePrice ? "straddle" : "strangle";
+    }
+  }
+
+  if (legs.length === 3 && sameExpiry && (calls.length === 3 || puts.length === 3)) {
+    const sorted = [...legs].sort((a, b) => a.strikePrice - b.strikePrice);
+    const [low, middle, high] = sorted;
+    if (low.side === high.side && middle.side !== low.side && middle.quantity === low.quantity + high.quantity) {
+      return "butterfly";
+    }
+  }
+
+  if (legs.length === 4 && sameExpiry && isVertical(calls) && isVertical(puts)) {
+    return "iron_condor";
+  }
+
+  return "custom";
+}
+
+// Trade-level fields that stand in for the whole position in lists and charts:
+// the lowest strike, the nearest expiry and the net price per position unit.
+export function aggregateLegs(legs: PositionLeg[]) {
+  const types = new Set(legs.map(leg => leg.type));
+  const quantity = Math.min(...legs.map(leg => leg.quantity));
+  const unitValue = quantity * CONTRACT_MULTIPLIER;
+  const netPremium = calculateNetPremium(legs);
+  const pnl = calculatePositionPnL(legs);
+
+  return {
+    type: types.size === 1 ? legs[0].type : "mixed",
+    quantity,
+    strikePrice: Math.min(...legs.map(leg => leg.strikePrice)),
+    expirationDate: new Date(Math.min(...legs.map(leg => new Date(leg.expirationDate).getTime()))),
+    entryPrice: roundCents(Math.abs(netPremium) / unitValue),
+    exitPrice: pnl === null ? null : roundCents(Math.abs(netPremium + pnl) / unitValue),
+    pnl,
+  };
+}
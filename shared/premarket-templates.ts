@@ -0,0 +1,223 @@
+// Premarket checklist templates: the default checklist built from the premarket_analysis columns,
+// validation of answers against a template, and the mapping between answers and those columns
+
+import { z } from "zod";
+import { parseLevelPrices } from "./expected-move";
+import type {
+  InsertPremarketAnalysis,
+  InsertPremarketTemplate,
+  PremarketAnalysis,
+  PremarketAnswers,
+  PremarketField,
+  PremarketSection,
+} from "./schema";
+
+const option = (value: string, label: string) => ({ value, label });
+
+const LEVEL_TYPE_OPTIONS = [
+  option("call_resistance", "Call Resistance"),
+  option("put_support", "Put Support"),
+  option("hvl", "HVL"),
+  option("vwap", "VWAP"),
+  option("other", "Other"),
+];
+const POSITIVE_NEGATIVE = [option("positive", "Positive"), option("negative", "Negative")];
+const RATING = { type: "number", min: 1, max: 100, integer: true, required: false } as const;
+
+const futuresFields = (prefix: "es" | "nq" | "rty", name: string): PremarketField[] => [
+  { key: `${prefix}FuturesLevel`, label: `${name} level it is trading near`, type: "level", required: false },
+  { key: `${prefix}FuturesLevelType`, label: `${name} level type`, type: "select", required: false, options: LEVEL_TYPE_OPTIONS },
+  { key: `${prefix}VolumeAnalysis`, label: `${name} volume rating (1-100)`, ...RATING },
+];
+
+// Every field is keyed by the column it was stored in before templates, so analyses saved with this
+// template keep feeding the expected move, scorecard and factor report
+export const DEFAULT_PREMARKET_TEMPLATE: InsertPremarketTemplate = {
+  name: "Default",
+  isDefault: true,
+  sections: [
+    {
+      title: "Climate",
+      fields: [{ key: "climateNotes", label: "General thoughts about what's going on", type: "text", required: false }],
+    },
+    {
+      title: "Economic Events",
+      fields: [
+        { key: "hasEconomicEvents", label: "Economic events today?", type: "boolean", required: false },
+        { key: "economicEvents", label: "Events", type: "text", required: false },
+        {
+          key: "economicImpact",
+          label: "Expected impact",
+          type: "select",
+          required: false,
+          options: [option("high", "High"), option("medium", "Medium"), option("low", "Low")],
+        },
+      ],
+    },
+    {
+      title: "Futures",
+      fields: [...futuresFields("es", "ES"), ...futuresFields("nq", "NQ"), ...futuresFields("rty", "RTY")],
+    },
+    {
+      title: "SPY Analysis",
+      fields: [
+        { key: "callResistance", label: "Call Resistance", type: "level", required: false },
+        { key: "putSupport", label: "Put Support", type: "level", required: false },
+        { key: "hvlLevel", label: "HVL", type: "level", required: false },
+        { key: "vaultLevel", label: "Vault Levels", type: "level", required: false },
+        { key: "vwapLevel", label: "VWAP", type: "level", required: false },
+        { key: "keyLevels", label: "Other key levels", type: "text", required: false },
+        { key: "spyCriticalLevel", label: "Level SPY is trading near", type: "level", required: false },
+        {
+          key: "spyCriticalLevelType",
+          label: "Level type",
+          type: "select",
+          required: false,
+          options: [...LEVEL_TYPE_OPTIONS.slice(0, 3), option("vault_level", "Vault Level"), ...LEVEL_TYPE_OPTIONS.slice(3)],
+        },
+        { key: "spyDirection", label: "Direction", type: "select", required: false, options: [option("long", "Long"), option("short", "Short")] },
+        { key: "spyAnalysis", label: "Notes", type: "text", required: false },
+      ],
+    },
+    {
+      title: "DPOF",
+      fields: [
+        { key: "dpofTrend", label: "DPOF trend", type: "select", required: false, options: POSITIVE_NEGATIVE },
+        { key: "dpofCenterline", label: "Centerline", type: "select", required: false, options: [option("above", "Above"), option("below", "Below")] },
+        { key: "dpofVolumeDivergence", label: "Volume divergence", type: "boolean", required: false },
+        { key: "dpofExpansionDivergence", label: "Expansion divergence", type: "boolean", required: false },
+        { key: "dpofAbsorption", label: "Absorption", type: "boolean", required: false },
+      ],
+    },
+    {
+      title: "Volatility",
+      fields: [
+        { key: "vixValue", label: "VIX", type: "number", required: false, min: 0 },
+        { key: "expectedVolatility", label: "Expected volatility (1-100)", ...RATING },
+        { key: "expectedMoveTicker", label: "Expected move ticker", type: "text", required: false },
+        { key: "referencePrice", label: "Reference price", type: "number", required: false, min: 0 },
+        { key: "impliedVolatility", label: "IV (%), VIX is used when empty", type: "number", required: false, min: 0 },
+      ],
+    },
+    {
+      title: "Volume Profile Gap",
+      fields: [
+        { key: "volumeGapExists", label: "Gap in the volume profile?", type: "boolean", required: false },
+        { key: "volumeGapRR", label: "Gap risk/reward", type: "text", required: false },
+      ],
+    },
+    {
+      title: "Gamma & Delta Exposure",
+      fields: [
+        { key: "gammaEnvironment", label: "Gamma environment", type: "select", required: false, options: POSITIVE_NEGATIVE },
+        { key: "deltaExposureAnalyzed", label: "Delta exposure analyzed", type: "boolean", required: false },
+      ],
+    },
+    {
+      title: "Momentum",
+      fields: [
+        { key: "squeezeMomoDirection", label: "Squeeze momentum", type: "select", required: false, options: POSITIVE_NEGATIVE },
+        { key: "isInSqueeze", label: "In a squeeze", type: "boolean", required: false },
+      ],
+    },
+    {
+      title: "Bond Market",
+      fields: [{
+        key: "bondCorrelation",
+        label: "Bond correlation",
+        type: "select",
+        required: false,
+        options: [
+          option("trending_with", "Trending with SPY"),
+          option("trending_inverse", "Trending inverse SPY"),
+          option("no_correlation", "No noticeable correlation"),
+        ],
+      }],
+    },
+    {
+      title: "Bias",
+      fields: [{
+        key: "bias",
+        label: "Bias",
+        type: "select",
+        required: false,
+        options: [option("bullish", "Bullish"), option("bearish", "Bearish"), option("neutral", "Neutral")],
+      }],
+    },
+  ],
+};
+
+const templateFields = (sections: PremarketSection[]) => sections.flatMap(section => section.fields);
+
+// Default fields by the column they are stored in, for the type and range its values have
+const COLUMN_FIELDS = new Map<string, PremarketField>(
+  templateFields(DEFAULT_PREMARKET_TEMPLATE.sections).map(field => [field.key, field]),
+);
+
+function answerSchema(field: PremarketField): z.ZodTypeAny {
+  switch (field.type) {
+    case "number": {
+      let schema = field.integer ? z.number().int() : z.number();
+      if (field.min !== undefined) schema = schema.min(field.min);
+      if (field.max !== undefined) schema = schema.max(field.max);
+      return schema;
+    }
+    case "select":
+      return z.enum((field.options ?? []).map(choice => choice.value) as [string, ...string[]]);
+    case "boolean":
+      return z.boolean();
+    case "level":
+      return z.array(z.number().positive()).min(1);
+    case "text":
+      return z.string().trim().min(1);
+  }
+}
+
+// Answers must match the template: each value has its field's type, required fields are present and
+// keys the template does not define are rejected
+export function answersSchemaFor(sections: PremarketSection[]) {
+  return z.object(Object.fromEntries(templateFields(sections).map(field => {
+    const schema = answerSchema(field);
+    return [field.key, field.required ? schema : schema.optional()];
+  }))).strict();
+}
+
+// Column values for the answers whose key is a premarket_analysis column of the same type
+export function answersToColumns(answers: PremarketAnswers): Partial<InsertPremarketAnalysis> {
+  const columns: Record<string, unknown> = {};
+  Object.entries(answers).forEach(([key, value]) => {
+    const column = COLUMN_FIELDS.get(key);
+    if (!column) return;
+    const type = column.type;
+    if (type === "level" && Array.isArray(value)) columns[key] = value.join(", ");
+    else if (type === "number" && typeof value === "number") columns[key] = column.integer ? Math.round(value) : value;
+    else if (type === "boolean" && typeof value === "boolean") columns[key] = value;
+    else if ((type === "select" || type === "text") && typeof value === "string") columns[key] = value;
+  });
+  return columns as Partial<InsertPremarketAnalysis>;
+}
+
+// Answers for an analysis saved before templates, read from its columns. Select columns were stored
+// either as the option value or as its label; values that match neither are left out.
+export function legacyAnswers(analysis: Partial<PremarketAnalysis>): PremarketAnswers {
+  const answers: PremarketAnswers = {};
+  templateFields(DEFAULT_PREMARKET_TEMPLATE.sections).forEach(field => {
+    const value = analysis[field.key as keyof PremarketAnalysis];
+    if (value === null || value === undefined || value === "") return;
+    if (field.type === "level") {
+      const prices = parseLevelPrices(String(value));
+      if (prices.length > 0) answers[field.key] = prices;
+    } else if (field.type === "select") {
+      const text = String(value).trim().toLowerCase();
+      const match = field.options?.find(choice => choice.value === text || choice.label.toLowerCase() === text);
+      if (match) answers[field.key] = match.value;
+    } else if (field.type === "number" && typeof value === "number") {
+      answers[field.key] = value;
+    } else if (field.type === "boolean" && typeof value === "boolean") {
+      answers[field.key] = value;
+    } else if (field.type === "text" && typeof value === "string") {
+      answers[field.key] = value;
+    }
+  });
+  return answers;
+}
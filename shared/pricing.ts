@@ -0,0 +1,215 @@
+// European option pricing: Black-Scholes on a dividend-paying underlying and Black-76 on a futures price,
+// with Greeks and an implied volatility solver. Rates, yields and volatilities are annual decimals here;
+// the settings and the trade's IV columns keep them in percent.
+
+import { z } from "zod";
+import { CONTRACT_MULTIPLIER, type PositionLeg } from "./positions";
+import { expirationCloseTime } from "./settlement";
+
+export type PricingModel = "black-scholes" | "black-76";
+
+export interface PricingSettings {
+  riskFreeRate: number; // percent
+  dividendYield: number; // percent
+}
+
+export const PRICING_SETTING_KEYS: Record<keyof PricingSettings, string> = {
+  riskFreeRate: "risk_free_rate",
+  dividendYield: "dividend_yield",
+};
+
+export const pricingSettingsSchema = z.object({
+  riskFreeRate: z.coerce.number().min(-5).max(50),
+  dividendYield: z.coerce.number().min(0).max(50),
+});
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  riskFreeRate: 0,
+  dividendYield: 0,
+};
+
+export interface OptionInputs {
+  type: "calls" | "puts" | string;
+  underlyingPrice: number; // spot for Black-Scholes, futures price for Black-76
+  strikePrice: number;
+  years: number; // time to expiration
+  rate: number;
+  dividendYield: number; // ignored by Black-76
+  volatility: number;
+}
+
+// Per contract share: theta per calendar day, vega per volatility point, rho per rate point
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const MIN_VOLATILITY = 0.0001;
+const MAX_VOLATILITY = 5;
+
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+// Cumulative normal from the Abramowitz and Stegun erf approximation, accurate to about 1e-7
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Years from `asOf` to the 4pm close on the expiration date
+export function yearsToExpiration(asOf: Date | string, expirationDate: Date | string): number {
+  return Math.max(0, (expirationCloseTime(expirationDate).getTime() - new Date(asOf).getTime()) / YEAR_MS);
+}
+
+// Both models are the generalized Black-Scholes formula with a different cost of carry
+function costOfCarry(inputs: OptionInputs, model: PricingModel): number {
+  return model === "black-76" ? 0 : inputs.rate - inputs.dividendYield;
+}
+
+function d1d2(inputs: OptionInputs, carry: number) {
+  const { underlyingPrice, strikePrice, years, volatility } = inputs;
+  const volTime = volatility * Math.sqrt(years);
+  const d1 = (Math.log(underlyingPrice / strikePrice) + (carry + (volatility * volatility) / 2) * years) / volTime;
+  return { d1, d2: d1 - volTime };
+}
+
+// At expiration or without volatility the option is worth its discounted intrinsic value
+const isDegenerate = (inputs: OptionInputs) =>
+  inputs.years <= 0 || inputs.volatility <= 0 || inputs.underlyingPrice <= 0 || inputs.strikePrice <= 0;
+
+export function optionPrice(inputs: OptionInputs, model: PricingModel = "black-scholes"): number {
+  const { type, underlyingPrice, strikePrice, years, rate } = inputs;
+  const carry = costOfCarry(inputs, model);
+  const underlyingDiscount = Math.exp((carry - rate) * years);
+  const strikeDiscount = Math.exp(-rate * years);
+  if (isDegenerate(inputs)) {
+    const forwardIntrinsic = type === "puts"
+      ? strikePrice * strikeDiscount - underlyingPrice * underlyingDiscount
+      : underlyingPrice * underlyingDiscount - strikePrice * strikeDiscount;
+    return Math.max(0, forwardIntrinsic);
+  }
+  const { d1, d2 } = d1d2(inputs, carry);
+  return type === "puts"
+    ? strikePrice * strikeDiscount * normalCdf(-d2) - underlyingPrice * underlyingDiscount * normalCdf(-d1)
+    : underlyingPrice * underlyingDiscount * normalCdf(d1) - strikePrice * strikeDiscount * normalCdf(d2);
+}
+
+export function optionGreeks(inputs: OptionInputs, model: PricingModel = "black-scholes"): Greeks {
+  const { type, underlyingPrice, strikePrice, years, rate, volatility } = inputs;
+  const isPut = type === "puts";
+  if (isDegenerate(inputs)) {
+    const inTheMoney = isPut ? underlyingPrice < strikePrice : underlyingPrice > strikePrice;
+    return { delta: inTheMoney ? (isPut ? -1 : 1) : 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const carry = costOfCarry(inputs, model);
+  const underlyingDiscount = Math.exp((carry - rate) * years);
+  const strikeDiscount = Math.exp(-rate * years);
+  const { d1, d2 } = d1d2(inputs, carry);
+  const density = normalPdf(d1);
+  const sqrtYears = Math.sqrt(years);
+
+  const decay = -(underlyingPrice * underlyingDiscount * density * volatility) / (2 * sqrtYears);
+  const annualTheta = isPut
+    ? decay + (carry - rate) * underlyingPrice * underlyingDiscount * normalCdf(-d1) + rate * strikePrice * strikeDiscount * normalCdf(-d2)
+    : decay - (carry - rate) * underlyingPrice * underlyingDiscount * normalCdf(d1) - rate * strikePrice * strikeDiscount * normalCdf(d2);
+  // The futures price does not move with the rate, so Black-76 only discounts
+  const annualRho = model === "black-76"
+    ? -years * optionPrice(inputs, model)
+    : (isPut ? -1 : 1) * years * strikePrice * strikeDiscount * normalCdf(isPut ? -d2 : d2);
+
+  return {
+    delta: underlyingDiscount * (isPut ? normalCdf(d1) - 1 : normalCdf(d1)),
+    gamma: (underlyingDiscount * density) / (underlyingPrice * volatility * sqrtYears),
+    theta: annualTheta / 365,
+    vega: (underlyingPrice * underlyingDiscount * density * sqrtYears) / 100,
+    rho: annualRho / 100,
+  };
+}
+
+// Volatility that prices the option at `price`, or null when no volatility can: below the
+// discounted intrinsic value or above what a 500% volatility would give
+export function impliedVolatility(
+  price: number,
+  inputs: Omit<OptionInputs, "volatility">,
+  model: PricingModel = "black-scholes",
+): number | null {
+  if (price <= 0 || inputs.years <= 0) return null;
+  const priceAt = (volatility: number) => optionPrice({ ...inputs, volatility }, model);
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (price < priceAt(low) || price > priceAt(high)) return null;
+
+  // Newton steps while they stay inside the bracket, bisection otherwise
+  let volatility = 0.3;
+  for (let i = 0; i < 100; i++) {
+    const difference = priceAt(volatility) - price;
+    if (Math.abs(difference) < 1e-6) return volatility;
+    if (difference > 0) high = volatility;
+    else low = volatility;
+    const vega = optionGreeks({ ...inputs, volatility }, model).vega * 100;
+    const next = vega > 1e-8 ? volatility - difference / vega : NaN;
+    volatility = next > low && next < high ? next : (low + high) / 2;
+  }
+  return volatility;
+}
+
+export interface MarketSnapshot {
+  underlyingPrice: number;
+  asOf: Date | string;
+  volatility: number | null; // used for every leg when set, otherwise each leg's IV is solved from its price
+  rate: number;
+  dividendYield: number;
+}
+
+const legInputs = (leg: PositionLeg, market: Omit<MarketSnapshot, "volatility">) => ({
+  type: leg.type,
+  underlyingPrice: market.underlyingPrice,
+  strikePrice: leg.strikePrice,
+  years: yearsToExpiration(market.asOf, leg.expirationDate),
+  rate: market.rate,
+  dividendYield: market.dividendYield,
+});
+
+const legSize = (leg: PositionLeg) => (leg.side === "sell" ? -1 : 1) * leg.quantity * CONTRACT_MULTIPLIER;
+
+// Volatility of each leg in the snapshot, null for a leg whose price no volatility explains
+export function legVolatilities(legs: PositionLeg[], market: MarketSnapshot, model: PricingModel = "black-scholes"): (number | null)[] {
+  return legs.map(leg => market.volatility ?? impliedVolatility(leg.entryPrice, legInputs(leg, market), model));
+}
+
+// Greeks of a whole position in dollars and shares: delta in shares of the underlying, gamma in shares
+// per $1 move, theta in dollars per day, vega per volatility point and rho per rate point.
+// Null when the volatility of a leg cannot be found from its price.
+export function positionGreeks(legs: PositionLeg[], market: MarketSnapshot, model: PricingModel = "black-scholes"): Greeks | null {
+  const volatilities = legVolatilities(legs, market, model);
+  if (volatilities.some(volatility => volatility === null)) return null;
+  const total: Greeks = { delta: 0, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  legs.forEach((leg, index) => {
+    const greeks = optionGreeks({ ...legInputs(leg, market), volatility: volatilities[index]! }, model);
+    (Object.keys(total) as (keyof Greeks)[]).forEach(key => {
+      total[key] += greeks[key] * legSize(leg);
+    });
+  });
+  return total;
+}
+
+// Theoretical P&L of the position against its entry prices, with each leg priced at its own volatility
+export function positionTheoreticalPnL(
+  legs: PositionLeg[],
+  market: Omit<MarketSnapshot, "volatility">,
+  volatilities: number[],
+  model: PricingModel = "black-scholes",
+): number {
+  return legs.reduce((sum, leg, index) => {
+    const value = optionPrice({ ...legInputs(leg, market), volatility: volatilities[index] }, model);
+    return sum + (value - leg.entryPrice) * legSize(leg);
+  }, 0);
+}
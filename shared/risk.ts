@@ -0,0 +1,37 @@
+// Planned risk and R-multiples. Stops and targets are option prices, like the trade's entry price;
+// one R is the dollar amount the trader planned to lose if the stop was hit.
+
+import { CONTRACT_MULTIPLIER } from "./positions";
+import type { Trade } from "./schema";
+
+type RiskTrade = Pick<Trade, "direction" | "quantity" | "entryPrice" | "plannedStop" | "plannedTarget" | "plannedRisk">;
+
+const roundR = (value: number) => Math.round(value * 100) / 100;
+
+// Dollars between entry and `price`, positive when `price` is in the trade's favor
+function moveValue(trade: RiskTrade, price: number): number {
+  const sign = trade.direction === "short" ? -1 : 1;
+  return sign * (price - trade.entryPrice) * trade.quantity * CONTRACT_MULTIPLIER;
+}
+
+// The planned dollar risk as entered, or the distance to the stop when only a stop was set
+export function plannedRiskDollars(trade: RiskTrade): number | null {
+  if (trade.plannedRisk !== null && trade.plannedRisk > 0) return trade.plannedRisk;
+  if (trade.plannedStop === null) return null;
+  const risk = -moveValue(trade, trade.plannedStop);
+  return risk > 0 ? roundR(risk) : null;
+}
+
+// Reward to risk the trade was planned for, from the target and the planned risk
+export function plannedRMultiple(trade: RiskTrade): number | null {
+  const risk = plannedRiskDollars(trade);
+  if (risk === null || trade.plannedTarget === null) return null;
+  return roundR(moveValue(trade, trade.plannedTarget) / risk);
+}
+
+// Net P&L in units of planned risk
+export function realizedRMultiple(trade: RiskTrade & Pick<Trade, "pnl">): number | null {
+  const risk = plannedRiskDollars(trade);
+  if (risk === null || trade.pnl === null) return null;
+  return roundR(trade.pnl / risk);
+}
@@ -0,0 +1,159 @@
+// Roll chains: a trade opened to replace a closed one links back to it through rolledFromId,
+// so a campaign is its root trade followed by each roll in turn.
+
+import { CONTRACT_MULTIPLIER } from "./positions";
+import type { Trade } from "./schema";
+
+type ChainTrade = Pick<
+  Trade,
+  | "id"
+  | "rolledFromId"
+  | "ticker"
+  | "direction"
+  | "quantity"
+  | "entryPrice"
+  | "netPremium"
+  | "pnl"
+  | "grossPnl"
+  | "commission"
+  | "fees"
+  | "rMultiple"
+  | "openQuantity"
+  | "entryTime"
+  | "exitTime"
+  | "tradeDate"
+>;
+
+export interface RollChain {
+  rootId: number;
+  tradeIds: number[]; // root first, in roll order
+  ticker: string;
+  rolls: number;
+  cumulativePnl: number; // realized net P&L across the chain
+  netCredit: number; // credit collected minus debits paid; negative when the chain cost money
+  daysInTrade: number;
+  openedAt: Date;
+  closedAt: Date | null; // null while the latest trade is still open
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const isOpen = (trade: ChainTrade) => trade.openQuantity > 0;
+
+// Premium paid to open (positive) or received (negative), for trades saved before netPremium existed
+function openingPremium(trade: ChainTrade): number {
+  if (trade.netPremium !== null) return trade.netPremium;
+  const sign = trade.direction === "short" ? -1 : 1;
+  return sign * trade.entryPrice * trade.quantity * CONTRACT_MULTIPLIER;
+}
+
+// Trades in roll order, starting from each trade that was not rolled from another one.
+// A link to a missing trade starts a new chain; a trade rolled into twice keeps the earliest roll.
+export function groupRollChains<T extends ChainTrade>(trades: T[]): T[][] {
+  const byId = new Map(trades.map(trade => [trade.id, trade]));
+  const rolledInto = new Map<number, T>();
+  [...trades]
+    .sort((a, b) => a.id - b.id)
+    .forEach(trade => {
+      if (trade.rolledFromId !== null && byId.has(trade.rolledFromId) && !rolledInto.has(trade.rolledFromId)) {
+        rolledInto.set(trade.rolledFromId, trade);
+      }
+    });
+
+  const chained = new Set(Array.from(rolledInto.values()).map(trade => trade.id));
+  return trades
+    .filter(trade => !chained.has(trade.id))
+    .map(root => {
+      const chain = [root];
+      const seen = new Set([root.id]);
+      let next = rolledInto.get(root.id);
+      while (next && !seen.has(next.id)) {
+        chain.push(next);
+        seen.add(next.id);
+        next = rolledInto.get(next.id);
+      }
+      return chain;
+    });
+}
+
+// Net credit counts a closed trade by its gross P&L (credit in minus debit out)
+// and a trade still open by the premium it was opened for.
+export function summarizeRollChain(chain: ChainTrade[], asOf = new Date()): RollChain {
+  const root = chain[0];
+  const last = chain[chain.length - 1];
+  const openedAt = new Date(root.entryTime);
+  const closedAt = isOpen(last) ? null : new Date(last.exitTime ?? last.tradeDate);
+
+  return {
+    rootId: root.id,
+    tradeIds: chain.map(trade => trade.id),
+    ticker: root.ticker,
+    rolls: chain.length - 1,
+    cumulativePnl: roundCents(chain.reduce((sum, trade) => sum + (trade.pnl ?? 0), 0)),
+    netCredit: roundCents(chain.reduce(
+      (sum, trade) => sum + (isOpen(trade) ? -openingPremium(trade) : trade.grossPnl ?? trade.pnl ?? 0),
+      0,
+    )),
+    daysInTrade: Math.max(1, Math.ceil(((closedAt ?? asOf).getTime() - openedAt.getTime()) / DAY_MS)),
+    openedAt,
+    closedAt,
+  };
+}
+
+// Chains with at least one roll; single trades are left out
+export function buildRollChains(trades: ChainTrade[], asOf = new Date()): RollChain[] {
+  return groupRollChains(trades)
+    .filter(chain => chain.length > 1)
+    .map(chain => summarizeRollChain(chain, asOf));
+}
+
+// One trade per chain for reporting a campaign as a single result: the root's entry, the latest
+// trade's exit and close, and P&L, charges and R summed. Still open until the latest trade is closed.
+export function mergeRollChains<T extends ChainTrade>(trades: T[]): T[] {
+  return groupRollChains(trades).map(chain => {
+    if (chain.length === 1) return chain[0];
+    const root = chain[0];
+    const last = chain[chain.length - 1];
+    const total = (value: (trade: T) => number | null) =>
+      roundCents(chain.reduce((sum, trade) => sum + (value(trade) ?? 0), 0));
+    return {
+      ...last,
+      id: root.id,
+      entryTime: root.entryTime,
+      entryPrice: root.entryPrice,
+      pnl: isOpen(last) ? null : total(trade => trade.pnl),
+      grossPnl: isOpen(last) ? null : total(trade => trade.grossPnl ?? trade.pnl),
+      commission: total(trade => trade.commission),
+      fees: total(trade => trade.fees),
+      rMultiple: isOpen(last) || chain.some(trade => trade.rMultiple === null) ? null : total(trade => trade.rMultiple),
+    };
+  });
+}
+
+// Why `tradeId` cannot be rolled from `rolledFromId`, or null when it can
+export function rollLinkError(trades: ChainTrade[], tradeId: number | null, rolledFromId: number): string | null {
+  const byId = new Map(trades.map(trade => [trade.id, trade]));
+  if (!byId.has(rolledFromId)) {
+    return "The trade it was rolled from does not exist";
+  }
+  if (rolledFromId === tradeId) {
+    return "A trade cannot be rolled from itself";
+  }
+  const sibling = trades.find(trade => trade.rolledFromId === rolledFromId && trade.id !== tradeId);
+  if (sibling) {
+    return `Trade #${rolledFromId} was already rolled into trade #${sibling.id}`;
+  }
+  // Walking back from the parent must not reach the trade being linked
+  const seen = new Set<number>();
+  let ancestor = byId.get(rolledFromId);
+  while (ancestor && !seen.has(ancestor.id)) {
+    if (ancestor.id === tradeId) {
+      return "Linking these trades would make the roll chain loop";
+    }
+    seen.add(ancestor.id);
+    ancestor = ancestor.rolledFromId === null ? undefined : byId.get(ancestor.rolledFromId);
+  }
+  return null;
+}
@@ -24,6 +24,7 @@ export const trades = pgTable("trades", {
   id: serial("id").primaryKey(),
   ticker: text("ticker").notNull(),
   type: text("type").notNull(), // 'calls' or 'puts'
+  direction: text("direction").default("long").notNull(), // 'long' (bought to open) or 'short' (sold to open)
   quantity: integer("quantity").notNull(),
   entryPrice: real("entry_price").notNull(),
   exitPrice: real("exit_price"),
@@ -31,12 +32,103 @@ export const trades = pgTable("trades", {
   exitTime: timestamp("exit_time"),
   strikePrice: real("strike_price").notNull(),
   expirationDate: timestamp("expiration_date").notNull(),
-  pnl: real("pnl"),
+  pnl: real("pnl"), // net of commission and fees
+  grossPnl: real("gross_pnl"),
+  commission: real("commission"),
+  fees: real("fees"), // per-order and regulatory fees
   entryReason: text("entry_reason"),
   exitReason: text("exit_reason"),
   playbookId: integer("playbook_id"),
   timeClassification: text("time_classification"), // 'Cash Open', 'Euro Close', 'Power Hour', 'Other'
+  tags: jsonb("tags").$type<string[]>(), // free-form labels for filtering analytics
   tradeDate: timestamp("trade_date").notNull(),
+  
+  // Position risk profile, derived from the legs on the server
+  structure: text("structure").default("single").notNull(), // 'single', 'vertical', 'straddle', 'strangle', 'calendar', 'butterfly', 'iron_condor', 'custom'
+  netPremium: real("net_premium"), // positive = net debit paid, negative = net credit received
+  maxProfit: real("max_profit"), // null = unlimited
+  maxLoss: real("max_loss"), // null = unlimited
+  breakevens: jsonb("breakevens").$type<number[]>(),
+  
+  // Derived from the executions when the trade was scaled in or out
+  openQuantity: integer("open_quantity").default(0).notNull(),
+  holdingMinutes: integer("holding_minutes"),
+  
+  // How the position was closed, set once nothing is left open
+  closeReason: text("close_reason"), // 'closed', 'expired' (worthless), 'assigned', 'exercised'
+  expirationFlaggedAt: timestamp("expiration_flagged_at"), // set while the position is still open after its options expired
+  
+  // Roll chain: the closed trade this one replaced
+  rolledFromId: integer("rolled_from_id"),
+  
+  // Premarket trade idea this trade executed; trades without one were unplanned
+  tradeIdeaId: integer("trade_idea_id"),
+  keyLevelId: integer("key_level_id"), // the key level the trade was taken off
+  economicEventId: integer("economic_event_id"), // the economic event the trade was entered around, tagged on the server
+  importBatchId: integer("import_batch_id"), // the broker import that created the trade, null when entered by hand
+  
+  // Trade plan; stop and target are option prices, risk is the dollar amount one R stands for
+  plannedStop: real("planned_stop"),
+  plannedTarget: real("planned_target"),
+  plannedRisk: real("planned_risk"),
+  rMultiple: real("r_multiple"), // realized net P&L in R, derived on the server
+  
+  // Underlying price and implied volatility (percent) when the position was opened and closed
+  underlyingEntryPrice: real("underlying_entry_price"),
+  underlyingExitPrice: real("underlying_exit_price"),
+  entryIv: real("entry_iv"),
+  exitIv: real("exit_iv"),
+  
+  // Position Greeks when opened, derived on the server from the underlying price and IV at entry:
+  // delta and gamma in shares, theta in dollars per day, vega per IV point, rho per rate point
+  entryDelta: real("entry_delta"),
+  entryGamma: real("entry_gamma"),
+  entryTheta: real("entry_theta"),
+  entryVega: real("entry_vega"),
+  entryRho: real("entry_rho"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Individual contracts of a multi-leg position; single-contract trades have no legs
+export const tradeLegs = pgTable("trade_legs", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id").notNull(),
+  side: text("side").notNull(), // 'buy' or 'sell'
+  type: text("type").notNull(), // 'calls' or 'puts'
+  strikePrice: real("strike_price").notNull(),
+  expirationDate: timestamp("expiration_date").notNull(),
+  quantity: integer("quantity").notNull(),
+  entryPrice: real("entry_price").notNull(),
+  exitPrice: real("exit_price"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Individual fills of a trade; entry, exit and P&L are averaged from these when present
+export const tradeExecutions = pgTable("trade_executions", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id").notNull(),
+  side: text("side").notNull(), // 'buy' or 'sell'
+  quantity: integer("quantity").notNull(),
+  price: real("price").notNull(),
+  executedAt: timestamp("executed_at").notNull(),
+  commission: real("commission"),
+  fees: real("fees"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Shares delivered when an option position is assigned or exercised
+export const stockPositions = pgTable("stock_positions", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id").notNull(), // option trade that settled into the shares
+  ticker: text("ticker").notNull(),
+  direction: text("direction").default("long").notNull(), // 'long' (shares bought) or 'short' (shares sold)
+  shares: integer("shares").notNull(),
+  entryPrice: real("entry_price").notNull(), // underlying price at settlement
+  entryTime: timestamp("entry_time").notNull(),
+  exitPrice: real("exit_price"),
+  exitTime: timestamp("exit_time"),
+  pnl: real("pnl"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -56,6 +148,15 @@ export const premarketAnalysis = pgTable("premarket_analysis", {
   gammaEnvironment: text("gamma_environment"), // 'positive' or 'negative'
   bias: text("bias"), // 'bullish', 'bearish', 'neutral'
   
+  // Expected move: reference price of the chosen underlying and its IV (percent, VIX when not set),
+  // and the range and close the day actually traded, entered after the close
+  expectedMoveTicker: text("expected_move_ticker"),
+  referencePrice: real("reference_price"),
+  impliedVolatility: real("implied_volatility"),
+  realizedHigh: real("realized_high"),
+  realizedLow: real("realized_low"),
+  realizedClose: real("realized_close"),
+  
   // Futures Analysis
   esFuturesLevel: text("es_futures_level"),
   esFuturesLevelType: text("es_futures_level_type"), // 'call_resistance', 'put_support', 'hvl', 'vwap', 'other'
@@ -107,6 +208,94 @@ export const premarketAnalysis = pgTable("premarket_analysis", {
   tradeIdea2: text("trade_idea_2"),
   tradeIdea3: text("trade_idea_3"),
   
+  // Checklist the analysis was filled in with and its typed answers, keyed by field key
+  templateId: integer("template_id"),
+  answers: jsonb("answers").$type<PremarketAnswers>(),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// User-defined premarket checklists. Fields keyed by a premarket_analysis column are also written to
+// that column when an analysis is saved.
+export const premarketTemplates = pgTable("premarket_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  sections: jsonb("sections").$type<PremarketSection[]>().notNull(),
+  isDefault: boolean("is_default").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Trade ideas planned in a premarket analysis, and what became of them
+export const tradeIdeas = pgTable("trade_ideas", {
+  id: serial("id").primaryKey(),
+  premarketAnalysisId: integer("premarket_analysis_id").notNull(),
+  ticker: text("ticker").notNull(),
+  type: text("type").notNull(), // 'calls' or 'puts'
+  entryLevel: real("entry_level"), // underlying price the idea triggers at
+  riskReward: real("risk_reward"), // planned reward per unit of risk
+  takeProfit1: real("take_profit_1"),
+  takeProfit2: real("take_profit_2"),
+  confidence: integer("confidence"), // 1-100
+  positionSizing: text("position_sizing"), // 'Scaling in' or 'Go in generously'
+  status: text("status").default("planned").notNull(), // 'planned', 'taken', 'skipped' or 'invalidated'
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One price per row, so levels can be charted across sessions; rows from a premarket analysis are
+// kept in step with its level fields
+export const keyLevels = pgTable("key_levels", {
+  id: serial("id").primaryKey(),
+  premarketAnalysisId: integer("premarket_analysis_id"), // null for levels entered on their own
+  date: timestamp("date").notNull(),
+  underlying: text("underlying").notNull(),
+  levelType: text("level_type").notNull(), // 'call_resistance', 'put_support', 'hvl', 'vault' or 'vwap'
+  price: real("price").notNull(),
+  reaction: text("reaction"), // 'respected', 'broken' or 'untested'; overrides the one read from the day's range
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Imported from an economic calendar; all-day events are stored at noon of their day
+export const economicEvents = pgTable("economic_events", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  eventTime: timestamp("event_time").notNull(),
+  allDay: boolean("all_day").default(false).notNull(),
+  impact: text("impact").notNull(), // 'high', 'medium' or 'low'
+  category: text("category").notNull(), // 'CPI', 'FOMC', 'NFP', ... or 'Other'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Risk rules a logged trade broke; kept for review after the trade is edited or deleted
+export const riskBreaches = pgTable("risk_breaches", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id"), // null when the trade was rejected
+  tradeDate: timestamp("trade_date").notNull(),
+  ticker: text("ticker").notNull(),
+  rule: text("rule").notNull(), // 'maxDailyLoss', 'maxTradesPerDay', 'maxContractsPerTrade' or 'maxConsecutiveLosses'
+  limit: real("limit").notNull(),
+  actual: real("actual").notNull(),
+  message: text("message").notNull(),
+  action: text("action").notNull(), // 'warned' or 'rejected'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One committed broker file; undoing it deletes the trades it created
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  broker: text("broker").notNull(), // adapter id, e.g. 'schwab' or 'ibkr'
+  fileName: text("file_name"),
+  fileHash: text("file_hash").notNull(), // SHA-256 of the file content
+  tradeCount: integer("trade_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Column mapping saved for a CSV layout no adapter reads; applied again to files with the same header row
+export const importProfiles = pgTable("import_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  headerSignature: text("header_signature").notNull(), // lowercased header names joined with '|'
+  mapping: jsonb("mapping").$type<ColumnMapping>().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -143,20 +332,93 @@ export const settings = pgTable("settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const insertTradeLegSchema = createInsertSchema(tradeLegs).omit({
+  id: true,
+  tradeId: true,
+  createdAt: true,
+}).extend({
+  side: z.enum(["buy", "sell"]),
+  type: z.enum(["calls", "puts"]),
+  expirationDate: z.coerce.date(),
+  exitPrice: z.coerce.number().optional().nullable(),
+});
+
+export const insertTradeExecutionSchema = createInsertSchema(tradeExecutions).omit({
+  id: true,
+  tradeId: true,
+  createdAt: true,
+}).extend({
+  side: z.enum(["buy", "sell"]),
+  quantity: z.coerce.number().int().positive(),
+  price: z.coerce.number().nonnegative(),
+  executedAt: z.coerce.date(),
+  commission: z.coerce.number().nonnegative().optional().nullable(),
+  fees: z.coerce.number().nonnegative().optional().nullable(),
+});
+
 export const insertTradeSchema = createInsertSchema(trades).omit({
   id: true,
   createdAt: true,
+  netPremium: true,
+  maxProfit: true,
+  maxLoss: true,
+  breakevens: true,
+  openQuantity: true,
+  holdingMinutes: true,
+  grossPnl: true,
+  expirationFlaggedAt: true,
+  rMultiple: true,
+  economicEventId: true,
+  importBatchId: true,
+  entryDelta: true,
+  entryGamma: true,
+  entryTheta: true,
+  entryVega: true,
+  entryRho: true,
 }).extend({
+  direction: z.enum(["long", "short"]).optional(),
+  closeReason: z.enum(["closed", "expired", "assigned", "exercised"]).optional().nullable(),
+  rolledFromId: z.coerce.number().int().positive().optional().nullable(),
+  tradeIdeaId: z.coerce.number().int().positive().optional().nullable(),
+  keyLevelId: z.coerce.number().int().positive().optional().nullable(),
+  tags: z.array(z.string().trim().min(1)).optional().nullable(),
+  plannedStop: z.coerce.number().nonnegative().optional().nullable(),
+  plannedTarget: z.coerce.number().nonnegative().optional().nullable(),
+  plannedRisk: z.coerce.number().positive().optional().nullable(),
+  underlyingEntryPrice: z.coerce.number().positive().optional().nullable(),
+  underlyingExitPrice: z.coerce.number().positive().optional().nullable(),
+  entryIv: z.coerce.number().nonnegative().optional().nullable(),
+  exitIv: z.coerce.number().nonnegative().optional().nullable(),
   entryTime: z.coerce.date(),
   exitTime: z.coerce.date().optional(),
   expirationDate: z.coerce.date(),
   tradeDate: z.coerce.date(),
   pnl: z.coerce.number().optional(),
+  commission: z.coerce.number().nonnegative().optional().nullable(),
+  fees: z.coerce.number().nonnegative().optional().nullable(),
   exitPrice: z.coerce.number().optional(),
   playbookId: z.coerce.number().optional(),
   usePlaybook: z.boolean().optional(),
+  legs: z.array(insertTradeLegSchema).optional(),
+  executions: z.array(insertTradeExecutionSchema).optional(),
 });
 
+export const insertStockPositionSchema = createInsertSchema(stockPositions).omit({
+  id: true,
+  createdAt: true,
+  pnl: true,
+}).extend({
+  direction: z.enum(["long", "short"]),
+  shares: z.coerce.number().int().positive(),
+  entryPrice: z.coerce.number().nonnegative(),
+  entryTime: z.coerce.date(),
+  exitPrice: z.coerce.number().nonnegative().optional().nullable(),
+  exitTime: z.coerce.date().optional().nullable(),
+});
+
+// Numbers, yes/no, select values and free text; a level answer is its list of prices
+export const premarketAnswerSchema = z.union([z.number(), z.boolean(), z.string(), z.array(z.number())]);
+
 export const insertPremarketAnalysisSchema = createInsertSchema(premarketAnalysis).omit({
   id: true,
   createdAt: true,
@@ -173,6 +435,146 @@ export const insertPremarketAnalysisSchema = createInsertSchema(premarketAnalysi
   vaultLevel: z.string().optional().nullable(),
   vwapLevel: z.string().optional().nullable(),
   spyCriticalLevel: z.string().optional(),
+  expectedMoveTicker: z.string().trim().toUpperCase().optional().nullable(),
+  referencePrice: z.coerce.number().positive().optional().nullable(),
+  impliedVolatility: z.coerce.number().positive().optional().nullable(),
+  realizedHigh: z.coerce.number().positive().optional().nullable(),
+  realizedLow: z.coerce.number().positive().optional().nullable(),
+  realizedClose: z.coerce.number().positive().optional().nullable(),
+  templateId: z.coerce.number().int().positive().optional().nullable(),
+  answers: z.record(premarketAnswerSchema).optional().nullable(),
+});
+
+export const PREMARKET_FIELD_TYPES = ["number", "select", "boolean", "level", "text"] as const;
+
+export const premarketFieldSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Keys must start with a letter and contain only letters, digits and underscores"),
+  label: z.string().trim().min(1),
+  type: z.enum(PREMARKET_FIELD_TYPES),
+  required: z.boolean().default(false),
+  options: z.array(z.object({ value: z.string().trim().min(1), label: z.string().trim().min(1) })).optional(), // select
+  min: z.number().optional(), // number
+  max: z.number().optional(),
+  integer: z.boolean().optional(),
+}).refine(field => field.type !== "select" || (field.options?.length ?? 0) > 0, {
+  message: "Select fields need at least one option",
+  path: ["options"],
+});
+
+export const premarketSectionSchema = z.object({
+  title: z.string().trim().min(1),
+  fields: z.array(premarketFieldSchema).min(1),
+});
+
+export const insertPremarketTemplateSchema = createInsertSchema(premarketTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  sections: z.array(premarketSectionSchema).min(1),
+  isDefault: z.boolean().optional(),
+}).refine(template => {
+  const keys = template.sections.flatMap(section => section.fields.map(field => field.key));
+  return new Set(keys).size === keys.length;
+}, { message: "Field keys must be unique within a template", path: ["sections"] });
+
+export const TRADE_IDEA_STATUSES = ["planned", "taken", "skipped", "invalidated"] as const;
+
+export const insertTradeIdeaSchema = createInsertSchema(tradeIdeas).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  ticker: z.string().trim().toUpperCase().min(1),
+  type: z.enum(["calls", "puts"]),
+  entryLevel: z.coerce.number().positive().optional().nullable(),
+  riskReward: z.coerce.number().positive().optional().nullable(),
+  takeProfit1: z.coerce.number().positive().optional().nullable(),
+  takeProfit2: z.coerce.number().positive().optional().nullable(),
+  confidence: z.coerce.number().int().min(1).max(100).optional().nullable(),
+  status: z.enum(TRADE_IDEA_STATUSES).optional(),
+});
+
+// An idea sent with the premarket analysis it belongs to
+export const plannedTradeIdeaSchema = insertTradeIdeaSchema.omit({ premarketAnalysisId: true });
+
+export const KEY_LEVEL_TYPES = ["call_resistance", "put_support", "hvl", "vault", "vwap"] as const;
+export const KEY_LEVEL_REACTIONS = ["respected", "broken", "untested"] as const;
+
+export const insertKeyLevelSchema = createInsertSchema(keyLevels).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  date: z.coerce.date(),
+  underlying: z.string().trim().toUpperCase().min(1),
+  levelType: z.enum(KEY_LEVEL_TYPES),
+  price: z.coerce.number().positive(),
+  reaction: z.enum(KEY_LEVEL_REACTIONS).optional().nullable(),
+});
+
+export const ECONOMIC_IMPACTS = ["high", "medium", "low"] as const;
+
+export const insertEconomicEventSchema = createInsertSchema(economicEvents).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  eventTime: z.coerce.date(),
+  allDay: z.boolean().optional(),
+  impact: z.enum(ECONOMIC_IMPACTS),
+  category: z.string().trim().min(1),
+});
+
+export const RISK_BREACH_ACTIONS = ["warned", "rejected"] as const;
+
+export const insertRiskBreachSchema = createInsertSchema(riskBreaches).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  tradeDate: z.coerce.date(),
+  action: z.enum(RISK_BREACH_ACTIONS),
+});
+
+export const insertImportBatchSchema = createInsertSchema(importBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const IMPORT_SYMBOL_FORMATS = ["occ", "columns"] as const;
+export const IMPORT_DATE_FORMATS = ["MM/DD/YYYY", "DD/MM/YYYY", "YYYY-MM-DD"] as const;
+export const IMPORT_NUMBER_FORMATS = ["1,234.56", "1.234,56"] as const;
+
+// The header each trade field is read from. The contract is either one option symbol or separate
+// underlying, expiration, strike and call/put columns. Without a side column, negative quantities are sells.
+export const columnMappingSchema = z.object({
+  symbolFormat: z.enum(IMPORT_SYMBOL_FORMATS),
+  symbol: z.string().optional(),
+  underlying: z.string().optional(),
+  expiration: z.string().optional(),
+  strike: z.string().optional(),
+  callPut: z.string().optional(),
+  side: z.string().optional(),
+  quantity: z.string().min(1),
+  price: z.string().min(1),
+  date: z.string().min(1), // may hold the time as well
+  time: z.string().optional(),
+  commission: z.string().optional(),
+  fees: z.string().optional(),
+  dateFormat: z.enum(IMPORT_DATE_FORMATS),
+  numberFormat: z.enum(IMPORT_NUMBER_FORMATS),
+}).refine(mapping => mapping.symbolFormat === "occ"
+  ? !!mapping.symbol
+  : !!(mapping.underlying && mapping.expiration && mapping.strike && mapping.callPut), {
+  message: "Map the option symbol, or the underlying, expiration, strike and call/put columns",
+  path: ["symbolFormat"],
+});
+
+export const insertImportProfileSchema = createInsertSchema(importProfiles).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  headerSignature: z.string().min(1),
+  mapping: columnMappingSchema,
 });
 
 export const insertTradeAnalysisSchema = createInsertSchema(tradeAnalysis).omit({
@@ -200,8 +602,38 @@ export const insertSettingsSchema = createInsertSchema(settings).omit({
 
 export type Trade = typeof trades.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
+export type TradeLeg = typeof tradeLegs.$inferSelect;
+export type InsertTradeLeg = z.infer<typeof insertTradeLegSchema>;
+export type TradeExecution = typeof tradeExecutions.$inferSelect;
+export type InsertTradeExecution = z.infer<typeof insertTradeExecutionSchema>;
+export type StockPosition = typeof stockPositions.$inferSelect;
+export type InsertStockPosition = z.infer<typeof insertStockPositionSchema>;
 export type PremarketAnalysis = typeof premarketAnalysis.$inferSelect;
 export type InsertPremarketAnalysis = z.infer<typeof insertPremarketAnalysisSchema>;
+export type PremarketFieldType = typeof PREMARKET_FIELD_TYPES[number];
+export type PremarketField = z.infer<typeof premarketFieldSchema>;
+export type PremarketSection = z.infer<typeof premarketSectionSchema>;
+export type PremarketAnswer = z.infer<typeof premarketAnswerSchema>;
+export type PremarketAnswers = Record<string, PremarketAnswer>;
+export type PremarketTemplate = typeof premarketTemplates.$inferSelect;
+export type InsertPremarketTemplate = z.infer<typeof insertPremarketTemplateSchema>;
+export type TradeIdea = typeof tradeIdeas.$inferSelect;
+export type InsertTradeIdea = z.infer<typeof insertTradeIdeaSchema>;
+export type TradeIdeaStatus = typeof TRADE_IDEA_STATUSES[number];
+export type KeyLevel = typeof keyLevels.$inferSelect;
+export type InsertKeyLevel = z.infer<typeof insertKeyLevelSchema>;
+export type KeyLevelType = typeof KEY_LEVEL_TYPES[number];
+export type KeyLevelReaction = typeof KEY_LEVEL_REACTIONS[number];
+export type EconomicEvent = typeof economicEvents.$inferSelect;
+export type InsertEconomicEvent = z.infer<typeof insertEconomicEventSchema>;
+export type EconomicImpact = typeof ECONOMIC_IMPACTS[number];
+export type RiskBreach = typeof riskBreaches.$inferSelect;
+export type InsertRiskBreach = z.infer<typeof insertRiskBreachSchema>;
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportBatch = z.infer<typeof insertImportBatchSchema>;
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type InsertImportProfile = z.infer<typeof insertImportProfileSchema>;
 export type TradeAnalysis = typeof tradeAnalysis.$inferSelect;
 export type InsertTradeAnalysis = z.infer<typeof insertTradeAnalysisSchema>;
 export type PlaybookStrategy = typeof playbookStrategies.$inferSelect;
@@ -0,0 +1,44 @@
+// Plan-vs-execution scorecard: how a day's premarket plan compared with the market and with the
+// trades taken. Built on the server, shared with the views that render it.
+
+import { z } from "zod";
+
+export type MarketDirection = "bullish" | "bearish" | "neutral";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const scorecardFiltersSchema = z.object({
+  from: isoDate.optional(), // analysis date, inclusive
+  to: isoDate.optional(), // analysis date, inclusive
+});
+
+export type ScorecardFilters = z.infer<typeof scorecardFiltersSchema>;
+
+export interface TradeScore {
+  tradeId: number;
+  ticker: string;
+  direction: MarketDirection; // bullish or bearish exposure at entry
+  withPlan: boolean | null; // null when the plan had no direction
+  againstPlan: boolean; // exposure opposite the planned direction
+  atLevel: boolean | null; // entered within tolerance of a planned key level; null when it cannot be checked
+  level: string | null; // label of the level it was entered at
+  pnl: number | null;
+}
+
+export interface DailyScorecard {
+  date: string; // YYYY-MM-DD
+  analysisId: number;
+  bias: MarketDirection | null;
+  plannedDirection: MarketDirection | null; // SPY direction when set, otherwise a directional bias
+  gammaEnvironment: "positive" | "negative" | null;
+  dayResult: MarketDirection | null; // close against the reference price; null until the close is entered
+  dayMove: number | null; // close - reference price
+  biasMatched: boolean | null;
+  trades: TradeScore[];
+  tradesWithPlan: number;
+  tradesAgainstPlan: number;
+  tradesAtLevel: number;
+  pnl: number;
+  againstPlanPnL: number;
+  score: number | null; // 0-100, the average of the bias, direction and level checks that apply
+}
@@ -0,0 +1,102 @@
+// Settles option positions that are still open at expiration. A contract that expired out of the
+// money closes at zero; one in the money closes at its intrinsic value and is delivered as shares
+// at the underlying price, so the option keeps the P&L it earned and the shares start at market value.
+
+import { z } from "zod";
+import { CONTRACT_MULTIPLIER, intrinsicValue, type PositionLeg } from "./positions";
+import type { Trade } from "./schema";
+
+export type CloseReason = "closed" | "expired" | "assigned" | "exercised";
+
+export const CLOSE_REASON_LABELS: Record<CloseReason, string> = {
+  closed: "Closed",
+  expired: "Expired Worthless",
+  assigned: "Assigned",
+  exercised: "Exercised",
+};
+
+export const tradeSettlementSchema = z.object({
+  closeReason: z.enum(["expired", "assigned", "exercised"]),
+  underlyingPrice: z.coerce.number().positive().optional(),
+}).refine(settlement => settlement.closeReason === "expired" || settlement.underlyingPrice !== undefined, {
+  message: "Underlying price is required for assignment and exercise",
+  path: ["underlyingPrice"],
+});
+
+export type TradeSettlement = z.infer<typeof tradeSettlementSchema>;
+
+// Closes that happened through settlement rather than a closing order
+export function isSettled(closeReason: string | null | undefined): boolean {
+  return closeReason === "expired" || closeReason === "assigned" || closeReason === "exercised";
+}
+
+// Options stop trading at the 4pm close on their expiration date
+export function expirationCloseTime(expirationDate: Date | string): Date {
+  const close = new Date(expirationDate);
+  close.setHours(16, 0, 0, 0);
+  return close;
+}
+
+export function isPastExpiration(expirationDate: Date | string, asOf: Date): boolean {
+  return expirationCloseTime(expirationDate).getTime() < asOf.getTime();
+}
+
+const expiryKey = (expirationDate: Date | string) => new Date(expirationDate).toDateString();
+
+// Contracts left open on the trade's expiration date. Legs of a calendar that expire
+// later stay open; a trade without legs is one contract with its open quantity.
+export function openPositionLegs(
+  trade: Pick<Trade, "direction" | "type" | "strikePrice" | "expirationDate" | "openQuantity" | "entryPrice">,
+  legs: PositionLeg[],
+): PositionLeg[] {
+  if (legs.length > 0) {
+    return legs.filter(leg =>
+      (leg.exitPrice === null || leg.exitPrice === undefined) &&
+      expiryKey(leg.expirationDate) === expiryKey(trade.expirationDate));
+  }
+  if (trade.openQuantity === 0) return [];
+  return [{
+    side: trade.direction === "short" ? "sell" : "buy",
+    type: trade.type,
+    strikePrice: trade.strikePrice,
+    expirationDate: trade.expirationDate,
+    quantity: trade.openQuantity,
+    entryPrice: trade.entryPrice,
+  }];
+}
+
+export function settlementPrice(leg: PositionLeg, settlement: TradeSettlement): number {
+  if (settlement.closeReason === "expired" || settlement.underlyingPrice === undefined) return 0;
+  return Math.round(intrinsicValue(leg, settlement.underlyingPrice) * 100) / 100;
+}
+
+// Shares delivered by the in-the-money legs: positive when shares are bought.
+// A call holder and a put writer receive shares; a put holder and a call writer deliver them.
+export function settledShares(legs: PositionLeg[], settlement: TradeSettlement): number {
+  return legs.reduce((sum, leg) => {
+    if (settlementPrice(leg, settlement) === 0) return sum;
+    const sign = (leg.type === "puts" ? -1 : 1) * (leg.side === "sell" ? -1 : 1);
+    return sum + sign * leg.quantity * CONTRACT_MULTIPLIER;
+  }, 0);
+}
+
+// Why the open legs cannot be settled this way, or null when they can
+export function settlementError(legs: PositionLeg[], settlement: TradeSettlement): string | null {
+  if (legs.length === 0) {
+    return "Nothing is left open at this expiration";
+  }
+  if (settlement.closeReason === "expired") {
+    return null;
+  }
+  const inTheMoney = legs.filter(leg => settlementPrice(leg, settlement) > 0);
+  if (inTheMoney.length === 0) {
+    return `Every contract is out of the money at $${settlement.underlyingPrice}; settle it as expired worthless`;
+  }
+  if (settlement.closeReason === "assigned" && !inTheMoney.some(leg => leg.side === "sell")) {
+    return "Only short contracts can be assigned";
+  }
+  if (settlement.closeReason === "exercised" && !inTheMoney.some(leg => leg.side !== "sell")) {
+    return "Only long contracts can be exercised";
+  }
+  return null;
+}